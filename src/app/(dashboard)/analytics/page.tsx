@@ -1,8 +1,13 @@
 'use client'
 
-import { BarChart3 } from 'lucide-react'
+import { useState } from 'react'
+import { BarChart3, Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { ConversationExportDialog } from '@/components/analytics/conversation-export-dialog'
 
 export default function AnalyticsPage() {
+  const [exportOpen, setExportOpen] = useState(false)
+
   return (
     <div className="flex flex-1 flex-col items-center justify-center gap-6 p-6 text-center">
       <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted">
@@ -18,6 +23,11 @@ export default function AnalyticsPage() {
       <div className="flex items-center gap-2 rounded-lg border border-dashed px-4 py-2 text-sm text-muted-foreground">
         Coming soon
       </div>
+      <Button variant="outline" onClick={() => setExportOpen(true)}>
+        <Download className="size-4" />
+        Export conversations
+      </Button>
+      <ConversationExportDialog open={exportOpen} onOpenChange={setExportOpen} />
     </div>
   )
 }
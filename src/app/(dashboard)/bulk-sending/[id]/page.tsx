@@ -0,0 +1,217 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CalendarClock,
+  Loader2,
+  Pause,
+  Play,
+  Send,
+  X,
+} from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  CAMPAIGN_STATUS_BADGES,
+  CampaignProgress,
+} from '@/components/campaigns/campaign-progress'
+import { RecipientsTable } from '@/components/campaigns/recipients-table'
+import { useRealtimeCampaign } from '@/hooks/use-realtime-campaign'
+import { useAuthStore } from '@/stores/auth-store'
+import { hasPermission } from '@/lib/permissions'
+import { canTransitionCampaign, type CampaignAction } from '@/lib/campaigns/status'
+import { cn } from '@/lib/utils'
+import type { Campaign } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+export default function CampaignPage() {
+  const { id } = useParams<{ id: string }>()
+  const user = useAuthStore((s) => s.user)
+  const canManage = user ? hasPermission(user.role, 'manage_campaigns') : false
+
+  const [campaign, setCampaign] = useState<Campaign | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [pendingAction, setPendingAction] = useState<CampaignAction | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function loadCampaign() {
+      try {
+        const res = await fetch(`/api/campaigns/${id}`)
+        const body = await res.json()
+        if (cancelled) return
+        if (!res.ok) {
+          setError(body.error || 'Failed to load campaign')
+          return
+        }
+        setCampaign(body.data)
+      } catch (err) {
+        console.error('[CampaignPage] fetch error:', err)
+        if (!cancelled) setError('Failed to load campaign')
+      }
+    }
+
+    loadCampaign()
+    return () => {
+      cancelled = true
+    }
+  }, [id])
+
+  // Counters and status stream in while the dispatcher sends
+  useRealtimeCampaign(id, (updated) => {
+    setCampaign((current) => (current ? { ...current, ...updated } : current))
+  })
+
+  const runAction = async (action: CampaignAction) => {
+    if (
+      action === 'cancel' &&
+      !window.confirm('Cancel this campaign? Pending recipients will not be sent.')
+    ) {
+      return
+    }
+    setPendingAction(action)
+    try {
+      const res = await fetch(`/api/campaigns/${id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      })
+      const body = await res.json()
+      if (!res.ok) {
+        toast.error(body.error || `Failed to ${action} campaign`)
+        return
+      }
+      setCampaign(body.data)
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-1 flex-col items-center justify-center gap-4 p-6 text-center">
+        <p className="text-sm text-muted-foreground">{error}</p>
+        <Button variant="outline" asChild>
+          <Link href="/bulk-sending">Back to campaigns</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  if (!campaign) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <Loader2 className="size-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const status = CAMPAIGN_STATUS_BADGES[campaign.status]
+  const can = (to: Campaign['status']) => canManage && canTransitionCampaign(campaign.status, to)
+
+  const actionButton = (
+    action: CampaignAction,
+    label: string,
+    icon: React.ReactNode,
+    variant: 'default' | 'outline' = 'outline'
+  ) => (
+    <Button
+      variant={variant}
+      size="sm"
+      onClick={() => runAction(action)}
+      disabled={pendingAction !== null}
+    >
+      {pendingAction === action ? <Loader2 className="size-4 animate-spin" /> : icon}
+      {label}
+    </Button>
+  )
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="flex items-start gap-3">
+          <Button variant="ghost" size="icon-sm" asChild>
+            <Link href="/bulk-sending">
+              <ArrowLeft className="size-4" />
+            </Link>
+          </Button>
+          <div>
+            <div className="flex items-center gap-2">
+              <h1 className="text-2xl font-bold tracking-tight">{campaign.name}</h1>
+              <Badge variant="outline" className={cn('text-[10px] h-5', status.className)}>
+                {status.label}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              <span className="font-mono">{campaign.template_name}</span> ·{' '}
+              {campaign.batch_size} messages every {campaign.batch_interval_seconds}s
+              {campaign.status === 'scheduled' && campaign.scheduled_at && (
+                <> · starts {format(new Date(campaign.scheduled_at), "dd/MM/yyyy 'at' HH:mm")}</>
+              )}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {campaign.status === 'draft' && can('running') &&
+            actionButton('start', 'Start', <Send className="size-4" />, 'default')}
+          {campaign.status === 'scheduled' && can('draft') &&
+            actionButton('unschedule', 'Unschedule', <CalendarClock className="size-4" />)}
+          {campaign.status === 'scheduled' && can('running') &&
+            actionButton('start', 'Send now', <Send className="size-4" />, 'default')}
+          {can('paused') && actionButton('pause', 'Pause', <Pause className="size-4" />)}
+          {campaign.status === 'paused' && can('running') &&
+            actionButton('resume', 'Resume', <Play className="size-4" />, 'default')}
+          {can('cancelled') && actionButton('cancel', 'Cancel', <X className="size-4" />)}
+        </div>
+      </div>
+
+      {campaign.last_error && (
+        <div className="flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-700 dark:text-red-400">
+          <AlertTriangle className="mt-0.5 size-4 flex-shrink-0" />
+          <span>{campaign.last_error}</span>
+        </div>
+      )}
+
+      {/* Progress */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Progress</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {campaign.total_recipients > 0 ? (
+            <CampaignProgress campaign={campaign} />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Recipients are gathered from the audience when the campaign starts.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Recipients */}
+      {campaign.total_recipients > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Recipients</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RecipientsTable campaignId={campaign.id} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
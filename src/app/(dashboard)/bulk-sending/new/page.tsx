@@ -0,0 +1,7 @@
+'use client'
+
+import { CampaignWizard } from '@/components/campaigns/campaign-wizard'
+
+export default function NewCampaignPage() {
+  return <CampaignWizard />
+}
@@ -1,23 +1,211 @@
 'use client'
 
-import { Send } from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format, formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import { MoreHorizontal, Plus, Send, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  CAMPAIGN_STATUS_BADGES,
+  CampaignProgress,
+} from '@/components/campaigns/campaign-progress'
+import { useAuthStore } from '@/stores/auth-store'
+import { hasPermission } from '@/lib/permissions'
+import { cn } from '@/lib/utils'
+import type { Campaign } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+const STATUS_FILTERS = {
+  all: '',
+  active: 'scheduled,running,paused',
+  draft: 'draft',
+  finished: 'completed,cancelled,failed',
+} as const
+
+type StatusFilter = keyof typeof STATUS_FILTERS
 
 export default function BulkSendingPage() {
+  const user = useAuthStore((s) => s.user)
+  const canManage = user ? hasPermission(user.role, 'manage_campaigns') : false
+
+  const [campaigns, setCampaigns] = useState<Campaign[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+
+  const fetchCampaigns = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const status = STATUS_FILTERS[statusFilter]
+      const res = await fetch(`/api/campaigns${status ? `?status=${status}` : ''}`)
+      if (!res.ok) throw new Error('Failed to load campaigns')
+      const body = await res.json()
+      setCampaigns(body.data ?? [])
+    } catch (error) {
+      console.error('[BulkSendingPage] fetch error:', error)
+      toast.error('Failed to load campaigns')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [statusFilter])
+
+  useEffect(() => {
+    fetchCampaigns()
+  }, [fetchCampaigns])
+
+  const handleDelete = async (campaign: Campaign) => {
+    if (!window.confirm(`Delete "${campaign.name}"? This cannot be undone.`)) return
+
+    const res = await fetch(`/api/campaigns/${campaign.id}`, { method: 'DELETE' })
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}))
+      toast.error(body.error || 'Failed to delete campaign')
+      return
+    }
+    setCampaigns((current) => current.filter((c) => c.id !== campaign.id))
+    toast.success('Campaign deleted')
+  }
+
   return (
-    <div className="flex flex-1 flex-col items-center justify-center gap-6 p-6 text-center">
-      <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted">
-        <Send className="h-8 w-8 text-muted-foreground" />
-      </div>
-      <div className="space-y-2">
-        <h1 className="text-2xl font-bold tracking-tight">Bulk Sending</h1>
-        <p className="text-muted-foreground max-w-md">
-          Send WhatsApp template messages to multiple contacts at once. Create
-          campaigns, select audience segments, and track delivery metrics.
-        </p>
-      </div>
-      <div className="flex items-center gap-2 rounded-lg border border-dashed px-4 py-2 text-sm text-muted-foreground">
-        Coming soon
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Bulk Sending</h1>
+          <p className="text-muted-foreground mt-1">
+            Send WhatsApp templates to groups, tags or uploaded lists and follow delivery live.
+          </p>
+        </div>
+        {canManage && (
+          <Button asChild>
+            <Link href="/bulk-sending/new">
+              <Plus className="size-4" />
+              New campaign
+            </Link>
+          </Button>
+        )}
       </div>
+
+      <Tabs value={statusFilter} onValueChange={(v) => setStatusFilter(v as StatusFilter)}>
+        <TabsList>
+          <TabsTrigger value="all">All</TabsTrigger>
+          <TabsTrigger value="active">Active</TabsTrigger>
+          <TabsTrigger value="draft">Drafts</TabsTrigger>
+          <TabsTrigger value="finished">Finished</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {/* List */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-14 rounded-lg" />
+          ))}
+        </div>
+      ) : campaigns.length === 0 ? (
+        <div className="flex flex-col items-center justify-center gap-3 rounded-xl border border-dashed py-16 text-center">
+          <div className="flex size-12 items-center justify-center rounded-full bg-muted">
+            <Send className="size-6 text-muted-foreground" />
+          </div>
+          <p className="text-sm text-muted-foreground">No campaigns yet</p>
+        </div>
+      ) : (
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Campaign</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-56">Progress</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {campaigns.map((campaign) => {
+                const status = CAMPAIGN_STATUS_BADGES[campaign.status]
+                const canDelete =
+                  canManage && campaign.status !== 'running' && campaign.status !== 'paused'
+                return (
+                  <TableRow key={campaign.id}>
+                    <TableCell>
+                      <Link
+                        href={`/bulk-sending/${campaign.id}`}
+                        className="font-medium hover:underline"
+                      >
+                        {campaign.name}
+                      </Link>
+                      <p className="font-mono text-[11px] text-muted-foreground">
+                        {campaign.template_name}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={cn('text-[10px] h-5', status.className)}>
+                        {status.label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {campaign.total_recipients > 0 ? (
+                        <CampaignProgress campaign={campaign} compact />
+                      ) : (
+                        <span className="text-xs text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {campaign.status === 'scheduled' && campaign.scheduled_at
+                        ? format(new Date(campaign.scheduled_at), "dd/MM/yyyy 'at' HH:mm")
+                        : formatDistanceToNow(
+                            new Date(campaign.started_at ?? campaign.created_at),
+                            { addSuffix: true }
+                          )}
+                    </TableCell>
+                    <TableCell>
+                      {canDelete && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon-xs">
+                              <MoreHorizontal className="size-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem
+                              variant="destructive"
+                              onClick={() => handleDelete(campaign)}
+                            >
+                              <Trash2 className="size-4" />
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
     </div>
   )
 }
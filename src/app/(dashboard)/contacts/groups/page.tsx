@@ -0,0 +1,213 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { ArrowLeft, Filter, Pencil, Plus, Trash2, Users } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { GroupDialog, type ContactGroupInput } from '@/components/contacts/group-dialog'
+import { GroupMembersSheet } from '@/components/contacts/group-members-sheet'
+import { useAuthStore } from '@/stores/auth-store'
+import { hasPermission } from '@/lib/permissions'
+import { describeSegment } from '@/lib/contacts/segments'
+import type { Campaign, ContactGroup, Tag } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+export default function ContactGroupsPage() {
+  const user = useAuthStore((s) => s.user)
+  const canManage = user ? hasPermission(user.role, 'manage_contacts') : false
+
+  const [groups, setGroups] = useState<ContactGroup[]>([])
+  const [tags, setTags] = useState<Tag[]>([])
+  const [campaigns, setCampaigns] = useState<Pick<Campaign, 'id' | 'name'>[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editing, setEditing] = useState<ContactGroup | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [viewing, setViewing] = useState<ContactGroup | null>(null)
+
+  const fetchGroups = useCallback(async () => {
+    try {
+      const res = await fetch('/api/contact-groups')
+      const body = await res.json()
+      if (!res.ok) throw new Error(body.error || 'Failed to load groups')
+      setGroups(body.data ?? [])
+    } catch (error) {
+      console.error('[ContactGroupsPage] fetch error:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load groups')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchGroups()
+  }, [fetchGroups])
+
+  // Options for the segment editor
+  useEffect(() => {
+    if (!canManage) return
+    Promise.all([fetch('/api/tags'), fetch('/api/campaigns')])
+      .then(([tagsRes, campaignsRes]) => Promise.all([tagsRes.json(), campaignsRes.json()]))
+      .then(([tagsBody, campaignsBody]) => {
+        setTags(tagsBody.data ?? [])
+        setCampaigns(campaignsBody.data ?? [])
+      })
+      .catch((error) => console.error('[ContactGroupsPage] options error:', error))
+  }, [canManage])
+
+  const openDialog = (group: ContactGroup | null) => {
+    setEditing(group)
+    setDialogOpen(true)
+  }
+
+  const handleSave = async (input: ContactGroupInput): Promise<boolean> => {
+    // The type of an existing group can't change
+    const { type, ...updates } = input
+    const res = await fetch(editing ? `/api/contact-groups/${editing.id}` : '/api/contact-groups', {
+      method: editing ? 'PATCH' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(editing ? updates : { ...updates, type }),
+    })
+    const body = await res.json().catch(() => ({}))
+
+    if (!res.ok) {
+      toast.error(body.error || 'Failed to save group')
+      return false
+    }
+
+    await fetchGroups()
+    toast.success(editing ? 'Group updated' : 'Group created')
+    return true
+  }
+
+  const handleDelete = async (group: ContactGroup) => {
+    const detail = group.type === 'static' ? ' Its contacts are kept.' : ''
+    if (!window.confirm(`Delete ${group.name}?${detail}`)) return
+
+    const res = await fetch(`/api/contact-groups/${group.id}`, { method: 'DELETE' })
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}))
+      toast.error(body.error || 'Failed to delete group')
+      return
+    }
+    await fetchGroups()
+    toast.success('Group deleted')
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-start gap-2">
+          <Button variant="ghost" size="icon-sm" asChild className="mt-0.5">
+            <Link href="/contacts">
+              <ArrowLeft className="size-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Groups & segments</h1>
+            <p className="text-muted-foreground mt-1">
+              Static groups hold the contacts you add. Segments include every contact matching
+              their conditions.
+            </p>
+          </div>
+        </div>
+        {canManage && (
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="size-4" />
+            New group
+          </Button>
+        )}
+      </div>
+
+      {/* List */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-16 rounded-lg" />
+          ))}
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="flex flex-col items-center justify-center gap-3 rounded-xl border border-dashed py-16 text-center">
+          <div className="flex size-12 items-center justify-center rounded-full bg-muted">
+            <Users className="size-6 text-muted-foreground" />
+          </div>
+          <p className="text-sm text-muted-foreground">No groups yet</p>
+        </div>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {groups.map((group) => (
+            <div key={group.id} className="flex items-start gap-4 p-4">
+              <button
+                type="button"
+                onClick={() => setViewing(group)}
+                className="min-w-0 flex-1 space-y-1 text-left"
+              >
+                <div className="flex items-center gap-2">
+                  <span
+                    className="size-2.5 shrink-0 rounded-full bg-muted-foreground/40"
+                    style={group.color ? { backgroundColor: group.color } : undefined}
+                  />
+                  <span className="text-sm font-medium truncate">{group.name}</span>
+                  {group.type === 'dynamic' && (
+                    <Badge variant="outline" className="text-[10px] h-5 gap-1">
+                      <Filter className="size-3" />
+                      Segment
+                    </Badge>
+                  )}
+                  <span className="text-xs text-muted-foreground">
+                    {group.member_count.toLocaleString()} contacts
+                  </span>
+                </div>
+                {group.description && (
+                  <p className="text-sm text-muted-foreground line-clamp-2">{group.description}</p>
+                )}
+                {group.filter && (
+                  <p className="text-xs text-muted-foreground line-clamp-2">
+                    {describeSegment(group.filter).join(' · ')}
+                  </p>
+                )}
+              </button>
+              {canManage && (
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="icon-sm" onClick={() => openDialog(group)}>
+                    <Pencil className="size-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => handleDelete(group)}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <GroupDialog
+        group={editing}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSave={handleSave}
+        tags={tags}
+        campaigns={campaigns}
+      />
+
+      <GroupMembersSheet
+        group={viewing}
+        onClose={() => setViewing(null)}
+        canManage={canManage}
+        onChanged={fetchGroups}
+      />
+    </div>
+  )
+}
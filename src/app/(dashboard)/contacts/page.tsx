@@ -1,23 +1,470 @@
 'use client'
 
-import { Users } from 'lucide-react'
+import { useCallback, useEffect, useEffectEvent, useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+  CopyCheck,
+  Download,
+  Loader2,
+  RefreshCw,
+  Upload,
+  Users,
+} from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ContactFiltersBar } from '@/components/contacts/contact-filters'
+import { ContactBulkActions } from '@/components/contacts/contact-bulk-actions'
+import { ContactDrawer } from '@/components/contacts/contact-drawer'
+import { ContactImportDialog } from '@/components/contacts/contact-import-dialog'
+import { ContactDuplicatesDialog } from '@/components/contacts/contact-duplicates-dialog'
+import { useAuthStore } from '@/stores/auth-store'
+import { hasPermission } from '@/lib/permissions'
+import { contactFiltersToParams, type ContactSortColumn } from '@/lib/contacts/filters'
+import { downloadExport } from '@/lib/export/download'
+import type { ExportFormat } from '@/lib/export/spreadsheet'
+import { cn } from '@/lib/utils'
+import type { Contact, ContactFilters, ContactGroup, Tag } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type SortOrder = 'asc' | 'desc'
+
+const PAGE_SIZE = 50
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
 
 export default function ContactsPage() {
+  const user = useAuthStore((s) => s.user)
+  const canManage = user ? hasPermission(user.role, 'manage_contacts') : false
+
+  const [contacts, setContacts] = useState<Contact[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [sort, setSort] = useState<{ column: ContactSortColumn; order: SortOrder }>({
+    column: 'updated_at',
+    order: 'desc',
+  })
+  const [filters, setFilters] = useState<ContactFilters>({})
+  const [searchInput, setSearchInput] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [drawerContactId, setDrawerContactId] = useState<string | null>(null)
+  const [importOpen, setImportOpen] = useState(false)
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+
+  const [groups, setGroups] = useState<ContactGroup[]>([])
+  const [tags, setTags] = useState<Tag[]>([])
+
+  const fetchContacts = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const params = contactFiltersToParams(filters)
+      params.set('page', String(page))
+      params.set('limit', String(PAGE_SIZE))
+      params.set('sort', sort.column)
+      params.set('order', sort.order)
+
+      const res = await fetch(`/api/contacts?${params}`)
+      if (!res.ok) throw new Error('Failed to load contacts')
+      const body = await res.json()
+      setContacts(body.data ?? [])
+      setTotal(body.total ?? 0)
+    } catch (error) {
+      console.error('[ContactsPage] fetch error:', error)
+      toast.error('Failed to load contacts')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [page, sort, filters])
+
+  useEffect(() => {
+    fetchContacts()
+  }, [fetchContacts])
+
+  const fetchOptions = useCallback(async () => {
+    try {
+      const [groupsRes, tagsRes] = await Promise.all([
+        fetch('/api/contact-groups'),
+        fetch('/api/tags'),
+      ])
+      const [groupsBody, tagsBody] = await Promise.all([groupsRes.json(), tagsRes.json()])
+      setGroups(groupsBody.data ?? [])
+      setTags(tagsBody.data ?? [])
+    } catch (error) {
+      console.error('[ContactsPage] options error:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchOptions()
+  }, [fetchOptions])
+
+  const updateFilters = (updates: Partial<ContactFilters>) => {
+    setFilters((current) => ({ ...current, ...updates }))
+    setPage(1)
+    setSelected(new Set())
+  }
+
+  const applySearch = useEffectEvent((value: string) => {
+    const search = value.trim() || undefined
+    if (search !== filters.search) updateFilters({ search })
+  })
+
+  // Debounce typing before hitting the API
+  useEffect(() => {
+    const timer = setTimeout(() => applySearch(searchInput), 300)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  const clearFilters = () => {
+    setSearchInput('')
+    setFilters({})
+    setPage(1)
+    setSelected(new Set())
+  }
+
+  const toggleSort = (column: ContactSortColumn) => {
+    setSort((current) =>
+      current.column === column
+        ? { column, order: current.order === 'asc' ? 'desc' : 'asc' }
+        : { column, order: column === 'name' || column === 'phone' || column === 'email' ? 'asc' : 'desc' }
+    )
+    setPage(1)
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const allOnPageSelected = contacts.length > 0 && contacts.every((c) => selected.has(c.id))
+  const someOnPageSelected = contacts.some((c) => selected.has(c.id))
+
+  const togglePage = () => {
+    setSelected((current) => {
+      const next = new Set(current)
+      for (const contact of contacts) {
+        if (allOnPageSelected) next.delete(contact.id)
+        else next.add(contact.id)
+      }
+      return next
+    })
+  }
+
+  const handleContactsChanged = () => {
+    setSelected(new Set())
+    // Tag lists and group member counts may have changed too
+    fetchOptions()
+    fetchContacts()
+  }
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true)
+    try {
+      const params = contactFiltersToParams(filters)
+      params.set('format', format)
+      params.set('sort', sort.column)
+      params.set('order', sort.order)
+      await downloadExport(`/api/contacts/export?${params}`)
+    } catch (error) {
+      console.error('[ContactsPage] export error:', error)
+      toast.error(error instanceof Error ? error.message : 'Export failed')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const totalPages = Math.max(Math.ceil(total / PAGE_SIZE), 1)
+  const columnCount = canManage ? 8 : 7
+  // Dynamic segments have no members to add contacts to
+  const staticGroups = groups.filter((g) => g.type === 'static')
+
   return (
-    <div className="flex flex-1 flex-col items-center justify-center gap-6 p-6 text-center">
-      <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted">
-        <Users className="h-8 w-8 text-muted-foreground" />
+    <div className="p-6 space-y-4">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Contacts</h1>
+          <p className="text-muted-foreground mt-1">
+            Manage your customer database. View profiles, organize tags and groups, and see
+            every conversation with a contact.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={fetchContacts} title="Refresh">
+            <RefreshCw className={cn('size-4', isLoading && 'animate-spin')} />
+          </Button>
+          {canManage && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={isExporting}>
+                  {isExporting ? (
+                    <Loader2 className="size-4 animate-spin" />
+                  ) : (
+                    <Download className="size-4" />
+                  )}
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+                  Excel (.xlsx)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('csv')}>CSV (.csv)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          <Button variant="outline" asChild>
+            <Link href="/contacts/groups">
+              <Users className="size-4" />
+              Groups
+            </Link>
+          </Button>
+          {canManage && (
+            <Button variant="outline" onClick={() => setDuplicatesOpen(true)}>
+              <CopyCheck className="size-4" />
+              Duplicates
+            </Button>
+          )}
+          {canManage && (
+            <Button onClick={() => setImportOpen(true)}>
+              <Upload className="size-4" />
+              Import
+            </Button>
+          )}
+        </div>
       </div>
-      <div className="space-y-2">
-        <h1 className="text-2xl font-bold tracking-tight">Contacts</h1>
-        <p className="text-muted-foreground max-w-md">
-          Manage your customer database. View profiles, manage tags and groups,
-          and sync contacts with HubSpot.
-        </p>
+
+      <ContactFiltersBar
+        searchInput={searchInput}
+        onSearchInputChange={setSearchInput}
+        filters={filters}
+        onChange={updateFilters}
+        onClear={clearFilters}
+        groups={groups}
+        tags={tags}
+      />
+
+      {canManage && selected.size > 0 && (
+        <ContactBulkActions
+          selectedIds={[...selected]}
+          groups={staticGroups}
+          tags={tags}
+          onClearSelection={() => setSelected(new Set())}
+          onDone={handleContactsChanged}
+        />
+      )}
+
+      {/* Table */}
+      <div className="rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {canManage && (
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allOnPageSelected ? true : someOnPageSelected ? 'indeterminate' : false}
+                    onCheckedChange={togglePage}
+                    aria-label="Select page"
+                  />
+                </TableHead>
+              )}
+              <SortableHead column="name" label="Name" sort={sort} onSort={toggleSort} />
+              <SortableHead column="phone" label="Phone" sort={sort} onSort={toggleSort} />
+              <SortableHead column="email" label="Email" sort={sort} onSort={toggleSort} />
+              <TableHead>Tags</TableHead>
+              <TableHead>HubSpot</TableHead>
+              <SortableHead column="created_at" label="Created" sort={sort} onSort={toggleSort} />
+              <SortableHead column="updated_at" label="Updated" sort={sort} onSort={toggleSort} />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading && contacts.length === 0 ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell colSpan={columnCount}>
+                    <Skeleton className="h-5 w-full" />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : contacts.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={columnCount} className="py-16">
+                  <div className="flex flex-col items-center justify-center gap-3 text-center">
+                    <div className="flex size-12 items-center justify-center rounded-full bg-muted">
+                      <Users className="size-6 text-muted-foreground" />
+                    </div>
+                    <p className="text-sm text-muted-foreground">No contacts found</p>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : (
+              contacts.map((contact) => (
+                <TableRow
+                  key={contact.id}
+                  data-state={selected.has(contact.id) ? 'selected' : undefined}
+                  className="cursor-pointer"
+                  onClick={() => setDrawerContactId(contact.id)}
+                >
+                  {canManage && (
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <Checkbox
+                        checked={selected.has(contact.id)}
+                        onCheckedChange={() => toggleSelected(contact.id)}
+                        aria-label={`Select ${contact.name || contact.phone}`}
+                      />
+                    </TableCell>
+                  )}
+                  <TableCell className="font-medium">{contact.name || 'Unknown'}</TableCell>
+                  <TableCell className="font-mono text-xs">{contact.phone}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {contact.email || '—'}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex max-w-56 flex-wrap gap-1">
+                      {contact.tags.slice(0, 3).map((tag) => (
+                        <Badge key={tag} variant="secondary" className="text-[10px]">
+                          {tag}
+                        </Badge>
+                      ))}
+                      {contact.tags.length > 3 && (
+                        <span className="text-[10px] text-muted-foreground">
+                          +{contact.tags.length - 3}
+                        </span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {contact.hubspot_contact_id ? (
+                      <Badge
+                        variant="outline"
+                        className="h-5 border-orange-500/40 text-[10px] text-orange-600"
+                      >
+                        Synced
+                      </Badge>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {format(new Date(contact.created_at), 'dd/MM/yyyy')}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {format(new Date(contact.updated_at), 'dd/MM/yyyy HH:mm')}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
       </div>
-      <div className="flex items-center gap-2 rounded-lg border border-dashed px-4 py-2 text-sm text-muted-foreground">
-        Coming soon
+
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>{total.toLocaleString()} contacts</span>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon-sm"
+            onClick={() => setPage((p) => p - 1)}
+            disabled={page <= 1}
+          >
+            <ChevronLeft className="size-4" />
+          </Button>
+          <span>
+            Page {page} of {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="icon-sm"
+            onClick={() => setPage((p) => p + 1)}
+            disabled={page >= totalPages}
+          >
+            <ChevronRight className="size-4" />
+          </Button>
+        </div>
       </div>
+
+      <ContactDrawer contactId={drawerContactId} onClose={() => setDrawerContactId(null)} />
+
+      <ContactImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        groups={staticGroups}
+        onImported={handleContactsChanged}
+      />
+
+      <ContactDuplicatesDialog
+        open={duplicatesOpen}
+        onOpenChange={setDuplicatesOpen}
+        onMerged={handleContactsChanged}
+      />
     </div>
   )
 }
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function SortableHead({
+  column,
+  label,
+  sort,
+  onSort,
+}: {
+  column: ContactSortColumn
+  label: string
+  sort: { column: ContactSortColumn; order: SortOrder }
+  onSort: (column: ContactSortColumn) => void
+}) {
+  const active = sort.column === column
+  const Icon = !active ? ArrowUpDown : sort.order === 'asc' ? ArrowUp : ArrowDown
+
+  return (
+    <TableHead>
+      <button
+        type="button"
+        onClick={() => onSort(column)}
+        className={cn(
+          'inline-flex items-center gap-1 hover:text-foreground',
+          active && 'text-foreground'
+        )}
+      >
+        {label}
+        <Icon className="size-3" />
+      </button>
+    </TableHead>
+  )
+}
@@ -0,0 +1,65 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { FlowEditor } from '@/components/flows/flow-editor'
+import type { Flow } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+export default function FlowEditorPage() {
+  const { id } = useParams<{ id: string }>()
+  const [flow, setFlow] = useState<Flow | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function loadFlow() {
+      try {
+        const res = await fetch(`/api/flows/${id}`)
+        const body = await res.json()
+        if (cancelled) return
+        if (!res.ok) {
+          setError(body.error || 'Failed to load flow')
+          return
+        }
+        setFlow(body.data)
+      } catch (err) {
+        console.error('[FlowEditorPage] fetch error:', err)
+        if (!cancelled) setError('Failed to load flow')
+      }
+    }
+
+    loadFlow()
+    return () => {
+      cancelled = true
+    }
+  }, [id])
+
+  if (error) {
+    return (
+      <div className="flex flex-1 flex-col items-center justify-center gap-4 p-6 text-center">
+        <p className="text-sm text-muted-foreground">{error}</p>
+        <Button variant="outline" asChild>
+          <Link href="/flows">Back to flows</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  if (!flow) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <Loader2 className="size-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return <FlowEditor flow={flow} onFlowChange={setFlow} />
+}
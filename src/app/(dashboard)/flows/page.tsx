@@ -1,29 +1,269 @@
 'use client'
 
-import { GitBranch } from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import { GitBranch, Loader2, MoreHorizontal, Plus, Trash2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { FLOW_STATUS_BADGES, TRIGGER_LABELS } from '@/components/flows/flow-settings-dialog'
+import { useAuthStore } from '@/stores/auth-store'
+import { hasPermission } from '@/lib/permissions'
+import { cn } from '@/lib/utils'
+import type { Flow, FlowStatus, FlowTriggerType } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+type StatusFilter = FlowStatus | 'all'
 
 export default function FlowsPage() {
+  const router = useRouter()
+  const user = useAuthStore((s) => s.user)
+  const canManage = user ? hasPermission(user.role, 'manage_flows') : false
+
+  const [flows, setFlows] = useState<Flow[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+
+  const [createOpen, setCreateOpen] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [newTrigger, setNewTrigger] = useState<FlowTriggerType>('keyword')
+  const [isCreating, setIsCreating] = useState(false)
+
+  const fetchFlows = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const params = statusFilter === 'all' ? '' : `?status=${statusFilter}`
+      const res = await fetch(`/api/flows${params}`)
+      if (!res.ok) throw new Error('Failed to load flows')
+      const body = await res.json()
+      setFlows(body.data ?? [])
+    } catch (error) {
+      console.error('[FlowsPage] fetch error:', error)
+      toast.error('Failed to load flows')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [statusFilter])
+
+  useEffect(() => {
+    fetchFlows()
+  }, [fetchFlows])
+
+  const handleCreate = async () => {
+    setIsCreating(true)
+    try {
+      const res = await fetch('/api/flows', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName.trim(), trigger_type: newTrigger }),
+      })
+      const body = await res.json()
+      if (!res.ok) {
+        toast.error(body.error || 'Failed to create flow')
+        return
+      }
+      setCreateOpen(false)
+      setNewName('')
+      router.push(`/flows/${body.id}`)
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleDelete = async (flow: Flow) => {
+    if (!window.confirm(`Delete "${flow.name}"? This cannot be undone.`)) return
+
+    const res = await fetch(`/api/flows/${flow.id}`, { method: 'DELETE' })
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}))
+      toast.error(body.error || 'Failed to delete flow')
+      return
+    }
+    setFlows((current) => current.filter((f) => f.id !== flow.id))
+    toast.success('Flow deleted')
+  }
+
   return (
-    <div className="flex flex-1 flex-col items-center justify-center gap-6 p-6 text-center">
-      <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted">
-        <GitBranch className="h-8 w-8 text-muted-foreground" />
-      </div>
-      <div className="space-y-2">
-        <h1 className="text-2xl font-bold tracking-tight">Chatbot Flows</h1>
-        <p className="text-muted-foreground max-w-md">
-          Visual flow builder for automated chatbot conversations. Design
-          conversational paths, set triggers, and create seamless automated
-          experiences for your customers.
-        </p>
-      </div>
-      <div className="flex items-center gap-2 rounded-lg border border-dashed px-4 py-2 text-sm text-muted-foreground">
-        Coming soon
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Chatbot Flows</h1>
+          <p className="text-muted-foreground mt-1">
+            Design automated conversations and choose what starts them.
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={() => setCreateOpen(true)}>
+            <Plus className="size-4" />
+            New flow
+          </Button>
+        )}
       </div>
-      <Button disabled>
-        <GitBranch className="mr-2 h-4 w-4" />
-        Create New Flow
-      </Button>
+
+      <Tabs value={statusFilter} onValueChange={(v) => setStatusFilter(v as StatusFilter)}>
+        <TabsList>
+          <TabsTrigger value="all">All</TabsTrigger>
+          <TabsTrigger value="draft">Drafts</TabsTrigger>
+          <TabsTrigger value="published">Published</TabsTrigger>
+          <TabsTrigger value="archived">Archived</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {/* List */}
+      {isLoading ? (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-32 rounded-xl" />
+          ))}
+        </div>
+      ) : flows.length === 0 ? (
+        <div className="flex flex-col items-center justify-center gap-3 rounded-xl border border-dashed py-16 text-center">
+          <div className="flex size-12 items-center justify-center rounded-full bg-muted">
+            <GitBranch className="size-6 text-muted-foreground" />
+          </div>
+          <p className="text-sm text-muted-foreground">No flows yet</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {flows.map((flow) => {
+            const status = FLOW_STATUS_BADGES[flow.status]
+            return (
+              <Card key={flow.id} className="relative transition-colors hover:bg-accent/40">
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <CardTitle className="text-base">
+                      <Link href={`/flows/${flow.id}`} className="after:absolute after:inset-0">
+                        {flow.name}
+                      </Link>
+                    </CardTitle>
+                    <div className="relative z-10 flex items-center gap-1">
+                      <Badge variant="outline" className={cn('text-[10px] h-5', status.className)}>
+                        {status.label}
+                      </Badge>
+                      {canManage && flow.status !== 'published' && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon-xs">
+                              <MoreHorizontal className="size-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem
+                              variant="destructive"
+                              onClick={() => handleDelete(flow)}
+                            >
+                              <Trash2 className="size-4" />
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+                    </div>
+                  </div>
+                  <CardDescription className="line-clamp-2">
+                    {flow.description || 'No description'}
+                  </CardDescription>
+                  <div className="flex items-center justify-between pt-2 text-xs text-muted-foreground">
+                    <span className="truncate">
+                      {TRIGGER_LABELS[flow.trigger_type]?.label ?? flow.trigger_type}
+                      {flow.trigger_type === 'keyword' && flow.trigger_keywords?.length > 0 &&
+                        `: ${flow.trigger_keywords.join(', ')}`}
+                      {flow.priority !== 0 && ` · priority ${flow.priority}`}
+                    </span>
+                    <span className="flex-shrink-0">
+                      {formatDistanceToNow(new Date(flow.updated_at), { addSuffix: true })}
+                    </span>
+                  </div>
+                </CardHeader>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
+      {/* Create dialog */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New flow</DialogTitle>
+            <DialogDescription>
+              Flows start as drafts. Publish them once they are ready.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="new-flow-name">Name</Label>
+              <Input
+                id="new-flow-name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="e.g. Quote request"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Trigger</Label>
+              <Select value={newTrigger} onValueChange={(v) => setNewTrigger(v as FlowTriggerType)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TRIGGER_LABELS) as FlowTriggerType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {TRIGGER_LABELS[type].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={isCreating || !newName.trim()}>
+              {isCreating && <Loader2 className="size-4 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -0,0 +1,207 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { ArrowDown, ArrowLeft, ArrowUp, ListPlus, Pencil, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  CustomFieldDialog,
+  type CustomFieldInput,
+} from '@/components/settings/custom-field-dialog'
+import { useCustomFields } from '@/hooks/use-custom-fields'
+import { useAuthStore } from '@/stores/auth-store'
+import { hasPermission } from '@/lib/permissions'
+import { CUSTOM_FIELD_TYPES } from '@/lib/contacts/custom-fields'
+import type { CustomFieldDefinition } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+export default function CustomFieldsPage() {
+  const user = useAuthStore((s) => s.user)
+  const canManage = user ? hasPermission(user.role, 'manage_contacts') : false
+  const { customFields, isLoading, invalidate } = useCustomFields()
+
+  const [editing, setEditing] = useState<CustomFieldDefinition | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+
+  const openDialog = (field: CustomFieldDefinition | null) => {
+    setEditing(field)
+    setDialogOpen(true)
+  }
+
+  const handleSave = async (input: CustomFieldInput): Promise<boolean> => {
+    // Only the label, options and required flag of an existing field can change
+    const body = editing
+      ? { label: input.label, options: input.options, required: input.required }
+      : input
+    const res = await fetch(editing ? `/api/custom-fields/${editing.id}` : '/api/custom-fields', {
+      method: editing ? 'PATCH' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const result = await res.json().catch(() => ({}))
+
+    if (!res.ok) {
+      toast.error(result.error || 'Failed to save custom field')
+      return false
+    }
+
+    await invalidate()
+    toast.success(editing ? 'Custom field updated' : 'Custom field created')
+    return true
+  }
+
+  const handleDelete = async (field: CustomFieldDefinition) => {
+    if (
+      !window.confirm(
+        `Delete ${field.label}? Values already saved on contacts are kept as plain text.`
+      )
+    ) {
+      return
+    }
+
+    const res = await fetch(`/api/custom-fields/${field.id}`, { method: 'DELETE' })
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}))
+      toast.error(body.error || 'Failed to delete custom field')
+      return
+    }
+    await invalidate()
+    toast.success('Custom field deleted')
+  }
+
+  // Swap positions with the neighbour; positions are renumbered to the list order
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const order = [...customFields]
+    const [moved] = order.splice(index, 1)
+    order.splice(index + direction, 0, moved)
+
+    const changed = order
+      .map((field, position) => ({ field, position }))
+      .filter(({ field, position }) => field.position !== position)
+
+    const responses = await Promise.all(
+      changed.map(({ field, position }) =>
+        fetch(`/api/custom-fields/${field.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ position }),
+        })
+      )
+    )
+    if (responses.some((r) => !r.ok)) toast.error('Failed to reorder custom fields')
+    await invalidate()
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-start gap-2">
+          <Button variant="ghost" size="icon-sm" asChild className="mt-0.5">
+            <Link href="/settings">
+              <ArrowLeft className="size-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Custom fields</h1>
+            <p className="text-muted-foreground mt-1">
+              Extra information kept on every contact, in the order shown here.
+            </p>
+          </div>
+        </div>
+        {canManage && (
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="size-4" />
+            New field
+          </Button>
+        )}
+      </div>
+
+      {/* List */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-14 rounded-lg" />
+          ))}
+        </div>
+      ) : customFields.length === 0 ? (
+        <div className="flex flex-col items-center justify-center gap-3 rounded-xl border border-dashed py-16 text-center">
+          <div className="flex size-12 items-center justify-center rounded-full bg-muted">
+            <ListPlus className="size-6 text-muted-foreground" />
+          </div>
+          <p className="text-sm text-muted-foreground">No custom fields yet</p>
+        </div>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {customFields.map((field, index) => (
+            <div key={field.id} className="flex items-center gap-4 p-4">
+              <div className="min-w-0 flex-1 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate">{field.label}</span>
+                  <span className="font-mono text-xs text-muted-foreground">{field.key}</span>
+                  <Badge variant="outline" className="text-[10px] h-5">
+                    {CUSTOM_FIELD_TYPES[field.type]}
+                  </Badge>
+                  {field.required && (
+                    <Badge variant="secondary" className="text-[10px] h-5">
+                      Required
+                    </Badge>
+                  )}
+                </div>
+                {field.options.length > 0 && (
+                  <p className="text-xs text-muted-foreground truncate">
+                    {field.options.join(', ')}
+                  </p>
+                )}
+              </div>
+              {canManage && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0}
+                  >
+                    <ArrowUp className="size-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === customFields.length - 1}
+                  >
+                    <ArrowDown className="size-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon-sm" onClick={() => openDialog(field)}>
+                    <Pencil className="size-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => handleDelete(field)}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <CustomFieldDialog
+        field={editing}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSave={handleSave}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { formatDistanceToNow } from 'date-fns'
+import { ArrowLeft, CheckCircle2, Link2, Loader2, Unplug } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { HubSpotSyncSettings } from '@/components/settings/hubspot-sync-settings'
+import { HubSpotDealRules } from '@/components/settings/hubspot-deal-rules'
+import { useHubSpotConnection } from '@/hooks/use-hubspot-connection'
+import { useAuthStore } from '@/stores/auth-store'
+import { hasPermission } from '@/lib/permissions'
+
+// ---------------------------------------------------------------------------
+// Callback errors
+// ---------------------------------------------------------------------------
+
+const CALLBACK_ERRORS: Record<string, string> = {
+  declined: 'HubSpot access was not granted',
+  invalid_state: 'The HubSpot connection expired. Please try again.',
+  exchange_failed: 'HubSpot rejected the connection. Please try again.',
+  forbidden: 'You do not have permission to manage integrations',
+  not_configured: 'The HubSpot app credentials are not configured on the server',
+}
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+export default function HubSpotSettingsPage() {
+  const router = useRouter()
+  const user = useAuthStore((s) => s.user)
+  const canManage = user ? hasPermission(user.role, 'manage_settings') : false
+  const { connection, isLoading, invalidate } = useHubSpotConnection()
+
+  const [isDisconnecting, setIsDisconnecting] = useState(false)
+
+  // Report the outcome of the OAuth callback, then drop it from the URL
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const error = params.get('error')
+    if (!error && !params.get('connected')) return
+
+    if (error) {
+      toast.error(CALLBACK_ERRORS[error] ?? 'Failed to connect HubSpot')
+    } else {
+      toast.success('HubSpot connected')
+    }
+    router.replace('/settings/hubspot')
+  }, [router])
+
+  const handleDisconnect = async () => {
+    if (
+      !window.confirm(
+        'Disconnect HubSpot? Access is revoked and contacts stop syncing until it is connected again.'
+      )
+    ) {
+      return
+    }
+
+    setIsDisconnecting(true)
+    try {
+      const res = await fetch('/api/hubspot/disconnect', { method: 'POST' })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        toast.error(body.error || 'Failed to disconnect HubSpot')
+        return
+      }
+      await invalidate()
+      toast.success('HubSpot disconnected')
+    } finally {
+      setIsDisconnecting(false)
+    }
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start gap-2">
+        <Button variant="ghost" size="icon-sm" asChild className="mt-0.5">
+          <Link href="/settings">
+            <ArrowLeft className="size-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">HubSpot</h1>
+          <p className="text-muted-foreground mt-1">
+            Connect your HubSpot portal to keep contacts and conversations in sync.
+          </p>
+        </div>
+      </div>
+
+      {/* Connection */}
+      {isLoading ? (
+        <Skeleton className="h-24 rounded-lg" />
+      ) : connection?.connected ? (
+        <div className="flex items-center gap-4 rounded-lg border p-4">
+          <div className="flex size-10 items-center justify-center rounded-full bg-emerald-500/10">
+            <CheckCircle2 className="size-5 text-emerald-600" />
+          </div>
+          <div className="min-w-0 flex-1 space-y-1">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">Connected</span>
+              {connection.portal_id && (
+                <Badge variant="outline" className="text-[10px] h-5">
+                  Portal {connection.portal_id}
+                </Badge>
+              )}
+            </div>
+            {connection.connected_at && (
+              <p className="text-xs text-muted-foreground">
+                Connected{' '}
+                {formatDistanceToNow(new Date(connection.connected_at), { addSuffix: true })}
+                {connection.connected_by_name && ` by ${connection.connected_by_name}`}
+              </p>
+            )}
+          </div>
+          {canManage && (
+            <Button variant="outline" onClick={handleDisconnect} disabled={isDisconnecting}>
+              {isDisconnecting ? (
+                <Loader2 className="size-4 animate-spin" />
+              ) : (
+                <Unplug className="size-4" />
+              )}
+              Disconnect
+            </Button>
+          )}
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center gap-3 rounded-xl border border-dashed py-16 text-center">
+          <div className="flex size-12 items-center justify-center rounded-full bg-muted">
+            <Link2 className="size-6 text-muted-foreground" />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {connection && !connection.configured
+              ? 'Set HUBSPOT_CLIENT_ID and HUBSPOT_CLIENT_SECRET on the server to connect HubSpot'
+              : 'HubSpot is not connected'}
+          </p>
+          {canManage && connection?.configured && (
+            <Button asChild>
+              {/* A full navigation: the route redirects to HubSpot */}
+              <a href="/api/hubspot/authorize">
+                <Link2 className="size-4" />
+                Connect HubSpot
+              </a>
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Sync and deals */}
+      {connection?.connected && (
+        <>
+          <HubSpotSyncSettings
+            connection={connection}
+            canManage={canManage}
+            onConnectionChanged={invalidate}
+          />
+          <HubSpotDealRules canManage={canManage} />
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,22 +1,78 @@
 'use client'
 
-import { Settings } from 'lucide-react'
+import Link from 'next/link'
+import { ArrowRight, FileText, Link2, ListPlus, Zap } from 'lucide-react'
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+
+// ---------------------------------------------------------------------------
+// Settings sections
+// ---------------------------------------------------------------------------
+
+const sections = [
+  {
+    title: 'Quick replies',
+    description: 'Saved answers agents insert with "/" in the composer.',
+    href: '/settings/quick-replies',
+    icon: Zap,
+    color: 'text-amber-500',
+  },
+  {
+    title: 'WhatsApp templates',
+    description: 'Sync approved message templates from your WhatsApp Business Account.',
+    href: '/settings/templates',
+    icon: FileText,
+    color: 'text-emerald-500',
+  },
+  {
+    title: 'Custom fields',
+    description: 'Typed fields kept on every contact, used in segments and campaigns.',
+    href: '/settings/custom-fields',
+    icon: ListPlus,
+    color: 'text-sky-500',
+  },
+  {
+    title: 'HubSpot',
+    description: 'Connect your HubSpot portal to sync contacts and log conversations.',
+    href: '/settings/hubspot',
+    icon: Link2,
+    color: 'text-orange-500',
+  },
+]
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
 
 export default function SettingsPage() {
   return (
-    <div className="flex flex-1 flex-col items-center justify-center gap-6 p-6 text-center">
-      <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted">
-        <Settings className="h-8 w-8 text-muted-foreground" />
-      </div>
-      <div className="space-y-2">
+    <div className="p-6 space-y-6">
+      <div>
         <h1 className="text-2xl font-bold tracking-tight">Settings</h1>
-        <p className="text-muted-foreground max-w-md">
-          Configure your organization, WhatsApp integration, queues, SLA rules,
-          and agent management.
+        <p className="text-muted-foreground mt-1">
+          Configure your organization, messaging and integrations.
         </p>
       </div>
-      <div className="flex items-center gap-2 rounded-lg border border-dashed px-4 py-2 text-sm text-muted-foreground">
-        Coming soon
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+        {sections.map((section) => (
+          <Link key={section.href} href={section.href} className="group">
+            <Card className="h-full transition-colors group-hover:bg-accent/40">
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <section.icon className={`size-5 ${section.color}`} />
+                  <CardTitle className="text-base flex-1">{section.title}</CardTitle>
+                  <ArrowRight className="size-4 text-muted-foreground transition-transform group-hover:translate-x-0.5" />
+                </div>
+                <CardDescription>{section.description}</CardDescription>
+              </CardHeader>
+            </Card>
+          </Link>
+        ))}
       </div>
     </div>
   )
@@ -0,0 +1,216 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { ArrowLeft, Paperclip, Pencil, Plus, Search, Trash2, Zap } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  QuickReplyDialog,
+  type QuickReplyInput,
+} from '@/components/settings/quick-reply-dialog'
+import { useQuickReplies } from '@/hooks/use-quick-replies'
+import { useAuthStore } from '@/stores/auth-store'
+import { hasPermission } from '@/lib/permissions'
+import type { QuickReply } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+export default function QuickRepliesPage() {
+  const user = useAuthStore((s) => s.user)
+  const canManage = user ? hasPermission(user.role, 'manage_quick_replies') : false
+  const { quickReplies, isLoading, invalidate } = useQuickReplies()
+
+  const [search, setSearch] = useState('')
+  const [category, setCategory] = useState<string | null>(null)
+  const [editing, setEditing] = useState<QuickReply | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+
+  const categories = useMemo(
+    () =>
+      Array.from(
+        new Set(quickReplies.map((r) => r.category).filter((c): c is string => !!c))
+      ).sort(),
+    [quickReplies]
+  )
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return quickReplies.filter(
+      (r) =>
+        (!category || r.category === category) &&
+        (!term ||
+          r.shortcut.toLowerCase().includes(term) ||
+          r.title.toLowerCase().includes(term) ||
+          r.content.toLowerCase().includes(term))
+    )
+  }, [quickReplies, search, category])
+
+  const openDialog = (reply: QuickReply | null) => {
+    setEditing(reply)
+    setDialogOpen(true)
+  }
+
+  const handleSave = async (input: QuickReplyInput): Promise<boolean> => {
+    const res = await fetch(editing ? `/api/quick-replies/${editing.id}` : '/api/quick-replies', {
+      method: editing ? 'PATCH' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+    const body = await res.json().catch(() => ({}))
+
+    if (!res.ok) {
+      toast.error(body.error || 'Failed to save quick reply')
+      return false
+    }
+
+    await invalidate()
+    toast.success(editing ? 'Quick reply updated' : 'Quick reply created')
+    return true
+  }
+
+  const handleDelete = async (reply: QuickReply) => {
+    if (!window.confirm(`Delete ${reply.shortcut}?`)) return
+
+    const res = await fetch(`/api/quick-replies/${reply.id}`, { method: 'DELETE' })
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}))
+      toast.error(body.error || 'Failed to delete quick reply')
+      return
+    }
+    await invalidate()
+    toast.success('Quick reply deleted')
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-start gap-2">
+          <Button variant="ghost" size="icon-sm" asChild className="mt-0.5">
+            <Link href="/settings">
+              <ArrowLeft className="size-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Quick replies</h1>
+            <p className="text-muted-foreground mt-1">
+              Type &quot;/&quot; in the composer to search and insert these.
+            </p>
+          </div>
+        </div>
+        {canManage && (
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="size-4" />
+            New quick reply
+          </Button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative w-full max-w-xs">
+          <Search className="absolute left-2.5 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search..."
+            className="pl-8"
+          />
+        </div>
+        <Button
+          variant={category === null ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => setCategory(null)}
+        >
+          All
+        </Button>
+        {categories.map((c) => (
+          <Button
+            key={c}
+            variant={category === c ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setCategory(c)}
+          >
+            {c}
+          </Button>
+        ))}
+      </div>
+
+      {/* List */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-16 rounded-lg" />
+          ))}
+        </div>
+      ) : filtered.length === 0 ? (
+        <div className="flex flex-col items-center justify-center gap-3 rounded-xl border border-dashed py-16 text-center">
+          <div className="flex size-12 items-center justify-center rounded-full bg-muted">
+            <Zap className="size-6 text-muted-foreground" />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {quickReplies.length === 0 ? 'No quick replies yet' : 'No quick replies match your search'}
+          </p>
+        </div>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {filtered.map((reply) => (
+            <div key={reply.id} className="flex items-start gap-4 p-4">
+              <div className="min-w-0 flex-1 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm text-emerald-600 dark:text-emerald-400">
+                    {reply.shortcut}
+                  </span>
+                  <span className="text-sm font-medium truncate">{reply.title}</span>
+                  {reply.category && (
+                    <Badge variant="outline" className="text-[10px] h-5">
+                      {reply.category}
+                    </Badge>
+                  )}
+                  {reply.media_url && (
+                    <Badge variant="outline" className="text-[10px] h-5 gap-1">
+                      <Paperclip className="size-3" />
+                      {reply.media_type}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-3">
+                  {reply.content}
+                </p>
+              </div>
+              {canManage && (
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="icon-sm" onClick={() => openDialog(reply)}>
+                    <Pencil className="size-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => handleDelete(reply)}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <QuickReplyDialog
+        quickReply={editing}
+        categories={categories}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSave={handleSave}
+      />
+    </div>
+  )
+}
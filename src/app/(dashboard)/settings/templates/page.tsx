@@ -0,0 +1,170 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { formatDistanceToNow } from 'date-fns'
+import { ArrowLeft, FileText, Loader2, RefreshCw, Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useWhatsAppTemplates } from '@/hooks/use-whatsapp-templates'
+import { useAuthStore } from '@/stores/auth-store'
+import { hasPermission } from '@/lib/permissions'
+import { cn } from '@/lib/utils'
+import type { WhatsAppTemplate } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Status badges
+// ---------------------------------------------------------------------------
+
+const STATUS_STYLES: Record<WhatsAppTemplate['status'], string> = {
+  APPROVED: 'bg-emerald-500/10 text-emerald-600 border-emerald-500/20',
+  PENDING: 'bg-amber-500/10 text-amber-600 border-amber-500/20',
+  IN_APPEAL: 'bg-amber-500/10 text-amber-600 border-amber-500/20',
+  REJECTED: 'bg-red-500/10 text-red-600 border-red-500/20',
+  PAUSED: 'bg-zinc-500/10 text-zinc-600 border-zinc-500/20',
+  DISABLED: 'bg-zinc-500/10 text-zinc-600 border-zinc-500/20',
+}
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+export default function TemplatesPage() {
+  const user = useAuthStore((s) => s.user)
+  const canSync = user ? hasPermission(user.role, 'manage_settings') : false
+  const { templates, isLoading, invalidate } = useWhatsAppTemplates()
+
+  const [search, setSearch] = useState('')
+  const [isSyncing, setIsSyncing] = useState(false)
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return templates.filter(
+      (t) =>
+        !term ||
+        t.name.toLowerCase().includes(term) ||
+        t.components.some((c) => c.text?.toLowerCase().includes(term))
+    )
+  }, [templates, search])
+
+  const lastSyncedAt = templates
+    .map((t) => t.last_synced_at)
+    .filter((d): d is string => !!d)
+    .sort()
+    .pop()
+
+  const handleSync = async () => {
+    setIsSyncing(true)
+    try {
+      const res = await fetch('/api/templates/sync', { method: 'POST' })
+      const body = await res.json().catch(() => ({}))
+
+      if (!res.ok) {
+        toast.error(body.details || body.error || 'Failed to sync templates')
+        return
+      }
+
+      await invalidate()
+      toast.success(
+        `Synced ${body.data.synced} template${body.data.synced === 1 ? '' : 's'}` +
+          (body.data.removed ? `, removed ${body.data.removed}` : '')
+      )
+    } finally {
+      setIsSyncing(false)
+    }
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-start gap-2">
+          <Button variant="ghost" size="icon-sm" asChild className="mt-0.5">
+            <Link href="/settings">
+              <ArrowLeft className="size-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">WhatsApp templates</h1>
+            <p className="text-muted-foreground mt-1">
+              Message templates approved on your WhatsApp Business Account.
+              {lastSyncedAt &&
+                ` Last synced ${formatDistanceToNow(new Date(lastSyncedAt), { addSuffix: true })}.`}
+            </p>
+          </div>
+        </div>
+        {canSync && (
+          <Button onClick={handleSync} disabled={isSyncing}>
+            {isSyncing ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <RefreshCw className="size-4" />
+            )}
+            Sync from WhatsApp
+          </Button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="relative w-full max-w-xs">
+        <Search className="absolute left-2.5 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search..."
+          className="pl-8"
+        />
+      </div>
+
+      {/* List */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-16 rounded-lg" />
+          ))}
+        </div>
+      ) : filtered.length === 0 ? (
+        <div className="flex flex-col items-center justify-center gap-3 rounded-xl border border-dashed py-16 text-center">
+          <div className="flex size-12 items-center justify-center rounded-full bg-muted">
+            <FileText className="size-6 text-muted-foreground" />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {templates.length === 0
+              ? 'No templates synced yet'
+              : 'No templates match your search'}
+          </p>
+        </div>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {filtered.map((template) => (
+            <div key={template.id} className="flex items-start gap-4 p-4">
+              <div className="min-w-0 flex-1 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm font-medium truncate">{template.name}</span>
+                  <Badge variant="outline" className="text-[10px] h-5">
+                    {template.language}
+                  </Badge>
+                  <Badge variant="outline" className="text-[10px] h-5">
+                    {template.category.toLowerCase()}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-3">
+                  {template.components.find((c) => c.type === 'BODY')?.text}
+                </p>
+              </div>
+              <Badge
+                variant="outline"
+                className={cn('text-[10px] h-5', STATUS_STYLES[template.status])}
+              >
+                {template.status.replace('_', ' ').toLowerCase()}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+// =============================================================================
+// Campaign Recipients API Route
+// GET /api/campaigns/[id]/recipients -> Paginated per-recipient delivery status
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+// -----------------------------------------------------------------------------
+// GET - List Recipients
+// Query params: status, search (name or phone), page, limit
+// -----------------------------------------------------------------------------
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    // 2. Make sure the campaign belongs to the user's org
+    const { data: campaign } = await adminSupabase
+      .from('crm_campaigns')
+      .select('id')
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+      .maybeSingle()
+
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 })
+    }
+
+    // 3. Parse query params
+    const searchParams = request.nextUrl.searchParams
+    const status = searchParams.get('status')
+    const search = searchParams.get('search')?.trim()
+    const page = parseInt(searchParams.get('page') || '1', 10)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10), 200)
+    const offset = (page - 1) * limit
+
+    // 4. Build the query (inner join so contact search can filter rows)
+    let query = adminSupabase
+      .from('crm_campaign_recipients')
+      .select(
+        search
+          ? '*, contact:crm_contacts!inner(id, name, phone)'
+          : '*, contact:crm_contacts(id, name, phone)',
+        { count: 'exact' }
+      )
+      .eq('campaign_id', id)
+      .order('created_at', { ascending: true })
+
+    if (status) {
+      query = query.in(
+        'status',
+        status.split(',').map((s) => s.trim())
+      )
+    }
+
+    if (search) {
+      query = query.or(`name.ilike.%${search}%,phone.ilike.%${search}%`, {
+        referencedTable: 'crm_contacts',
+      })
+    }
+
+    query = query.range(offset, offset + limit - 1)
+
+    // 5. Execute
+    const { data: recipients, error: queryError, count } = await query
+
+    if (queryError) {
+      console.error('Error fetching campaign recipients:', queryError)
+      return NextResponse.json(
+        { error: 'Failed to fetch recipients' },
+        { status: 500 }
+      )
+    }
+
+    const total = count || 0
+
+    return NextResponse.json({
+      data: recipients || [],
+      total,
+      page,
+      per_page: limit,
+      total_pages: Math.ceil(total / limit),
+    })
+  } catch (error) {
+    console.error('Unexpected error in GET /api/campaigns/[id]/recipients:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,194 @@
+// =============================================================================
+// Campaign API Route
+// GET    /api/campaigns/[id] -> Get a campaign
+// PATCH  /api/campaigns/[id] -> Edit a draft or scheduled campaign
+// DELETE /api/campaigns/[id] -> Delete a campaign that is not sending
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { resolveAudienceContacts } from '@/lib/campaigns/audience'
+import { validateCampaignInput, type CampaignInput } from '@/lib/campaigns/validation'
+import type { Campaign, CampaignStatus } from '@/types/database'
+
+const EDITABLE_STATUSES: CampaignStatus[] = ['draft', 'scheduled']
+const SENDING_STATUSES: CampaignStatus[] = ['running', 'paused']
+
+// -----------------------------------------------------------------------------
+// Shared: authenticate and load the campaign within the user's org
+// -----------------------------------------------------------------------------
+
+async function loadCampaignContext(campaignId: string, requireManage: boolean) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const adminSupabase = createAdminClient()
+
+  const { data: crmUser, error: crmUserError } = await adminSupabase
+    .from('crm_users')
+    .select('*')
+    .eq('id', user.id)
+    .single()
+
+  if (crmUserError || !crmUser) {
+    return {
+      error: NextResponse.json({ error: 'CRM user not found' }, { status: 403 }),
+    }
+  }
+
+  if (requireManage && !hasPermission(crmUser.role, 'manage_campaigns')) {
+    return {
+      error: NextResponse.json(
+        { error: 'You do not have permission to manage campaigns' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  const { data: campaign, error: campaignError } = await adminSupabase
+    .from('crm_campaigns')
+    .select('*')
+    .eq('id', campaignId)
+    .eq('org_id', crmUser.org_id)
+    .single<Campaign>()
+
+  if (campaignError || !campaign) {
+    return {
+      error: NextResponse.json({ error: 'Campaign not found' }, { status: 404 }),
+    }
+  }
+
+  return { adminSupabase, crmUser, campaign }
+}
+
+// -----------------------------------------------------------------------------
+// GET - Get Campaign
+// -----------------------------------------------------------------------------
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadCampaignContext(id, false)
+    if (ctx.error) return ctx.error
+
+    return NextResponse.json({ data: ctx.campaign })
+  } catch (error) {
+    console.error('Unexpected error in GET /api/campaigns/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// PATCH - Update Campaign
+// Body: any field accepted by POST /api/campaigns. Status changes go through
+// POST /api/campaigns/[id]/status.
+// -----------------------------------------------------------------------------
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadCampaignContext(id, true)
+    if (ctx.error) return ctx.error
+    const { adminSupabase, crmUser, campaign } = ctx
+
+    if (!EDITABLE_STATUSES.includes(campaign.status)) {
+      return NextResponse.json(
+        { error: 'Only draft and scheduled campaigns can be edited' },
+        { status: 409 }
+      )
+    }
+
+    const body = (await request.json()) as CampaignInput
+    const result = validateCampaignInput(body, { requireAll: false })
+
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    if (result.audience.length > 0) {
+      const listContactIds = await resolveAudienceContacts(
+        adminSupabase,
+        crmUser.org_id,
+        result.audience
+      )
+      const current =
+        (result.updates.target_contacts as string[] | undefined) ?? campaign.target_contacts
+      result.updates.target_contacts = Array.from(new Set([...current, ...listContactIds]))
+    }
+
+    if (Object.keys(result.updates).length === 0) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
+    }
+
+    const { data: updated, error: updateError } = await adminSupabase
+      .from('crm_campaigns')
+      .update(result.updates)
+      .eq('id', campaign.id)
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error('Error updating campaign:', updateError)
+      return NextResponse.json({ error: 'Failed to update campaign' }, { status: 500 })
+    }
+
+    return NextResponse.json({ data: updated })
+  } catch (error) {
+    console.error('Unexpected error in PATCH /api/campaigns/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// DELETE - Delete Campaign
+// Running and paused campaigns must be cancelled first.
+// -----------------------------------------------------------------------------
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadCampaignContext(id, true)
+    if (ctx.error) return ctx.error
+    const { adminSupabase, campaign } = ctx
+
+    if (SENDING_STATUSES.includes(campaign.status)) {
+      return NextResponse.json(
+        { error: 'Cancel the campaign before deleting it' },
+        { status: 409 }
+      )
+    }
+
+    const { error: deleteError } = await adminSupabase
+      .from('crm_campaigns')
+      .delete()
+      .eq('id', campaign.id)
+
+    if (deleteError) {
+      console.error('Error deleting campaign:', deleteError)
+      return NextResponse.json({ error: 'Failed to delete campaign' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/campaigns/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
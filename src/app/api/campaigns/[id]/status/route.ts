@@ -0,0 +1,187 @@
+// =============================================================================
+// Campaign Status API Route
+// POST /api/campaigns/[id]/status -> start, schedule, pause, resume or cancel
+// =============================================================================
+
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { canTransitionCampaign, isCampaignAction, CAMPAIGN_ACTIONS } from '@/lib/campaigns/status'
+import { dispatchDueCampaigns, startCampaign } from '@/lib/campaigns/dispatcher'
+import type { Campaign } from '@/types/database'
+
+// after() work counts towards the function's duration
+export const maxDuration = 60
+
+/** Budget for the first batches sent right after start/resume */
+const DISPATCH_AFTER_RESPONSE_MS = 50_000
+
+// -----------------------------------------------------------------------------
+// POST - Change Campaign Status
+// Body: { action: 'start' | 'schedule' | 'unschedule' | 'pause' | 'resume' | 'cancel',
+//         scheduled_at? }  (scheduled_at is required for 'schedule')
+// -----------------------------------------------------------------------------
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // 1. Authenticate
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_campaigns')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage campaigns' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Validate the action
+    const body = await request.json()
+    const { action, scheduled_at } = body
+
+    if (!isCampaignAction(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${Object.keys(CAMPAIGN_ACTIONS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { data: campaign, error: campaignError } = await adminSupabase
+      .from('crm_campaigns')
+      .select('*')
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+      .single<Campaign>()
+
+    if (campaignError || !campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 })
+    }
+
+    const target = CAMPAIGN_ACTIONS[action]
+    // 'start' and 'resume' both lead to running but from different states
+    const wrongOrigin =
+      (action === 'start' && campaign.status === 'paused') ||
+      (action === 'resume' && campaign.status !== 'paused')
+
+    if (wrongOrigin || !canTransitionCampaign(campaign.status, target)) {
+      return NextResponse.json(
+        { error: `Cannot ${action} a ${campaign.status} campaign` },
+        { status: 409 }
+      )
+    }
+
+    if (action === 'start' || action === 'schedule') {
+      if (!campaign.template_name) {
+        return NextResponse.json(
+          { error: 'Pick a template before sending the campaign' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // 3. Apply the transition
+    let updated: Campaign
+
+    if (action === 'start') {
+      try {
+        updated = await startCampaign(adminSupabase, campaign)
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Failed to start campaign' },
+          { status: 422 }
+        )
+      }
+    } else {
+      const updates: Partial<Campaign> = { status: target }
+
+      switch (action) {
+        case 'schedule': {
+          const when = scheduled_at ? new Date(scheduled_at) : null
+          if (!when || isNaN(when.getTime()) || when.getTime() <= Date.now()) {
+            return NextResponse.json(
+              { error: 'scheduled_at must be a date in the future' },
+              { status: 400 }
+            )
+          }
+          updates.scheduled_at = when.toISOString()
+          break
+        }
+        case 'unschedule':
+          updates.scheduled_at = null
+          break
+        case 'pause':
+          updates.next_batch_at = null
+          break
+        case 'resume':
+          updates.next_batch_at = new Date().toISOString()
+          updates.last_error = null
+          break
+        case 'cancel':
+          updates.next_batch_at = null
+          updates.completed_at = new Date().toISOString()
+          break
+      }
+
+      // Guarded on the current status so a concurrent change is not overwritten
+      const { data, error: updateError } = await adminSupabase
+        .from('crm_campaigns')
+        .update(updates)
+        .eq('id', campaign.id)
+        .eq('status', campaign.status)
+        .select()
+        .single<Campaign>()
+
+      if (updateError || !data) {
+        console.error('Error updating campaign status:', updateError)
+        return NextResponse.json(
+          { error: 'Campaign status changed, please reload' },
+          { status: 409 }
+        )
+      }
+      updated = data
+    }
+
+    // 4. Send the first batches without waiting for the next cron tick
+    if (updated.status === 'running') {
+      after(async () => {
+        try {
+          await dispatchDueCampaigns(createAdminClient(), {
+            maxDurationMs: DISPATCH_AFTER_RESPONSE_MS,
+          })
+        } catch (error) {
+          console.error('Campaign dispatch after status change failed:', error)
+        }
+      })
+    }
+
+    return NextResponse.json({ data: updated })
+  } catch (error) {
+    console.error('Unexpected error in POST /api/campaigns/[id]/status:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
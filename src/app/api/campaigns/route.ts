@@ -0,0 +1,188 @@
+// =============================================================================
+// Campaigns API Route
+// GET  /api/campaigns -> List bulk sending campaigns (optionally by status)
+// POST /api/campaigns -> Create a draft campaign
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { resolveAudienceContacts } from '@/lib/campaigns/audience'
+import { validateCampaignInput, type CampaignInput } from '@/lib/campaigns/validation'
+
+// -----------------------------------------------------------------------------
+// GET - List Campaigns
+// Query params: status (comma-separated)
+// -----------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    // Get the CRM user to determine org_id
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json(
+        { error: 'CRM user not found' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Build the query
+    const status = request.nextUrl.searchParams.get('status')
+
+    let query = adminSupabase
+      .from('crm_campaigns')
+      .select('*')
+      .eq('org_id', crmUser.org_id)
+      .order('created_at', { ascending: false })
+
+    if (status) {
+      query = query.in(
+        'status',
+        status.split(',').map((s) => s.trim())
+      )
+    }
+
+    const { data: campaigns, error: queryError } = await query
+
+    if (queryError) {
+      console.error('Error fetching campaigns:', queryError)
+      return NextResponse.json(
+        { error: 'Failed to fetch campaigns' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ data: campaigns || [] })
+  } catch (error) {
+    console.error('Unexpected error in GET /api/campaigns:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// -----------------------------------------------------------------------------
+// POST - Create a Draft Campaign
+// Body: { name, description?, template_name, template_language, template_params?,
+//         target_group_id?, target_tags?, target_contacts?, audience_list?,
+//         batch_size?, batch_interval_seconds?, reply_window_hours? }
+// -----------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json(
+        { error: 'CRM user not found' },
+        { status: 403 }
+      )
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_campaigns')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage campaigns' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Validate
+    const body = (await request.json()) as CampaignInput
+    const result = validateCampaignInput(body, { requireAll: true })
+
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    const { data: template } = await adminSupabase
+      .from('crm_whatsapp_templates')
+      .select('id, status')
+      .eq('org_id', crmUser.org_id)
+      .eq('name', result.updates.template_name)
+      .eq('language', result.updates.template_language)
+      .maybeSingle()
+
+    if (!template || template.status !== 'APPROVED') {
+      return NextResponse.json(
+        { error: 'Pick an approved WhatsApp template' },
+        { status: 400 }
+      )
+    }
+
+    // 3. Resolve an uploaded list into contacts
+    if (result.audience.length > 0) {
+      const listContactIds = await resolveAudienceContacts(
+        adminSupabase,
+        crmUser.org_id,
+        result.audience
+      )
+      const current = (result.updates.target_contacts as string[] | undefined) ?? []
+      result.updates.target_contacts = Array.from(new Set([...current, ...listContactIds]))
+    }
+
+    // 4. Create the draft
+    const { data: campaign, error: createError } = await adminSupabase
+      .from('crm_campaigns')
+      .insert({
+        ...result.updates,
+        org_id: crmUser.org_id,
+        status: 'draft',
+        created_by: crmUser.id,
+      })
+      .select()
+      .single()
+
+    if (createError) {
+      console.error('Error creating campaign:', createError)
+      return NextResponse.json(
+        { error: 'Failed to create campaign' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(campaign, { status: 201 })
+  } catch (error) {
+    console.error('Unexpected error in POST /api/campaigns:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,174 @@
+// =============================================================================
+// Contact Group Members API Route
+// POST   /api/contact-groups/[id]/members -> Add contacts to a static group
+// DELETE /api/contact-groups/[id]/members -> Remove contacts from a static group
+// Members are listed through GET /api/contacts?group_id=..., which also
+// evaluates dynamic groups.
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+
+const MAX_MEMBER_CHANGES = 500
+
+// -----------------------------------------------------------------------------
+// Shared: authenticate, load the static group and validate contact_ids
+// -----------------------------------------------------------------------------
+
+async function loadMemberContext(request: NextRequest, groupId: string) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const adminSupabase = createAdminClient()
+
+  const { data: crmUser, error: crmUserError } = await adminSupabase
+    .from('crm_users')
+    .select('*')
+    .eq('id', user.id)
+    .single()
+
+  if (crmUserError || !crmUser) {
+    return {
+      error: NextResponse.json({ error: 'CRM user not found' }, { status: 403 }),
+    }
+  }
+
+  if (!hasPermission(crmUser.role, 'manage_contacts')) {
+    return {
+      error: NextResponse.json(
+        { error: 'You do not have permission to manage contact groups' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  const { data: group } = await adminSupabase
+    .from('crm_contact_groups')
+    .select('id, type')
+    .eq('id', groupId)
+    .eq('org_id', crmUser.org_id)
+    .maybeSingle()
+
+  if (!group) {
+    return {
+      error: NextResponse.json({ error: 'Contact group not found' }, { status: 404 }),
+    }
+  }
+  if (group.type === 'dynamic') {
+    return {
+      error: NextResponse.json(
+        { error: 'Members of a dynamic group come from its filter' },
+        { status: 400 }
+      ),
+    }
+  }
+
+  const body = await request.json()
+  const { contact_ids } = body as { contact_ids: string[] }
+
+  if (!Array.isArray(contact_ids) || contact_ids.length === 0) {
+    return {
+      error: NextResponse.json({ error: 'contact_ids is required' }, { status: 400 }),
+    }
+  }
+  if (contact_ids.length > MAX_MEMBER_CHANGES) {
+    return {
+      error: NextResponse.json(
+        { error: `At most ${MAX_MEMBER_CHANGES} contacts can be changed at once` },
+        { status: 400 }
+      ),
+    }
+  }
+
+  return { adminSupabase, crmUser, ids: [...new Set(contact_ids)] }
+}
+
+// -----------------------------------------------------------------------------
+// POST - Add Members
+// Body: { contact_ids }
+// Returns { data: { affected } }
+// -----------------------------------------------------------------------------
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadMemberContext(request, id)
+    if (ctx.error) return ctx.error
+    const { adminSupabase, crmUser, ids } = ctx
+
+    // Only contacts of this org can join the group
+    const { data: contacts, error: contactsError } = await adminSupabase
+      .from('crm_contacts')
+      .select('id')
+      .eq('org_id', crmUser.org_id)
+      .in('id', ids)
+
+    if (contactsError) {
+      console.error('Error fetching contacts for group:', contactsError)
+      return NextResponse.json({ error: 'Failed to add members' }, { status: 500 })
+    }
+
+    const rows = (contacts || []).map((c) => ({ group_id: id, contact_id: c.id }))
+    if (rows.length > 0) {
+      const { error: insertError } = await adminSupabase
+        .from('crm_contact_group_members')
+        .upsert(rows, { onConflict: 'group_id,contact_id', ignoreDuplicates: true })
+
+      if (insertError) {
+        console.error('Error adding group members:', insertError)
+        return NextResponse.json({ error: 'Failed to add members' }, { status: 500 })
+      }
+    }
+
+    return NextResponse.json({ data: { affected: rows.length } })
+  } catch (error) {
+    console.error('Unexpected error in POST /api/contact-groups/[id]/members:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// DELETE - Remove Members
+// Body: { contact_ids }
+// Returns { data: { affected } }
+// -----------------------------------------------------------------------------
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadMemberContext(request, id)
+    if (ctx.error) return ctx.error
+    const { adminSupabase, ids } = ctx
+
+    const { error: deleteError, count } = await adminSupabase
+      .from('crm_contact_group_members')
+      .delete({ count: 'exact' })
+      .eq('group_id', id)
+      .in('contact_id', ids)
+
+    if (deleteError) {
+      console.error('Error removing group members:', deleteError)
+      return NextResponse.json({ error: 'Failed to remove members' }, { status: 500 })
+    }
+
+    return NextResponse.json({ data: { affected: count ?? 0 } })
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/contact-groups/[id]/members:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
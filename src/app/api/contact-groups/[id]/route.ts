@@ -0,0 +1,221 @@
+// =============================================================================
+// Contact Group API Route
+// GET    /api/contact-groups/[id] -> Get a group with its member count
+// PATCH  /api/contact-groups/[id] -> Update a group or its segment filter
+// DELETE /api/contact-groups/[id] -> Delete a group (contacts are kept)
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { countSegment, parseSegmentFilter } from '@/lib/contacts/segments'
+import type { SegmentFilter } from '@/types/database'
+
+// -----------------------------------------------------------------------------
+// Shared: authenticate a CRM user, optionally one allowed to manage contacts
+// -----------------------------------------------------------------------------
+
+async function loadUserContext(requireManage: boolean) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const adminSupabase = createAdminClient()
+
+  const { data: crmUser, error: crmUserError } = await adminSupabase
+    .from('crm_users')
+    .select('*')
+    .eq('id', user.id)
+    .single()
+
+  if (crmUserError || !crmUser) {
+    return {
+      error: NextResponse.json({ error: 'CRM user not found' }, { status: 403 }),
+    }
+  }
+
+  if (requireManage && !hasPermission(crmUser.role, 'manage_contacts')) {
+    return {
+      error: NextResponse.json(
+        { error: 'You do not have permission to manage contact groups' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { adminSupabase, crmUser }
+}
+
+// -----------------------------------------------------------------------------
+// GET - Get Contact Group
+// -----------------------------------------------------------------------------
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadUserContext(false)
+    if (ctx.error) return ctx.error
+    const { adminSupabase, crmUser } = ctx
+
+    const { data: group, error: queryError } = await adminSupabase
+      .from('crm_contact_groups')
+      .select('*, members:crm_contact_group_members(count)')
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+      .maybeSingle()
+
+    if (queryError) {
+      console.error('Error fetching contact group:', queryError)
+      return NextResponse.json({ error: 'Failed to fetch contact group' }, { status: 500 })
+    }
+    if (!group) {
+      return NextResponse.json({ error: 'Contact group not found' }, { status: 404 })
+    }
+
+    const { members, ...rest } = group
+    const memberCount =
+      rest.type === 'dynamic'
+        ? await countSegment(adminSupabase, crmUser.org_id, rest.filter as SegmentFilter)
+        : ((members as Array<{ count: number }>)?.[0]?.count ?? 0)
+
+    return NextResponse.json({ data: { ...rest, member_count: memberCount } })
+  } catch (error) {
+    console.error('Unexpected error in GET /api/contact-groups/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// PATCH - Update Contact Group
+// Body: { name?, description?, color?, filter? }
+// A group's type cannot change; filter only applies to dynamic groups.
+// -----------------------------------------------------------------------------
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadUserContext(true)
+    if (ctx.error) return ctx.error
+    const { adminSupabase, crmUser } = ctx
+
+    const { data: existing } = await adminSupabase
+      .from('crm_contact_groups')
+      .select('id, type')
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+      .maybeSingle()
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Contact group not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const { name, description, color, type, filter } = body as {
+      name?: string
+      description?: string | null
+      color?: string | null
+      type?: string
+      filter?: unknown
+    }
+
+    if (type !== undefined && type !== existing.type) {
+      return NextResponse.json(
+        { error: 'A group cannot change between static and dynamic' },
+        { status: 400 }
+      )
+    }
+
+    const updates: Record<string, unknown> = {}
+
+    if (name !== undefined) {
+      if (!name.trim()) {
+        return NextResponse.json({ error: 'Name is required' }, { status: 400 })
+      }
+      updates.name = name.trim()
+    }
+    if (description !== undefined) updates.description = description?.trim() || null
+    if (color !== undefined) updates.color = color || null
+
+    if (filter !== undefined) {
+      if (existing.type !== 'dynamic') {
+        return NextResponse.json(
+          { error: 'Only dynamic groups have a filter' },
+          { status: 400 }
+        )
+      }
+      const parsed = parseSegmentFilter(filter)
+      if (parsed.error !== undefined) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+      }
+      updates.filter = parsed.filter
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
+    }
+
+    const { data: updated, error: updateError } = await adminSupabase
+      .from('crm_contact_groups')
+      .update(updates)
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error('Error updating contact group:', updateError)
+      return NextResponse.json({ error: 'Failed to update contact group' }, { status: 500 })
+    }
+
+    return NextResponse.json({ data: updated })
+  } catch (error) {
+    console.error('Unexpected error in PATCH /api/contact-groups/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// DELETE - Delete Contact Group
+// Memberships cascade; campaigns that targeted the group keep their recipients.
+// -----------------------------------------------------------------------------
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadUserContext(true)
+    if (ctx.error) return ctx.error
+    const { adminSupabase, crmUser } = ctx
+
+    const { error: deleteError } = await adminSupabase
+      .from('crm_contact_groups')
+      .delete()
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+
+    if (deleteError) {
+      console.error('Error deleting contact group:', deleteError)
+      return NextResponse.json({ error: 'Failed to delete contact group' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/contact-groups/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+// =============================================================================
+// Segment Preview API Route
+// POST /api/contact-groups/preview -> Evaluate a segment filter without saving
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { parseSegmentFilter, segmentContacts } from '@/lib/contacts/segments'
+
+const SAMPLE_SIZE = 10
+
+// -----------------------------------------------------------------------------
+// POST - Preview a Segment
+// Body: { filter }
+// Returns { data: { count, sample } } with the most recently updated matches
+// -----------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_contacts')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage contact groups' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Validate the filter
+    const body = await request.json()
+    const parsed = parseSegmentFilter(body.filter)
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    // 3. Evaluate
+    const { data: sample, error: queryError, count } = await segmentContacts(
+      adminSupabase,
+      crmUser.org_id,
+      parsed.filter,
+      { count: 'exact' }
+    )
+      .select('id, name, phone')
+      .order('updated_at', { ascending: false })
+      .limit(SAMPLE_SIZE)
+
+    if (queryError) {
+      console.error('Error previewing segment:', queryError)
+      return NextResponse.json({ error: 'Failed to evaluate segment' }, { status: 500 })
+    }
+
+    return NextResponse.json({ data: { count: count ?? 0, sample: sample ?? [] } })
+  } catch (error) {
+    console.error('Unexpected error in POST /api/contact-groups/preview:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,164 @@
+// =============================================================================
+// Contact Groups API Route
+// GET  /api/contact-groups -> List the org's contact groups with member counts
+// POST /api/contact-groups -> Create a static group or a dynamic segment
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { countSegment, parseSegmentFilter } from '@/lib/contacts/segments'
+import type { SegmentFilter } from '@/types/database'
+
+// -----------------------------------------------------------------------------
+// GET - List Contact Groups
+// Dynamic groups are counted by evaluating their segment.
+// -----------------------------------------------------------------------------
+
+export async function GET() {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    // 2. Fetch, counting members through the junction table
+    const { data: groups, error: queryError } = await adminSupabase
+      .from('crm_contact_groups')
+      .select('*, members:crm_contact_group_members(count)')
+      .eq('org_id', crmUser.org_id)
+      .order('name', { ascending: true })
+
+    if (queryError) {
+      console.error('Error fetching contact groups:', queryError)
+      return NextResponse.json({ error: 'Failed to fetch contact groups' }, { status: 500 })
+    }
+
+    const data = await Promise.all(
+      (groups || []).map(async ({ members, ...group }) => ({
+        ...group,
+        member_count:
+          group.type === 'dynamic'
+            ? await countSegment(adminSupabase, crmUser.org_id, group.filter as SegmentFilter)
+            : ((members as Array<{ count: number }>)?.[0]?.count ?? 0),
+      }))
+    )
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    console.error('Unexpected error in GET /api/contact-groups:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// POST - Create a Contact Group
+// Body: { name, description?, color?, type?: 'static' | 'dynamic', filter? }
+//   filter (SegmentFilter) is required for dynamic groups
+// -----------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_contacts')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage contact groups' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Validate the body
+    const body = await request.json()
+    const { name, description, color, type = 'static', filter } = body as {
+      name: string
+      description?: string | null
+      color?: string | null
+      type?: string
+      filter?: unknown
+    }
+
+    if (!name?.trim()) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 })
+    }
+    if (type !== 'static' && type !== 'dynamic') {
+      return NextResponse.json({ error: 'type must be static or dynamic' }, { status: 400 })
+    }
+
+    let segment: SegmentFilter | null = null
+    if (type === 'dynamic') {
+      const parsed = parseSegmentFilter(filter)
+      if (parsed.error !== undefined) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+      }
+      segment = parsed.filter
+    }
+
+    // 3. Create the group
+    const { data: group, error: createError } = await adminSupabase
+      .from('crm_contact_groups')
+      .insert({
+        org_id: crmUser.org_id,
+        name: name.trim(),
+        description: description?.trim() || null,
+        color: color || null,
+        type,
+        filter: segment,
+        created_by: crmUser.id,
+      })
+      .select()
+      .single()
+
+    if (createError) {
+      console.error('Error creating contact group:', createError)
+      return NextResponse.json({ error: 'Failed to create contact group' }, { status: 500 })
+    }
+
+    const memberCount = segment ? await countSegment(adminSupabase, crmUser.org_id, segment) : 0
+
+    return NextResponse.json({ ...group, member_count: memberCount }, { status: 201 })
+  } catch (error) {
+    console.error('Unexpected error in POST /api/contact-groups:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,164 @@
+// =============================================================================
+// Contact Consent API Route
+// GET  /api/contacts/[id]/consent -> Current consent and its history
+// POST /api/contacts/[id]/consent -> Record an opt-out or opt-in by an agent
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { CONSENT_CATEGORIES, recordConsentChange } from '@/lib/contacts/consent'
+import type { ConsentAction, ConsentCategory, Contact } from '@/types/database'
+
+// -----------------------------------------------------------------------------
+// Shared: authenticate and load the contact within the user's org
+// -----------------------------------------------------------------------------
+
+async function loadContactContext(contactId: string) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const adminSupabase = createAdminClient()
+
+  const { data: crmUser, error: crmUserError } = await adminSupabase
+    .from('crm_users')
+    .select('*')
+    .eq('id', user.id)
+    .single()
+
+  if (crmUserError || !crmUser) {
+    return {
+      error: NextResponse.json({ error: 'CRM user not found' }, { status: 403 }),
+    }
+  }
+
+  const { data: contact, error: contactError } = await adminSupabase
+    .from('crm_contacts')
+    .select('*')
+    .eq('id', contactId)
+    .eq('org_id', crmUser.org_id)
+    .single<Contact>()
+
+  if (contactError || !contact) {
+    return {
+      error: NextResponse.json({ error: 'Contact not found' }, { status: 404 }),
+    }
+  }
+
+  return { adminSupabase, crmUser, contact }
+}
+
+// -----------------------------------------------------------------------------
+// GET - Consent state and history (newest first)
+// -----------------------------------------------------------------------------
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadContactContext(id)
+    if (ctx.error) return ctx.error
+    const { adminSupabase, contact } = ctx
+
+    const { data: events, error: eventsError } = await adminSupabase
+      .from('crm_contact_consent_events')
+      .select('*, creator:crm_users(id, display_name)')
+      .eq('contact_id', contact.id)
+      .order('created_at', { ascending: false })
+      .limit(100)
+
+    if (eventsError) {
+      console.error('Error fetching consent history:', eventsError)
+      return NextResponse.json(
+        { error: 'Failed to fetch consent history' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      data: {
+        marketing_opted_out_at: contact.marketing_opted_out_at,
+        utility_opted_out_at: contact.utility_opted_out_at,
+        events: events || [],
+      },
+    })
+  } catch (error) {
+    console.error('Unexpected error in GET /api/contacts/[id]/consent:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// POST - Record a consent change
+// Body: { category: 'marketing' | 'utility', action: 'opt_out' | 'opt_in', note? }
+// Any desk user can opt a contact out; opting back in needs manage_contacts.
+// -----------------------------------------------------------------------------
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadContactContext(id)
+    if (ctx.error) return ctx.error
+    const { adminSupabase, crmUser, contact } = ctx
+
+    const body = await request.json()
+    const { category, action, note } = body as {
+      category: ConsentCategory
+      action: ConsentAction
+      note?: string
+    }
+
+    if (!CONSENT_CATEGORIES.includes(category)) {
+      return NextResponse.json(
+        { error: `category must be one of: ${CONSENT_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (action !== 'opt_out' && action !== 'opt_in') {
+      return NextResponse.json(
+        { error: 'action must be opt_out or opt_in' },
+        { status: 400 }
+      )
+    }
+    if (action === 'opt_in' && !hasPermission(crmUser.role, 'manage_contacts')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to opt contacts back in' },
+        { status: 403 }
+      )
+    }
+
+    const changed = await recordConsentChange(adminSupabase, {
+      orgId: crmUser.org_id,
+      contact,
+      categories: [category],
+      action,
+      source: 'agent',
+      detail: note?.trim() || null,
+      createdBy: crmUser.id,
+    })
+
+    const { data: updated } = await adminSupabase
+      .from('crm_contacts')
+      .select('*')
+      .eq('id', contact.id)
+      .single()
+
+    return NextResponse.json({ data: { contact: updated, changed } })
+  } catch (error) {
+    console.error('Unexpected error in POST /api/contacts/[id]/consent:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,115 @@
+// =============================================================================
+// Contact HubSpot Deals API Route
+// POST /api/contacts/[id]/hubspot/deals -> Create a deal for the linked contact
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { HubSpotNotConnectedError } from '@/lib/hubspot/oauth'
+import {
+  HubSpotStageNotFoundError,
+  createHubSpotContactDeal,
+  hubspotQuickDealSchema,
+} from '@/lib/hubspot/contact-card'
+import type { Contact } from '@/types/database'
+
+// -----------------------------------------------------------------------------
+// Shared: authenticate and load the linked contact within the user's org
+// -----------------------------------------------------------------------------
+
+async function loadLinkedContactContext(contactId: string) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const adminSupabase = createAdminClient()
+
+  const { data: crmUser, error: crmUserError } = await adminSupabase
+    .from('crm_users')
+    .select('*')
+    .eq('id', user.id)
+    .single()
+
+  if (crmUserError || !crmUser) {
+    return {
+      error: NextResponse.json({ error: 'CRM user not found' }, { status: 403 }),
+    }
+  }
+
+  const { data: contact, error: contactError } = await adminSupabase
+    .from('crm_contacts')
+    .select('*')
+    .eq('id', contactId)
+    .eq('org_id', crmUser.org_id)
+    .single<Contact>()
+
+  if (contactError || !contact) {
+    return {
+      error: NextResponse.json({ error: 'Contact not found' }, { status: 404 }),
+    }
+  }
+
+  if (!contact.hubspot_contact_id) {
+    return {
+      error: NextResponse.json(
+        { error: 'This contact is not linked to HubSpot' },
+        { status: 409 }
+      ),
+    }
+  }
+
+  return { adminSupabase, crmUser, hubspotContactId: contact.hubspot_contact_id }
+}
+
+// -----------------------------------------------------------------------------
+// POST - Create Deal
+// Body: { dealname, amount?, pipeline_id, stage_id, close_date? }
+// -----------------------------------------------------------------------------
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadLinkedContactContext(id)
+    if (ctx.error) return ctx.error
+    const { adminSupabase, crmUser, hubspotContactId } = ctx
+
+    // 1. Validate
+    const parsed = hubspotQuickDealSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    // 2. Create in HubSpot
+    try {
+      const deal = await createHubSpotContactDeal(
+        adminSupabase,
+        crmUser.org_id,
+        hubspotContactId,
+        parsed.data
+      )
+      return NextResponse.json(deal, { status: 201 })
+    } catch (hubspotError) {
+      if (hubspotError instanceof HubSpotNotConnectedError) {
+        return NextResponse.json({ error: hubspotError.message }, { status: 409 })
+      }
+      if (hubspotError instanceof HubSpotStageNotFoundError) {
+        return NextResponse.json({ error: hubspotError.message }, { status: 400 })
+      }
+      console.error('Failed to create HubSpot deal:', hubspotError)
+      return NextResponse.json({ error: 'Failed to create the deal in HubSpot' }, { status: 502 })
+    }
+  } catch (error) {
+    console.error('Unexpected error in POST /api/contacts/[id]/hubspot/deals:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
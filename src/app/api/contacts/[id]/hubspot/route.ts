@@ -0,0 +1,109 @@
+// =============================================================================
+// Contact HubSpot Card API Route
+// GET /api/contacts/[id]/hubspot -> Lifecycle stage, owner, open deals and
+//                                   recent activities of the linked contact
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { HubSpotNotConnectedError } from '@/lib/hubspot/oauth'
+import { loadHubSpotContactCard } from '@/lib/hubspot/contact-card'
+import type { Contact } from '@/types/database'
+
+// -----------------------------------------------------------------------------
+// Shared: authenticate and load the linked contact within the user's org
+// -----------------------------------------------------------------------------
+
+async function loadLinkedContactContext(contactId: string) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const adminSupabase = createAdminClient()
+
+  const { data: crmUser, error: crmUserError } = await adminSupabase
+    .from('crm_users')
+    .select('*')
+    .eq('id', user.id)
+    .single()
+
+  if (crmUserError || !crmUser) {
+    return {
+      error: NextResponse.json({ error: 'CRM user not found' }, { status: 403 }),
+    }
+  }
+
+  const { data: contact, error: contactError } = await adminSupabase
+    .from('crm_contacts')
+    .select('*')
+    .eq('id', contactId)
+    .eq('org_id', crmUser.org_id)
+    .single<Contact>()
+
+  if (contactError || !contact) {
+    return {
+      error: NextResponse.json({ error: 'Contact not found' }, { status: 404 }),
+    }
+  }
+
+  if (!contact.hubspot_contact_id) {
+    return {
+      error: NextResponse.json(
+        { error: 'This contact is not linked to HubSpot' },
+        { status: 409 }
+      ),
+    }
+  }
+
+  return { adminSupabase, crmUser, hubspotContactId: contact.hubspot_contact_id }
+}
+
+// -----------------------------------------------------------------------------
+// GET - HubSpot card (cached briefly; ?refresh=1 reads HubSpot again)
+// -----------------------------------------------------------------------------
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadLinkedContactContext(id)
+    if (ctx.error) return ctx.error
+    const { adminSupabase, crmUser, hubspotContactId } = ctx
+
+    const refresh = request.nextUrl.searchParams.get('refresh') === '1'
+
+    try {
+      const card = await loadHubSpotContactCard(
+        adminSupabase,
+        crmUser.org_id,
+        hubspotContactId,
+        refresh
+      )
+      if (!card) {
+        return NextResponse.json(
+          { error: 'This contact no longer exists in HubSpot' },
+          { status: 404 }
+        )
+      }
+      return NextResponse.json({ data: card })
+    } catch (hubspotError) {
+      if (hubspotError instanceof HubSpotNotConnectedError) {
+        return NextResponse.json({ error: hubspotError.message }, { status: 409 })
+      }
+      console.error('Failed to load HubSpot contact card:', hubspotError)
+      return NextResponse.json({ error: 'Failed to load the contact from HubSpot' }, { status: 502 })
+    }
+  } catch (error) {
+    console.error('Unexpected error in GET /api/contacts/[id]/hubspot:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,208 @@
+// =============================================================================
+// Contact Detail API Route
+// GET   /api/contacts/[id] -> Contact with its groups and every conversation
+// PATCH /api/contacts/[id] -> Update name, email or custom fields
+// =============================================================================
+
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import {
+  loadCustomFieldDefinitions,
+  mergeCustomFields,
+  parseCustomFields,
+} from '@/lib/contacts/custom-fields'
+import { syncContactToHubSpot } from '@/lib/hubspot/contact-sync'
+import type { Contact } from '@/types/database'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// -----------------------------------------------------------------------------
+// GET - Contact detail
+// -----------------------------------------------------------------------------
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    // 2. Contact with its group memberships
+    const { data: contact, error: contactError } = await adminSupabase
+      .from('crm_contacts')
+      .select('*, memberships:crm_contact_group_members(group:crm_contact_groups(id, name))')
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+      .maybeSingle()
+
+    if (contactError) {
+      console.error('Error fetching contact:', contactError)
+      return NextResponse.json({ error: 'Failed to fetch contact' }, { status: 500 })
+    }
+    if (!contact) {
+      return NextResponse.json({ error: 'Contact not found' }, { status: 404 })
+    }
+
+    // 3. All of the contact's conversations, newest activity first
+    const { data: conversations, error: conversationsError } = await adminSupabase
+      .from('crm_conversations')
+      .select('*, assigned_agent:crm_users(id, display_name)')
+      .eq('contact_id', contact.id)
+      .eq('org_id', crmUser.org_id)
+      .order('last_message_at', { ascending: false, nullsFirst: false })
+
+    if (conversationsError) {
+      console.error('Error fetching contact conversations:', conversationsError)
+      return NextResponse.json({ error: 'Failed to fetch conversations' }, { status: 500 })
+    }
+
+    const { memberships, ...rest } = contact
+    const groups = ((memberships as Array<{ group: { id: string; name: string } | null }>) || [])
+      .map((m) => m.group)
+      .filter((g): g is { id: string; name: string } => g !== null)
+
+    return NextResponse.json({
+      data: { ...rest, groups, conversations: conversations || [] },
+    })
+  } catch (error) {
+    console.error('Unexpected error in GET /api/contacts/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// PATCH - Update a contact
+// Body: { name?, email?, custom_fields? }
+// custom_fields is merged key by key; null or an empty value clears a field.
+// Any desk user can edit the contacts they talk to.
+// -----------------------------------------------------------------------------
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    if (
+      !hasPermission(crmUser.role, 'use_desk') &&
+      !hasPermission(crmUser.role, 'manage_contacts')
+    ) {
+      return NextResponse.json(
+        { error: 'You do not have permission to edit contacts' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Validate the request body
+    const body = await request.json()
+    const { name, email, custom_fields } = body as {
+      name?: string | null
+      email?: string | null
+      custom_fields?: Record<string, unknown>
+    }
+
+    const updates: Record<string, unknown> = {}
+    if (name !== undefined) updates.name = name?.trim() || null
+    if (email !== undefined) {
+      const trimmed = email?.trim() || null
+      if (trimmed && !EMAIL_PATTERN.test(trimmed)) {
+        return NextResponse.json({ error: 'Invalid email' }, { status: 400 })
+      }
+      updates.email = trimmed
+    }
+
+    const { data: contact } = await adminSupabase
+      .from('crm_contacts')
+      .select('*')
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+      .maybeSingle<Contact>()
+
+    if (!contact) {
+      return NextResponse.json({ error: 'Contact not found' }, { status: 404 })
+    }
+
+    if (custom_fields !== undefined) {
+      const definitions = await loadCustomFieldDefinitions(adminSupabase, crmUser.org_id)
+      const parsed = parseCustomFields(definitions, custom_fields, { partial: true })
+      if (parsed.error !== undefined) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+      }
+      updates.custom_fields = mergeCustomFields(contact.custom_fields ?? {}, parsed.values)
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
+    }
+
+    // 3. Save
+    const { data: updated, error: updateError } = await adminSupabase
+      .from('crm_contacts')
+      .update(updates)
+      .eq('id', contact.id)
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error('Error updating contact:', updateError)
+      return NextResponse.json({ error: 'Failed to update contact' }, { status: 500 })
+    }
+
+    // 4. Push the mapped fields that changed to HubSpot
+    after(() => syncContactToHubSpot(adminSupabase, updated, contact))
+
+    return NextResponse.json({ data: updated })
+  } catch (error) {
+    console.error('Unexpected error in PATCH /api/contacts/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,189 @@
+// =============================================================================
+// Contacts Bulk Actions API Route
+// POST /api/contacts/bulk -> Tag, untag, add to group or delete many contacts
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+
+const BULK_ACTIONS = ['add_tags', 'remove_tags', 'add_to_group', 'delete'] as const
+type BulkAction = (typeof BULK_ACTIONS)[number]
+
+const MAX_BULK_CONTACTS = 500
+
+// -----------------------------------------------------------------------------
+// POST - Run a bulk action
+// Body: { action, contact_ids, tags?, group_id? }
+//   add_tags / remove_tags -> tags: string[]
+//   add_to_group           -> group_id: string
+//   delete                 -> no extra fields
+// Returns { data: { affected } }
+// -----------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_contacts')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage contacts' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Validate the body
+    const body = await request.json()
+    const { action, contact_ids, tags, group_id } = body as {
+      action: BulkAction
+      contact_ids: string[]
+      tags?: string[]
+      group_id?: string
+    }
+
+    if (!BULK_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${BULK_ACTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (!Array.isArray(contact_ids) || contact_ids.length === 0) {
+      return NextResponse.json({ error: 'contact_ids is required' }, { status: 400 })
+    }
+    if (contact_ids.length > MAX_BULK_CONTACTS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BULK_CONTACTS} contacts can be changed at once` },
+        { status: 400 }
+      )
+    }
+
+    const ids = [...new Set(contact_ids)]
+    const orgId = crmUser.org_id
+
+    // 3. Run the action
+    switch (action) {
+      case 'add_tags':
+      case 'remove_tags': {
+        const cleanTags = [
+          ...new Set((Array.isArray(tags) ? tags : []).map((t) => String(t).trim()).filter(Boolean)),
+        ]
+        if (cleanTags.length === 0) {
+          return NextResponse.json({ error: 'tags is required' }, { status: 400 })
+        }
+
+        if (action === 'add_tags') {
+          // Make new tag names show up in the org's tag list
+          await adminSupabase
+            .from('crm_tags')
+            .upsert(
+              cleanTags.map((name) => ({ org_id: orgId, name })),
+              { onConflict: 'org_id,name', ignoreDuplicates: true }
+            )
+        }
+
+        const { data: affected, error: rpcError } = await adminSupabase.rpc(
+          action === 'add_tags' ? 'crm_add_contact_tags' : 'crm_remove_contact_tags',
+          { p_org_id: orgId, p_contact_ids: ids, p_tags: cleanTags }
+        )
+
+        if (rpcError) {
+          console.error(`Error running ${action}:`, rpcError)
+          return NextResponse.json({ error: 'Failed to update tags' }, { status: 500 })
+        }
+
+        return NextResponse.json({ data: { affected: affected ?? 0 } })
+      }
+
+      case 'add_to_group': {
+        if (!group_id) {
+          return NextResponse.json({ error: 'group_id is required' }, { status: 400 })
+        }
+
+        const { data: group } = await adminSupabase
+          .from('crm_contact_groups')
+          .select('id, type')
+          .eq('id', group_id)
+          .eq('org_id', orgId)
+          .maybeSingle()
+
+        if (!group) {
+          return NextResponse.json({ error: 'Contact group not found' }, { status: 404 })
+        }
+        if (group.type === 'dynamic') {
+          return NextResponse.json(
+            { error: 'Contacts cannot be added to a dynamic group' },
+            { status: 400 }
+          )
+        }
+
+        // Only contacts of this org can join the group
+        const { data: contacts, error: contactsError } = await adminSupabase
+          .from('crm_contacts')
+          .select('id')
+          .eq('org_id', orgId)
+          .in('id', ids)
+
+        if (contactsError) {
+          console.error('Error fetching contacts for group:', contactsError)
+          return NextResponse.json({ error: 'Failed to add contacts to group' }, { status: 500 })
+        }
+
+        const rows = (contacts || []).map((c) => ({ group_id: group.id, contact_id: c.id }))
+        if (rows.length > 0) {
+          const { error: insertError } = await adminSupabase
+            .from('crm_contact_group_members')
+            .upsert(rows, { onConflict: 'group_id,contact_id', ignoreDuplicates: true })
+
+          if (insertError) {
+            console.error('Error adding contacts to group:', insertError)
+            return NextResponse.json({ error: 'Failed to add contacts to group' }, { status: 500 })
+          }
+        }
+
+        return NextResponse.json({ data: { affected: rows.length } })
+      }
+
+      case 'delete': {
+        // Conversations, messages and group memberships cascade with the contact
+        const { error: deleteError, count } = await adminSupabase
+          .from('crm_contacts')
+          .delete({ count: 'exact' })
+          .eq('org_id', orgId)
+          .in('id', ids)
+
+        if (deleteError) {
+          console.error('Error deleting contacts:', deleteError)
+          return NextResponse.json({ error: 'Failed to delete contacts' }, { status: 500 })
+        }
+
+        return NextResponse.json({ data: { affected: count ?? 0 } })
+      }
+    }
+  } catch (error) {
+    console.error('Unexpected error in POST /api/contacts/bulk:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+// =============================================================================
+// Duplicate Contacts API Route
+// GET /api/contacts/duplicates -> Groups of contacts that look like duplicates
+// =============================================================================
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { findDuplicateContacts } from '@/lib/contacts/duplicates'
+
+export const maxDuration = 60
+
+// -----------------------------------------------------------------------------
+// GET - Find duplicate groups
+// Returns { data: DuplicateGroup[] }, strongest matches (phone, email) first
+// -----------------------------------------------------------------------------
+
+export async function GET() {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_contacts')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage contacts' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Scan the org's contacts
+    const groups = await findDuplicateContacts(adminSupabase, crmUser.org_id)
+
+    return NextResponse.json({ data: groups })
+  } catch (error) {
+    console.error('Unexpected error in GET /api/contacts/duplicates:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,137 @@
+// =============================================================================
+// Contacts Export API Route
+// GET /api/contacts/export -> Download the filtered contacts as XLSX or CSV
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { parseContactFilters, parseContactSort, queryContacts } from '@/lib/contacts/filters'
+import { loadGroupSegment } from '@/lib/contacts/segments'
+import { formatCustomFieldValue, loadCustomFieldDefinitions } from '@/lib/contacts/custom-fields'
+import {
+  ExportTooLargeError,
+  buildXlsx,
+  csvStream,
+  exportHeaders,
+  formatExportTimestamp,
+  isExportFormat,
+  pageThrough,
+  type ExportColumn,
+} from '@/lib/export/spreadsheet'
+import type { Contact, CustomFieldDefinition } from '@/types/database'
+
+export const maxDuration = 60
+
+/** One column per defined custom field; other keys share a single column */
+function contactColumns(customFields: CustomFieldDefinition[]): ExportColumn<Contact>[] {
+  const defined = new Set(customFields.map((f) => f.key))
+  return [
+    { header: 'Name', value: (c) => c.name },
+    { header: 'Phone', value: (c) => c.phone },
+    { header: 'Email', value: (c) => c.email },
+    { header: 'Tags', value: (c) => c.tags.join(', ') },
+    ...customFields.map(
+      (field): ExportColumn<Contact> => ({
+        header: field.label,
+        value: (c) => formatCustomFieldValue(field, c.custom_fields?.[field.key]),
+      })
+    ),
+    {
+      header: customFields.length > 0 ? 'Other custom fields' : 'Custom fields',
+      value: (c) =>
+        Object.entries(c.custom_fields ?? {})
+          .filter(([k, v]) => !defined.has(k) && v !== null && v !== undefined && v !== '')
+          .map(([k, v]) => `${k}: ${formatCustomFieldValue(undefined, v)}`)
+          .join('; '),
+    },
+    { header: 'HubSpot ID', value: (c) => c.hubspot_contact_id },
+    { header: 'Marketing opt-out', value: (c) => formatExportTimestamp(c.marketing_opted_out_at) },
+    { header: 'Utility opt-out', value: (c) => formatExportTimestamp(c.utility_opted_out_at) },
+    { header: 'Created', value: (c) => formatExportTimestamp(c.created_at) },
+    { header: 'Updated', value: (c) => formatExportTimestamp(c.updated_at) },
+  ]
+}
+
+// -----------------------------------------------------------------------------
+// GET - Export contacts
+// Query params: format ('xlsx' | 'csv', default xlsx) plus the same filters
+// and sort as GET /api/contacts
+// -----------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_contacts')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to export contacts' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Parse query params
+    const searchParams = request.nextUrl.searchParams
+    const format = searchParams.get('format') ?? 'xlsx'
+    if (!isExportFormat(format)) {
+      return NextResponse.json({ error: 'format must be xlsx or csv' }, { status: 400 })
+    }
+    const filters = parseContactFilters(searchParams)
+    const sort = parseContactSort(searchParams)
+    const segment = filters.group_id
+      ? await loadGroupSegment(adminSupabase, crmUser.org_id, filters.group_id)
+      : null
+
+    // 3. Page through the filtered contacts
+    const pages = pageThrough<Contact>(async (from, to) => {
+      const { data, error } = await queryContacts(adminSupabase, crmUser.org_id, filters, sort, {
+        segment,
+      })
+        .range(from, to)
+        .overrideTypes<Contact[], { merge: false }>()
+      if (error) throw new Error(`Failed to fetch contacts: ${error.message}`)
+      return data ?? []
+    })
+
+    // 4. Write the file
+    const columns = contactColumns(
+      await loadCustomFieldDefinitions(adminSupabase, crmUser.org_id)
+    )
+    if (format === 'csv') {
+      return new Response(csvStream(pages, columns), {
+        headers: exportHeaders('contacts', format),
+      })
+    }
+
+    const file = await buildXlsx(pages, columns, 'Contacts')
+    return new Response(file, { headers: exportHeaders('contacts', format) })
+  } catch (error) {
+    if (error instanceof ExportTooLargeError) {
+      return NextResponse.json({ error: error.message }, { status: 422 })
+    }
+    console.error('Unexpected error in GET /api/contacts/export:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,127 @@
+// =============================================================================
+// Contacts Import API Route
+// POST /api/contacts/import -> Dry-run or commit a spreadsheet import
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import {
+  MAX_IMPORT_ROWS,
+  commitContactImport,
+  planContactImport,
+  type ImportRecord,
+} from '@/lib/contacts/import'
+
+export const maxDuration = 60
+
+// -----------------------------------------------------------------------------
+// POST - Import contacts
+// Body: { records: ImportRecord[], dry_run?, group_id?, default_country_code? }
+// dry_run (default true) only returns the plan; otherwise the plan is written
+// and the result is returned with it.
+// -----------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_contacts')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to import contacts' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Validate the body
+    const body = await request.json()
+    const {
+      records,
+      dry_run = true,
+      group_id,
+      default_country_code,
+    } = body as {
+      records: ImportRecord[]
+      dry_run?: boolean
+      group_id?: string | null
+      default_country_code?: string
+    }
+
+    if (!Array.isArray(records) || records.length === 0) {
+      return NextResponse.json({ error: 'records is required' }, { status: 400 })
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_IMPORT_ROWS.toLocaleString()} rows can be imported at once` },
+        { status: 400 }
+      )
+    }
+    if (default_country_code !== undefined && !/^[1-9]\d{0,3}$/.test(default_country_code)) {
+      return NextResponse.json(
+        { error: 'default_country_code must be 1-4 digits, e.g. 55' },
+        { status: 400 }
+      )
+    }
+
+    if (group_id) {
+      const { data: group } = await adminSupabase
+        .from('crm_contact_groups')
+        .select('id, type')
+        .eq('id', group_id)
+        .eq('org_id', crmUser.org_id)
+        .maybeSingle()
+
+      if (!group) {
+        return NextResponse.json({ error: 'Contact group not found' }, { status: 404 })
+      }
+      if (group.type === 'dynamic') {
+        return NextResponse.json(
+          { error: 'Contacts cannot be added to a dynamic group' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // 3. Plan against the org's current contacts
+    const { writes, ...plan } = await planContactImport(
+      adminSupabase,
+      crmUser.org_id,
+      records,
+      default_country_code
+    )
+
+    if (dry_run) {
+      return NextResponse.json({ data: plan })
+    }
+
+    // 4. Commit
+    const result = await commitContactImport(adminSupabase, crmUser.org_id, writes, group_id)
+
+    return NextResponse.json({ data: { ...plan, result } })
+  } catch (error) {
+    console.error('Unexpected error in POST /api/contacts/import:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,134 @@
+// =============================================================================
+// Contact Merge API Route
+// POST /api/contacts/merge -> Merge duplicate contacts into a survivor
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import {
+  MAX_MERGE_CONTACTS,
+  MERGE_FIELDS,
+  mergeContacts,
+  type MergeChoices,
+} from '@/lib/contacts/duplicates'
+import type { Contact } from '@/types/database'
+
+// -----------------------------------------------------------------------------
+// POST - Merge contacts
+// Body: { survivor_id, merged_ids, choices? }
+//   choices -> { [field]: contact_id } picks which contact each surviving
+//              field value comes from; tags and custom fields are unioned
+// Returns { data: { merge_id, contact } }
+// -----------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_contacts')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage contacts' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Validate the body
+    const body = await request.json()
+    const { survivor_id, merged_ids, choices } = body as {
+      survivor_id: string
+      merged_ids: string[]
+      choices?: MergeChoices
+    }
+
+    if (!survivor_id) {
+      return NextResponse.json({ error: 'survivor_id is required' }, { status: 400 })
+    }
+
+    const mergedIds = [...new Set(Array.isArray(merged_ids) ? merged_ids : [])].filter(
+      (id) => id !== survivor_id
+    )
+    if (mergedIds.length === 0) {
+      return NextResponse.json(
+        { error: 'merged_ids must contain at least one other contact' },
+        { status: 400 }
+      )
+    }
+    if (mergedIds.length + 1 > MAX_MERGE_CONTACTS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_MERGE_CONTACTS} contacts can be merged at once` },
+        { status: 400 }
+      )
+    }
+
+    const cleanChoices: MergeChoices = {}
+    for (const field of MERGE_FIELDS) {
+      const source = choices?.[field]
+      if (typeof source === 'string' && (source === survivor_id || mergedIds.includes(source))) {
+        cleanChoices[field] = source
+      }
+    }
+
+    // 3. Load the contacts, oldest first
+    const { data: contacts, error: contactsError } = await adminSupabase
+      .from('crm_contacts')
+      .select('*')
+      .eq('org_id', crmUser.org_id)
+      .in('id', [survivor_id, ...mergedIds])
+      .order('created_at', { ascending: true })
+
+    if (contactsError) {
+      console.error('Error loading contacts to merge:', contactsError)
+      return NextResponse.json({ error: 'Failed to load contacts' }, { status: 500 })
+    }
+
+    const survivor = (contacts as Contact[]).find((c) => c.id === survivor_id)
+    const others = (contacts as Contact[]).filter((c) => c.id !== survivor_id)
+    if (!survivor || others.length !== mergedIds.length) {
+      return NextResponse.json({ error: 'Contact not found' }, { status: 404 })
+    }
+
+    // 4. Merge and return the updated survivor
+    const mergeId = await mergeContacts(
+      adminSupabase,
+      crmUser.org_id,
+      survivor,
+      others,
+      cleanChoices,
+      crmUser.id
+    )
+
+    const { data: contact } = await adminSupabase
+      .from('crm_contacts')
+      .select('*')
+      .eq('id', survivor_id)
+      .single()
+
+    return NextResponse.json({ data: { merge_id: mergeId, contact } })
+  } catch (error) {
+    console.error('Unexpected error in POST /api/contacts/merge:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,16 +1,27 @@
 // =============================================================================
 // Contacts API Route
-// GET  /api/contacts -> List contacts (with search, pagination, group filter)
+// GET  /api/contacts -> List contacts (with search, filters, sorting, pagination)
 // POST /api/contacts -> Create a new contact
 // =============================================================================
 
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
+import { parseContactFilters, parseContactSort, queryContacts } from '@/lib/contacts/filters'
+import { phoneVariants, toE164 } from '@/lib/contacts/phone'
+import { loadGroupSegment } from '@/lib/contacts/segments'
+import {
+  loadCustomFieldDefinitions,
+  mergeCustomFields,
+  parseCustomFields,
+} from '@/lib/contacts/custom-fields'
+import { syncContactToHubSpot } from '@/lib/hubspot/contact-sync'
 
 // -----------------------------------------------------------------------------
 // GET - List Contacts
-// Query params: search, group_id, tags, page, limit
+// Query params: search, group_id, tags, has_hubspot, date_from, date_to,
+//               sort, order, page, limit
+// date_from / date_to filter on created_at (date_to is inclusive of that day)
 // -----------------------------------------------------------------------------
 
 export async function GET(request: NextRequest) {
@@ -44,78 +55,23 @@ export async function GET(request: NextRequest) {
 
     // 2. Parse query params
     const searchParams = request.nextUrl.searchParams
-    const search = searchParams.get('search')
-    const groupId = searchParams.get('group_id')
-    const tagsParam = searchParams.get('tags') // comma-separated tag names
+    const filters = parseContactFilters(searchParams)
+    const sort = parseContactSort(searchParams)
     const page = parseInt(searchParams.get('page') || '1', 10)
     const limit = Math.min(parseInt(searchParams.get('limit') || '25', 10), 100)
     const offset = (page - 1) * limit
 
-    // 3. If filtering by group, we need to get contact IDs from group members first
-    let groupContactIds: string[] | null = null
+    // 3. Build the query; a dynamic group is evaluated from its saved filter
+    const segment = filters.group_id
+      ? await loadGroupSegment(adminSupabase, crmUser.org_id, filters.group_id)
+      : null
 
-    if (groupId) {
-      const { data: groupMembers, error: groupError } = await adminSupabase
-        .from('crm_contact_group_members')
-        .select('contact_id')
-        .eq('group_id', groupId)
+    const query = queryContacts(adminSupabase, crmUser.org_id, filters, sort, {
+      count: 'exact',
+      segment,
+    }).range(offset, offset + limit - 1)
 
-      if (groupError) {
-        console.error('Error fetching group members:', groupError)
-        return NextResponse.json(
-          { error: 'Failed to fetch group members' },
-          { status: 500 }
-        )
-      }
-
-      groupContactIds = (groupMembers || []).map((m: any) => m.contact_id)
-
-      // If no members in the group, return empty
-      if (groupContactIds.length === 0) {
-        return NextResponse.json(
-          {
-            data: [],
-            total: 0,
-            page,
-            per_page: limit,
-            total_pages: 0,
-          },
-          { status: 200 }
-        )
-      }
-    }
-
-    // 4. Build the query
-    let query = adminSupabase
-      .from('crm_contacts')
-      .select('*', { count: 'exact' })
-      .eq('org_id', crmUser.org_id)
-      .order('updated_at', { ascending: false })
-
-    // Search by name, phone, or email
-    if (search) {
-      query = query.or(
-        `name.ilike.%${search}%,phone.ilike.%${search}%,email.ilike.%${search}%`
-      )
-    }
-
-    // Filter by group membership
-    if (groupContactIds) {
-      query = query.in('id', groupContactIds)
-    }
-
-    // Filter by tags (contacts must contain all specified tags)
-    if (tagsParam) {
-      const tags = tagsParam.split(',').map((t) => t.trim())
-      for (const tag of tags) {
-        query = query.contains('tags', [tag])
-      }
-    }
-
-    // Apply pagination
-    query = query.range(offset, offset + limit - 1)
-
-    // 5. Execute
+    // 4. Execute
     const { data: contacts, error: queryError, count } = await query
 
     if (queryError) {
@@ -199,25 +155,32 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // 3. Validate phone format (basic E.164 check)
-    const phoneRegex = /^\+?[1-9]\d{1,14}$/
-    const normalizedPhone = phone.replace(/\s+/g, '').replace(/[()-]/g, '')
-    if (!phoneRegex.test(normalizedPhone)) {
+    // 3. Normalize the phone to canonical E.164
+    const normalizedPhone = toE164(phone)
+    if (!normalizedPhone) {
       return NextResponse.json(
         {
           error:
-            'Invalid phone number format. Please use E.164 format (e.g., +5511999999999)',
+            'Invalid phone number. Use a Brazilian number with area code or the international format with + (e.g., +5511999999999)',
         },
         { status: 400 }
       )
     }
 
-    // 4. Check if a contact with this phone already exists in this org
+    // 4. Validate custom fields against the org's definitions
+    const definitions = await loadCustomFieldDefinitions(adminSupabase, crmUser.org_id)
+    const customFields = parseCustomFields(definitions, custom_fields)
+    if (customFields.error !== undefined) {
+      return NextResponse.json({ error: customFields.error }, { status: 400 })
+    }
+
+    // 5. Check if a contact with this phone (in any stored form) already exists
     const { data: existingContact, error: findError } = await adminSupabase
       .from('crm_contacts')
       .select('*')
       .eq('org_id', crmUser.org_id)
-      .eq('phone', normalizedPhone)
+      .in('phone', phoneVariants(normalizedPhone))
+      .limit(1)
       .maybeSingle()
 
     if (existingContact) {
@@ -230,7 +193,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // 5. Create the contact
+    // 6. Create the contact
     const { data: newContact, error: createError } = await adminSupabase
       .from('crm_contacts')
       .insert({
@@ -239,7 +202,7 @@ export async function POST(request: NextRequest) {
         name: name || null,
         email: email || null,
         profile_picture_url: null,
-        custom_fields: custom_fields || {},
+        custom_fields: mergeCustomFields({}, customFields.values),
         hubspot_contact_id: null,
         existing_client_id: null,
         tags: tags || [],
@@ -255,6 +218,9 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // 7. Match or create it in HubSpot once the response is sent
+    after(() => syncContactToHubSpot(adminSupabase, newContact))
+
     return NextResponse.json(newContact, { status: 201 })
   } catch (error: any) {
     console.error('Unexpected error in POST /api/contacts:', error)
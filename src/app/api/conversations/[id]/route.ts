@@ -1,6 +1,7 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
+import { logConversationToHubSpot } from '@/lib/hubspot/engagements'
 
 export async function PATCH(
   request: NextRequest,
@@ -94,6 +95,9 @@ export async function PATCH(
         action: 'resolved',
         details: `Resolved by ${crmUser.display_name}`,
       }).then(() => {})
+
+      // Post the transcript to HubSpot once the response is sent
+      after(() => logConversationToHubSpot(adminSupabase, conversationId))
     }
 
     return NextResponse.json({ data: updated })
@@ -0,0 +1,164 @@
+// =============================================================================
+// Conversations Export API Route
+// GET /api/conversations/export -> Download the filtered conversations as
+//                                  XLSX or CSV, with response timings
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { parseConversationFilters, queryConversations } from '@/lib/conversations/filters'
+import {
+  ExportTooLargeError,
+  buildXlsx,
+  csvStream,
+  exportHeaders,
+  formatExportTimestamp,
+  isExportFormat,
+  pageThrough,
+  type ExportColumn,
+} from '@/lib/export/spreadsheet'
+import type { Conversation } from '@/types/database'
+
+export const maxDuration = 60
+
+interface ConversationTimings {
+  message_count: number
+  first_contact_message_at: string | null
+  first_agent_reply_at: string | null
+}
+
+type ExportedConversation = Conversation & { timings: ConversationTimings | null }
+
+const CONVERSATION_COLUMNS: ExportColumn<ExportedConversation>[] = [
+  { header: 'Protocol', value: (c) => c.protocol_number },
+  { header: 'Contact', value: (c) => c.contact?.name },
+  { header: 'Phone', value: (c) => c.contact?.phone },
+  { header: 'Status', value: (c) => c.status },
+  { header: 'Agent', value: (c) => c.assigned_agent?.display_name },
+  { header: 'Queue', value: (c) => c.queue },
+  { header: 'Classification', value: (c) => c.classification },
+  { header: 'Tags', value: (c) => c.tags.join(', ') },
+  { header: 'Created', value: (c) => formatExportTimestamp(c.created_at) },
+  { header: 'Last message', value: (c) => formatExportTimestamp(c.last_message_at) },
+  {
+    header: 'First contact message',
+    value: (c) => formatExportTimestamp(c.timings?.first_contact_message_at ?? null),
+  },
+  {
+    header: 'First agent reply',
+    value: (c) => formatExportTimestamp(c.timings?.first_agent_reply_at ?? null),
+  },
+  {
+    header: 'First response (min)',
+    value: (c) =>
+      minutesBetween(c.timings?.first_contact_message_at, c.timings?.first_agent_reply_at),
+  },
+  {
+    header: 'Duration (min)',
+    value: (c) => minutesBetween(c.created_at, c.last_message_at),
+  },
+  { header: 'Messages', value: (c) => c.timings?.message_count ?? 0 },
+]
+
+// -----------------------------------------------------------------------------
+// GET - Export conversations
+// Query params: format ('xlsx' | 'csv', default xlsx) plus the same filters
+// as GET /api/conversations
+// -----------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    if (!hasPermission(crmUser.role, 'view_analytics')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to export conversations' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Parse query params
+    const searchParams = request.nextUrl.searchParams
+    const format = searchParams.get('format') ?? 'xlsx'
+    if (!isExportFormat(format)) {
+      return NextResponse.json({ error: 'format must be xlsx or csv' }, { status: 400 })
+    }
+    const filters = parseConversationFilters(searchParams, user.id)
+
+    // 3. Page through the filtered conversations, adding timings per page
+    const pages = pageThrough<ExportedConversation>(async (from, to) => {
+      const { data, error } = await queryConversations(adminSupabase, crmUser.org_id, filters)
+        .range(from, to)
+        .overrideTypes<Conversation[], { merge: false }>()
+      if (error) throw new Error(`Failed to fetch conversations: ${error.message}`)
+
+      const conversations = data ?? []
+      if (conversations.length === 0) return []
+
+      const { data: timings, error: timingsError } = await adminSupabase.rpc(
+        'crm_conversation_timings',
+        { p_conversation_ids: conversations.map((c) => c.id) }
+      )
+      if (timingsError) {
+        throw new Error(`Failed to fetch conversation timings: ${timingsError.message}`)
+      }
+
+      const byId = new Map(
+        ((timings ?? []) as Array<ConversationTimings & { conversation_id: string }>).map((t) => [
+          t.conversation_id,
+          t,
+        ])
+      )
+      return conversations.map((c) => ({ ...c, timings: byId.get(c.id) ?? null }))
+    })
+
+    // 4. Write the file
+    if (format === 'csv') {
+      return new Response(csvStream(pages, CONVERSATION_COLUMNS), {
+        headers: exportHeaders('conversations', format),
+      })
+    }
+
+    const file = await buildXlsx(pages, CONVERSATION_COLUMNS, 'Conversations')
+    return new Response(file, { headers: exportHeaders('conversations', format) })
+  } catch (error) {
+    if (error instanceof ExportTooLargeError) {
+      return NextResponse.json({ error: error.message }, { status: 422 })
+    }
+    console.error('Unexpected error in GET /api/conversations/export:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function minutesBetween(from: string | null | undefined, to: string | null | undefined) {
+  if (!from || !to) return null
+  const minutes = (new Date(to).getTime() - new Date(from).getTime()) / 60_000
+  return minutes >= 0 ? Math.round(minutes) : null
+}
@@ -7,11 +7,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
+import { parseConversationFilters, queryConversations } from '@/lib/conversations/filters'
 import type { ConversationStatus } from '@/types/database'
 
 // -----------------------------------------------------------------------------
 // GET - List Conversations
-// Query params: status, assigned_to, queue, search, page, limit
+// Query params: status, assigned_to, queue, tags, classification, search,
+//               date_from, date_to, page, limit
 // -----------------------------------------------------------------------------
 
 export async function GET(request: NextRequest) {
@@ -45,81 +47,15 @@ export async function GET(request: NextRequest) {
 
     // 2. Parse query params
     const searchParams = request.nextUrl.searchParams
-    const status = searchParams.get('status') // single status or comma-separated
-    const assignedTo = searchParams.get('assigned_to') // agent_id or 'me'
-    const queue = searchParams.get('queue')
-    const search = searchParams.get('search') // search contact name or phone
+    const filters = parseConversationFilters(searchParams, user.id)
     const page = parseInt(searchParams.get('page') || '1', 10)
     const limit = Math.min(parseInt(searchParams.get('limit') || '25', 10), 100)
     const offset = (page - 1) * limit
 
     // 3. Build the query
-    let query = adminSupabase
-      .from('crm_conversations')
-      .select('*, contact:crm_contacts(*), assigned_agent:crm_users(*)', {
-        count: 'exact',
-      })
-      .eq('org_id', crmUser.org_id)
-      .order('last_message_at', { ascending: false, nullsFirst: false })
-
-    // Filter by status
-    if (status) {
-      const statuses = status.split(',').map((s) => s.trim()) as ConversationStatus[]
-      if (statuses.length === 1) {
-        query = query.eq('status', statuses[0])
-      } else {
-        query = query.in('status', statuses)
-      }
-    }
-
-    // Filter by assigned agent
-    if (assignedTo) {
-      if (assignedTo === 'me') {
-        query = query.eq('assigned_agent_id', user.id)
-      } else if (assignedTo === 'unassigned') {
-        query = query.is('assigned_agent_id', null)
-      } else {
-        query = query.eq('assigned_agent_id', assignedTo)
-      }
-    }
-
-    // Filter by queue
-    if (queue) {
-      query = query.eq('queue', queue)
-    }
-
-    // Search by contact name or phone
-    // We need to use a different approach since Supabase join filtering is limited.
-    // We will filter by contact IDs if search is provided.
-    if (search) {
-      const { data: matchingContacts } = await adminSupabase
-        .from('crm_contacts')
-        .select('id')
-        .eq('org_id', crmUser.org_id)
-        .or(
-          `name.ilike.%${search}%,phone.ilike.%${search}%`
-        )
-
-      if (matchingContacts && matchingContacts.length > 0) {
-        const contactIds = matchingContacts.map((c: any) => c.id)
-        query = query.in('contact_id', contactIds)
-      } else {
-        // No matching contacts - return empty result
-        return NextResponse.json(
-          {
-            data: [],
-            total: 0,
-            page,
-            per_page: limit,
-            total_pages: 0,
-          },
-          { status: 200 }
-        )
-      }
-    }
-
-    // Apply pagination
-    query = query.range(offset, offset + limit - 1)
+    const query = queryConversations(adminSupabase, crmUser.org_id, filters, {
+      count: 'exact',
+    }).range(offset, offset + limit - 1)
 
     // 4. Execute the query
     const { data: conversations, error: queryError, count } = await query
@@ -0,0 +1,31 @@
+// =============================================================================
+// Campaign Dispatcher Cron
+// GET /api/cron/campaigns -> Start due scheduled campaigns and send due batches
+// Call every minute with `Authorization: Bearer $CRON_SECRET`.
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { dispatchDueCampaigns } from '@/lib/campaigns/dispatcher'
+
+export const maxDuration = 60
+
+/** Leaves headroom under maxDuration for the batch in flight */
+const DISPATCH_BUDGET_MS = 50_000
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const summary = await dispatchDueCampaigns(createAdminClient(), {
+      maxDurationMs: DISPATCH_BUDGET_MS,
+    })
+    return NextResponse.json({ data: summary })
+  } catch (error) {
+    console.error('Campaign dispatcher failed:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
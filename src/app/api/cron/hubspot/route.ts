@@ -0,0 +1,31 @@
+// =============================================================================
+// HubSpot Sync Cron
+// GET /api/cron/hubspot -> Link new contacts and pull HubSpot contact changes
+// Call every 5 minutes with `Authorization: Bearer $CRON_SECRET`.
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { runHubSpotSync } from '@/lib/hubspot/contact-sync'
+
+export const maxDuration = 60
+
+/** Leaves headroom under maxDuration for the contact in flight */
+const SYNC_BUDGET_MS = 50_000
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const summary = await runHubSpotSync(createAdminClient(), {
+      maxDurationMs: SYNC_BUDGET_MS,
+    })
+    return NextResponse.json({ data: summary })
+  } catch (error) {
+    console.error('HubSpot sync failed:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
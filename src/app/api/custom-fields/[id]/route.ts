@@ -0,0 +1,154 @@
+// =============================================================================
+// Custom Field Definition API Route
+// PATCH  /api/custom-fields/[id] -> Update a definition's label, options,
+//                                   required flag or position
+// DELETE /api/custom-fields/[id] -> Delete a definition
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { customFieldDefinitionUpdateSchema, hasOptions } from '@/lib/contacts/custom-fields'
+import type { CustomFieldDefinition } from '@/types/database'
+
+// -----------------------------------------------------------------------------
+// Shared: authenticate a user allowed to manage custom fields
+// -----------------------------------------------------------------------------
+
+async function loadManagerContext() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const adminSupabase = createAdminClient()
+
+  const { data: crmUser, error: crmUserError } = await adminSupabase
+    .from('crm_users')
+    .select('*')
+    .eq('id', user.id)
+    .single()
+
+  if (crmUserError || !crmUser) {
+    return {
+      error: NextResponse.json({ error: 'CRM user not found' }, { status: 403 }),
+    }
+  }
+
+  if (!hasPermission(crmUser.role, 'manage_contacts')) {
+    return {
+      error: NextResponse.json(
+        { error: 'You do not have permission to manage custom fields' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { adminSupabase, crmUser }
+}
+
+// -----------------------------------------------------------------------------
+// PATCH - Update Custom Field
+// Body: { label?, options?, required?, position? }
+// The key and type are fixed: stored values are keyed and typed by them.
+// -----------------------------------------------------------------------------
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadManagerContext()
+    if (ctx.error) return ctx.error
+    const { adminSupabase, crmUser } = ctx
+
+    const parsed = customFieldDefinitionUpdateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
+    }
+    const updates = Object.fromEntries(
+      Object.entries(parsed.data).filter(([, value]) => value !== undefined)
+    )
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
+    }
+
+    const { data: current } = await adminSupabase
+      .from('crm_custom_field_definitions')
+      .select('type')
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+      .maybeSingle<Pick<CustomFieldDefinition, 'type'>>()
+
+    if (!current) {
+      return NextResponse.json({ error: 'Custom field not found' }, { status: 404 })
+    }
+
+    if (updates.options !== undefined) {
+      if (!hasOptions(current.type)) {
+        delete updates.options
+      } else if ((updates.options as string[]).length === 0) {
+        return NextResponse.json({ error: 'Add at least one option' }, { status: 400 })
+      }
+    }
+
+    const { data: updated, error: updateError } = await adminSupabase
+      .from('crm_custom_field_definitions')
+      .update(updates)
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error('Error updating custom field:', updateError)
+      return NextResponse.json({ error: 'Failed to update custom field' }, { status: 500 })
+    }
+
+    return NextResponse.json({ data: updated })
+  } catch (error) {
+    console.error('Unexpected error in PATCH /api/custom-fields/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// DELETE - Delete Custom Field
+// Values already stored on contacts are kept as free-form fields.
+// -----------------------------------------------------------------------------
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadManagerContext()
+    if (ctx.error) return ctx.error
+    const { adminSupabase, crmUser } = ctx
+
+    const { error: deleteError } = await adminSupabase
+      .from('crm_custom_field_definitions')
+      .delete()
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+
+    if (deleteError) {
+      console.error('Error deleting custom field:', deleteError)
+      return NextResponse.json({ error: 'Failed to delete custom field' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/custom-fields/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
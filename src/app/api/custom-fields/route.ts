@@ -0,0 +1,144 @@
+// =============================================================================
+// Custom Field Definitions API Route
+// GET  /api/custom-fields -> List the org's custom field definitions, in order
+// POST /api/custom-fields -> Define a custom field
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import {
+  customFieldDefinitionSchema,
+  loadCustomFieldDefinitions,
+} from '@/lib/contacts/custom-fields'
+
+// -----------------------------------------------------------------------------
+// GET - List Custom Fields
+// -----------------------------------------------------------------------------
+
+export async function GET() {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    // 2. Definitions in display order
+    const definitions = await loadCustomFieldDefinitions(adminSupabase, crmUser.org_id)
+
+    return NextResponse.json({ data: definitions })
+  } catch (error) {
+    console.error('Unexpected error in GET /api/custom-fields:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// POST - Define a Custom Field
+// Body: { key, label, type, options?, required?, position? }
+// New fields go last unless a position is given.
+// -----------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_contacts')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage custom fields' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Validate the request body
+    const parsed = customFieldDefinitionSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
+    }
+    const { key, label, type, options, required } = parsed.data
+
+    let position = parsed.data.position
+    if (position === undefined) {
+      const { data: last } = await adminSupabase
+        .from('crm_custom_field_definitions')
+        .select('position')
+        .eq('org_id', crmUser.org_id)
+        .order('position', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+      position = last ? last.position + 1 : 0
+    }
+
+    // 3. Create the definition
+    const { data: definition, error: createError } = await adminSupabase
+      .from('crm_custom_field_definitions')
+      .insert({
+        org_id: crmUser.org_id,
+        key,
+        label,
+        type,
+        options: type === 'select' || type === 'multi_select' ? options : [],
+        required,
+        position,
+      })
+      .select()
+      .single()
+
+    if (createError) {
+      // Unique violation on (org_id, key)
+      if (createError.code === '23505') {
+        return NextResponse.json(
+          { error: `A custom field with key ${key} already exists` },
+          { status: 409 }
+        )
+      }
+      console.error('Error creating custom field:', createError)
+      return NextResponse.json({ error: 'Failed to create custom field' }, { status: 500 })
+    }
+
+    return NextResponse.json(definition, { status: 201 })
+  } catch (error) {
+    console.error('Unexpected error in POST /api/custom-fields:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,265 @@
+// =============================================================================
+// Flow API Route
+// GET    /api/flows/[id] -> Get a flow including flow_data
+// PATCH  /api/flows/[id] -> Update name, graph, trigger or status
+// DELETE /api/flows/[id] -> Delete a flow (drafts and archived only)
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import {
+  canTransitionFlow,
+  normalizeKeywords,
+  validateFlowData,
+} from '@/lib/flows/validation'
+import {
+  FLOW_STATUSES,
+  FLOW_TRIGGER_TYPES,
+  type Flow,
+  type FlowStatus,
+  type FlowTriggerType,
+} from '@/types/database'
+
+// -----------------------------------------------------------------------------
+// Shared: authenticate and load the flow within the user's org
+// -----------------------------------------------------------------------------
+
+async function loadFlowContext(flowId: string, requireManage: boolean) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const adminSupabase = createAdminClient()
+
+  const { data: crmUser, error: crmUserError } = await adminSupabase
+    .from('crm_users')
+    .select('*')
+    .eq('id', user.id)
+    .single()
+
+  if (crmUserError || !crmUser) {
+    return {
+      error: NextResponse.json({ error: 'CRM user not found' }, { status: 403 }),
+    }
+  }
+
+  if (requireManage && !hasPermission(crmUser.role, 'manage_flows')) {
+    return {
+      error: NextResponse.json(
+        { error: 'You do not have permission to manage flows' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  const { data: flow, error: flowError } = await adminSupabase
+    .from('crm_flows')
+    .select('*')
+    .eq('id', flowId)
+    .eq('org_id', crmUser.org_id)
+    .single<Flow>()
+
+  if (flowError || !flow) {
+    return {
+      error: NextResponse.json({ error: 'Flow not found' }, { status: 404 }),
+    }
+  }
+
+  return { adminSupabase, crmUser, flow }
+}
+
+// -----------------------------------------------------------------------------
+// GET - Get Flow
+// -----------------------------------------------------------------------------
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadFlowContext(id, false)
+    if (ctx.error) return ctx.error
+
+    return NextResponse.json({ data: ctx.flow })
+  } catch (error) {
+    console.error('Unexpected error in GET /api/flows/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// PATCH - Update Flow
+// Body: { name?, description?, flow_data?, trigger_type?, trigger_keywords?, priority?, status? }
+// Publishing validates the graph; published flows must be moved back to draft
+// before their graph can be edited.
+// -----------------------------------------------------------------------------
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadFlowContext(id, true)
+    if (ctx.error) return ctx.error
+    const { adminSupabase, flow } = ctx
+
+    const body = await request.json()
+    const {
+      name,
+      description,
+      flow_data,
+      trigger_type,
+      trigger_keywords,
+      priority,
+      status,
+    } = body as {
+      name?: string
+      description?: string | null
+      flow_data?: Flow['flow_data']
+      trigger_type?: FlowTriggerType
+      trigger_keywords?: string[]
+      priority?: number
+      status?: FlowStatus
+    }
+
+    const updates: Record<string, unknown> = {}
+
+    if (name !== undefined) {
+      if (!name.trim()) {
+        return NextResponse.json({ error: 'Flow name is required' }, { status: 400 })
+      }
+      updates.name = name.trim()
+    }
+    if (description !== undefined) updates.description = description || null
+
+    if (trigger_type !== undefined) {
+      const triggerTypes: string[] = Object.values(FLOW_TRIGGER_TYPES)
+      if (!triggerTypes.includes(trigger_type)) {
+        return NextResponse.json(
+          { error: `Invalid trigger_type: ${trigger_type}` },
+          { status: 400 }
+        )
+      }
+      updates.trigger_type = trigger_type
+    }
+    if (trigger_keywords !== undefined) {
+      updates.trigger_keywords = normalizeKeywords(trigger_keywords)
+    }
+    if (priority !== undefined) {
+      if (!Number.isInteger(priority)) {
+        return NextResponse.json({ error: 'priority must be an integer' }, { status: 400 })
+      }
+      updates.priority = priority
+    }
+
+    if (flow_data !== undefined) {
+      if (!flow_data || !Array.isArray(flow_data.nodes) || !Array.isArray(flow_data.edges)) {
+        return NextResponse.json(
+          { error: 'flow_data must contain nodes and edges arrays' },
+          { status: 400 }
+        )
+      }
+      if (flow.status === 'published' && status !== 'draft') {
+        return NextResponse.json(
+          { error: 'Unpublish the flow before editing it' },
+          { status: 409 }
+        )
+      }
+      updates.flow_data = flow_data
+    }
+
+    if (status !== undefined) {
+      const statuses: string[] = Object.values(FLOW_STATUSES)
+      if (!statuses.includes(status)) {
+        return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 })
+      }
+      if (!canTransitionFlow(flow.status, status)) {
+        return NextResponse.json(
+          { error: `Cannot change flow status from ${flow.status} to ${status}` },
+          { status: 409 }
+        )
+      }
+      if (status === 'published') {
+        const problems = validateFlowData(
+          (updates.flow_data as Flow['flow_data']) ?? flow.flow_data
+        )
+        if (problems.length > 0) {
+          return NextResponse.json(
+            { error: 'Flow has validation problems', problems },
+            { status: 422 }
+          )
+        }
+      }
+      updates.status = status
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
+    }
+
+    const { data: updated, error: updateError } = await adminSupabase
+      .from('crm_flows')
+      .update(updates)
+      .eq('id', flow.id)
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error('Error updating flow:', updateError)
+      return NextResponse.json({ error: 'Failed to update flow' }, { status: 500 })
+    }
+
+    return NextResponse.json({ data: updated })
+  } catch (error) {
+    console.error('Unexpected error in PATCH /api/flows/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// DELETE - Delete Flow
+// -----------------------------------------------------------------------------
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadFlowContext(id, true)
+    if (ctx.error) return ctx.error
+    const { adminSupabase, flow } = ctx
+
+    if (flow.status === 'published') {
+      return NextResponse.json(
+        { error: 'Archive or unpublish the flow before deleting it' },
+        { status: 409 }
+      )
+    }
+
+    const { error: deleteError } = await adminSupabase
+      .from('crm_flows')
+      .delete()
+      .eq('id', flow.id)
+
+    if (deleteError) {
+      console.error('Error deleting flow:', deleteError)
+      return NextResponse.json({ error: 'Failed to delete flow' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/flows/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,117 @@
+// =============================================================================
+// Flow Simulator API Route
+// POST /api/flows/[id]/simulate -> Run one simulated turn of a flow
+//
+// Stateless: the client sends back the variables returned by the previous turn.
+// Nothing is sent to WhatsApp and the conversation tables are not touched.
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { simulateFlowTurn } from '@/lib/flows/simulator'
+import type { Flow } from '@/types/database'
+
+// -----------------------------------------------------------------------------
+// POST - Simulate a Turn
+// Body: { text?, reply_id?, variables?, flow_data? }
+// flow_data lets the builder test unsaved edits; defaults to the saved graph.
+// -----------------------------------------------------------------------------
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json(
+        { error: 'CRM user not found' },
+        { status: 403 }
+      )
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_flows')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage flows' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Load the flow
+    const { data: flow, error: flowError } = await adminSupabase
+      .from('crm_flows')
+      .select('*')
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+      .single<Flow>()
+
+    if (flowError || !flow) {
+      return NextResponse.json({ error: 'Flow not found' }, { status: 404 })
+    }
+
+    // 3. Parse the request body
+    const body = await request.json()
+    const { text, reply_id, variables, flow_data } = body as {
+      text?: string | null
+      reply_id?: string | null
+      variables?: Record<string, unknown>
+      flow_data?: Flow['flow_data']
+    }
+
+    if (
+      flow_data !== undefined &&
+      (!flow_data || !Array.isArray(flow_data.nodes) || !Array.isArray(flow_data.edges))
+    ) {
+      return NextResponse.json(
+        { error: 'flow_data must contain nodes and edges arrays' },
+        { status: 400 }
+      )
+    }
+
+    // 4. Run the turn against an in-memory conversation
+    const turn = await simulateFlowTurn({
+      flow: { ...flow, flow_data: flow_data ?? flow.flow_data },
+      variables: variables && typeof variables === 'object' ? variables : {},
+      text: text ?? null,
+      replyId: reply_id ?? null,
+      context: {
+        contact: {
+          name: crmUser.display_name,
+          phone: '+5511900000000',
+          email: crmUser.email,
+        },
+        protocol_number: 'SIMULATION',
+      },
+    })
+
+    return NextResponse.json({ data: turn })
+  } catch (error) {
+    console.error('Unexpected error in POST /api/flows/[id]/simulate:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,202 @@
+// =============================================================================
+// Flows API Route
+// GET  /api/flows -> List chatbot flows (optionally filtered by status)
+// POST /api/flows -> Create a new draft flow
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { normalizeKeywords } from '@/lib/flows/validation'
+import { FLOW_TRIGGER_TYPES, type FlowTriggerType } from '@/types/database'
+
+const DEFAULT_FLOW_DATA = {
+  nodes: [
+    {
+      id: 'start',
+      type: 'start',
+      data: { label: 'Start' },
+      position: { x: 80, y: 160 },
+    },
+  ],
+  edges: [],
+}
+
+// -----------------------------------------------------------------------------
+// GET - List Flows
+// Query params: status
+// -----------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    // Get the CRM user to determine org_id
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json(
+        { error: 'CRM user not found' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Build the query (flow_data is omitted from the list for size)
+    const status = request.nextUrl.searchParams.get('status')
+
+    let query = adminSupabase
+      .from('crm_flows')
+      .select(
+        'id, org_id, name, description, status, trigger_type, trigger_keywords, priority, created_at, updated_at'
+      )
+      .eq('org_id', crmUser.org_id)
+      .order('updated_at', { ascending: false })
+
+    if (status) {
+      query = query.in(
+        'status',
+        status.split(',').map((s) => s.trim())
+      )
+    }
+
+    const { data: flows, error: queryError } = await query
+
+    if (queryError) {
+      console.error('Error fetching flows:', queryError)
+      return NextResponse.json(
+        { error: 'Failed to fetch flows' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ data: flows || [] }, { status: 200 })
+  } catch (error) {
+    console.error('Unexpected error in GET /api/flows:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// -----------------------------------------------------------------------------
+// POST - Create a New Flow
+// Body: { name, description?, trigger_type?, trigger_keywords?, priority? }
+// -----------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json(
+        { error: 'CRM user not found' },
+        { status: 403 }
+      )
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_flows')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage flows' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Parse the request body
+    const body = await request.json()
+    const { name, description, trigger_type, trigger_keywords, priority } = body as {
+      name: string
+      description?: string
+      trigger_type?: FlowTriggerType
+      trigger_keywords?: string[]
+      priority?: number
+    }
+
+    if (!name?.trim()) {
+      return NextResponse.json(
+        { error: 'Flow name is required' },
+        { status: 400 }
+      )
+    }
+
+    const triggerTypes: string[] = Object.values(FLOW_TRIGGER_TYPES)
+    if (trigger_type && !triggerTypes.includes(trigger_type)) {
+      return NextResponse.json(
+        { error: `Invalid trigger_type: ${trigger_type}` },
+        { status: 400 }
+      )
+    }
+
+    if (priority !== undefined && !Number.isInteger(priority)) {
+      return NextResponse.json(
+        { error: 'priority must be an integer' },
+        { status: 400 }
+      )
+    }
+
+    // 3. Create the flow as a draft with a single start node
+    const { data: flow, error: createError } = await adminSupabase
+      .from('crm_flows')
+      .insert({
+        org_id: crmUser.org_id,
+        name: name.trim(),
+        description: description || null,
+        status: 'draft',
+        trigger_type: trigger_type || 'keyword',
+        trigger_keywords: normalizeKeywords(trigger_keywords),
+        priority: priority ?? 0,
+        flow_data: DEFAULT_FLOW_DATA,
+      })
+      .select()
+      .single()
+
+    if (createError) {
+      console.error('Error creating flow:', createError)
+      return NextResponse.json(
+        { error: 'Failed to create flow' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(flow, { status: 201 })
+  } catch (error) {
+    console.error('Unexpected error in POST /api/flows:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
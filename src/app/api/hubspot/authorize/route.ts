@@ -0,0 +1,72 @@
+// =============================================================================
+// HubSpot Authorize Route
+// GET /api/hubspot/authorize -> Redirect to HubSpot to connect the portal
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import {
+  HUBSPOT_STATE_COOKIE,
+  hubspotAuthorizeUrl,
+  hubspotRedirectUri,
+  isHubSpotConfigured,
+} from '@/lib/hubspot/oauth'
+
+// -----------------------------------------------------------------------------
+// GET - Start the OAuth Flow
+// Visited from Settings, so failures redirect back there with an error code.
+// The state is kept in a short-lived cookie and checked by the callback.
+// -----------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  const { origin } = new URL(request.url)
+  const settingsUrl = `${origin}/settings/hubspot`
+
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.redirect(`${origin}/login`)
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (!crmUser || !hasPermission(crmUser.role, 'manage_settings')) {
+      return NextResponse.redirect(`${settingsUrl}?error=forbidden`)
+    }
+
+    if (!isHubSpotConfigured()) {
+      return NextResponse.redirect(`${settingsUrl}?error=not_configured`)
+    }
+
+    // 2. Redirect to HubSpot
+    const state = crypto.randomUUID()
+    const response = NextResponse.redirect(
+      hubspotAuthorizeUrl(state, hubspotRedirectUri(origin))
+    )
+    response.cookies.set(HUBSPOT_STATE_COOKIE, state, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/api/hubspot',
+      maxAge: 10 * 60,
+    })
+    return response
+  } catch (error) {
+    console.error('Unexpected error in GET /api/hubspot/authorize:', error)
+    return NextResponse.redirect(`${settingsUrl}?error=unexpected`)
+  }
+}
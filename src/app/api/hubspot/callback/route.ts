@@ -0,0 +1,110 @@
+// =============================================================================
+// HubSpot OAuth Callback Route
+// GET /api/hubspot/callback -> Store the tokens HubSpot issued for the org
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import {
+  HUBSPOT_STATE_COOKIE,
+  exchangeHubSpotCode,
+  hubspotRedirectUri,
+} from '@/lib/hubspot/oauth'
+import { DEFAULT_HUBSPOT_MAPPINGS } from '@/lib/hubspot/mapping'
+
+// -----------------------------------------------------------------------------
+// GET - Complete the OAuth Flow
+// Query: { code, state } on success, { error } when the user declined.
+// Always redirects back to the HubSpot settings page.
+// -----------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  const { origin, searchParams } = new URL(request.url)
+  const settingsUrl = `${origin}/settings/hubspot`
+
+  const redirect = (query: string) => {
+    const response = NextResponse.redirect(`${settingsUrl}?${query}`)
+    response.cookies.delete({ name: HUBSPOT_STATE_COOKIE, path: '/api/hubspot' })
+    return response
+  }
+
+  try {
+    // 1. Check the request came from the flow this browser started
+    const code = searchParams.get('code')
+    const state = searchParams.get('state')
+    const expectedState = request.cookies.get(HUBSPOT_STATE_COOKIE)?.value
+
+    if (searchParams.get('error')) {
+      return redirect('error=declined')
+    }
+    if (!code || !state || state !== expectedState) {
+      return redirect('error=invalid_state')
+    }
+
+    // 2. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.redirect(`${origin}/login`)
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (!crmUser || !hasPermission(crmUser.role, 'manage_settings')) {
+      return redirect('error=forbidden')
+    }
+
+    // 3. Exchange the code and store the tokens on the organization
+    let tokens
+    try {
+      tokens = await exchangeHubSpotCode(code, hubspotRedirectUri(origin))
+    } catch (exchangeError) {
+      console.error('HubSpot code exchange failed:', exchangeError)
+      return redirect('error=exchange_failed')
+    }
+
+    const { error: updateError } = await adminSupabase
+      .from('crm_organizations')
+      .update({
+        ...tokens,
+        hubspot_connected_at: new Date().toISOString(),
+        hubspot_connected_by: crmUser.id,
+      })
+      .eq('org_id', crmUser.org_id)
+
+    if (updateError) {
+      console.error('Error storing HubSpot tokens:', updateError)
+      return redirect('error=unexpected')
+    }
+
+    // 4. Start with the standard fields mapped, unless the org already chose
+    const { count } = await adminSupabase
+      .from('crm_hubspot_field_mappings')
+      .select('id', { count: 'exact', head: true })
+      .eq('org_id', crmUser.org_id)
+
+    if (!count) {
+      const { error: seedError } = await adminSupabase
+        .from('crm_hubspot_field_mappings')
+        .insert(DEFAULT_HUBSPOT_MAPPINGS.map((m) => ({ ...m, org_id: crmUser.org_id })))
+      if (seedError) console.error('Error seeding HubSpot field mappings:', seedError)
+    }
+
+    return redirect('connected=1')
+  } catch (error) {
+    console.error('Unexpected error in GET /api/hubspot/callback:', error)
+    return redirect('error=unexpected')
+  }
+}
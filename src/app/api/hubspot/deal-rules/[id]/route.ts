@@ -0,0 +1,179 @@
+// =============================================================================
+// HubSpot Deal Rule API Route
+// PATCH  /api/hubspot/deal-rules/[id] -> Change the classification or target stage
+// DELETE /api/hubspot/deal-rules/[id] -> Delete a deal rule
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { HubSpotNotConnectedError, getHubSpotClient } from '@/lib/hubspot/oauth'
+import { findHubSpotDealStage, hubspotDealRuleSchema } from '@/lib/hubspot/engagements'
+import type { HubSpotDealRule } from '@/types/database'
+
+// -----------------------------------------------------------------------------
+// Shared: authenticate a user allowed to manage integrations
+// -----------------------------------------------------------------------------
+
+async function loadManagerContext() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const adminSupabase = createAdminClient()
+
+  const { data: crmUser, error: crmUserError } = await adminSupabase
+    .from('crm_users')
+    .select('*')
+    .eq('id', user.id)
+    .single()
+
+  if (crmUserError || !crmUser) {
+    return {
+      error: NextResponse.json({ error: 'CRM user not found' }, { status: 403 }),
+    }
+  }
+
+  if (!hasPermission(crmUser.role, 'manage_settings')) {
+    return {
+      error: NextResponse.json(
+        { error: 'You do not have permission to manage integrations' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { adminSupabase, crmUser }
+}
+
+// -----------------------------------------------------------------------------
+// PATCH - Update Deal Rule
+// Body: { classification?, pipeline_id?, stage_id? }
+// A new pipeline needs a stage from it.
+// -----------------------------------------------------------------------------
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadManagerContext()
+    if (ctx.error) return ctx.error
+    const { adminSupabase, crmUser } = ctx
+
+    const parsed = hubspotDealRuleSchema.partial().safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
+    }
+    const updates: Record<string, unknown> = Object.fromEntries(
+      Object.entries(parsed.data).filter(([, value]) => value !== undefined)
+    )
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
+    }
+
+    const { data: current } = await adminSupabase
+      .from('crm_hubspot_deal_rules')
+      .select('*')
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+      .maybeSingle<HubSpotDealRule>()
+
+    if (!current) {
+      return NextResponse.json({ error: 'Deal rule not found' }, { status: 404 })
+    }
+
+    // Re-check the stage and refresh its labels when it changes
+    if (updates.pipeline_id !== undefined || updates.stage_id !== undefined) {
+      let labels
+      try {
+        const client = await getHubSpotClient(adminSupabase, crmUser.org_id)
+        labels = await findHubSpotDealStage(
+          client,
+          (updates.pipeline_id as string | undefined) ?? current.pipeline_id,
+          (updates.stage_id as string | undefined) ?? current.stage_id
+        )
+      } catch (hubspotError) {
+        if (hubspotError instanceof HubSpotNotConnectedError) {
+          return NextResponse.json({ error: hubspotError.message }, { status: 409 })
+        }
+        console.error('Failed to load HubSpot pipelines:', hubspotError)
+        return NextResponse.json(
+          { error: 'Failed to load pipelines from HubSpot' },
+          { status: 502 }
+        )
+      }
+
+      if (!labels) {
+        return NextResponse.json({ error: 'Deal stage not found in HubSpot' }, { status: 400 })
+      }
+      Object.assign(updates, labels)
+    }
+
+    const { data: updated, error: updateError } = await adminSupabase
+      .from('crm_hubspot_deal_rules')
+      .update(updates)
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+      .select()
+      .single()
+
+    if (updateError) {
+      if (updateError.code === '23505') {
+        return NextResponse.json(
+          { error: `A deal rule for ${updates.classification} already exists` },
+          { status: 409 }
+        )
+      }
+      console.error('Error updating HubSpot deal rule:', updateError)
+      return NextResponse.json({ error: 'Failed to update deal rule' }, { status: 500 })
+    }
+
+    return NextResponse.json({ data: updated })
+  } catch (error) {
+    console.error('Unexpected error in PATCH /api/hubspot/deal-rules/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// DELETE - Delete Deal Rule
+// Deals already created in HubSpot are left as they are.
+// -----------------------------------------------------------------------------
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadManagerContext()
+    if (ctx.error) return ctx.error
+    const { adminSupabase, crmUser } = ctx
+
+    const { error: deleteError } = await adminSupabase
+      .from('crm_hubspot_deal_rules')
+      .delete()
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+
+    if (deleteError) {
+      console.error('Error deleting HubSpot deal rule:', deleteError)
+      return NextResponse.json({ error: 'Failed to delete deal rule' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/hubspot/deal-rules/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,142 @@
+// =============================================================================
+// HubSpot Deal Rules API Route
+// GET  /api/hubspot/deal-rules -> List the classifications that create or advance deals
+// POST /api/hubspot/deal-rules -> Add a deal rule
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { HubSpotNotConnectedError, getHubSpotClient } from '@/lib/hubspot/oauth'
+import {
+  findHubSpotDealStage,
+  hubspotDealRuleSchema,
+  loadHubSpotDealRules,
+} from '@/lib/hubspot/engagements'
+
+// -----------------------------------------------------------------------------
+// GET - List Deal Rules
+// -----------------------------------------------------------------------------
+
+export async function GET() {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    // 2. Rules by classification
+    const rules = await loadHubSpotDealRules(adminSupabase, crmUser.org_id)
+
+    return NextResponse.json({ data: rules })
+  } catch (error) {
+    console.error('Unexpected error in GET /api/hubspot/deal-rules:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// POST - Add a Deal Rule
+// Body: { classification, pipeline_id, stage_id }
+// The stage is checked against HubSpot and its labels stored for display.
+// -----------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_settings')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage integrations' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Validate the request body and the stage
+    const parsed = hubspotDealRuleSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
+    }
+    const { classification, pipeline_id, stage_id } = parsed.data
+
+    let labels
+    try {
+      const client = await getHubSpotClient(adminSupabase, crmUser.org_id)
+      labels = await findHubSpotDealStage(client, pipeline_id, stage_id)
+    } catch (hubspotError) {
+      if (hubspotError instanceof HubSpotNotConnectedError) {
+        return NextResponse.json({ error: hubspotError.message }, { status: 409 })
+      }
+      console.error('Failed to load HubSpot pipelines:', hubspotError)
+      return NextResponse.json({ error: 'Failed to load pipelines from HubSpot' }, { status: 502 })
+    }
+
+    if (!labels) {
+      return NextResponse.json({ error: 'Deal stage not found in HubSpot' }, { status: 400 })
+    }
+
+    // 3. Create the rule
+    const { data: rule, error: createError } = await adminSupabase
+      .from('crm_hubspot_deal_rules')
+      .insert({ org_id: crmUser.org_id, classification, pipeline_id, stage_id, ...labels })
+      .select()
+      .single()
+
+    if (createError) {
+      // Unique violation on (org_id, lower(classification))
+      if (createError.code === '23505') {
+        return NextResponse.json(
+          { error: `A deal rule for ${classification} already exists` },
+          { status: 409 }
+        )
+      }
+      console.error('Error creating HubSpot deal rule:', createError)
+      return NextResponse.json({ error: 'Failed to create deal rule' }, { status: 500 })
+    }
+
+    return NextResponse.json(rule, { status: 201 })
+  } catch (error) {
+    console.error('Unexpected error in POST /api/hubspot/deal-rules:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
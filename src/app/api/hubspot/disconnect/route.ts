@@ -0,0 +1,81 @@
+// =============================================================================
+// HubSpot Disconnect Route
+// POST /api/hubspot/disconnect -> Revoke the org's tokens and forget them
+// =============================================================================
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { DISCONNECTED, revokeHubSpotToken } from '@/lib/hubspot/oauth'
+
+// -----------------------------------------------------------------------------
+// POST - Disconnect HubSpot
+// The tokens are cleared even when HubSpot can't be reached to revoke them,
+// so the portal is never left half-connected.
+// -----------------------------------------------------------------------------
+
+export async function POST() {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_settings')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage integrations' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Revoke the refresh token
+    const { data: org } = await adminSupabase
+      .from('crm_organizations')
+      .select('hubspot_refresh_token')
+      .eq('org_id', crmUser.org_id)
+      .single()
+
+    if (org?.hubspot_refresh_token) {
+      try {
+        await revokeHubSpotToken(org.hubspot_refresh_token)
+      } catch (revokeError) {
+        console.error('Failed to revoke HubSpot token:', revokeError)
+      }
+    }
+
+    // 3. Forget the connection
+    const { error: updateError } = await adminSupabase
+      .from('crm_organizations')
+      .update(DISCONNECTED)
+      .eq('org_id', crmUser.org_id)
+
+    if (updateError) {
+      console.error('Error disconnecting HubSpot:', updateError)
+      return NextResponse.json({ error: 'Failed to disconnect HubSpot' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Unexpected error in POST /api/hubspot/disconnect:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,142 @@
+// =============================================================================
+// HubSpot Field Mapping API Route
+// PATCH  /api/hubspot/mappings/[id] -> Change the HubSpot property or direction
+// DELETE /api/hubspot/mappings/[id] -> Stop syncing the field
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { hubspotMappingUpdateSchema } from '@/lib/hubspot/mapping'
+
+// -----------------------------------------------------------------------------
+// Shared: authenticate a user allowed to manage integrations
+// -----------------------------------------------------------------------------
+
+async function loadManagerContext() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const adminSupabase = createAdminClient()
+
+  const { data: crmUser, error: crmUserError } = await adminSupabase
+    .from('crm_users')
+    .select('*')
+    .eq('id', user.id)
+    .single()
+
+  if (crmUserError || !crmUser) {
+    return {
+      error: NextResponse.json({ error: 'CRM user not found' }, { status: 403 }),
+    }
+  }
+
+  if (!hasPermission(crmUser.role, 'manage_settings')) {
+    return {
+      error: NextResponse.json(
+        { error: 'You do not have permission to manage integrations' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { adminSupabase, crmUser }
+}
+
+// -----------------------------------------------------------------------------
+// PATCH - Update Mapping
+// Body: { hubspot_property?, direction? }
+// -----------------------------------------------------------------------------
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadManagerContext()
+    if (ctx.error) return ctx.error
+    const { adminSupabase, crmUser } = ctx
+
+    const parsed = hubspotMappingUpdateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
+    }
+    const updates = Object.fromEntries(
+      Object.entries(parsed.data).filter(([, value]) => value !== undefined)
+    )
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
+    }
+
+    const { data: updated, error: updateError } = await adminSupabase
+      .from('crm_hubspot_field_mappings')
+      .update(updates)
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+      .select()
+      .maybeSingle()
+
+    if (updateError) {
+      if (updateError.code === '23505') {
+        return NextResponse.json(
+          { error: 'That HubSpot property is already mapped' },
+          { status: 409 }
+        )
+      }
+      console.error('Error updating HubSpot mapping:', updateError)
+      return NextResponse.json({ error: 'Failed to update mapping' }, { status: 500 })
+    }
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Mapping not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ data: updated })
+  } catch (error) {
+    console.error('Unexpected error in PATCH /api/hubspot/mappings/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// DELETE - Delete Mapping
+// Values already synced stay on both sides.
+// -----------------------------------------------------------------------------
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadManagerContext()
+    if (ctx.error) return ctx.error
+    const { adminSupabase, crmUser } = ctx
+
+    const { error: deleteError } = await adminSupabase
+      .from('crm_hubspot_field_mappings')
+      .delete()
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+
+    if (deleteError) {
+      console.error('Error deleting HubSpot mapping:', deleteError)
+      return NextResponse.json({ error: 'Failed to delete mapping' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/hubspot/mappings/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,121 @@
+// =============================================================================
+// HubSpot Field Mappings API Route
+// GET  /api/hubspot/mappings -> List the org's CRM field <-> HubSpot property mappings
+// POST /api/hubspot/mappings -> Map a CRM field to a HubSpot property
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { hubspotMappingSchema } from '@/lib/hubspot/mapping'
+import { loadHubSpotMappings } from '@/lib/hubspot/contact-sync'
+
+// -----------------------------------------------------------------------------
+// GET - List Mappings
+// -----------------------------------------------------------------------------
+
+export async function GET() {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    // 2. Mappings in the order they were added
+    const mappings = await loadHubSpotMappings(adminSupabase, crmUser.org_id)
+
+    return NextResponse.json({ data: mappings })
+  } catch (error) {
+    console.error('Unexpected error in GET /api/hubspot/mappings:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// POST - Add a Mapping
+// Body: { crm_field, hubspot_property, direction? }
+// A CRM field and a HubSpot property can each be mapped once.
+// -----------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_settings')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage integrations' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Validate the request body
+    const parsed = hubspotMappingSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    // 3. Create the mapping
+    const { data: mapping, error: createError } = await adminSupabase
+      .from('crm_hubspot_field_mappings')
+      .insert({ ...parsed.data, org_id: crmUser.org_id })
+      .select()
+      .single()
+
+    if (createError) {
+      // Unique violation on (org_id, crm_field) or (org_id, hubspot_property)
+      if (createError.code === '23505') {
+        return NextResponse.json(
+          { error: 'That CRM field or HubSpot property is already mapped' },
+          { status: 409 }
+        )
+      }
+      console.error('Error creating HubSpot mapping:', createError)
+      return NextResponse.json({ error: 'Failed to create mapping' }, { status: 500 })
+    }
+
+    return NextResponse.json(mapping, { status: 201 })
+  } catch (error) {
+    console.error('Unexpected error in POST /api/hubspot/mappings:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
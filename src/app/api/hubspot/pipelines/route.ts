@@ -0,0 +1,65 @@
+// =============================================================================
+// HubSpot Pipelines API Route
+// GET /api/hubspot/pipelines -> Deal pipelines and stages of the connected portal
+// =============================================================================
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { HubSpotNotConnectedError, getHubSpotClient } from '@/lib/hubspot/oauth'
+import { loadHubSpotDealPipelines } from '@/lib/hubspot/engagements'
+
+// -----------------------------------------------------------------------------
+// GET - List Deal Pipelines
+// -----------------------------------------------------------------------------
+
+export async function GET() {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_settings')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage integrations' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Ask HubSpot
+    try {
+      const client = await getHubSpotClient(adminSupabase, crmUser.org_id)
+      const pipelines = await loadHubSpotDealPipelines(client)
+      return NextResponse.json({ data: pipelines })
+    } catch (hubspotError) {
+      if (hubspotError instanceof HubSpotNotConnectedError) {
+        return NextResponse.json({ error: hubspotError.message }, { status: 409 })
+      }
+      console.error('Failed to load HubSpot pipelines:', hubspotError)
+      return NextResponse.json({ error: 'Failed to load pipelines from HubSpot' }, { status: 502 })
+    }
+  } catch (error) {
+    console.error('Unexpected error in GET /api/hubspot/pipelines:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
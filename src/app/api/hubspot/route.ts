@@ -0,0 +1,157 @@
+// =============================================================================
+// HubSpot Connection API Route
+// GET   /api/hubspot -> Whether the organization's HubSpot portal is connected
+// PATCH /api/hubspot -> Update the sync settings
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { isHubSpotConfigured } from '@/lib/hubspot/oauth'
+import { HUBSPOT_CONFLICT_RULES } from '@/lib/hubspot/mapping'
+import type { Organization } from '@/types/database'
+
+// -----------------------------------------------------------------------------
+// GET - Connection Status
+// Never returns the tokens themselves.
+// -----------------------------------------------------------------------------
+
+export async function GET() {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    // 2. Load the connection
+    const { data: org, error: orgError } = await adminSupabase
+      .from('crm_organizations')
+      .select(
+        'hubspot_refresh_token, hubspot_portal_id, hubspot_connected_at, hubspot_connected_by, hubspot_conflict_rule, hubspot_synced_until'
+      )
+      .eq('org_id', crmUser.org_id)
+      .single<
+        Pick<
+          Organization,
+          | 'hubspot_refresh_token'
+          | 'hubspot_portal_id'
+          | 'hubspot_connected_at'
+          | 'hubspot_connected_by'
+          | 'hubspot_conflict_rule'
+          | 'hubspot_synced_until'
+        >
+      >()
+
+    if (orgError || !org) {
+      return NextResponse.json({ error: 'Organization not found' }, { status: 404 })
+    }
+
+    let connectedByName: string | null = null
+    if (org.hubspot_connected_by) {
+      const { data: connectedBy } = await adminSupabase
+        .from('crm_users')
+        .select('display_name')
+        .eq('id', org.hubspot_connected_by)
+        .maybeSingle()
+      connectedByName = connectedBy?.display_name ?? null
+    }
+
+    return NextResponse.json({
+      data: {
+        configured: isHubSpotConfigured(),
+        connected: !!org.hubspot_refresh_token,
+        portal_id: org.hubspot_portal_id,
+        connected_at: org.hubspot_connected_at,
+        connected_by_name: connectedByName,
+        conflict_rule: org.hubspot_conflict_rule,
+        synced_until: org.hubspot_synced_until,
+      },
+    })
+  } catch (error) {
+    console.error('Unexpected error in GET /api/hubspot:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// PATCH - Update Sync Settings
+// Body: { conflict_rule }
+// -----------------------------------------------------------------------------
+
+export async function PATCH(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_settings')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage integrations' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Validate the request body
+    const { conflict_rule } = (await request.json()) as { conflict_rule?: string }
+    if (!conflict_rule || !(conflict_rule in HUBSPOT_CONFLICT_RULES)) {
+      return NextResponse.json(
+        { error: `conflict_rule must be one of: ${Object.keys(HUBSPOT_CONFLICT_RULES).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // 3. Save
+    const { error: updateError } = await adminSupabase
+      .from('crm_organizations')
+      .update({ hubspot_conflict_rule: conflict_rule })
+      .eq('org_id', crmUser.org_id)
+
+    if (updateError) {
+      console.error('Error updating HubSpot settings:', updateError)
+      return NextResponse.json({ error: 'Failed to update HubSpot settings' }, { status: 500 })
+    }
+
+    return NextResponse.json({ data: { conflict_rule } })
+  } catch (error) {
+    console.error('Unexpected error in PATCH /api/hubspot:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
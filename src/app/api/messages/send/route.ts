@@ -11,8 +11,22 @@ import {
   sendTextMessage,
   sendTemplateMessage,
   sendMediaMessage,
+  sendInteractiveMessage,
 } from '@/lib/whatsapp/api'
-import type { MessageType } from '@/types/database'
+import { validateInteractive, type InteractiveMessage } from '@/lib/whatsapp/interactive'
+import {
+  SERVICE_WINDOW_CLOSED,
+  getServiceWindow,
+  requiresServiceWindow,
+} from '@/lib/whatsapp/service-window'
+import {
+  CONTACT_OPTED_OUT,
+  isOptedOut,
+  optedOutMessage,
+  templateConsentCategory,
+} from '@/lib/contacts/consent'
+import { whatsAppRecipient } from '@/lib/contacts/phone'
+import type { MessageMetadata, MessageType } from '@/types/database'
 
 // -----------------------------------------------------------------------------
 // POST - Send a message
@@ -44,6 +58,7 @@ export async function POST(request: NextRequest) {
       templateName,
       templateLanguage,
       templateComponents,
+      interactive,
       replyToMessageId,
     } = body as {
       conversationId: string
@@ -53,6 +68,7 @@ export async function POST(request: NextRequest) {
       templateName?: string
       templateLanguage?: string
       templateComponents?: any[]
+      interactive?: InteractiveMessage
       replyToMessageId?: string
     }
 
@@ -63,6 +79,17 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Interactive payloads are checked up front: a malformed one must be a
+    // 400, not a failed send stored on the conversation
+    if (type === 'interactive') {
+      const problem = interactive
+        ? validateInteractive(interactive)
+        : 'interactive is required for interactive messages'
+      if (problem) {
+        return NextResponse.json({ error: problem }, { status: 400 })
+      }
+    }
+
     // Use admin client for database operations to bypass RLS
     const adminSupabase = createAdminClient()
 
@@ -103,6 +130,32 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // 4b. Free-form messages need an open 24h customer service window
+    if (requiresServiceWindow(type)) {
+      const { data: lastInbound } = await adminSupabase
+        .from('crm_messages')
+        .select('created_at')
+        .eq('conversation_id', conversationId)
+        .eq('sender_type', 'contact')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      const serviceWindow = getServiceWindow(lastInbound?.created_at)
+      if (!serviceWindow.isOpen) {
+        return NextResponse.json(
+          {
+            error:
+              'The 24h customer service window is closed. Only approved templates can be sent.',
+            code: SERVICE_WINDOW_CLOSED,
+            lastInboundAt: lastInbound?.created_at ?? null,
+            expiredAt: serviceWindow.expiresAt,
+          },
+          { status: 422 }
+        )
+      }
+    }
+
     // 5. Get the organization's WhatsApp credentials
     const { data: org, error: orgError } = await adminSupabase
       .from('crm_organizations')
@@ -134,6 +187,8 @@ export async function POST(request: NextRequest) {
     let savedMediaUrl: string | null = mediaUrl || null
     let savedMediaMimeType: string | null = null
     let savedMediaFilename: string | null = null
+    let savedContent: string | null = content || null
+    const savedMetadata: MessageMetadata = {}
 
     try {
       switch (type) {
@@ -156,7 +211,7 @@ export async function POST(request: NextRequest) {
           }
 
           waResponse = await sendTextMessage({
-            to: contact.phone,
+            to: whatsAppRecipient(contact),
             text: content,
             phoneNumberId: whatsappPhoneNumberId,
             accessToken: whatsappAccessToken,
@@ -178,8 +233,25 @@ export async function POST(request: NextRequest) {
             )
           }
 
+          // Opted-out contacts may not receive templates of that category
+          const { data: template } = await adminSupabase
+            .from('crm_whatsapp_templates')
+            .select('category')
+            .eq('org_id', crmUser.org_id)
+            .eq('name', templateName)
+            .eq('language', templateLanguage)
+            .maybeSingle()
+
+          const consentCategory = templateConsentCategory(template?.category)
+          if (consentCategory && isOptedOut(contact, consentCategory)) {
+            return NextResponse.json(
+              { error: optedOutMessage(consentCategory), code: CONTACT_OPTED_OUT },
+              { status: 422 }
+            )
+          }
+
           waResponse = await sendTemplateMessage({
-            to: contact.phone,
+            to: whatsAppRecipient(contact),
             templateName,
             language: templateLanguage,
             components: templateComponents,
@@ -190,6 +262,28 @@ export async function POST(request: NextRequest) {
           break
         }
 
+        case 'interactive': {
+          // Validated above
+          const message = interactive!
+
+          // Set before sending so a failed attempt is stored with its body
+          savedContent = message.body.text
+          savedMetadata.interactive_message = message
+
+          waResponse = await sendInteractiveMessage({
+            to: whatsAppRecipient(contact),
+            interactive: message,
+            phoneNumberId: whatsappPhoneNumberId,
+            accessToken: whatsappAccessToken,
+          })
+
+          messagePreview =
+            savedContent.length > 100
+              ? savedContent.substring(0, 100) + '...'
+              : savedContent
+          break
+        }
+
         case 'image':
         case 'audio':
         case 'video':
@@ -202,7 +296,7 @@ export async function POST(request: NextRequest) {
           }
 
           waResponse = await sendMediaMessage({
-            to: contact.phone,
+            to: whatsAppRecipient(contact),
             type,
             mediaUrl,
             caption: content || undefined,
@@ -244,7 +338,7 @@ export async function POST(request: NextRequest) {
           sender_type: 'agent',
           sender_id: user.id,
           message_type: type,
-          content: content || null,
+          content: savedContent,
           media_url: savedMediaUrl,
           media_mime_type: savedMediaMimeType,
           media_filename: savedMediaFilename,
@@ -256,6 +350,7 @@ export async function POST(request: NextRequest) {
           status: 'failed',
           error_message: waError.message || 'Unknown WhatsApp API error',
           reply_to_message_id: replyToMessageId || null,
+          metadata: savedMetadata,
         })
         .select()
         .single()
@@ -281,7 +376,7 @@ export async function POST(request: NextRequest) {
         sender_type: 'agent',
         sender_id: user.id,
         message_type: type,
-        content: content || null,
+        content: savedContent,
         media_url: savedMediaUrl,
         media_mime_type: savedMediaMimeType,
         media_filename: savedMediaFilename,
@@ -293,6 +388,7 @@ export async function POST(request: NextRequest) {
         status: 'sent',
         error_message: null,
         reply_to_message_id: replyToMessageId || null,
+        metadata: savedMetadata,
       })
       .select()
       .single()
@@ -0,0 +1,125 @@
+// =============================================================================
+// Upload Attachment API Route
+// POST /api/messages/upload
+// Stores an agent attachment in the "whatsapp-media" bucket and returns the
+// public URL to pass as `mediaUrl` to POST /api/messages/send
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { uploadAttachmentToSupabase } from '@/lib/whatsapp/api'
+import { inferMediaType, MEDIA_SIZE_LIMITS, validateMediaSize } from '@/lib/whatsapp/media'
+
+// Largest body worth reading: the biggest media limit plus room for the
+// multipart boundaries and the conversation_id field
+const MAX_UPLOAD_BODY_BYTES = Math.max(...Object.values(MEDIA_SIZE_LIMITS)) + 64 * 1024
+
+// -----------------------------------------------------------------------------
+// POST - Upload an attachment
+// multipart/form-data: file, conversation_id
+// -----------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate the user
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // 2. Refuse oversized bodies before buffering them, then parse
+    const contentLength = Number(request.headers.get('content-length'))
+    if (!contentLength) {
+      return NextResponse.json(
+        { error: 'Content-Length header is required' },
+        { status: 411 }
+      )
+    }
+    if (contentLength > MAX_UPLOAD_BODY_BYTES) {
+      return NextResponse.json(
+        { error: `File is too large (max ${Math.round(MAX_UPLOAD_BODY_BYTES / 1024 / 1024)} MB)` },
+        { status: 413 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const conversationId = formData.get('conversation_id')
+
+    if (!(file instanceof File) || typeof conversationId !== 'string' || !conversationId) {
+      return NextResponse.json(
+        { error: 'Missing required fields: file, conversation_id' },
+        { status: 400 }
+      )
+    }
+
+    const mimeType = file.type || 'application/octet-stream'
+    const type = inferMediaType(mimeType)
+
+    const sizeError = validateMediaSize(type, file.size)
+    if (sizeError) {
+      return NextResponse.json({ error: sizeError }, { status: 413 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    // 3. Make sure the conversation belongs to the agent's org
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('org_id')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json(
+        { error: 'CRM user not found' },
+        { status: 403 }
+      )
+    }
+
+    const { data: conversation, error: convError } = await adminSupabase
+      .from('crm_conversations')
+      .select('id')
+      .eq('id', conversationId)
+      .eq('org_id', crmUser.org_id)
+      .single()
+
+    if (convError || !conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    // 4. Store the file
+    const { publicUrl } = await uploadAttachmentToSupabase(
+      await file.arrayBuffer(),
+      mimeType,
+      file.name,
+      conversation.id
+    )
+
+    return NextResponse.json(
+      {
+        mediaUrl: publicUrl,
+        mediaMimeType: mimeType,
+        filename: file.name,
+        type,
+        size: file.size,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Unexpected error in upload attachment:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload attachment' },
+      { status: 500 }
+    )
+  }
+}
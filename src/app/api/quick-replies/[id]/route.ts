@@ -0,0 +1,179 @@
+// =============================================================================
+// Quick Reply API Route
+// PATCH  /api/quick-replies/[id] -> Update a quick reply
+// DELETE /api/quick-replies/[id] -> Delete a quick reply
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { normalizeShortcut } from '@/lib/quick-replies'
+
+const MEDIA_TYPES = ['image', 'audio', 'video', 'document']
+
+// -----------------------------------------------------------------------------
+// Shared: authenticate a user allowed to manage quick replies
+// -----------------------------------------------------------------------------
+
+async function loadManagerContext() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const adminSupabase = createAdminClient()
+
+  const { data: crmUser, error: crmUserError } = await adminSupabase
+    .from('crm_users')
+    .select('*')
+    .eq('id', user.id)
+    .single()
+
+  if (crmUserError || !crmUser) {
+    return {
+      error: NextResponse.json({ error: 'CRM user not found' }, { status: 403 }),
+    }
+  }
+
+  if (!hasPermission(crmUser.role, 'manage_quick_replies')) {
+    return {
+      error: NextResponse.json(
+        { error: 'You do not have permission to manage quick replies' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { adminSupabase, crmUser }
+}
+
+// -----------------------------------------------------------------------------
+// PATCH - Update Quick Reply
+// Body: { shortcut?, title?, content?, category?, media_url?, media_type? }
+// -----------------------------------------------------------------------------
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadManagerContext()
+    if (ctx.error) return ctx.error
+    const { adminSupabase, crmUser } = ctx
+
+    const body = await request.json()
+    const { shortcut, title, content, category, media_url, media_type } = body as {
+      shortcut?: string
+      title?: string
+      content?: string
+      category?: string | null
+      media_url?: string | null
+      media_type?: string | null
+    }
+
+    const updates: Record<string, unknown> = {}
+
+    if (shortcut !== undefined) {
+      const normalized = normalizeShortcut(shortcut)
+      if (!normalized) {
+        return NextResponse.json({ error: 'Shortcut is required' }, { status: 400 })
+      }
+      updates.shortcut = normalized
+    }
+    if (title !== undefined) {
+      if (!title.trim()) {
+        return NextResponse.json({ error: 'Title is required' }, { status: 400 })
+      }
+      updates.title = title.trim()
+    }
+    if (content !== undefined) {
+      if (!content.trim()) {
+        return NextResponse.json({ error: 'Content is required' }, { status: 400 })
+      }
+      updates.content = content.trim()
+    }
+    if (category !== undefined) updates.category = category?.trim() || null
+
+    if (media_url !== undefined) {
+      if (media_url && (!media_type || !MEDIA_TYPES.includes(media_type))) {
+        return NextResponse.json(
+          { error: 'media_type must be one of image, audio, video, document' },
+          { status: 400 }
+        )
+      }
+      updates.media_url = media_url || null
+      updates.media_type = media_url ? media_type : null
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
+    }
+
+    const { data: updated, error: updateError } = await adminSupabase
+      .from('crm_quick_replies')
+      .update(updates)
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+      .select()
+      .maybeSingle()
+
+    if (updateError) {
+      if (updateError.code === '23505') {
+        return NextResponse.json(
+          { error: `Shortcut ${updates.shortcut} is already in use` },
+          { status: 409 }
+        )
+      }
+      console.error('Error updating quick reply:', updateError)
+      return NextResponse.json({ error: 'Failed to update quick reply' }, { status: 500 })
+    }
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Quick reply not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ data: updated })
+  } catch (error) {
+    console.error('Unexpected error in PATCH /api/quick-replies/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// -----------------------------------------------------------------------------
+// DELETE - Delete Quick Reply
+// -----------------------------------------------------------------------------
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const ctx = await loadManagerContext()
+    if (ctx.error) return ctx.error
+    const { adminSupabase, crmUser } = ctx
+
+    const { error: deleteError } = await adminSupabase
+      .from('crm_quick_replies')
+      .delete()
+      .eq('id', id)
+      .eq('org_id', crmUser.org_id)
+
+    if (deleteError) {
+      console.error('Error deleting quick reply:', deleteError)
+      return NextResponse.json({ error: 'Failed to delete quick reply' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/quick-replies/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,186 @@
+// =============================================================================
+// Quick Replies API Route
+// GET  /api/quick-replies -> List the org's quick replies
+// POST /api/quick-replies -> Create a quick reply
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { normalizeShortcut } from '@/lib/quick-replies'
+
+const MEDIA_TYPES = ['image', 'audio', 'video', 'document']
+
+// -----------------------------------------------------------------------------
+// GET - List Quick Replies
+// Query params: category
+// -----------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json(
+        { error: 'CRM user not found' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Build the query
+    const category = request.nextUrl.searchParams.get('category')
+
+    let query = adminSupabase
+      .from('crm_quick_replies')
+      .select('*')
+      .eq('org_id', crmUser.org_id)
+      .order('shortcut', { ascending: true })
+
+    if (category) {
+      query = query.eq('category', category)
+    }
+
+    const { data: quickReplies, error: queryError } = await query
+
+    if (queryError) {
+      console.error('Error fetching quick replies:', queryError)
+      return NextResponse.json(
+        { error: 'Failed to fetch quick replies' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ data: quickReplies || [] }, { status: 200 })
+  } catch (error) {
+    console.error('Unexpected error in GET /api/quick-replies:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// -----------------------------------------------------------------------------
+// POST - Create a Quick Reply
+// Body: { shortcut, title, content, category?, media_url?, media_type? }
+// -----------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json(
+        { error: 'CRM user not found' },
+        { status: 403 }
+      )
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_quick_replies')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage quick replies' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Parse and validate the request body
+    const body = await request.json()
+    const { shortcut, title, content, category, media_url, media_type } = body as {
+      shortcut: string
+      title: string
+      content: string
+      category?: string | null
+      media_url?: string | null
+      media_type?: string | null
+    }
+
+    const normalizedShortcut = normalizeShortcut(shortcut || '')
+    if (!normalizedShortcut || !title?.trim() || !content?.trim()) {
+      return NextResponse.json(
+        { error: 'Missing required fields: shortcut, title, content' },
+        { status: 400 }
+      )
+    }
+
+    if (media_url && (!media_type || !MEDIA_TYPES.includes(media_type))) {
+      return NextResponse.json(
+        { error: 'media_type must be one of image, audio, video, document' },
+        { status: 400 }
+      )
+    }
+
+    // 3. Create the quick reply
+    const { data: quickReply, error: createError } = await adminSupabase
+      .from('crm_quick_replies')
+      .insert({
+        org_id: crmUser.org_id,
+        shortcut: normalizedShortcut,
+        title: title.trim(),
+        content: content.trim(),
+        category: category?.trim() || null,
+        media_url: media_url || null,
+        media_type: media_url ? media_type : null,
+        created_by: user.id,
+      })
+      .select()
+      .single()
+
+    if (createError) {
+      // Unique violation on (org_id, shortcut)
+      if (createError.code === '23505') {
+        return NextResponse.json(
+          { error: `Shortcut ${normalizedShortcut} is already in use` },
+          { status: 409 }
+        )
+      }
+      console.error('Error creating quick reply:', createError)
+      return NextResponse.json(
+        { error: 'Failed to create quick reply' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(quickReply, { status: 201 })
+  } catch (error) {
+    console.error('Unexpected error in POST /api/quick-replies:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+// =============================================================================
+// Tags API Route
+// GET /api/tags -> List the org's tags
+// =============================================================================
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+// -----------------------------------------------------------------------------
+// GET - List Tags
+// -----------------------------------------------------------------------------
+
+export async function GET() {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json({ error: 'CRM user not found' }, { status: 403 })
+    }
+
+    // 2. Fetch
+    const { data: tags, error: queryError } = await adminSupabase
+      .from('crm_tags')
+      .select('*')
+      .eq('org_id', crmUser.org_id)
+      .order('name', { ascending: true })
+
+    if (queryError) {
+      console.error('Error fetching tags:', queryError)
+      return NextResponse.json({ error: 'Failed to fetch tags' }, { status: 500 })
+    }
+
+    return NextResponse.json({ data: tags || [] })
+  } catch (error) {
+    console.error('Unexpected error in GET /api/tags:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
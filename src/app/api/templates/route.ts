@@ -0,0 +1,75 @@
+// =============================================================================
+// WhatsApp Templates API Route
+// GET /api/templates -> List the org's synced message templates
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+// -----------------------------------------------------------------------------
+// GET - List Templates
+// Query params: status (e.g. APPROVED)
+// -----------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json(
+        { error: 'CRM user not found' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Build the query
+    const status = request.nextUrl.searchParams.get('status')
+
+    let query = adminSupabase
+      .from('crm_whatsapp_templates')
+      .select('*')
+      .eq('org_id', crmUser.org_id)
+      .order('name', { ascending: true })
+      .order('language', { ascending: true })
+
+    if (status) {
+      query = query.eq('status', status)
+    }
+
+    const { data: templates, error: queryError } = await query
+
+    if (queryError) {
+      console.error('Error fetching templates:', queryError)
+      return NextResponse.json(
+        { error: 'Failed to fetch templates' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ data: templates || [] }, { status: 200 })
+  } catch (error) {
+    console.error('Unexpected error in GET /api/templates:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
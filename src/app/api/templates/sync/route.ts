@@ -0,0 +1,86 @@
+// =============================================================================
+// WhatsApp Template Sync API Route
+// POST /api/templates/sync -> Pull templates from the WABA and upsert them
+// =============================================================================
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasPermission } from '@/lib/permissions'
+import { syncWhatsAppTemplates } from '@/lib/whatsapp/template-sync'
+
+// -----------------------------------------------------------------------------
+// POST - Sync Templates
+// -----------------------------------------------------------------------------
+
+export async function POST() {
+  try {
+    // 1. Authenticate
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    const { data: crmUser, error: crmUserError } = await adminSupabase
+      .from('crm_users')
+      .select('*')
+      .eq('id', user.id)
+      .single()
+
+    if (crmUserError || !crmUser) {
+      return NextResponse.json(
+        { error: 'CRM user not found' },
+        { status: 403 }
+      )
+    }
+
+    if (!hasPermission(crmUser.role, 'manage_settings')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to sync templates' },
+        { status: 403 }
+      )
+    }
+
+    // 2. Load the organization's WhatsApp credentials
+    const { data: org, error: orgError } = await adminSupabase
+      .from('crm_organizations')
+      .select('*')
+      .eq('org_id', crmUser.org_id)
+      .single()
+
+    if (orgError || !org) {
+      return NextResponse.json(
+        { error: 'Organization not found' },
+        { status: 404 }
+      )
+    }
+
+    // 3. Sync
+    try {
+      const result = await syncWhatsAppTemplates(adminSupabase, org)
+      return NextResponse.json({ data: result }, { status: 200 })
+    } catch (syncError) {
+      console.error('Template sync failed:', syncError)
+      return NextResponse.json(
+        {
+          error: 'Failed to sync templates from WhatsApp',
+          details: syncError instanceof Error ? syncError.message : String(syncError),
+        },
+        { status: 502 }
+      )
+    }
+  } catch (error) {
+    console.error('Unexpected error in POST /api/templates/sync:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
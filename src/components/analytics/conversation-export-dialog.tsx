@@ -0,0 +1,289 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Download, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { createClient } from '@/lib/supabase/client'
+import { conversationFiltersToParams } from '@/lib/conversations/filters'
+import { downloadExport } from '@/lib/export/download'
+import { cn } from '@/lib/utils'
+import type { ExportFormat } from '@/lib/export/spreadsheet'
+import {
+  CONVERSATION_STATUSES,
+  type ConversationFilters,
+  type ConversationStatus,
+  type CrmUser,
+  type Tag,
+} from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+const STATUS_LABELS: Record<ConversationStatus, string> = {
+  pending: 'Pending',
+  open: 'Open',
+  waiting: 'Waiting',
+  resolved: 'Resolved',
+  closed: 'Closed',
+}
+
+const ANY = 'any'
+const UNASSIGNED = 'unassigned'
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function ConversationExportDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const [statuses, setStatuses] = useState<ConversationStatus[]>([])
+  const [agent, setAgent] = useState(ANY)
+  const [queue, setQueue] = useState('')
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [classification, setClassification] = useState('')
+  const [search, setSearch] = useState('')
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+  const [format, setFormat] = useState<ExportFormat>('xlsx')
+  const [isExporting, setIsExporting] = useState(false)
+
+  const [agents, setAgents] = useState<Pick<CrmUser, 'id' | 'display_name'>[]>([])
+  const [tags, setTags] = useState<Tag[]>([])
+
+  // Filter options, loaded once the dialog opens
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+
+    async function loadOptions() {
+      try {
+        const supabase = createClient()
+        const [agentsRes, tagsRes] = await Promise.all([
+          supabase.from('crm_users').select('id, display_name').order('display_name'),
+          fetch('/api/tags').then((res) => res.json()),
+        ])
+        if (cancelled) return
+        setAgents(agentsRes.data ?? [])
+        setTags(tagsRes.data ?? [])
+      } catch (error) {
+        console.error('[ConversationExportDialog] options error:', error)
+      }
+    }
+
+    loadOptions()
+    return () => {
+      cancelled = true
+    }
+  }, [open])
+
+  const toggleStatus = (status: ConversationStatus) => {
+    setStatuses((current) =>
+      current.includes(status) ? current.filter((s) => s !== status) : [...current, status]
+    )
+  }
+
+  const toggleTag = (name: string) => {
+    setSelectedTags((current) =>
+      current.includes(name) ? current.filter((t) => t !== name) : [...current, name]
+    )
+  }
+
+  const handleExport = async () => {
+    const filters: ConversationFilters = {}
+    if (statuses.length > 0) filters.status = statuses
+    if (agent === UNASSIGNED) filters.assigned_agent_id = null
+    else if (agent !== ANY) filters.assigned_agent_id = agent
+    if (queue.trim()) filters.queue = queue.trim()
+    if (selectedTags.length > 0) filters.tags = selectedTags
+    if (classification.trim()) filters.classification = classification.trim()
+    if (search.trim()) filters.search = search.trim()
+    if (dateFrom) filters.date_from = dateFrom
+    if (dateTo) filters.date_to = dateTo
+
+    const params = conversationFiltersToParams(filters)
+    params.set('format', format)
+
+    setIsExporting(true)
+    try {
+      await downloadExport(`/api/conversations/export?${params}`)
+      onOpenChange(false)
+    } catch (error) {
+      console.error('[ConversationExportDialog] export error:', error)
+      toast.error(error instanceof Error ? error.message : 'Export failed')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isExporting && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export conversations</DialogTitle>
+          <DialogDescription>
+            One row per conversation with protocol, agent, classification, tags and response
+            timings. Leave a filter empty to include everything.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label>Status</Label>
+            <div className="flex flex-wrap gap-3">
+              {Object.values(CONVERSATION_STATUSES).map((status) => (
+                <label key={status} className="flex items-center gap-1.5 text-sm">
+                  <Checkbox
+                    checked={statuses.includes(status)}
+                    onCheckedChange={() => toggleStatus(status)}
+                  />
+                  {STATUS_LABELS[status]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label>Agent</Label>
+              <Select value={agent} onValueChange={setAgent}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any agent</SelectItem>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {agents.map((a) => (
+                    <SelectItem key={a.id} value={a.id}>
+                      {a.display_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="export-queue">Queue</Label>
+              <Input
+                id="export-queue"
+                value={queue}
+                onChange={(e) => setQueue(e.target.value)}
+                placeholder="Any"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="export-classification">Classification</Label>
+              <Input
+                id="export-classification"
+                value={classification}
+                onChange={(e) => setClassification(e.target.value)}
+                placeholder="Any"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="export-search">Contact</Label>
+              <Input
+                id="export-search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Name or phone"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="export-date-from">Created from</Label>
+              <Input
+                id="export-date-from"
+                type="date"
+                value={dateFrom}
+                max={dateTo || undefined}
+                onChange={(e) => setDateFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="export-date-to">Created to</Label>
+              <Input
+                id="export-date-to"
+                type="date"
+                value={dateTo}
+                min={dateFrom || undefined}
+                onChange={(e) => setDateTo(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {tags.length > 0 && (
+            <div className="space-y-1.5">
+              <Label>Tags (all of)</Label>
+              <div className="flex flex-wrap gap-1.5">
+                {tags.map((tag) => {
+                  const picked = selectedTags.includes(tag.name)
+                  return (
+                    <button
+                      key={tag.id}
+                      type="button"
+                      onClick={() => toggleTag(tag.name)}
+                      className={cn(
+                        'rounded-full border px-2 py-0.5 text-xs transition-colors',
+                        picked
+                          ? 'border-primary bg-primary text-primary-foreground'
+                          : 'text-muted-foreground hover:bg-accent'
+                      )}
+                    >
+                      {tag.name}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(v) => setFormat(v as ExportFormat)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+                <SelectItem value="csv">CSV (.csv), best for large exports</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting ? <Loader2 className="size-4 animate-spin" /> : <Download className="size-4" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
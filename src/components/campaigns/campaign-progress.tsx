@@ -0,0 +1,146 @@
+'use client'
+
+import { Progress } from '@/components/ui/progress'
+import { cn } from '@/lib/utils'
+import type { Campaign, CampaignRecipientStatus, CampaignStatus } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Status badges
+// ---------------------------------------------------------------------------
+
+export const CAMPAIGN_STATUS_BADGES: Record<CampaignStatus, { label: string; className: string }> = {
+  draft: {
+    label: 'Draft',
+    className: 'bg-muted text-muted-foreground border-border',
+  },
+  scheduled: {
+    label: 'Scheduled',
+    className: 'bg-sky-500/15 text-sky-600 dark:text-sky-400 border-sky-500/30',
+  },
+  running: {
+    label: 'Sending',
+    className: 'bg-emerald-500/15 text-emerald-600 dark:text-emerald-400 border-emerald-500/30',
+  },
+  paused: {
+    label: 'Paused',
+    className: 'bg-amber-500/15 text-amber-600 dark:text-amber-400 border-amber-500/30',
+  },
+  completed: {
+    label: 'Completed',
+    className: 'bg-violet-500/15 text-violet-600 dark:text-violet-400 border-violet-500/30',
+  },
+  cancelled: {
+    label: 'Cancelled',
+    className: 'bg-muted text-muted-foreground border-border line-through',
+  },
+  failed: {
+    label: 'Failed',
+    className: 'bg-red-500/15 text-red-600 dark:text-red-400 border-red-500/30',
+  },
+}
+
+export const RECIPIENT_STATUS_BADGES: Record<
+  CampaignRecipientStatus,
+  { label: string; className: string }
+> = {
+  pending: {
+    label: 'Pending',
+    className: 'bg-muted text-muted-foreground border-border',
+  },
+  sending: {
+    label: 'Sending',
+    className: 'bg-amber-500/15 text-amber-600 dark:text-amber-400 border-amber-500/30',
+  },
+  sent: {
+    label: 'Sent',
+    className: 'bg-sky-500/15 text-sky-600 dark:text-sky-400 border-sky-500/30',
+  },
+  delivered: {
+    label: 'Delivered',
+    className: 'bg-emerald-500/15 text-emerald-600 dark:text-emerald-400 border-emerald-500/30',
+  },
+  read: {
+    label: 'Read',
+    className: 'bg-violet-500/15 text-violet-600 dark:text-violet-400 border-violet-500/30',
+  },
+  failed: {
+    label: 'Failed',
+    className: 'bg-red-500/15 text-red-600 dark:text-red-400 border-red-500/30',
+  },
+}
+
+// ---------------------------------------------------------------------------
+// Progress
+// ---------------------------------------------------------------------------
+
+export function getCampaignProgress(campaign: Campaign) {
+  const processed = campaign.sent_count + campaign.failed_count
+  const total = campaign.total_recipients
+  return {
+    processed,
+    pending: Math.max(total - processed, 0),
+    percent: total > 0 ? Math.min(Math.round((processed / total) * 100), 100) : 0,
+  }
+}
+
+export function CampaignProgress({
+  campaign,
+  compact = false,
+}: {
+  campaign: Campaign
+  compact?: boolean
+}) {
+  const { processed, pending, percent } = getCampaignProgress(campaign)
+
+  if (compact) {
+    return (
+      <div className="space-y-1">
+        <Progress value={percent} className="h-1.5" />
+        <p className="text-xs text-muted-foreground">
+          {processed}/{campaign.total_recipients} processed
+          {campaign.failed_count > 0 && ` · ${campaign.failed_count} failed`}
+        </p>
+      </div>
+    )
+  }
+
+  const stats = [
+    { label: 'Recipients', value: campaign.total_recipients },
+    { label: 'Pending', value: pending },
+    { label: 'Sent', value: campaign.sent_count },
+    { label: 'Delivered', value: campaign.delivered_count },
+    { label: 'Read', value: campaign.read_count },
+    { label: 'Replied', value: campaign.replied_count },
+    { label: 'Failed', value: campaign.failed_count, danger: campaign.failed_count > 0 },
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">{percent}%</span>
+          <span className="text-muted-foreground">
+            {processed} of {campaign.total_recipients} processed
+          </span>
+        </div>
+        <Progress value={percent} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4 lg:grid-cols-7">
+        {stats.map((stat) => (
+          <div key={stat.label} className="rounded-lg border px-3 py-2">
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p
+              className={cn(
+                'text-xl font-semibold tabular-nums',
+                stat.danger && 'text-red-600 dark:text-red-400'
+              )}
+            >
+              {stat.value.toLocaleString()}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,693 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import {
+  ArrowLeft,
+  Check,
+  FileText,
+  Loader2,
+  Upload,
+  Users,
+} from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useWhatsAppTemplates } from '@/hooks/use-whatsapp-templates'
+import { useCustomFields } from '@/hooks/use-custom-fields'
+import { getTemplateFields, renderTemplatePreview } from '@/lib/whatsapp/templates'
+import { parseAudienceList } from '@/lib/campaigns/audience'
+import {
+  BATCH_INTERVAL_LIMITS,
+  BATCH_SIZE_LIMITS,
+  REPLY_WINDOW_LIMITS,
+} from '@/lib/campaigns/validation'
+import {
+  CONTACT_VARIABLE_SOURCES,
+  customFieldVariable,
+  customFieldVariableSources,
+} from '@/lib/campaigns/variables'
+import { cn } from '@/lib/utils'
+import type { ContactGroup, Tag } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+const STEPS = ['Template', 'Variables', 'Audience', 'Schedule'] as const
+
+/** Where a template field takes its value from */
+interface FieldMapping {
+  /** 'text', 'custom_field' (a key typed in) or one of the variable sources */
+  source: string
+  text: string
+}
+
+const EMPTY_MAPPING: FieldMapping = { source: 'text', text: '' }
+const NO_GROUP = 'none'
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function CampaignWizard() {
+  const router = useRouter()
+  const { templates, isLoading: templatesLoading } = useWhatsAppTemplates()
+  const { customFields } = useCustomFields()
+
+  const [step, setStep] = useState(0)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Step 1 - template
+  const [name, setName] = useState('')
+  const [templateId, setTemplateId] = useState<string | null>(null)
+
+  // Step 2 - variables
+  const [mappings, setMappings] = useState<Record<string, FieldMapping>>({})
+  const variableSources = useMemo(
+    () => [...CONTACT_VARIABLE_SOURCES, ...customFieldVariableSources(customFields)],
+    [customFields]
+  )
+
+  // Step 3 - audience
+  const [groups, setGroups] = useState<ContactGroup[]>([])
+  const [tags, setTags] = useState<Tag[]>([])
+  const [groupId, setGroupId] = useState(NO_GROUP)
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [listText, setListText] = useState('')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Step 4 - schedule
+  const [when, setWhen] = useState<'now' | 'later'>('now')
+  const [scheduledAt, setScheduledAt] = useState('')
+  const [batchSize, setBatchSize] = useState(20)
+  const [batchInterval, setBatchInterval] = useState(60)
+  const [replyWindow, setReplyWindow] = useState(72)
+
+  const approved = useMemo(
+    () => templates.filter((t) => t.status === 'APPROVED'),
+    [templates]
+  )
+  const template = approved.find((t) => t.id === templateId) ?? null
+  const fields = useMemo(() => (template ? getTemplateFields(template) : []), [template])
+  const parsedList = useMemo(() => parseAudienceList(listText), [listText])
+
+  // Groups and tags for the audience step
+  useEffect(() => {
+    let cancelled = false
+
+    async function loadAudienceOptions() {
+      try {
+        const [groupsRes, tagsRes] = await Promise.all([
+          fetch('/api/contact-groups'),
+          fetch('/api/tags'),
+        ])
+        const [groupsBody, tagsBody] = await Promise.all([groupsRes.json(), tagsRes.json()])
+        if (cancelled) return
+        setGroups(groupsBody.data ?? [])
+        setTags(tagsBody.data ?? [])
+      } catch (error) {
+        console.error('[CampaignWizard] audience options error:', error)
+      }
+    }
+
+    loadAudienceOptions()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Mapped values as stored in template_params.values
+  const values = useMemo(() => {
+    const result: Record<string, string> = {}
+    for (const field of fields) {
+      const mapping = mappings[field.key]
+      if (!mapping) continue
+      if (mapping.source === 'text') result[field.key] = mapping.text
+      else if (mapping.source === 'custom_field') {
+        if (mapping.text.trim()) result[field.key] = customFieldVariable(mapping.text.trim())
+      } else result[field.key] = mapping.source
+    }
+    return result
+  }, [fields, mappings])
+
+  // Preview shows mapped contact fields as readable labels
+  const preview = useMemo(() => {
+    if (!template) return null
+    const labels: Record<string, string> = {}
+    for (const [key, value] of Object.entries(values)) {
+      const source = variableSources.find((s) => s.value === value)
+      labels[key] = source
+        ? `[${source.label}]`
+        : mappings[key]?.source === 'custom_field'
+          ? `[${mappings[key].text.trim()}]`
+          : value
+    }
+    return renderTemplatePreview(template, labels)
+  }, [template, values, mappings, variableSources])
+
+  const hasAudience = groupId !== NO_GROUP || selectedTags.length > 0 || parsedList.entries.length > 0
+
+  const stepValid = [
+    !!name.trim() && !!template,
+    fields.every((f) => !!values[f.key]?.trim()),
+    hasAudience,
+    when === 'now' || (!!scheduledAt && new Date(scheduledAt).getTime() > Date.now()),
+  ]
+
+  const updateMapping = (key: string, updates: Partial<FieldMapping>) =>
+    setMappings((current) => ({
+      ...current,
+      [key]: { ...(current[key] ?? EMPTY_MAPPING), ...updates },
+    }))
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setListText(await file.text())
+  }
+
+  const handleSubmit = async () => {
+    if (!template) return
+    setIsSubmitting(true)
+    try {
+      // 1. Create the draft
+      const res = await fetch('/api/campaigns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          template_name: template.name,
+          template_language: template.language,
+          template_params: { values },
+          target_group_id: groupId === NO_GROUP ? null : groupId,
+          target_tags: selectedTags,
+          audience_list: listText || undefined,
+          batch_size: batchSize,
+          batch_interval_seconds: batchInterval,
+          reply_window_hours: replyWindow,
+        }),
+      })
+      const campaign = await res.json()
+      if (!res.ok) {
+        toast.error(campaign.error || 'Failed to create campaign')
+        return
+      }
+
+      // 2. Start or schedule it
+      const statusRes = await fetch(`/api/campaigns/${campaign.id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          when === 'now'
+            ? { action: 'start' }
+            : { action: 'schedule', scheduled_at: new Date(scheduledAt).toISOString() }
+        ),
+      })
+      if (!statusRes.ok) {
+        const body = await statusRes.json().catch(() => ({}))
+        toast.error(body.error || 'Campaign saved as draft but could not be started')
+      } else {
+        toast.success(when === 'now' ? 'Campaign started' : 'Campaign scheduled')
+      }
+
+      router.push(`/bulk-sending/${campaign.id}`)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-4xl space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon-sm" asChild>
+          <Link href="/bulk-sending">
+            <ArrowLeft className="size-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">New campaign</h1>
+          <p className="text-muted-foreground text-sm">
+            Send an approved WhatsApp template to a list of contacts.
+          </p>
+        </div>
+      </div>
+
+      {/* Steps */}
+      <ol className="flex items-center gap-2 text-sm">
+        {STEPS.map((label, i) => (
+          <li key={label} className="flex items-center gap-2">
+            {i > 0 && <span className="h-px w-6 bg-border" />}
+            <span
+              className={cn(
+                'flex size-6 items-center justify-center rounded-full border text-xs',
+                i < step && 'border-emerald-600 bg-emerald-600 text-white',
+                i === step && 'border-foreground font-semibold'
+              )}
+            >
+              {i < step ? <Check className="size-3.5" /> : i + 1}
+            </span>
+            <span className={cn(i === step ? 'font-medium' : 'text-muted-foreground')}>
+              {label}
+            </span>
+          </li>
+        ))}
+      </ol>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_18rem]">
+        <Card>
+          {/* Step 1: template */}
+          {step === 0 && (
+            <>
+              <CardHeader>
+                <CardTitle>Template</CardTitle>
+                <CardDescription>
+                  Only approved templates can be sent outside the 24h service window.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-1.5">
+                  <Label htmlFor="campaign-name">Campaign name</Label>
+                  <Input
+                    id="campaign-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. October promotion"
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label>Template</Label>
+                  {templatesLoading ? (
+                    <p className="text-sm text-muted-foreground">Loading templates...</p>
+                  ) : approved.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No approved templates.{' '}
+                      <Link href="/settings/templates" className="underline">
+                        Sync from WhatsApp
+                      </Link>
+                    </p>
+                  ) : (
+                    <div className="grid max-h-80 gap-2 overflow-y-auto sm:grid-cols-2">
+                      {approved.map((t) => (
+                        <button
+                          key={t.id}
+                          type="button"
+                          onClick={() => {
+                            setTemplateId(t.id)
+                            setMappings({})
+                          }}
+                          className={cn(
+                            'flex flex-col items-start gap-0.5 rounded-md border p-3 text-left transition-colors hover:bg-accent',
+                            t.id === templateId && 'border-emerald-600 bg-emerald-500/5'
+                          )}
+                        >
+                          <span className="w-full truncate font-mono text-xs">{t.name}</span>
+                          <span className="text-[10px] text-muted-foreground">
+                            {t.language} · {t.category.toLowerCase()}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </>
+          )}
+
+          {/* Step 2: variables */}
+          {step === 1 && (
+            <>
+              <CardHeader>
+                <CardTitle>Variables</CardTitle>
+                <CardDescription>
+                  Fill each variable with fixed text or a field of the recipient.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {fields.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">This template has no variables.</p>
+                ) : (
+                  fields.map((field) => {
+                    const mapping = mappings[field.key] ?? EMPTY_MAPPING
+                    return (
+                      <div key={field.key} className="space-y-1.5">
+                        <Label className="text-xs">{field.label}</Label>
+                        <div className="flex gap-2">
+                          {field.kind === 'text' && (
+                            <Select
+                              value={mapping.source}
+                              onValueChange={(source) => updateMapping(field.key, { source })}
+                            >
+                              <SelectTrigger className="w-44 flex-shrink-0">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="text">Fixed text</SelectItem>
+                                {variableSources.map((source) => (
+                                  <SelectItem key={source.value} value={source.value}>
+                                    {source.label}
+                                  </SelectItem>
+                                ))}
+                                <SelectItem value="custom_field">
+                                  {customFields.length > 0 ? 'Other custom field' : 'Custom field'}
+                                </SelectItem>
+                              </SelectContent>
+                            </Select>
+                          )}
+                          {(mapping.source === 'text' || mapping.source === 'custom_field') && (
+                            <Input
+                              value={mapping.text}
+                              onChange={(e) => updateMapping(field.key, { text: e.target.value })}
+                              placeholder={
+                                mapping.source === 'custom_field'
+                                  ? 'Custom field key, e.g. city'
+                                  : field.kind === 'media'
+                                    ? 'https://...'
+                                    : field.example
+                              }
+                              className={cn(mapping.source === 'custom_field' && 'font-mono')}
+                            />
+                          )}
+                        </div>
+                      </div>
+                    )
+                  })
+                )}
+              </CardContent>
+            </>
+          )}
+
+          {/* Step 3: audience */}
+          {step === 2 && (
+            <>
+              <CardHeader>
+                <CardTitle>Audience</CardTitle>
+                <CardDescription>
+                  Recipients from every source are combined and deduplicated. Contacts
+                  without a phone number are skipped.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-5">
+                <div className="space-y-1.5">
+                  <Label>Group</Label>
+                  <Select value={groupId} onValueChange={setGroupId}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_GROUP}>No group</SelectItem>
+                      {groups.map((group) => (
+                        <SelectItem key={group.id} value={group.id}>
+                          {group.name}
+                          <span className="text-muted-foreground">
+                            {' '}
+                            · {group.type === 'dynamic' && 'segment, '}
+                            {group.member_count} contacts
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1.5">
+                  <Label>Tags</Label>
+                  {tags.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">No tags yet</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-1.5">
+                      {tags.map((tag) => {
+                        const active = selectedTags.includes(tag.name)
+                        return (
+                          <button
+                            key={tag.id}
+                            type="button"
+                            onClick={() =>
+                              setSelectedTags((current) =>
+                                active
+                                  ? current.filter((t) => t !== tag.name)
+                                  : [...current, tag.name]
+                              )
+                            }
+                          >
+                            <Badge
+                              variant="outline"
+                              className={cn('cursor-pointer', active && 'border-transparent text-white')}
+                              style={active ? { backgroundColor: tag.color } : undefined}
+                            >
+                              {tag.name}
+                            </Badge>
+                          </button>
+                        )
+                      })}
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Contacts with any of the selected tags are included.
+                  </p>
+                </div>
+
+                <div className="space-y-1.5">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="audience-list">Uploaded list</Label>
+                    <Button
+                      variant="outline"
+                      size="xs"
+                      onClick={() => fileInputRef.current?.click()}
+                    >
+                      <Upload className="size-3" />
+                      Upload CSV
+                    </Button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept=".csv,.txt,text/csv,text/plain"
+                      className="hidden"
+                      onChange={(e) => {
+                        handleFile(e.target.files?.[0])
+                        e.target.value = ''
+                      }}
+                    />
+                  </div>
+                  <Textarea
+                    id="audience-list"
+                    value={listText}
+                    onChange={(e) => setListText(e.target.value)}
+                    rows={5}
+                    placeholder={'+5511999999999, Maria\n+5521988888888, João'}
+                    className="font-mono text-xs"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    One recipient per line: phone, then an optional name. Unknown numbers are
+                    added as new contacts.
+                    {listText.trim() && (
+                      <>
+                        {' '}
+                        <span className="text-foreground">
+                          {parsedList.entries.length} valid
+                        </span>
+                        {parsedList.invalid.length > 0 && (
+                          <span className="text-orange-600 dark:text-orange-400">
+                            , {parsedList.invalid.length} skipped
+                          </span>
+                        )}
+                      </>
+                    )}
+                  </p>
+                </div>
+              </CardContent>
+            </>
+          )}
+
+          {/* Step 4: schedule */}
+          {step === 3 && (
+            <>
+              <CardHeader>
+                <CardTitle>Schedule</CardTitle>
+                <CardDescription>
+                  Messages go out in batches to stay within WhatsApp quality limits.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-5">
+                <Tabs value={when} onValueChange={(v) => setWhen(v as 'now' | 'later')}>
+                  <TabsList>
+                    <TabsTrigger value="now">Send now</TabsTrigger>
+                    <TabsTrigger value="later">Schedule</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+
+                {when === 'later' && (
+                  <div className="space-y-1.5">
+                    <Label htmlFor="campaign-scheduled-at">Start at</Label>
+                    <Input
+                      id="campaign-scheduled-at"
+                      type="datetime-local"
+                      value={scheduledAt}
+                      onChange={(e) => setScheduledAt(e.target.value)}
+                      className="w-auto"
+                    />
+                  </div>
+                )}
+
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="campaign-batch-size">Messages per batch</Label>
+                    <Input
+                      id="campaign-batch-size"
+                      type="number"
+                      min={BATCH_SIZE_LIMITS.min}
+                      max={BATCH_SIZE_LIMITS.max}
+                      value={batchSize}
+                      onChange={(e) => setBatchSize(clamp(e.target.valueAsNumber, BATCH_SIZE_LIMITS))}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="campaign-batch-interval">Seconds between batches</Label>
+                    <Input
+                      id="campaign-batch-interval"
+                      type="number"
+                      min={BATCH_INTERVAL_LIMITS.min}
+                      max={BATCH_INTERVAL_LIMITS.max}
+                      value={batchInterval}
+                      onChange={(e) =>
+                        setBatchInterval(clamp(e.target.valueAsNumber, BATCH_INTERVAL_LIMITS))
+                      }
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="campaign-reply-window">Reply window (hours)</Label>
+                    <Input
+                      id="campaign-reply-window"
+                      type="number"
+                      min={REPLY_WINDOW_LIMITS.min}
+                      max={REPLY_WINDOW_LIMITS.max}
+                      value={replyWindow}
+                      onChange={(e) =>
+                        setReplyWindow(clamp(e.target.valueAsNumber, REPLY_WINDOW_LIMITS))
+                      }
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  A message from a recipient within the reply window after their send counts
+                  as a campaign reply.
+                </p>
+
+                <div className="space-y-1 rounded-md bg-muted/50 p-3 text-sm">
+                  <SummaryRow label="Campaign" value={name} />
+                  <SummaryRow label="Template" value={template?.name} mono />
+                  <SummaryRow
+                    label="Audience"
+                    value={[
+                      groupId !== NO_GROUP && groups.find((g) => g.id === groupId)?.name,
+                      selectedTags.length > 0 && `tags: ${selectedTags.join(', ')}`,
+                      parsedList.entries.length > 0 && `${parsedList.entries.length} from list`,
+                    ]
+                      .filter(Boolean)
+                      .join(' + ')}
+                  />
+                  <SummaryRow
+                    label="Pace"
+                    value={`${batchSize} messages every ${batchInterval}s`}
+                  />
+                </div>
+              </CardContent>
+            </>
+          )}
+
+          <div className="flex justify-between border-t px-6 pt-4">
+            <Button
+              variant="outline"
+              onClick={() => setStep((s) => s - 1)}
+              disabled={step === 0 || isSubmitting}
+            >
+              Back
+            </Button>
+            {step < STEPS.length - 1 ? (
+              <Button onClick={() => setStep((s) => s + 1)} disabled={!stepValid[step]}>
+                Next
+              </Button>
+            ) : (
+              <Button
+                onClick={handleSubmit}
+                disabled={!stepValid.every(Boolean) || isSubmitting}
+                className="bg-emerald-600 hover:bg-emerald-700 text-white"
+              >
+                {isSubmitting && <Loader2 className="size-4 animate-spin" />}
+                {when === 'now' ? 'Start sending' : 'Schedule campaign'}
+              </Button>
+            )}
+          </div>
+        </Card>
+
+        {/* Preview */}
+        <div className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+            Preview
+          </p>
+          {preview ? (
+            <div className="rounded-lg bg-muted/50 p-3">
+              <div className="space-y-1.5 rounded-lg rounded-tr-none bg-emerald-100 p-2.5 text-sm shadow-sm dark:bg-emerald-900/40">
+                {preview.header?.text && <p className="font-semibold">{preview.header.text}</p>}
+                <p className="whitespace-pre-wrap break-words">{preview.body}</p>
+                {preview.footer && (
+                  <p className="text-xs text-muted-foreground">{preview.footer}</p>
+                )}
+              </div>
+              {preview.buttons.map((button, i) => (
+                <div
+                  key={i}
+                  className="mt-1 rounded-lg bg-background px-2 py-1.5 text-center text-xs font-medium text-sky-600 shadow-sm dark:text-sky-400"
+                >
+                  {button.text}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center gap-2 rounded-lg border border-dashed p-6 text-center">
+              {step === 2 ? (
+                <Users className="size-5 text-muted-foreground" />
+              ) : (
+                <FileText className="size-5 text-muted-foreground" />
+              )}
+              <p className="text-xs text-muted-foreground">Pick a template to preview it</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function SummaryRow({ label, value, mono }: { label: string; value?: string; mono?: boolean }) {
+  return (
+    <div className="flex gap-3">
+      <span className="w-20 flex-shrink-0 text-muted-foreground">{label}</span>
+      <span className={cn('min-w-0 truncate', mono && 'font-mono text-xs leading-5')}>
+        {value || '—'}
+      </span>
+    </div>
+  )
+}
+
+function clamp(value: number, limits: { min: number; max: number }) {
+  if (Number.isNaN(value)) return limits.min
+  return Math.min(Math.max(Math.round(value), limits.min), limits.max)
+}
@@ -0,0 +1,227 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { ChevronLeft, ChevronRight, RefreshCw, Search } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { RECIPIENT_STATUS_BADGES } from '@/components/campaigns/campaign-progress'
+import { useRealtimeCampaignRecipients } from '@/hooks/use-realtime-campaign'
+import { cn } from '@/lib/utils'
+import type { CampaignRecipient, CampaignRecipientStatus } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type StatusFilter = CampaignRecipientStatus | 'all'
+
+const PAGE_SIZE = 50
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function RecipientsTable({ campaignId }: { campaignId: string }) {
+  const [recipients, setRecipients] = useState<CampaignRecipient[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+
+  const fetchRecipients = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) })
+      if (statusFilter !== 'all') params.set('status', statusFilter)
+      if (search) params.set('search', search)
+
+      const res = await fetch(`/api/campaigns/${campaignId}/recipients?${params}`)
+      if (!res.ok) throw new Error('Failed to load recipients')
+      const body = await res.json()
+      setRecipients(body.data ?? [])
+      setTotal(body.total ?? 0)
+    } catch (error) {
+      console.error('[RecipientsTable] fetch error:', error)
+      toast.error('Failed to load recipients')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [campaignId, page, statusFilter, search])
+
+  useEffect(() => {
+    fetchRecipients()
+  }, [fetchRecipients])
+
+  // Debounce typing before hitting the API
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim())
+      setPage(1)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  // Live status updates for the rows on screen
+  useRealtimeCampaignRecipients(campaignId, (updated) => {
+    setRecipients((current) =>
+      current.map((r) => (r.id === updated.id ? { ...updated, contact: r.contact } : r))
+    )
+  })
+
+  const totalPages = Math.max(Math.ceil(total / PAGE_SIZE), 1)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Tabs
+          value={statusFilter}
+          onValueChange={(v) => {
+            setStatusFilter(v as StatusFilter)
+            setPage(1)
+          }}
+        >
+          <TabsList>
+            <TabsTrigger value="all">All</TabsTrigger>
+            {(Object.keys(RECIPIENT_STATUS_BADGES) as CampaignRecipientStatus[]).map((status) => (
+              <TabsTrigger key={status} value={status}>
+                {RECIPIENT_STATUS_BADGES[status].label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="relative ml-auto w-full sm:w-64">
+          <Search className="absolute left-2.5 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search name or phone..."
+            className="pl-8"
+          />
+        </div>
+        <Button variant="outline" size="icon" onClick={fetchRecipients} title="Refresh">
+          <RefreshCw className={cn('size-4', isLoading && 'animate-spin')} />
+        </Button>
+      </div>
+
+      <div className="rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Contact</TableHead>
+              <TableHead>Phone</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Sent</TableHead>
+              <TableHead>Delivered</TableHead>
+              <TableHead>Read</TableHead>
+              <TableHead>Replied</TableHead>
+              <TableHead className="w-full">Error</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading && recipients.length === 0 ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell colSpan={8}>
+                    <Skeleton className="h-5 w-full" />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : recipients.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="py-10 text-center text-muted-foreground">
+                  No recipients
+                </TableCell>
+              </TableRow>
+            ) : (
+              recipients.map((recipient) => {
+                const badge = RECIPIENT_STATUS_BADGES[recipient.status]
+                return (
+                  <TableRow key={recipient.id}>
+                    <TableCell className="font-medium">
+                      {recipient.contact?.name || 'Unknown'}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {recipient.phone || recipient.contact?.phone}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={cn('text-[10px] h-5', badge.className)}>
+                        {badge.label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {formatTime(recipient.sent_at)}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {formatTime(recipient.delivered_at)}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {formatTime(recipient.read_at)}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {formatTime(recipient.replied_at)}
+                    </TableCell>
+                    <TableCell
+                      className="max-w-xs truncate text-xs text-red-600 dark:text-red-400"
+                      title={recipient.error_message ?? undefined}
+                    >
+                      {recipient.error_message}
+                    </TableCell>
+                  </TableRow>
+                )
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>{total.toLocaleString()} recipients</span>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon-sm"
+            onClick={() => setPage((p) => p - 1)}
+            disabled={page <= 1}
+          >
+            <ChevronLeft className="size-4" />
+          </Button>
+          <span>
+            Page {page} of {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="icon-sm"
+            onClick={() => setPage((p) => p + 1)}
+            disabled={page >= totalPages}
+          >
+            <ChevronRight className="size-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatTime(value: string | null) {
+  return value ? format(new Date(value), 'dd/MM HH:mm') : '—'
+}
@@ -0,0 +1,258 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { FolderPlus, Loader2, Tag as TagIcon, Tags, Trash2, X } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+import type { ContactGroup, Tag } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type BulkAction = 'add_tags' | 'remove_tags' | 'add_to_group' | 'delete'
+type DialogMode = Exclude<BulkAction, 'delete'>
+
+interface ContactBulkActionsProps {
+  selectedIds: string[]
+  groups: ContactGroup[]
+  tags: Tag[]
+  onClearSelection: () => void
+  /** Called after an action succeeded so the page can reload */
+  onDone: (action: BulkAction) => void
+}
+
+const DIALOG_COPY: Record<DialogMode, { title: string; description: string; submit: string }> = {
+  add_tags: {
+    title: 'Add tags',
+    description: 'Pick existing tags or type new ones, separated by commas.',
+    submit: 'Add tags',
+  },
+  remove_tags: {
+    title: 'Remove tags',
+    description: 'The tags are removed from every selected contact that has them.',
+    submit: 'Remove tags',
+  },
+  add_to_group: {
+    title: 'Add to group',
+    description: 'Contacts already in the group are left as they are.',
+    submit: 'Add to group',
+  },
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function ContactBulkActions({
+  selectedIds,
+  groups,
+  tags,
+  onClearSelection,
+  onDone,
+}: ContactBulkActionsProps) {
+  const [mode, setMode] = useState<DialogMode | null>(null)
+  const [pickedTags, setPickedTags] = useState<string[]>([])
+  const [tagInput, setTagInput] = useState('')
+  const [groupId, setGroupId] = useState('')
+  const [isRunning, setIsRunning] = useState(false)
+
+  const count = selectedIds.length
+
+  const openDialog = (next: DialogMode) => {
+    setPickedTags([])
+    setTagInput('')
+    setGroupId('')
+    setMode(next)
+  }
+
+  const togglePicked = (name: string) => {
+    setPickedTags((current) =>
+      current.includes(name) ? current.filter((t) => t !== name) : [...current, name]
+    )
+  }
+
+  const run = async (action: BulkAction, extra: { tags?: string[]; group_id?: string } = {}) => {
+    setIsRunning(true)
+    try {
+      const res = await fetch('/api/contacts/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, contact_ids: selectedIds, ...extra }),
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(body.error || 'Bulk action failed')
+        return
+      }
+
+      const affected: number = body.data?.affected ?? 0
+      toast.success(
+        action === 'delete'
+          ? `${affected} contact${affected === 1 ? '' : 's'} deleted`
+          : `${affected} contact${affected === 1 ? '' : 's'} updated`
+      )
+      setMode(null)
+      onDone(action)
+    } catch (error) {
+      console.error('[ContactBulkActions] error:', error)
+      toast.error('Bulk action failed')
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const handleSubmit = () => {
+    if (!mode) return
+    if (mode === 'add_to_group') {
+      run(mode, { group_id: groupId })
+      return
+    }
+    const typed = tagInput
+      .split(',')
+      .map((t) => t.trim())
+      .filter(Boolean)
+    run(mode, { tags: [...new Set([...pickedTags, ...typed])] })
+  }
+
+  const handleDelete = () => {
+    if (
+      !window.confirm(
+        `Delete ${count} contact${count === 1 ? '' : 's'}? Their conversations and messages are deleted too. This cannot be undone.`
+      )
+    ) {
+      return
+    }
+    run('delete')
+  }
+
+  const canSubmit =
+    mode === 'add_to_group'
+      ? !!groupId
+      : pickedTags.length > 0 || tagInput.trim().length > 0
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/40 px-3 py-2">
+        <span className="text-sm font-medium">
+          {count} selected
+        </span>
+        <Button variant="ghost" size="icon-xs" onClick={onClearSelection} aria-label="Clear selection">
+          <X className="size-3.5" />
+        </Button>
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => openDialog('add_tags')}>
+            <TagIcon className="size-4" />
+            Tag
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => openDialog('remove_tags')}>
+            <Tags className="size-4" />
+            Untag
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => openDialog('add_to_group')}>
+            <FolderPlus className="size-4" />
+            Add to group
+          </Button>
+          <Button variant="destructive" size="sm" onClick={handleDelete} disabled={isRunning}>
+            <Trash2 className="size-4" />
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      <Dialog open={mode !== null} onOpenChange={(open) => !open && setMode(null)}>
+        {mode && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{DIALOG_COPY[mode].title}</DialogTitle>
+              <DialogDescription>
+                {DIALOG_COPY[mode].description} {count} contact{count === 1 ? '' : 's'} selected.
+              </DialogDescription>
+            </DialogHeader>
+
+            {mode === 'add_to_group' ? (
+              <div className="space-y-1.5">
+                <Label>Group</Label>
+                <Select value={groupId} onValueChange={setGroupId}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Choose a group" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {groups.map((group) => (
+                      <SelectItem key={group.id} value={group.id}>
+                        {group.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {groups.length === 0 && (
+                  <p className="text-xs text-muted-foreground">No groups yet.</p>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {tags.map((tag) => {
+                      const picked = pickedTags.includes(tag.name)
+                      return (
+                        <button key={tag.id} type="button" onClick={() => togglePicked(tag.name)}>
+                          <Badge
+                            variant={picked ? 'default' : 'outline'}
+                            className={cn('cursor-pointer text-xs', !picked && 'text-muted-foreground')}
+                          >
+                            {tag.name}
+                          </Badge>
+                        </button>
+                      )
+                    })}
+                  </div>
+                )}
+                {mode === 'add_tags' && (
+                  <div className="space-y-1.5">
+                    <Label htmlFor="bulk-new-tags">New tags</Label>
+                    <Input
+                      id="bulk-new-tags"
+                      value={tagInput}
+                      onChange={(e) => setTagInput(e.target.value)}
+                      placeholder="e.g. vip, black-friday"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setMode(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={isRunning || !canSubmit}>
+                {isRunning && <Loader2 className="size-4 animate-spin" />}
+                {DIALOG_COPY[mode].submit}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,233 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { format, formatDistanceToNow } from 'date-fns'
+import { ExternalLink, Mail, MessageSquare, Phone, Users } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Separator } from '@/components/ui/separator'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { CustomFieldsEditor } from '@/components/contacts/custom-fields-editor'
+import { useChatStore } from '@/stores/chat-store'
+import { cn } from '@/lib/utils'
+import type { Contact, ContactGroup, Conversation, ConversationStatus } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type ContactDetail = Contact & {
+  groups: Pick<ContactGroup, 'id' | 'name'>[]
+  conversations: Conversation[]
+}
+
+const CONVERSATION_STATUS_BADGES: Record<ConversationStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'border-yellow-500/40 text-yellow-600' },
+  open: { label: 'Open', className: 'border-emerald-500/40 text-emerald-600' },
+  waiting: { label: 'Waiting', className: 'border-orange-500/40 text-orange-600' },
+  resolved: { label: 'Resolved', className: 'border-blue-500/40 text-blue-600' },
+  closed: { label: 'Closed', className: 'text-muted-foreground' },
+}
+
+// ---------------------------------------------------------------------------
+// Drawer
+// ---------------------------------------------------------------------------
+
+export function ContactDrawer({
+  contactId,
+  onClose,
+}: {
+  contactId: string | null
+  onClose: () => void
+}) {
+  return (
+    <Sheet open={contactId !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full gap-0 sm:max-w-md">
+        {contactId && <ContactDetailView key={contactId} contactId={contactId} />}
+      </SheetContent>
+    </Sheet>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Detail
+// ---------------------------------------------------------------------------
+
+function ContactDetailView({ contactId }: { contactId: string }) {
+  const router = useRouter()
+  const selectConversation = useChatStore((s) => s.selectConversation)
+
+  const [contact, setContact] = useState<ContactDetail | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchContact = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/contacts/${contactId}`)
+      const body = await res.json()
+      if (!res.ok) throw new Error(body.error || 'Failed to load contact')
+      setContact(body.data)
+    } catch (err) {
+      console.error('[ContactDrawer] fetch error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load contact')
+    }
+  }, [contactId])
+
+  useEffect(() => {
+    fetchContact()
+  }, [fetchContact])
+
+  const openConversation = (conversationId: string) => {
+    selectConversation(conversationId)
+    router.push('/desk')
+  }
+
+  if (error) {
+    return (
+      <SheetHeader>
+        <SheetTitle>Contact</SheetTitle>
+        <SheetDescription>{error}</SheetDescription>
+      </SheetHeader>
+    )
+  }
+
+  if (!contact) {
+    return (
+      <div className="space-y-3 p-4">
+        <SheetTitle className="sr-only">Loading contact</SheetTitle>
+        <Skeleton className="h-6 w-40" />
+        <Skeleton className="h-4 w-56" />
+        <Skeleton className="h-24 w-full" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col">
+      <SheetHeader>
+        <SheetTitle>{contact.name || contact.phone}</SheetTitle>
+        <SheetDescription>
+          Created {format(new Date(contact.created_at), 'dd/MM/yyyy')}
+        </SheetDescription>
+      </SheetHeader>
+
+      <div className="min-h-0 flex-1 space-y-4 overflow-y-auto px-4 pb-6">
+        <div className="space-y-1.5 text-sm">
+          <p className="flex items-center gap-2">
+            <Phone className="size-3.5 text-muted-foreground" />
+            {contact.phone}
+          </p>
+          {contact.email && (
+            <p className="flex items-center gap-2">
+              <Mail className="size-3.5 text-muted-foreground" />
+              {contact.email}
+            </p>
+          )}
+          {contact.hubspot_contact_id && (
+            <a
+              href={`https://app.hubspot.com/contacts/${contact.hubspot_contact_id}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+            >
+              <ExternalLink className="size-3" />
+              View in HubSpot
+            </a>
+          )}
+        </div>
+
+        {(contact.tags.length > 0 || contact.groups.length > 0) && (
+          <div className="space-y-2">
+            {contact.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {contact.tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="text-[10px]">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {contact.groups.length > 0 && (
+              <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Users className="size-3.5" />
+                {contact.groups.map((g) => g.name).join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+            Custom fields
+          </p>
+          <CustomFieldsEditor
+            contactId={contact.id}
+            values={contact.custom_fields ?? {}}
+            onSaved={(updated) => setContact({ ...contact, ...updated })}
+          />
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+            Conversations ({contact.conversations.length})
+          </p>
+
+          {contact.conversations.length === 0 ? (
+            <p className="text-xs text-muted-foreground/60 italic">No conversations yet</p>
+          ) : (
+            contact.conversations.map((conversation) => {
+              const status = CONVERSATION_STATUS_BADGES[conversation.status]
+              return (
+                <div key={conversation.id} className="space-y-1 rounded-lg border p-3">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className={cn('h-5 text-[10px]', status.className)}>
+                      {status.label}
+                    </Badge>
+                    {conversation.protocol_number && (
+                      <span className="font-mono text-[11px] text-muted-foreground">
+                        #{conversation.protocol_number}
+                      </span>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="xs"
+                      className="ml-auto"
+                      onClick={() => openConversation(conversation.id)}
+                    >
+                      <MessageSquare className="size-3" />
+                      Open
+                    </Button>
+                  </div>
+                  {conversation.last_message_preview && (
+                    <p className="line-clamp-2 text-sm text-foreground">
+                      {conversation.last_message_preview}
+                    </p>
+                  )}
+                  <p className="text-[11px] text-muted-foreground">
+                    {conversation.assigned_agent?.display_name ?? 'Unassigned'}
+                    {' · '}
+                    {formatDistanceToNow(
+                      new Date(conversation.last_message_at ?? conversation.created_at),
+                      { addSuffix: true }
+                    )}
+                  </p>
+                </div>
+              )
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
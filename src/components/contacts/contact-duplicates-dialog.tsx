@@ -0,0 +1,339 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { format } from 'date-fns'
+import { ArrowLeft, Check, Loader2, Merge } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  DUPLICATE_REASON_LABELS,
+  MERGE_FIELDS,
+  MERGE_FIELD_LABELS,
+  mergeSource,
+  type DuplicateGroup,
+  type MergeChoices,
+  type MergeField,
+} from '@/lib/contacts/duplicates'
+import { cn } from '@/lib/utils'
+import type { Contact } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface ContactDuplicatesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onMerged: () => void
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function ContactDuplicatesDialog({
+  open,
+  onOpenChange,
+  onMerged,
+}: ContactDuplicatesDialogProps) {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [active, setActive] = useState<DuplicateGroup | null>(null)
+  const [survivorId, setSurvivorId] = useState('')
+  const [includedIds, setIncludedIds] = useState<Set<string>>(new Set())
+  const [choices, setChoices] = useState<MergeChoices>({})
+  const [isMerging, setIsMerging] = useState(false)
+
+  const fetchGroups = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const res = await fetch('/api/contacts/duplicates')
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(body.error || 'Failed to find duplicates')
+        return
+      }
+      setGroups(body.data ?? [])
+    } catch (error) {
+      console.error('[ContactDuplicatesDialog] fetch error:', error)
+      toast.error('Failed to find duplicates')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (open) fetchGroups()
+  }, [open, fetchGroups])
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next && isMerging) return
+    if (!next) setActive(null)
+    onOpenChange(next)
+  }
+
+  const review = (group: DuplicateGroup) => {
+    setActive(group)
+    setSurvivorId(group.contacts[0].id)
+    setIncludedIds(new Set(group.contacts.map((c) => c.id)))
+    setChoices({})
+  }
+
+  const included = useMemo(
+    () => active?.contacts.filter((c) => includedIds.has(c.id)) ?? [],
+    [active, includedIds]
+  )
+  const survivor = included.find((c) => c.id === survivorId) ?? null
+  const others = included.filter((c) => c.id !== survivorId)
+
+  // Only fields where the contacts disagree need a choice
+  const conflictingFields = MERGE_FIELDS.filter(
+    (field) => new Set(included.map((c) => c[field] ?? '')).size > 1
+  )
+
+  const toggleIncluded = (contactId: string, checked: boolean) => {
+    setIncludedIds((current) => {
+      const next = new Set(current)
+      if (checked) next.add(contactId)
+      else next.delete(contactId)
+      return next
+    })
+    if (!checked && contactId === survivorId && active) {
+      const fallback = active.contacts.find((c) => c.id !== contactId && includedIds.has(c.id))
+      if (fallback) setSurvivorId(fallback.id)
+    }
+  }
+
+  const merge = async () => {
+    if (!survivor || others.length === 0) return
+    setIsMerging(true)
+    try {
+      const res = await fetch('/api/contacts/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          survivor_id: survivor.id,
+          merged_ids: others.map((c) => c.id),
+          choices,
+        }),
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(body.error || 'Failed to merge contacts')
+        return
+      }
+
+      toast.success(`Merged ${others.length + 1} contacts`)
+      setActive(null)
+      onMerged()
+      fetchGroups()
+    } catch (error) {
+      console.error('[ContactDuplicatesDialog] merge error:', error)
+      toast.error('Failed to merge contacts')
+    } finally {
+      setIsMerging(false)
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Render
+  // -------------------------------------------------------------------------
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{active ? 'Merge contacts' : 'Duplicate contacts'}</DialogTitle>
+          <DialogDescription>
+            {active
+              ? 'Choose the contact to keep and which values survive. Conversations, campaign history and group memberships move to it; tags and custom fields are combined.'
+              : 'Contacts with the same phone or email, or a very similar name.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!active && (
+          <div className="max-h-[28rem] space-y-2 overflow-y-auto">
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="size-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : groups.length === 0 ? (
+              <p className="py-12 text-center text-sm text-muted-foreground">
+                No duplicates found.
+              </p>
+            ) : (
+              groups.map((group) => (
+                <div
+                  key={group.id}
+                  className="flex items-center justify-between gap-4 rounded-lg border p-3"
+                >
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap gap-1">
+                      {group.reasons.map((reason) => (
+                        <Badge key={reason} variant="outline" className="h-5 text-[10px]">
+                          {DUPLICATE_REASON_LABELS[reason]}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="truncate text-sm">
+                      {group.contacts.map((c) => c.name || c.phone).join(' · ')}
+                    </p>
+                    <p className="truncate font-mono text-xs text-muted-foreground">
+                      {group.contacts.map((c) => c.phone).join(', ')}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => review(group)}>
+                    Review
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        {active && (
+          <div className="max-h-[28rem] overflow-auto rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-36" />
+                  {active.contacts.map((contact) => (
+                    <TableHead key={contact.id} className="min-w-44">
+                      <label className="flex items-center gap-2">
+                        <Checkbox
+                          checked={includedIds.has(contact.id)}
+                          onCheckedChange={(checked) => toggleIncluded(contact.id, checked === true)}
+                        />
+                        <span className="text-xs font-normal text-muted-foreground">
+                          Created {format(new Date(contact.created_at), 'dd/MM/yyyy')}
+                        </span>
+                      </label>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow>
+                  <TableCell className="text-xs font-medium">Keep</TableCell>
+                  {active.contacts.map((contact) => (
+                    <TableCell key={contact.id}>
+                      <ChoiceButton
+                        selected={contact.id === survivorId}
+                        disabled={!includedIds.has(contact.id)}
+                        onClick={() => setSurvivorId(contact.id)}
+                      >
+                        {contact.id === survivorId ? 'Surviving contact' : 'Merge into it'}
+                      </ChoiceButton>
+                    </TableCell>
+                  ))}
+                </TableRow>
+                {conflictingFields.map((field) => (
+                  <TableRow key={field}>
+                    <TableCell className="text-xs font-medium">{MERGE_FIELD_LABELS[field]}</TableCell>
+                    {active.contacts.map((contact) => (
+                      <TableCell key={contact.id}>
+                        <ChoiceButton
+                          selected={
+                            !!survivor &&
+                            mergeSource(field, survivor, others, choices).id === contact.id
+                          }
+                          disabled={!includedIds.has(contact.id) || !contact[field]}
+                          onClick={() => setChoices((c) => ({ ...c, [field]: contact.id }))}
+                        >
+                          {displayValue(contact, field)}
+                        </ChoiceButton>
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="text-xs font-medium">Tags</TableCell>
+                  {active.contacts.map((contact) => (
+                    <TableCell key={contact.id} className="text-xs text-muted-foreground">
+                      {contact.tags.length > 0 ? contact.tags.join(', ') : '—'}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          {active ? (
+            <>
+              <Button variant="outline" onClick={() => setActive(null)} disabled={isMerging}>
+                <ArrowLeft className="size-4" />
+                Back
+              </Button>
+              <Button onClick={merge} disabled={isMerging || !survivor || others.length === 0}>
+                {isMerging ? <Loader2 className="size-4 animate-spin" /> : <Merge className="size-4" />}
+                Merge {included.length} contacts
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Close
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function ChoiceButton({
+  selected,
+  disabled,
+  onClick,
+  children,
+}: {
+  selected: boolean
+  disabled: boolean
+  onClick: () => void
+  children: React.ReactNode
+}) {
+  return (
+    <button
+      type="button"
+      disabled={disabled}
+      onClick={onClick}
+      className={cn(
+        'flex w-full items-center gap-1.5 rounded-md border px-2 py-1.5 text-left text-xs transition-colors',
+        selected ? 'border-primary bg-primary/5 font-medium' : 'hover:bg-accent',
+        disabled && 'cursor-not-allowed opacity-50 hover:bg-transparent'
+      )}
+    >
+      {selected && <Check className="size-3 shrink-0 text-primary" />}
+      <span className="truncate">{children}</span>
+    </button>
+  )
+}
+
+function displayValue(contact: Contact, field: MergeField): string {
+  const value = contact[field]
+  if (!value) return '—'
+  return field === 'profile_picture_url' ? 'Picture' : value
+}
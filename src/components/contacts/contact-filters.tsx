@@ -0,0 +1,176 @@
+'use client'
+
+import { ChevronDown, Search, Tag as TagIcon, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { ContactFilters, ContactGroup, Tag } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface ContactFiltersBarProps {
+  /** Raw search box value; the page debounces it into filters.search */
+  searchInput: string
+  onSearchInputChange: (value: string) => void
+  filters: ContactFilters
+  onChange: (updates: Partial<ContactFilters>) => void
+  onClear: () => void
+  groups: ContactGroup[]
+  tags: Tag[]
+}
+
+const ANY = 'any'
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function ContactFiltersBar({
+  searchInput,
+  onSearchInputChange,
+  filters,
+  onChange,
+  onClear,
+  groups,
+  tags,
+}: ContactFiltersBarProps) {
+  const selectedTags = filters.tags ?? []
+  const hasFilters =
+    !!filters.search ||
+    selectedTags.length > 0 ||
+    !!filters.group_id ||
+    filters.has_hubspot !== undefined ||
+    !!filters.date_from ||
+    !!filters.date_to
+
+  const toggleTag = (name: string) => {
+    onChange({
+      tags: selectedTags.includes(name)
+        ? selectedTags.filter((t) => t !== name)
+        : [...selectedTags, name],
+    })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative w-full sm:w-64">
+        <Search className="absolute left-2.5 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={searchInput}
+          onChange={(e) => onSearchInputChange(e.target.value)}
+          placeholder="Search name, phone or email"
+          className="pl-8"
+        />
+      </div>
+
+      <Select
+        value={filters.group_id ?? ANY}
+        onValueChange={(v) => onChange({ group_id: v === ANY ? undefined : v })}
+      >
+        <SelectTrigger className="w-44">
+          <SelectValue placeholder="Group" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>All groups</SelectItem>
+          {groups.map((group) => (
+            <SelectItem key={group.id} value={group.id}>
+              {group.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <TagIcon className="size-4" />
+            {selectedTags.length > 0 ? `${selectedTags.length} tags` : 'Tags'}
+            <ChevronDown className="size-4 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="max-h-72 w-56 overflow-y-auto">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">
+            Contacts with all of
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {tags.length === 0 ? (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">No tags yet</p>
+          ) : (
+            tags.map((tag) => (
+              <DropdownMenuCheckboxItem
+                key={tag.id}
+                checked={selectedTags.includes(tag.name)}
+                onCheckedChange={() => toggleTag(tag.name)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                <span
+                  className="size-2 rounded-full"
+                  style={{ backgroundColor: tag.color }}
+                />
+                {tag.name}
+              </DropdownMenuCheckboxItem>
+            ))
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Select
+        value={filters.has_hubspot === undefined ? ANY : String(filters.has_hubspot)}
+        onValueChange={(v) => onChange({ has_hubspot: v === ANY ? undefined : v === 'true' })}
+      >
+        <SelectTrigger className="w-40">
+          <SelectValue placeholder="HubSpot" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any HubSpot</SelectItem>
+          <SelectItem value="true">In HubSpot</SelectItem>
+          <SelectItem value="false">Not in HubSpot</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <span>Created</span>
+        <Input
+          type="date"
+          value={filters.date_from ?? ''}
+          max={filters.date_to}
+          onChange={(e) => onChange({ date_from: e.target.value || undefined })}
+          className="w-36"
+          aria-label="Created from"
+        />
+        <span>to</span>
+        <Input
+          type="date"
+          value={filters.date_to ?? ''}
+          min={filters.date_from}
+          onChange={(e) => onChange({ date_to: e.target.value || undefined })}
+          className="w-36"
+          aria-label="Created to"
+        />
+      </div>
+
+      {hasFilters && (
+        <Button variant="ghost" size="sm" onClick={onClear}>
+          <X className="size-4" />
+          Clear
+        </Button>
+      )}
+    </div>
+  )
+}
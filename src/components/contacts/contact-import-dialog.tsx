@@ -0,0 +1,452 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { CheckCircle2, FileSpreadsheet, Loader2, Upload } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useCustomFields } from '@/hooks/use-custom-fields'
+import {
+  IMPORT_TARGET_LABELS,
+  MAX_IMPORT_ROWS,
+  applyImportMapping,
+  customFieldKey,
+  guessImportMapping,
+  readSpreadsheet,
+  type ImportColumnMapping,
+  type ImportPlan,
+  type ImportResult,
+  type ImportRowStatus,
+  type ImportTarget,
+  type ParsedSpreadsheet,
+} from '@/lib/contacts/import'
+import { DEFAULT_COUNTRY_CODE } from '@/lib/contacts/phone'
+import { cn } from '@/lib/utils'
+import type { ContactGroup } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type Step = 'upload' | 'mapping' | 'preview' | 'done'
+
+const STATUS_BADGES: Record<ImportRowStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'border-emerald-500/40 text-emerald-600' },
+  update: { label: 'Update', className: 'border-blue-500/40 text-blue-600' },
+  duplicate: { label: 'Duplicate', className: 'border-yellow-500/40 text-yellow-600' },
+  invalid: { label: 'Invalid', className: 'border-red-500/40 text-red-600' },
+}
+
+const NO_GROUP = 'none'
+const MAX_ISSUES_SHOWN = 200
+
+interface ContactImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  groups: ContactGroup[]
+  onImported: () => void
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function ContactImportDialog({
+  open,
+  onOpenChange,
+  groups,
+  onImported,
+}: ContactImportDialogProps) {
+  const [step, setStep] = useState<Step>('upload')
+  const [fileName, setFileName] = useState('')
+  const [sheet, setSheet] = useState<ParsedSpreadsheet | null>(null)
+  const [mappings, setMappings] = useState<ImportColumnMapping[]>([])
+  const [countryCode, setCountryCode] = useState(DEFAULT_COUNTRY_CODE)
+  const [groupId, setGroupId] = useState(NO_GROUP)
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const { customFields } = useCustomFields()
+
+  const reset = () => {
+    setStep('upload')
+    setFileName('')
+    setSheet(null)
+    setMappings([])
+    setPlan(null)
+    setResult(null)
+    setGroupId(NO_GROUP)
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next && isWorking) return
+    if (!next) reset()
+    onOpenChange(next)
+  }
+
+  const records = useMemo(
+    () => (sheet ? applyImportMapping(sheet.rows, mappings) : []),
+    [sheet, mappings]
+  )
+
+  const phoneColumns = mappings.filter((m) => m.target === 'phone').length
+  const missingKeys = mappings.some((m) => m.target === 'custom_field' && !m.key)
+  const mappingError =
+    phoneColumns === 0
+      ? 'Map one column to Phone'
+      : phoneColumns > 1
+        ? 'Only one column can be mapped to Phone'
+        : missingKeys
+          ? 'Every custom field needs a key'
+          : !/^[1-9]\d{0,3}$/.test(countryCode)
+            ? 'Enter a valid country code'
+            : null
+
+  // -------------------------------------------------------------------------
+  // Steps
+  // -------------------------------------------------------------------------
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setIsWorking(true)
+    try {
+      const parsed = await readSpreadsheet(file)
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        toast.error('The file has no rows to import')
+        return
+      }
+      if (parsed.rows.length > MAX_IMPORT_ROWS) {
+        toast.error(`Files can have at most ${MAX_IMPORT_ROWS.toLocaleString()} rows`)
+        return
+      }
+      setFileName(file.name)
+      setSheet(parsed)
+      setMappings(parsed.headers.map((header) => guessImportMapping(header, customFields)))
+      setStep('mapping')
+    } catch (error) {
+      console.error('[ContactImportDialog] parse error:', error)
+      toast.error('Could not read the file. Use an XLSX or CSV file.')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const submit = async (dryRun: boolean) => {
+    setIsWorking(true)
+    try {
+      const res = await fetch('/api/contacts/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          records,
+          dry_run: dryRun,
+          group_id: groupId === NO_GROUP ? null : groupId,
+          default_country_code: countryCode,
+        }),
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(body.error || 'Import failed')
+        return
+      }
+
+      setPlan(body.data)
+      if (dryRun) {
+        setStep('preview')
+      } else {
+        setResult(body.data.result)
+        setStep('done')
+        onImported()
+      }
+    } catch (error) {
+      console.error('[ContactImportDialog] import error:', error)
+      toast.error('Import failed')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const updateMapping = (column: number, updates: Partial<ImportColumnMapping>) => {
+    setMappings((current) =>
+      current.map((m, i) => (i === column ? { ...m, ...updates } : m))
+    )
+  }
+
+  const issues = plan?.rows.filter((r) => r.status === 'invalid' || r.status === 'duplicate') ?? []
+  const toWrite = plan ? plan.counts.new + plan.counts.update : 0
+
+  // -------------------------------------------------------------------------
+  // Render
+  // -------------------------------------------------------------------------
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import contacts</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload an XLSX or CSV file with a header row.'}
+            {step === 'mapping' &&
+              `${fileName}: ${sheet?.rows.length.toLocaleString()} rows. Choose what each column contains.`}
+            {step === 'preview' && 'Nothing has been saved yet. Review the dry run before importing.'}
+            {step === 'done' && 'The import is complete.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <label className="flex cursor-pointer flex-col items-center justify-center gap-3 rounded-xl border border-dashed py-12 text-center hover:bg-accent/40">
+            {isWorking ? (
+              <Loader2 className="size-8 animate-spin text-muted-foreground" />
+            ) : (
+              <Upload className="size-8 text-muted-foreground" />
+            )}
+            <span className="text-sm text-muted-foreground">
+              Click to choose a file (.xlsx, .xls or .csv)
+            </span>
+            <input
+              type="file"
+              accept=".xlsx,.xls,.csv"
+              className="hidden"
+              disabled={isWorking}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        )}
+
+        {step === 'mapping' && sheet && (
+          <div className="space-y-4">
+            <div className="max-h-80 overflow-y-auto rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Column</TableHead>
+                    <TableHead>Sample</TableHead>
+                    <TableHead className="w-72">Import as</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sheet.headers.map((header, column) => {
+                    const mapping = mappings[column]
+                    const sample = sheet.rows
+                      .slice(0, 20)
+                      .map((r) => r[column])
+                      .find(Boolean)
+                    return (
+                      <TableRow key={column}>
+                        <TableCell className="font-medium">
+                          {header || <span className="text-muted-foreground">Column {column + 1}</span>}
+                        </TableCell>
+                        <TableCell className="max-w-40 truncate text-xs text-muted-foreground">
+                          {sample || '—'}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Select
+                              value={mapping.target}
+                              onValueChange={(v) =>
+                                updateMapping(column, {
+                                  target: v as ImportTarget,
+                                  key:
+                                    v === 'custom_field'
+                                      ? mapping.key || customFieldKey(header)
+                                      : undefined,
+                                })
+                              }
+                            >
+                              <SelectTrigger size="sm" className="w-36">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {(Object.keys(IMPORT_TARGET_LABELS) as ImportTarget[]).map((target) => (
+                                  <SelectItem key={target} value={target}>
+                                    {IMPORT_TARGET_LABELS[target]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {mapping.target === 'custom_field' && (
+                              <Input
+                                list="import-custom-fields"
+                                value={mapping.key ?? ''}
+                                onChange={(e) =>
+                                  updateMapping(column, {
+                                    key: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_'),
+                                  })
+                                }
+                                placeholder="field_key"
+                                className="h-8 font-mono text-xs"
+                              />
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+              <datalist id="import-custom-fields">
+                {customFields.map((field) => (
+                  <option key={field.id} value={field.key}>
+                    {field.label}
+                  </option>
+                ))}
+              </datalist>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-1.5">
+                <Label htmlFor="import-country-code">Default country code</Label>
+                <Input
+                  id="import-country-code"
+                  value={countryCode}
+                  onChange={(e) => setCountryCode(e.target.value.replace(/\D/g, ''))}
+                  placeholder="55"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Added to phones written without one, e.g. (11) 99999-9999.
+                </p>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Add to group</Label>
+                <Select value={groupId} onValueChange={setGroupId}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_GROUP}>No group</SelectItem>
+                    {groups.map((group) => (
+                      <SelectItem key={group.id} value={group.id}>
+                        {group.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {mappingError && <p className="text-sm text-red-600">{mappingError}</p>}
+          </div>
+        )}
+
+        {step === 'preview' && plan && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+              {(Object.keys(STATUS_BADGES) as ImportRowStatus[]).map((status) => (
+                <div key={status} className="rounded-lg border p-3">
+                  <p className="text-xs text-muted-foreground">{STATUS_BADGES[status].label}</p>
+                  <p className="text-2xl font-semibold">{plan.counts[status].toLocaleString()}</p>
+                </div>
+              ))}
+            </div>
+
+            {issues.length > 0 ? (
+              <div className="max-h-64 overflow-y-auto rounded-lg border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Phone</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {issues.slice(0, MAX_ISSUES_SHOWN).map((row) => (
+                      <TableRow key={row.row}>
+                        <TableCell className="text-xs text-muted-foreground">{row.row}</TableCell>
+                        <TableCell className="font-mono text-xs">{row.phone || '—'}</TableCell>
+                        <TableCell className="text-xs">{row.name || '—'}</TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="outline"
+                            className={cn('h-5 text-[10px]', STATUS_BADGES[row.status].className)}
+                          >
+                            {STATUS_BADGES[row.status].label}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">{row.reason}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {issues.length > MAX_ISSUES_SHOWN && (
+                  <p className="border-t px-3 py-2 text-xs text-muted-foreground">
+                    And {(issues.length - MAX_ISSUES_SHOWN).toLocaleString()} more rows that will be
+                    skipped.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Every row can be imported.</p>
+            )}
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <div className="flex flex-col items-center gap-3 py-6 text-center">
+            <CheckCircle2 className="size-10 text-emerald-600" />
+            <p className="text-sm">
+              {result.created.toLocaleString()} created, {result.updated.toLocaleString()} updated
+              {result.added_to_group > 0 &&
+                `, ${result.added_to_group.toLocaleString()} added to the group`}
+              .
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={reset} disabled={isWorking}>
+                <FileSpreadsheet className="size-4" />
+                Another file
+              </Button>
+              <Button onClick={() => submit(true)} disabled={isWorking || !!mappingError}>
+                {isWorking && <Loader2 className="size-4 animate-spin" />}
+                Preview import
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')} disabled={isWorking}>
+                Back
+              </Button>
+              <Button onClick={() => submit(false)} disabled={isWorking || toWrite === 0}>
+                {isWorking && <Loader2 className="size-4 animate-spin" />}
+                Import {toWrite.toLocaleString()} contacts
+              </Button>
+            </>
+          )}
+          {step === 'done' && <Button onClick={() => handleOpenChange(false)}>Close</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,284 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { ChevronDown, Hash, Loader2, Pencil } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useCustomFields } from '@/hooks/use-custom-fields'
+import { formatCustomFieldValue } from '@/lib/contacts/custom-fields'
+import type { Contact, CustomFieldDefinition, CustomFieldType } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface CustomFieldsEditorProps {
+  contactId: string
+  values: Record<string, unknown>
+  /** Receives the updated contact after a save */
+  onSaved: (contact: Contact) => void
+}
+
+const NONE = '__none__'
+
+const INPUT_TYPES: Partial<Record<CustomFieldType, string>> = {
+  number: 'number',
+  date: 'date',
+  url: 'url',
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/**
+ * Shows a contact's custom fields in the org's order and edits the defined
+ * ones with an input per type. Values without a definition are read-only.
+ */
+export function CustomFieldsEditor({ contactId, values, onSaved }: CustomFieldsEditorProps) {
+  const { customFields, isLoading } = useCustomFields()
+
+  const [draft, setDraft] = useState<Record<string, unknown> | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const undefinedEntries = useMemo(() => {
+    const defined = new Set(customFields.map((f) => f.key))
+    return Object.entries(values).filter(
+      ([key, value]) => !defined.has(key) && value !== null && value !== undefined && value !== ''
+    )
+  }, [customFields, values])
+
+  const handleSave = async () => {
+    if (!draft) return
+    // Only send what changed, so untouched required fields aren't re-validated
+    const changes = Object.fromEntries(
+      Object.entries(draft).filter(
+        ([key, value]) => JSON.stringify(value) !== JSON.stringify(values[key])
+      )
+    )
+    if (Object.keys(changes).length === 0) {
+      setDraft(null)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const res = await fetch(`/api/contacts/${contactId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ custom_fields: changes }),
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(body.error || 'Failed to save custom fields')
+        return
+      }
+      onSaved(body.data)
+      setDraft(null)
+      toast.success('Custom fields saved')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground/60 italic">Loading...</p>
+  }
+
+  // Editing
+  if (draft) {
+    return (
+      <div className="space-y-2.5">
+        {customFields.map((field) => (
+          <div key={field.id} className="space-y-1">
+            <p className="text-[10px] uppercase tracking-wider text-muted-foreground/70">
+              {field.label}
+              {field.required && <span className="text-destructive"> *</span>}
+            </p>
+            <CustomFieldInput
+              field={field}
+              value={draft[field.key]}
+              onChange={(value) => setDraft({ ...draft, [field.key]: value })}
+            />
+          </div>
+        ))}
+        <div className="flex items-center justify-end gap-1.5 pt-1">
+          <Button variant="ghost" size="xs" onClick={() => setDraft(null)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button size="xs" onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="size-3 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  // Viewing
+  const filled = customFields.filter((f) => formatCustomFieldValue(f, values[f.key]) !== '')
+
+  return (
+    <div>
+      {filled.length === 0 && undefinedEntries.length === 0 ? (
+        <p className="text-xs text-muted-foreground/60 italic">No custom fields</p>
+      ) : (
+        <div className="space-y-0.5">
+          {filled.map((field) => (
+            <FieldRow
+              key={field.id}
+              label={field.label}
+              value={formatCustomFieldValue(field, values[field.key])}
+            />
+          ))}
+          {undefinedEntries.map(([key, value]) => (
+            <FieldRow
+              key={key}
+              label={key.replace(/_/g, ' ')}
+              value={formatCustomFieldValue(undefined, value)}
+            />
+          ))}
+        </div>
+      )}
+      {customFields.length > 0 && (
+        <Button
+          variant="ghost"
+          size="xs"
+          className="mt-2 text-xs text-muted-foreground"
+          onClick={() =>
+            setDraft(Object.fromEntries(customFields.map((f) => [f.key, values[f.key] ?? null])))
+          }
+        >
+          <Pencil className="size-3 mr-1" />
+          Edit fields
+        </Button>
+      )}
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Input per field type
+// ---------------------------------------------------------------------------
+
+export function CustomFieldInput({
+  field,
+  value,
+  onChange,
+}: {
+  field: Pick<CustomFieldDefinition, 'type' | 'options'>
+  value: unknown
+  onChange: (value: unknown) => void
+}) {
+  switch (field.type) {
+    case 'select':
+      return (
+        <Select
+          value={typeof value === 'string' && value ? value : NONE}
+          onValueChange={(v) => onChange(v === NONE ? null : v)}
+        >
+          <SelectTrigger size="sm" className="h-7 w-full text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>—</SelectItem>
+            {field.options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )
+
+    case 'multi_select': {
+      const selected = Array.isArray(value) ? (value as string[]) : []
+      const toggle = (option: string) =>
+        onChange(
+          selected.includes(option)
+            ? selected.filter((o) => o !== option)
+            : field.options.filter((o) => o === option || selected.includes(o))
+        )
+      return (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="xs" className="h-7 w-full justify-between font-normal">
+              <span className="truncate">{selected.length > 0 ? selected.join(', ') : '—'}</span>
+              <ChevronDown className="size-3 text-muted-foreground" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="max-h-64 w-56 overflow-y-auto">
+            {field.options.map((option) => (
+              <DropdownMenuCheckboxItem
+                key={option}
+                checked={selected.includes(option)}
+                onCheckedChange={() => toggle(option)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {option}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )
+    }
+
+    case 'boolean':
+      return (
+        <Select
+          value={typeof value === 'boolean' ? String(value) : NONE}
+          onValueChange={(v) => onChange(v === NONE ? null : v === 'true')}
+        >
+          <SelectTrigger size="sm" className="h-7 w-full text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>—</SelectItem>
+            <SelectItem value="true">Yes</SelectItem>
+            <SelectItem value="false">No</SelectItem>
+          </SelectContent>
+        </Select>
+      )
+
+    default:
+      return (
+        <Input
+          type={INPUT_TYPES[field.type] ?? 'text'}
+          value={value === null || value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.type === 'url' ? 'https://' : undefined}
+          className="h-7 text-xs"
+        />
+      )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function FieldRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex items-start gap-2 py-1.5">
+      <Hash className="size-3.5 text-muted-foreground mt-0.5 flex-shrink-0" />
+      <div className="min-w-0">
+        <p className="text-[10px] uppercase tracking-wider text-muted-foreground/70">{label}</p>
+        <p className="text-sm text-foreground break-words">{value}</p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,252 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Filter, Loader2, Users } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { SegmentEditor } from '@/components/contacts/segment-editor'
+import { cn } from '@/lib/utils'
+import type {
+  Campaign,
+  Contact,
+  ContactGroup,
+  ContactGroupType,
+  SegmentFilter,
+  Tag,
+} from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ContactGroupInput = Pick<ContactGroup, 'name' | 'description' | 'color' | 'type'> & {
+  filter: SegmentFilter | null
+}
+
+interface GroupDialogProps {
+  group: ContactGroup | null // null when creating
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSave: (input: ContactGroupInput) => Promise<boolean>
+  tags: Tag[]
+  campaigns: Pick<Campaign, 'id' | 'name'>[]
+}
+
+interface SegmentPreview {
+  count: number
+  sample: Pick<Contact, 'id' | 'name' | 'phone'>[]
+}
+
+const GROUP_COLORS = ['#10b981', '#3b82f6', '#8b5cf6', '#f59e0b', '#ef4444', '#64748b']
+
+const GROUP_TYPES: Record<ContactGroupType, { label: string; description: string; icon: typeof Users }> = {
+  static: {
+    label: 'Static group',
+    description: 'You choose the members.',
+    icon: Users,
+  },
+  dynamic: {
+    label: 'Dynamic segment',
+    description: 'Contacts matching a filter, updated automatically.',
+    icon: Filter,
+  },
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function GroupDialog({
+  group,
+  open,
+  onOpenChange,
+  onSave,
+  tags,
+  campaigns,
+}: GroupDialogProps) {
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [color, setColor] = useState<string | null>(null)
+  const [type, setType] = useState<ContactGroupType>('static')
+  const [filter, setFilter] = useState<SegmentFilter>({})
+  const [preview, setPreview] = useState<SegmentPreview | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Reset the form whenever the dialog is reopened
+  useEffect(() => {
+    if (!open) return
+    setName(group?.name ?? '')
+    setDescription(group?.description ?? '')
+    setColor(group?.color ?? null)
+    setType(group?.type ?? 'static')
+    setFilter(group?.filter ?? {})
+    setPreview(null)
+  }, [open, group])
+
+  const updateFilter = (next: SegmentFilter) => {
+    setFilter(next)
+    setPreview(null)
+  }
+
+  const handlePreview = async () => {
+    setIsPreviewing(true)
+    try {
+      const res = await fetch('/api/contact-groups/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filter }),
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(body.error || 'Failed to preview segment')
+        return
+      }
+      setPreview(body.data)
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const ok = await onSave({
+        name,
+        description: description.trim() || null,
+        color,
+        type,
+        filter: type === 'dynamic' ? filter : null,
+      })
+      if (ok) onOpenChange(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className={cn(type === 'dynamic' ? 'sm:max-w-2xl' : 'sm:max-w-lg')}>
+        <DialogHeader>
+          <DialogTitle>{group ? 'Edit group' : 'New group'}</DialogTitle>
+          <DialogDescription>
+            Groups can be used to filter contacts and as a campaign audience.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[65vh] space-y-4 overflow-y-auto pr-1">
+          {!group && (
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(GROUP_TYPES) as ContactGroupType[]).map((option) => {
+                const { label, description: hint, icon: Icon } = GROUP_TYPES[option]
+                return (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setType(option)}
+                    className={cn(
+                      'flex flex-col items-start gap-1 rounded-lg border p-3 text-left transition-colors',
+                      type === option ? 'border-primary bg-primary/5' : 'hover:bg-accent'
+                    )}
+                  >
+                    <span className="flex items-center gap-2 text-sm font-medium">
+                      <Icon className="size-4" />
+                      {label}
+                    </span>
+                    <span className="text-xs text-muted-foreground">{hint}</span>
+                  </button>
+                )
+              })}
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <Label htmlFor="group-name">Name</Label>
+            <Input
+              id="group-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. VIP customers"
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="group-description">Description</Label>
+            <Textarea
+              id="group-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Color</Label>
+            <div className="flex items-center gap-2">
+              {GROUP_COLORS.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setColor(color === option ? null : option)}
+                  className={cn(
+                    'size-6 rounded-full border-2 transition-transform',
+                    color === option ? 'scale-110 border-foreground' : 'border-transparent'
+                  )}
+                  style={{ backgroundColor: option }}
+                  aria-label={option}
+                />
+              ))}
+            </div>
+          </div>
+
+          {type === 'dynamic' && (
+            <div className="space-y-3 rounded-lg border p-3">
+              <SegmentEditor
+                value={filter}
+                onChange={updateFilter}
+                tags={tags}
+                campaigns={campaigns}
+              />
+              <div className="flex items-center gap-3 border-t pt-3">
+                <Button variant="outline" size="sm" onClick={handlePreview} disabled={isPreviewing}>
+                  {isPreviewing && <Loader2 className="size-4 animate-spin" />}
+                  Preview
+                </Button>
+                {preview && (
+                  <p className="min-w-0 truncate text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">
+                      {preview.count.toLocaleString()} contacts
+                    </span>
+                    {preview.sample.length > 0 &&
+                      ` · ${preview.sample.map((c) => c.name || c.phone).join(', ')}`}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving && <Loader2 className="size-4 animate-spin" />}
+            {group ? 'Save' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
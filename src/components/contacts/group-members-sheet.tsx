@@ -0,0 +1,258 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { ChevronLeft, ChevronRight, Filter, Plus, Search, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { describeSegment } from '@/lib/contacts/segments'
+import type { Contact, ContactGroup } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface GroupMembersSheetProps {
+  group: ContactGroup | null
+  onClose: () => void
+  canManage: boolean
+  /** Called after members were added or removed */
+  onChanged: () => void
+}
+
+const PAGE_SIZE = 25
+const SEARCH_LIMIT = 8
+
+// ---------------------------------------------------------------------------
+// Sheet
+// ---------------------------------------------------------------------------
+
+export function GroupMembersSheet({ group, onClose, canManage, onChanged }: GroupMembersSheetProps) {
+  return (
+    <Sheet open={group !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full gap-0 sm:max-w-md">
+        {group && (
+          <GroupMembers
+            key={group.id}
+            group={group}
+            canEdit={canManage && group.type === 'static'}
+            onChanged={onChanged}
+          />
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Members
+// ---------------------------------------------------------------------------
+
+function GroupMembers({
+  group,
+  canEdit,
+  onChanged,
+}: {
+  group: ContactGroup
+  canEdit: boolean
+  onChanged: () => void
+}) {
+  const [members, setMembers] = useState<Contact[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [isLoading, setIsLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [results, setResults] = useState<Contact[]>([])
+
+  const fetchMembers = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({
+        group_id: group.id,
+        page: String(page),
+        limit: String(PAGE_SIZE),
+        sort: 'name',
+        order: 'asc',
+      })
+      const res = await fetch(`/api/contacts?${params}`)
+      const body = await res.json()
+      if (!res.ok) throw new Error(body.error || 'Failed to load members')
+      setMembers(body.data ?? [])
+      setTotal(body.total ?? 0)
+    } catch (error) {
+      console.error('[GroupMembersSheet] fetch error:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load members')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [group.id, page])
+
+  useEffect(() => {
+    fetchMembers()
+  }, [fetchMembers])
+
+  // Contact search for adding members, debounced
+  useEffect(() => {
+    const term = search.trim()
+    if (!term) {
+      setResults([])
+      return
+    }
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({ search: term, limit: String(SEARCH_LIMIT) })
+      const res = await fetch(`/api/contacts?${params}`)
+      const body = await res.json().catch(() => ({}))
+      if (res.ok) setResults(body.data ?? [])
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [search])
+
+  const changeMembers = async (method: 'POST' | 'DELETE', contactIds: string[]) => {
+    const res = await fetch(`/api/contact-groups/${group.id}/members`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contact_ids: contactIds }),
+    })
+    const body = await res.json().catch(() => ({}))
+    if (!res.ok) {
+      toast.error(body.error || 'Failed to update members')
+      return
+    }
+    fetchMembers()
+    onChanged()
+  }
+
+  const totalPages = Math.max(Math.ceil(total / PAGE_SIZE), 1)
+  const conditions = group.filter ? describeSegment(group.filter) : []
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col">
+      <SheetHeader>
+        <SheetTitle>{group.name}</SheetTitle>
+        <SheetDescription>
+          {total.toLocaleString()} {total === 1 ? 'contact' : 'contacts'}
+          {group.type === 'dynamic' && ' matching the segment right now'}
+        </SheetDescription>
+      </SheetHeader>
+
+      <div className="min-h-0 flex-1 space-y-4 overflow-y-auto px-4 pb-6">
+        {conditions.length > 0 && (
+          <div className="space-y-1 rounded-lg border bg-muted/40 p-3 text-xs">
+            <p className="flex items-center gap-1.5 font-medium">
+              <Filter className="size-3.5" />
+              Contacts who match all of
+            </p>
+            <ul className="list-disc space-y-0.5 pl-5 text-muted-foreground">
+              {conditions.map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="space-y-2">
+            <div className="relative">
+              <Search className="absolute left-2.5 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Add contacts by name, phone or email"
+                className="pl-8"
+              />
+            </div>
+            {results.length > 0 && (
+              <div className="divide-y rounded-lg border">
+                {results.map((contact) => (
+                  <div key={contact.id} className="flex items-center gap-2 px-3 py-2">
+                    <ContactLine contact={contact} />
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => changeMembers('POST', [contact.id])}
+                      title="Add to group"
+                    >
+                      <Plus className="size-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : members.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No contacts in this group.</p>
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {members.map((contact) => (
+              <div key={contact.id} className="flex items-center gap-2 px-3 py-2">
+                <ContactLine contact={contact} />
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => changeMembers('DELETE', [contact.id])}
+                    className="text-muted-foreground hover:text-destructive"
+                    title="Remove from group"
+                  >
+                    <X className="size-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+            Page {page} of {totalPages}
+            <Button
+              variant="outline"
+              size="icon-sm"
+              disabled={page <= 1}
+              onClick={() => setPage((p) => p - 1)}
+            >
+              <ChevronLeft className="size-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon-sm"
+              disabled={page >= totalPages}
+              onClick={() => setPage((p) => p + 1)}
+            >
+              <ChevronRight className="size-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function ContactLine({ contact }: { contact: Contact }) {
+  return (
+    <div className="min-w-0 flex-1">
+      <p className="truncate text-sm">{contact.name || contact.phone}</p>
+      <p className="truncate font-mono text-xs text-muted-foreground">{contact.phone}</p>
+    </div>
+  )
+}
@@ -0,0 +1,427 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronDown, Plus, Tag as TagIcon, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useCustomFields } from '@/hooks/use-custom-fields'
+import {
+  CAMPAIGN_ENGAGEMENT_EVENTS,
+  CUSTOM_FIELD_OPERATORS,
+  customFieldOperators,
+} from '@/lib/contacts/segments'
+import type {
+  Campaign,
+  CampaignEngagementEvent,
+  CustomFieldDefinition,
+  CustomFieldOperator,
+  SegmentFilter,
+  Tag,
+} from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface SegmentEditorProps {
+  value: SegmentFilter
+  onChange: (value: SegmentFilter) => void
+  tags: Tag[]
+  campaigns: Pick<Campaign, 'id' | 'name'>[]
+}
+
+type ActivityMode = 'any' | 'within' | 'none_in'
+
+const ANY = 'any'
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function SegmentEditor({ value, onChange, tags, campaigns }: SegmentEditorProps) {
+  const { customFields: definitions } = useCustomFields()
+  const update = (updates: Partial<SegmentFilter>) => onChange({ ...value, ...updates })
+
+  const customFields = value.custom_fields ?? []
+  const updateCondition = (
+    index: number,
+    updates: Partial<NonNullable<SegmentFilter['custom_fields']>[number]>
+  ) => {
+    update({
+      custom_fields: customFields.map((c, i) => (i === index ? { ...c, ...updates } : c)),
+    })
+  }
+
+  // Also kept locally so clearing the days input doesn't reset the mode
+  const [selectedMode, setActivityMode] = useState<ActivityMode>('any')
+  const activityMode: ActivityMode = value.last_conversation_within_days
+    ? 'within'
+    : value.no_conversation_in_days
+      ? 'none_in'
+      : selectedMode
+  const activityDays = value.last_conversation_within_days ?? value.no_conversation_in_days
+  const setActivity = (mode: ActivityMode, days: number | undefined) => {
+    setActivityMode(mode)
+    update({
+      last_conversation_within_days: mode === 'within' ? days : undefined,
+      no_conversation_in_days: mode === 'none_in' ? days : undefined,
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Tags */}
+      <div className="grid gap-4 sm:grid-cols-2">
+        <TagPicker
+          label="Has any of these tags"
+          selected={value.tags_any ?? []}
+          tags={tags}
+          onChange={(tags_any) => update({ tags_any })}
+        />
+        <TagPicker
+          label="Has all of these tags"
+          selected={value.tags_all ?? []}
+          tags={tags}
+          onChange={(tags_all) => update({ tags_all })}
+        />
+      </div>
+
+      {/* Custom fields */}
+      <div className="space-y-1.5">
+        <Label>Custom fields</Label>
+        {customFields.map((condition, index) => {
+          const field = definitions.find((f) => f.key === condition.key)
+          const operators = customFieldOperators(field?.type)
+          return (
+            <div key={index} className="flex items-center gap-2">
+              {definitions.length > 0 ? (
+                <Select
+                  value={condition.key || undefined}
+                  onValueChange={(key) => {
+                    const type = definitions.find((f) => f.key === key)?.type
+                    const ops = customFieldOperators(type)
+                    updateCondition(index, {
+                      key,
+                      op: ops.includes(condition.op) ? condition.op : ops[0],
+                      value: '',
+                    })
+                  }}
+                >
+                  <SelectTrigger size="sm" className="w-36">
+                    <SelectValue placeholder="Field" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {definitions.map((f) => (
+                      <SelectItem key={f.key} value={f.key}>
+                        {f.label}
+                      </SelectItem>
+                    ))}
+                    {condition.key && !field && (
+                      <SelectItem value={condition.key}>{condition.key}</SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  value={condition.key}
+                  onChange={(e) =>
+                    updateCondition(index, {
+                      key: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_'),
+                    })
+                  }
+                  placeholder="field_key"
+                  className="h-8 w-36 font-mono text-xs"
+                />
+              )}
+              <Select
+                value={condition.op}
+                onValueChange={(op) => updateCondition(index, { op: op as CustomFieldOperator })}
+              >
+                <SelectTrigger size="sm" className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {operators.map((op) => (
+                    <SelectItem key={op} value={op}>
+                      {CUSTOM_FIELD_OPERATORS[op]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {condition.op !== 'exists' && condition.op !== 'not_exists' && (
+                <ConditionValue
+                  field={field}
+                  value={condition.value ?? ''}
+                  onChange={(value) => updateCondition(index, { value })}
+                />
+              )}
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => update({ custom_fields: customFields.filter((_, i) => i !== index) })}
+              >
+                <X className="size-4" />
+              </Button>
+            </div>
+          )
+        })}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => update({ custom_fields: [...customFields, { key: '', op: 'equals', value: '' }] })}
+        >
+          <Plus className="size-4" />
+          Add condition
+        </Button>
+      </div>
+
+      {/* Conversations */}
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-1.5">
+          <Label>Last conversation</Label>
+          <div className="flex items-center gap-2">
+            <Select
+              value={activityMode}
+              onValueChange={(mode) => setActivity(mode as ActivityMode, activityDays ?? 30)}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any time or never</SelectItem>
+                <SelectItem value="within">Within the last</SelectItem>
+                <SelectItem value="none_in">None in the last</SelectItem>
+              </SelectContent>
+            </Select>
+            {activityMode !== 'any' && (
+              <DaysInput
+                value={activityDays}
+                onChange={(days) => setActivity(activityMode, days)}
+              />
+            )}
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="segment-classifications">Conversation classified as</Label>
+          <Input
+            id="segment-classifications"
+            value={(value.classifications ?? []).join(', ')}
+            onChange={(e) =>
+              update({
+                classifications: e.target.value
+                  .split(',')
+                  .map((c) => c.trimStart())
+                  .filter((c, i, all) => c || i === all.length - 1),
+              })
+            }
+            placeholder="e.g. sale, support"
+          />
+        </div>
+      </div>
+
+      {/* Campaign engagement */}
+      <div className="space-y-1.5">
+        <Label>Campaign engagement</Label>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={value.campaign?.event ?? ANY}
+            onValueChange={(event) =>
+              update({
+                campaign:
+                  event === ANY
+                    ? undefined
+                    : { ...value.campaign, event: event as CampaignEngagementEvent },
+              })
+            }
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>No condition</SelectItem>
+              {(Object.keys(CAMPAIGN_ENGAGEMENT_EVENTS) as CampaignEngagementEvent[]).map((event) => (
+                <SelectItem key={event} value={event}>
+                  {CAMPAIGN_ENGAGEMENT_EVENTS[event]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {value.campaign && (
+            <>
+              <Select
+                value={value.campaign.campaign_id ?? ANY}
+                onValueChange={(id) =>
+                  update({
+                    campaign: {
+                      ...value.campaign!,
+                      campaign_id: id === ANY ? undefined : id,
+                    },
+                  })
+                }
+              >
+                <SelectTrigger className="w-52">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any campaign</SelectItem>
+                  {campaigns.map((campaign) => (
+                    <SelectItem key={campaign.id} value={campaign.id}>
+                      {campaign.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-xs text-muted-foreground">sent in the last</span>
+              <DaysInput
+                value={value.campaign.within_days}
+                placeholder="Any"
+                onChange={(within_days) =>
+                  update({ campaign: { ...value.campaign!, within_days } })
+                }
+              />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function TagPicker({
+  label,
+  selected,
+  tags,
+  onChange,
+}: {
+  label: string
+  selected: string[]
+  tags: Tag[]
+  onChange: (tags: string[]) => void
+}) {
+  const toggle = (name: string) => {
+    onChange(selected.includes(name) ? selected.filter((t) => t !== name) : [...selected, name])
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <Label>{label}</Label>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="w-full justify-between font-normal">
+            <span className="flex min-w-0 items-center gap-2">
+              <TagIcon className="size-4 shrink-0" />
+              <span className="truncate">
+                {selected.length > 0 ? selected.join(', ') : 'Any tags'}
+              </span>
+            </span>
+            <ChevronDown className="size-4 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="max-h-72 w-56 overflow-y-auto">
+          {tags.length === 0 ? (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">No tags yet</p>
+          ) : (
+            tags.map((tag) => (
+              <DropdownMenuCheckboxItem
+                key={tag.id}
+                checked={selected.includes(tag.name)}
+                onCheckedChange={() => toggle(tag.name)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                <span className="size-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                {tag.name}
+              </DropdownMenuCheckboxItem>
+            ))
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  )
+}
+
+/** Value of a custom field condition, typed by the field's definition */
+function ConditionValue({
+  field,
+  value,
+  onChange,
+}: {
+  field: CustomFieldDefinition | undefined
+  value: string
+  onChange: (value: string) => void
+}) {
+  if (field && (field.type === 'select' || field.type === 'multi_select' || field.type === 'boolean')) {
+    const options =
+      field.type === 'boolean'
+        ? [
+            { value: 'true', label: 'Yes' },
+            { value: 'false', label: 'No' },
+          ]
+        : field.options.map((o) => ({ value: o, label: o }))
+    return (
+      <Select value={value || undefined} onValueChange={onChange}>
+        <SelectTrigger size="sm" className="flex-1">
+          <SelectValue placeholder="Value" />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    )
+  }
+
+  return (
+    <Input
+      type={field?.type === 'number' ? 'number' : field?.type === 'date' ? 'date' : 'text'}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder="Value"
+      className="h-8 flex-1 text-xs"
+    />
+  )
+}
+
+function DaysInput({
+  value,
+  placeholder,
+  onChange,
+}: {
+  value: number | undefined
+  placeholder?: string
+  onChange: (days: number | undefined) => void
+}) {
+  return (
+    <div className="flex items-center gap-1.5">
+      <Input
+        type="number"
+        min={1}
+        value={value ?? ''}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value ? Number(e.target.value) : undefined)}
+        className="w-20"
+      />
+      <span className="text-xs text-muted-foreground">days</span>
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { useAuthStore } from '@/stores/auth-store'
+import { hasPermission } from '@/lib/permissions'
+import { CONSENT_CATEGORIES, CONSENT_LABELS } from '@/lib/contacts/consent'
+import type {
+  ConsentAction,
+  ConsentCategory,
+  ConsentSource,
+  ContactConsentEvent,
+} from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface ConsentState {
+  marketing_opted_out_at: string | null
+  utility_opted_out_at: string | null
+  events: ContactConsentEvent[]
+}
+
+const SOURCE_LABELS: Record<ConsentSource, string> = {
+  keyword: 'keyword reply',
+  agent: 'agent',
+  import: 'import',
+  api: 'API',
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function ContactConsent({ contactId }: { contactId: string }) {
+  const user = useAuthStore((s) => s.user)
+  const canOptIn = user ? hasPermission(user.role, 'manage_contacts') : false
+
+  const [consent, setConsent] = useState<ConsentState | null>(null)
+  const [pending, setPending] = useState<ConsentCategory | null>(null)
+
+  const fetchConsent = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/contacts/${contactId}/consent`)
+      if (!res.ok) throw new Error('Failed to load consent')
+      const body = await res.json()
+      setConsent(body.data)
+    } catch (error) {
+      console.error('[ContactConsent] fetch error:', error)
+    }
+  }, [contactId])
+
+  useEffect(() => {
+    fetchConsent()
+  }, [fetchConsent])
+
+  const handleChange = useCallback(
+    async (category: ConsentCategory, action: ConsentAction) => {
+      setPending(category)
+      try {
+        const res = await fetch(`/api/contacts/${contactId}/consent`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ category, action }),
+        })
+        const body = await res.json()
+        if (!res.ok) {
+          toast.error(body.error ?? 'Failed to update consent')
+          return
+        }
+        toast.success(
+          action === 'opt_out'
+            ? `Opted out of ${CONSENT_LABELS[category].toLowerCase()} messages`
+            : `Opted in to ${CONSENT_LABELS[category].toLowerCase()} messages`
+        )
+        await fetchConsent()
+      } catch (error) {
+        console.error('[ContactConsent] update error:', error)
+        toast.error('Failed to update consent')
+      } finally {
+        setPending(null)
+      }
+    },
+    [contactId, fetchConsent]
+  )
+
+  if (!consent) {
+    return <p className="text-xs text-muted-foreground/60 italic">Loading...</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {CONSENT_CATEGORIES.map((category) => {
+        const optedOutAt = consent[`${category}_opted_out_at`]
+        return (
+          <div key={category} className="flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-sm text-foreground">{CONSENT_LABELS[category]}</p>
+              {optedOutAt ? (
+                <p className="text-[10px] text-muted-foreground">
+                  Since {format(new Date(optedOutAt), 'dd/MM/yyyy HH:mm')}
+                </p>
+              ) : null}
+            </div>
+            <div className="flex items-center gap-1.5">
+              {optedOutAt ? (
+                <Badge variant="outline" className="border-red-500/40 text-red-600 text-[10px]">
+                  Opted out
+                </Badge>
+              ) : (
+                <Badge
+                  variant="outline"
+                  className="border-emerald-500/40 text-emerald-600 text-[10px]"
+                >
+                  Allowed
+                </Badge>
+              )}
+              {optedOutAt ? (
+                canOptIn && (
+                  <Button
+                    variant="outline"
+                    size="xs"
+                    className="text-xs"
+                    disabled={pending === category}
+                    onClick={() => handleChange(category, 'opt_in')}
+                  >
+                    Opt in
+                  </Button>
+                )
+              ) : (
+                <Button
+                  variant="outline"
+                  size="xs"
+                  className="text-xs"
+                  disabled={pending === category}
+                  onClick={() => handleChange(category, 'opt_out')}
+                >
+                  Opt out
+                </Button>
+              )}
+            </div>
+          </div>
+        )
+      })}
+
+      {consent.events.length > 0 && (
+        <div className="space-y-1.5 pt-1">
+          <p className="text-[10px] uppercase tracking-wider text-muted-foreground/70">
+            History
+          </p>
+          {consent.events.map((event) => (
+            <div key={event.id} className="text-xs">
+              <p className="text-foreground">
+                {event.action === 'opt_out' ? 'Opted out of' : 'Opted in to'}{' '}
+                {CONSENT_LABELS[event.category].toLowerCase()}
+                <span className="text-muted-foreground">
+                  {' '}
+                  via {SOURCE_LABELS[event.source]}
+                  {event.creator ? ` (${event.creator.display_name})` : ''}
+                </span>
+              </p>
+              {event.detail && (
+                <p className="text-muted-foreground/80 break-words">{event.detail}</p>
+              )}
+              <p className="text-[10px] text-muted-foreground/60">
+                {format(new Date(event.created_at), 'dd/MM/yyyy HH:mm')}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
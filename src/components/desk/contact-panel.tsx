@@ -7,6 +7,9 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Separator } from '@/components/ui/separator'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import { ContactConsent } from '@/components/desk/contact-consent'
+import { CustomFieldsEditor } from '@/components/contacts/custom-fields-editor'
+import { HubSpotContactDetails } from '@/components/desk/hubspot-contact-details'
 import { useChatStore } from '@/stores/chat-store'
 import { cn } from '@/lib/utils'
 import {
@@ -25,6 +28,7 @@ import {
   ExternalLink,
   StickyNote,
   Send,
+  ShieldCheck,
   X,
 } from 'lucide-react'
 // ---------------------------------------------------------------------------
@@ -124,6 +128,7 @@ interface ContactPanelProps {
 export function ContactPanel({ conversationId }: ContactPanelProps) {
   const conversations = useChatStore((s) => s.conversations)
   const messages = useChatStore((s) => s.messages)
+  const updateConversation = useChatStore((s) => s.updateConversation)
 
   const conversation = conversations.find((c) => c.id === conversationId)
   const contact = conversation?.contact
@@ -262,31 +267,14 @@ export function ContactPanel({ conversationId }: ContactPanelProps) {
         {/* CUSTOM FIELDS */}
         {/* ----------------------------------------------------------------- */}
         <Section title="Custom Fields" icon={FolderKanban} defaultOpen={customFields.length > 0}>
-          {customFields.length > 0 ? (
-            <div className="space-y-0.5">
-              {customFields.map(([key, value]) => (
-                <div key={key} className="flex items-start gap-2 py-1.5">
-                  <Hash className="size-3.5 text-muted-foreground mt-0.5 flex-shrink-0" />
-                  <div className="min-w-0">
-                    <p className="text-[10px] uppercase tracking-wider text-muted-foreground/70">
-                      {key.replace(/_/g, ' ')}
-                    </p>
-                    <p className="text-sm text-foreground break-words">
-                      {String(value)}
-                    </p>
-                  </div>
-                </div>
-              ))}
-            </div>
-          ) : (
-            <p className="text-xs text-muted-foreground/60 italic">
-              No custom fields
-            </p>
-          )}
-          <Button variant="ghost" size="xs" className="mt-2 text-xs text-muted-foreground">
-            <Plus className="size-3 mr-1" />
-            Add field
-          </Button>
+          <CustomFieldsEditor
+            key={contact.id}
+            contactId={contact.id}
+            values={contact.custom_fields ?? {}}
+            onSaved={(updated) =>
+              updateConversation(conversation.id, { contact: { ...contact, ...updated } })
+            }
+          />
         </Section>
 
         <Separator />
@@ -422,25 +410,25 @@ export function ContactPanel({ conversationId }: ContactPanelProps) {
 
         <Separator />
 
+        {/* ----------------------------------------------------------------- */}
+        {/* CONSENT */}
+        {/* ----------------------------------------------------------------- */}
+        <Section title="Consent" icon={ShieldCheck} defaultOpen={false}>
+          <ContactConsent key={contact.id} contactId={contact.id} />
+        </Section>
+
+        <Separator />
+
         {/* ----------------------------------------------------------------- */}
         {/* HUBSPOT */}
         {/* ----------------------------------------------------------------- */}
-        <Section title="HubSpot" icon={ExternalLink} defaultOpen={false}>
+        <Section title="HubSpot" icon={ExternalLink} defaultOpen={!!contact.hubspot_contact_id}>
           {contact.hubspot_contact_id ? (
-            <div className="space-y-2">
-              <p className="text-xs text-muted-foreground">
-                Synced with HubSpot
-              </p>
-              <a
-                href={`https://app.hubspot.com/contacts/${contact.hubspot_contact_id}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
-              >
-                <ExternalLink className="size-3" />
-                View in HubSpot
-              </a>
-            </div>
+            <HubSpotContactDetails
+              key={contact.id}
+              contactId={contact.id}
+              contactName={displayName}
+            />
           ) : (
             <div className="space-y-2">
               <p className="text-xs text-muted-foreground/60 italic">
@@ -0,0 +1,235 @@
+'use client'
+
+import { useState } from 'react'
+import { format, formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import {
+  CalendarDays,
+  ExternalLink,
+  Handshake,
+  ListTodo,
+  Mail,
+  Phone,
+  Plus,
+  RefreshCw,
+  StickyNote,
+} from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  HubSpotDealQuickDialog,
+  HubSpotTaskQuickDialog,
+} from '@/components/desk/hubspot-quick-actions'
+import { useHubSpotContactCard } from '@/hooks/use-hubspot-contact-card'
+import { cn } from '@/lib/utils'
+import type { HubSpotActivityType, HubSpotCardDeal } from '@/lib/hubspot/contact-card'
+
+const ACTIVITY_ICONS: Record<HubSpotActivityType, React.ElementType> = {
+  note: StickyNote,
+  task: ListTodo,
+  call: Phone,
+  email: Mail,
+  meeting: CalendarDays,
+}
+
+function formatAmount(deal: HubSpotCardDeal): string | null {
+  if (deal.amount === null) return null
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: deal.currency ?? 'USD',
+    }).format(deal.amount)
+  } catch {
+    // Unknown currency code
+    return `${deal.amount.toLocaleString('en-US')} ${deal.currency ?? ''}`.trim()
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/** Live HubSpot data of a linked contact, with quick actions */
+export function HubSpotContactDetails({
+  contactId,
+  contactName,
+}: {
+  contactId: string
+  contactName: string
+}) {
+  const { card, isLoading, error, invalidate, refresh } = useHubSpotContactCard(contactId)
+
+  const [dealOpen, setDealOpen] = useState(false)
+  const [taskOpen, setTaskOpen] = useState(false)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true)
+    try {
+      await refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to refresh')
+    } finally {
+      setIsRefreshing(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-4 w-2/3" />
+        <Skeleton className="h-4 w-1/2" />
+        <Skeleton className="h-10" />
+      </div>
+    )
+  }
+
+  if (error || !card) {
+    return (
+      <p className="text-xs text-muted-foreground/60 italic">
+        {error?.message || 'Failed to load the contact from HubSpot'}
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Lifecycle stage and owner */}
+      <div className="grid grid-cols-2 gap-2">
+        <div className="min-w-0">
+          <p className="text-[10px] uppercase tracking-wider text-muted-foreground/70">
+            Lifecycle stage
+          </p>
+          <p className="text-sm text-foreground truncate">{card.lifecycle_stage || '--'}</p>
+        </div>
+        <div className="min-w-0">
+          <p className="text-[10px] uppercase tracking-wider text-muted-foreground/70">Owner</p>
+          <p className="text-sm text-foreground truncate" title={card.owner?.email ?? undefined}>
+            {card.owner?.name || 'Unassigned'}
+          </p>
+        </div>
+      </div>
+
+      {/* Open deals */}
+      <div className="space-y-1.5">
+        <p className="text-[10px] uppercase tracking-wider text-muted-foreground/70">
+          Open deals
+        </p>
+        {card.deals.length > 0 ? (
+          card.deals.map((deal) => (
+            <a
+              key={deal.id}
+              href={deal.url ?? undefined}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={cn(
+                'block rounded-md border px-2.5 py-2',
+                deal.url && 'hover:bg-accent/50 transition-colors'
+              )}
+            >
+              <div className="flex items-center gap-2">
+                <Handshake className="size-3.5 flex-shrink-0 text-muted-foreground" />
+                <span className="flex-1 text-xs font-medium truncate">{deal.name}</span>
+                {formatAmount(deal) && (
+                  <span className="text-xs text-foreground">{formatAmount(deal)}</span>
+                )}
+              </div>
+              <div className="flex items-center gap-1.5 mt-1">
+                <Badge variant="secondary" className="text-[10px] h-5">
+                  {deal.stage_label}
+                </Badge>
+                {deal.close_date && (
+                  <span className="text-[10px] text-muted-foreground">
+                    Closes {format(new Date(deal.close_date), 'dd/MM/yyyy')}
+                  </span>
+                )}
+              </div>
+            </a>
+          ))
+        ) : (
+          <p className="text-xs text-muted-foreground/60 italic">No open deals</p>
+        )}
+      </div>
+
+      {/* Recent activities */}
+      <div className="space-y-1.5">
+        <p className="text-[10px] uppercase tracking-wider text-muted-foreground/70">
+          Recent activity
+        </p>
+        {card.activities.length > 0 ? (
+          <div className="space-y-1.5">
+            {card.activities.map((activity) => {
+              const Icon = ACTIVITY_ICONS[activity.type]
+              return (
+                <div key={`${activity.type}-${activity.id}`} className="flex items-start gap-2">
+                  <Icon className="size-3.5 text-muted-foreground mt-0.5 flex-shrink-0" />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-xs text-foreground line-clamp-2">
+                      {activity.title || 'Untitled'}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground">
+                      {activity.timestamp &&
+                        formatDistanceToNow(new Date(activity.timestamp), { addSuffix: true })}
+                      {activity.status &&
+                        ` · ${activity.status.toLowerCase().replace(/_/g, ' ')}`}
+                    </p>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground/60 italic">No activity yet</p>
+        )}
+      </div>
+
+      {/* Quick actions */}
+      <div className="flex flex-wrap items-center gap-1.5">
+        <Button variant="outline" size="xs" className="text-xs" onClick={() => setDealOpen(true)}>
+          <Plus className="size-3 mr-1" />
+          Deal
+        </Button>
+        <Button variant="outline" size="xs" className="text-xs" onClick={() => setTaskOpen(true)}>
+          <Plus className="size-3 mr-1" />
+          Task
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon-xs"
+          onClick={handleRefresh}
+          disabled={isRefreshing}
+          title={`Updated ${formatDistanceToNow(new Date(card.fetched_at), { addSuffix: true })}`}
+        >
+          <RefreshCw className={cn('size-3', isRefreshing && 'animate-spin')} />
+        </Button>
+        {card.url && (
+          <a
+            href={card.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="ml-auto inline-flex items-center gap-1 text-xs text-primary hover:underline"
+          >
+            <ExternalLink className="size-3" />
+            View in HubSpot
+          </a>
+        )}
+      </div>
+
+      <HubSpotDealQuickDialog
+        contactId={contactId}
+        contactName={contactName}
+        pipelines={card.pipelines}
+        open={dealOpen}
+        onOpenChange={setDealOpen}
+        onCreated={invalidate}
+      />
+      <HubSpotTaskQuickDialog
+        contactId={contactId}
+        open={taskOpen}
+        onOpenChange={setTaskOpen}
+        onCreated={invalidate}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,294 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { addDays, format, setHours, startOfDay } from 'date-fns'
+import { toast } from 'sonner'
+import { Loader2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { HubSpotPipeline } from '@/lib/hubspot/engagements'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface QuickActionDialogProps {
+  contactId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onCreated: () => Promise<unknown>
+}
+
+async function postQuickAction(url: string, body: unknown, fallbackError: string) {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  if (res.ok) return true
+  const result = await res.json().catch(() => ({}))
+  toast.error(result.error || fallbackError)
+  return false
+}
+
+// ---------------------------------------------------------------------------
+// Create deal
+// ---------------------------------------------------------------------------
+
+export function HubSpotDealQuickDialog({
+  contactId,
+  contactName,
+  pipelines,
+  open,
+  onOpenChange,
+  onCreated,
+}: QuickActionDialogProps & { contactName: string; pipelines: HubSpotPipeline[] }) {
+  const [dealname, setDealname] = useState('')
+  const [amount, setAmount] = useState('')
+  const [pipelineId, setPipelineId] = useState('')
+  const [stageId, setStageId] = useState('')
+  const [closeDate, setCloseDate] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Reset the form whenever the dialog is reopened: first pipeline, first open stage
+  useEffect(() => {
+    if (!open) return
+    const pipeline = pipelines[0]
+    setDealname(contactName)
+    setAmount('')
+    setPipelineId(pipeline?.id ?? '')
+    setStageId(pipeline?.stages.find((s) => !s.isClosed)?.id ?? '')
+    setCloseDate('')
+  }, [open, contactName, pipelines])
+
+  const stages = pipelines.find((p) => p.id === pipelineId)?.stages ?? []
+
+  const handleCreate = async () => {
+    setIsSaving(true)
+    try {
+      const ok = await postQuickAction(
+        `/api/contacts/${contactId}/hubspot/deals`,
+        {
+          dealname: dealname.trim(),
+          amount: amount.trim() ? Number(amount) : null,
+          pipeline_id: pipelineId,
+          stage_id: stageId,
+          close_date: closeDate || null,
+        },
+        'Failed to create the deal'
+      )
+      if (!ok) return
+      await onCreated()
+      toast.success('Deal created in HubSpot')
+      onOpenChange(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>New deal</DialogTitle>
+          <DialogDescription>Created in HubSpot and associated to this contact.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="hubspot-deal-name">Deal name</Label>
+            <Input
+              id="hubspot-deal-name"
+              value={dealname}
+              onChange={(e) => setDealname(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label>Pipeline</Label>
+              <Select
+                value={pipelineId}
+                onValueChange={(v) => {
+                  setPipelineId(v)
+                  setStageId('')
+                }}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Choose" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pipelines.map((pipeline) => (
+                    <SelectItem key={pipeline.id} value={pipeline.id}>
+                      {pipeline.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>Stage</Label>
+              <Select value={stageId} onValueChange={setStageId} disabled={!pipelineId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Choose" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stages.map((stage) => (
+                    <SelectItem key={stage.id} value={stage.id}>
+                      {stage.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="hubspot-deal-amount">Amount</Label>
+              <Input
+                id="hubspot-deal-amount"
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="hubspot-deal-close-date">Close date</Label>
+              <Input
+                id="hubspot-deal-close-date"
+                type="date"
+                value={closeDate}
+                onChange={(e) => setCloseDate(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={isSaving || !dealname.trim() || !pipelineId || !stageId}
+          >
+            {isSaving && <Loader2 className="size-4 animate-spin" />}
+            Create deal
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Create task
+// ---------------------------------------------------------------------------
+
+export function HubSpotTaskQuickDialog({
+  contactId,
+  open,
+  onOpenChange,
+  onCreated,
+}: QuickActionDialogProps) {
+  const [subject, setSubject] = useState('')
+  const [body, setBody] = useState('')
+  const [dueAt, setDueAt] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Reset the form whenever the dialog is reopened; due tomorrow at 9:00
+  useEffect(() => {
+    if (!open) return
+    setSubject('')
+    setBody('')
+    setDueAt(format(setHours(startOfDay(addDays(new Date(), 1)), 9), "yyyy-MM-dd'T'HH:mm"))
+  }, [open])
+
+  const handleCreate = async () => {
+    setIsSaving(true)
+    try {
+      const ok = await postQuickAction(
+        `/api/contacts/${contactId}/hubspot/tasks`,
+        { subject: subject.trim(), body: body.trim(), due_at: new Date(dueAt).toISOString() },
+        'Failed to create the task'
+      )
+      if (!ok) return
+      await onCreated()
+      toast.success('Task created in HubSpot')
+      onOpenChange(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>New task</DialogTitle>
+          <DialogDescription>Created in HubSpot and associated to this contact.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="hubspot-task-subject">Subject</Label>
+            <Input
+              id="hubspot-task-subject"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              placeholder="e.g. Send the proposal"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="hubspot-task-body">Notes</Label>
+            <Textarea
+              id="hubspot-task-body"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="hubspot-task-due">Due</Label>
+            <Input
+              id="hubspot-task-due"
+              type="datetime-local"
+              value={dueAt}
+              onChange={(e) => setDueAt(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={isSaving || !subject.trim() || !dueAt}>
+            {isSaving && <Loader2 className="size-4 animate-spin" />}
+            Create task
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,353 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  INTERACTIVE_LIMITS as LIMITS,
+  validateInteractive,
+  type InteractiveMessage,
+} from '@/lib/whatsapp/interactive'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface ListSectionDraft {
+  title: string
+  rows: Array<{ title: string; description: string }>
+}
+
+interface InteractiveBuilderProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSend: (interactive: InteractiveMessage) => Promise<boolean>
+}
+
+const EMPTY_ROW = { title: '', description: '' }
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function InteractiveBuilder({ open, onOpenChange, onSend }: InteractiveBuilderProps) {
+  const [mode, setMode] = useState<'button' | 'list'>('button')
+  const [header, setHeader] = useState('')
+  const [body, setBody] = useState('')
+  const [footer, setFooter] = useState('')
+  const [buttons, setButtons] = useState<string[]>([''])
+  const [listButton, setListButton] = useState('')
+  const [sections, setSections] = useState<ListSectionDraft[]>([])
+  const [isSending, setIsSending] = useState(false)
+
+  // Reset the form whenever the dialog is reopened
+  useEffect(() => {
+    if (!open) return
+    setMode('button')
+    setHeader('')
+    setBody('')
+    setFooter('')
+    setButtons([''])
+    setListButton('')
+    setSections([{ title: '', rows: [{ ...EMPTY_ROW }] }])
+  }, [open])
+
+  const interactive = useMemo(
+    () => buildInteractive({ mode, header, body, footer, buttons, listButton, sections }),
+    [mode, header, body, footer, buttons, listButton, sections]
+  )
+  const problem = validateInteractive(interactive)
+  const totalRows = sections.reduce((sum, s) => sum + s.rows.length, 0)
+
+  const updateSection = (index: number, updates: Partial<ListSectionDraft>) =>
+    setSections((current) => current.map((s, i) => (i === index ? { ...s, ...updates } : s)))
+
+  const updateRow = (
+    sectionIndex: number,
+    rowIndex: number,
+    updates: Partial<ListSectionDraft['rows'][number]>
+  ) =>
+    updateSection(sectionIndex, {
+      rows: sections[sectionIndex].rows.map((r, i) => (i === rowIndex ? { ...r, ...updates } : r)),
+    })
+
+  const handleSend = async () => {
+    if (problem) return
+    setIsSending(true)
+    try {
+      const ok = await onSend(interactive)
+      if (ok) onOpenChange(false)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Interactive message</DialogTitle>
+          <DialogDescription>
+            The contact answers by tapping a button or picking a row from the list.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={(v) => setMode(v as 'button' | 'list')}>
+          <TabsList className="w-full">
+            <TabsTrigger value="button" className="flex-1">
+              Reply buttons
+            </TabsTrigger>
+            <TabsTrigger value="list" className="flex-1">
+              List
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="im-header">Header (optional)</Label>
+            <Input
+              id="im-header"
+              value={header}
+              onChange={(e) => setHeader(e.target.value)}
+              maxLength={LIMITS.headerText}
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="im-body">Message</Label>
+            <Textarea
+              id="im-body"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              maxLength={LIMITS.body}
+              rows={3}
+              placeholder="How can we help you today?"
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="im-footer">Footer (optional)</Label>
+            <Input
+              id="im-footer"
+              value={footer}
+              onChange={(e) => setFooter(e.target.value)}
+              maxLength={LIMITS.footer}
+            />
+          </div>
+
+          {mode === 'button' ? (
+            <div className="space-y-2">
+              <Label>Buttons</Label>
+              {buttons.map((title, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <Input
+                    value={title}
+                    onChange={(e) =>
+                      setButtons((current) =>
+                        current.map((b, j) => (j === i ? e.target.value : b))
+                      )
+                    }
+                    maxLength={LIMITS.buttonTitle}
+                    placeholder={`Button ${i + 1}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => setButtons((current) => current.filter((_, j) => j !== i))}
+                    disabled={buttons.length === 1}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+              ))}
+              {buttons.length < LIMITS.buttons && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setButtons((current) => [...current, ''])}
+                >
+                  <Plus className="size-4" />
+                  Add button
+                </Button>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="im-list-button">List button</Label>
+                <Input
+                  id="im-list-button"
+                  value={listButton}
+                  onChange={(e) => setListButton(e.target.value)}
+                  maxLength={LIMITS.listButton}
+                  placeholder="See options"
+                />
+              </div>
+
+              {sections.map((section, s) => (
+                <div key={s} className="space-y-2 rounded-md border p-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={section.title}
+                      onChange={(e) => updateSection(s, { title: e.target.value })}
+                      maxLength={LIMITS.sectionTitle}
+                      placeholder={`Section ${s + 1} title`}
+                      className="font-medium"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => setSections((current) => current.filter((_, i) => i !== s))}
+                      disabled={sections.length === 1}
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </div>
+
+                  {section.rows.map((row, r) => (
+                    <div key={r} className="flex items-start gap-2 pl-3">
+                      <div className="flex-1 space-y-1">
+                        <Input
+                          value={row.title}
+                          onChange={(e) => updateRow(s, r, { title: e.target.value })}
+                          maxLength={LIMITS.rowTitle}
+                          placeholder="Row title"
+                          className="h-8"
+                        />
+                        <Input
+                          value={row.description}
+                          onChange={(e) => updateRow(s, r, { description: e.target.value })}
+                          maxLength={LIMITS.rowDescription}
+                          placeholder="Description (optional)"
+                          className="h-8 text-xs"
+                        />
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon-xs"
+                        onClick={() =>
+                          updateSection(s, { rows: section.rows.filter((_, i) => i !== r) })
+                        }
+                        disabled={section.rows.length === 1}
+                      >
+                        <Trash2 className="size-3" />
+                      </Button>
+                    </div>
+                  ))}
+
+                  <Button
+                    variant="ghost"
+                    size="xs"
+                    onClick={() =>
+                      updateSection(s, { rows: [...section.rows, { ...EMPTY_ROW }] })
+                    }
+                    disabled={totalRows >= LIMITS.rows}
+                    className="ml-3"
+                  >
+                    <Plus className="size-3" />
+                    Add row
+                  </Button>
+                </div>
+              ))}
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setSections((current) => [...current, { title: '', rows: [{ ...EMPTY_ROW }] }])
+                }
+                disabled={totalRows >= LIMITS.rows || sections.length >= LIMITS.sections}
+              >
+                <Plus className="size-4" />
+                Add section
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                {totalRows}/{LIMITS.rows} rows
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="items-center">
+          {problem && (
+            <p className="mr-auto text-xs text-muted-foreground">{problem}</p>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSend}
+            disabled={!!problem || isSending}
+            className="bg-emerald-600 hover:bg-emerald-700 text-white"
+          >
+            {isSending && <Loader2 className="size-4 animate-spin" />}
+            Send
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function buildInteractive(draft: {
+  mode: 'button' | 'list'
+  header: string
+  body: string
+  footer: string
+  buttons: string[]
+  listButton: string
+  sections: ListSectionDraft[]
+}): InteractiveMessage {
+  const common = {
+    ...(draft.header.trim() ? { header: { type: 'text' as const, text: draft.header.trim() } } : {}),
+    body: { text: draft.body.trim() },
+    ...(draft.footer.trim() ? { footer: { text: draft.footer.trim() } } : {}),
+  }
+
+  if (draft.mode === 'button') {
+    return {
+      type: 'button',
+      ...common,
+      action: {
+        buttons: draft.buttons.map((title, i) => ({
+          type: 'reply',
+          reply: { id: `button_${i + 1}`, title: title.trim() },
+        })),
+      },
+    }
+  }
+
+  return {
+    type: 'list',
+    ...common,
+    action: {
+      button: draft.listButton.trim(),
+      sections: draft.sections.map((section, s) => ({
+        // A lone section may be untitled; fall back to the button text
+        title: section.title.trim() || draft.listButton.trim(),
+        rows: section.rows.map((row, r) => ({
+          id: `row_${s + 1}_${r + 1}`,
+          title: row.title.trim(),
+          ...(row.description.trim() ? { description: row.description.trim() } : {}),
+        })),
+      })),
+    },
+  }
+}
@@ -10,8 +10,22 @@ import {
   Download,
   Play,
   MapPin,
+  Reply,
+  ListChecks,
+  UserRound,
+  Phone,
+  Mail,
+  ShoppingCart,
+  Megaphone,
+  ExternalLink,
 } from 'lucide-react'
-import type { Message, MessageStatus, SenderType } from '@/types/database'
+import { getInteractiveOptions } from '@/lib/whatsapp/interactive'
+import type {
+  Message,
+  MessageMetadata,
+  MessageStatus,
+  SenderType,
+} from '@/types/database'
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -122,6 +136,190 @@ function LocationContent({ content }: { content: string | null }) {
   )
 }
 
+// ---------------------------------------------------------------------------
+// Structured message renderers
+// ---------------------------------------------------------------------------
+
+function ReplyContent({
+  metadata,
+  content,
+}: {
+  metadata: MessageMetadata | null
+  content: string | null
+}) {
+  const isList = metadata?.interactive?.type === 'list_reply'
+  const Icon = isList ? ListChecks : Reply
+
+  return (
+    <div className="space-y-0.5">
+      <div className="flex items-center gap-1.5 text-sm font-medium">
+        <Icon className="size-3.5 flex-shrink-0 opacity-70" />
+        <span>{content || metadata?.interactive?.title || metadata?.button?.text}</span>
+      </div>
+      {metadata?.interactive?.description && (
+        <p className="text-xs opacity-70">{metadata.interactive.description}</p>
+      )}
+    </div>
+  )
+}
+
+function InteractiveMessageContent({
+  interactive,
+  selectedId,
+  isRight,
+}: {
+  interactive: NonNullable<MessageMetadata['interactive_message']>
+  selectedId?: string
+  isRight: boolean
+}) {
+  return (
+    <div className="space-y-1.5">
+      {interactive.header?.type === 'text' && (
+        <p className="text-sm font-semibold">{interactive.header.text}</p>
+      )}
+      <p className="text-sm whitespace-pre-wrap break-words leading-relaxed">
+        {interactive.body.text}
+      </p>
+      {interactive.footer && <p className="text-xs opacity-70">{interactive.footer.text}</p>}
+      <div className="space-y-1 pt-0.5">
+        {interactive.type === 'list' && (
+          <p className="flex items-center gap-1 text-[11px] font-medium opacity-80">
+            <ListChecks className="size-3" />
+            {interactive.action.button}
+          </p>
+        )}
+        {getInteractiveOptions(interactive).map((option) => (
+          <div
+            key={option.id}
+            className={cn(
+              'flex items-center gap-1.5 rounded-md px-2 py-1 text-xs',
+              isRight ? 'bg-emerald-700/50' : 'bg-background/50',
+              option.id === selectedId && 'ring-1 ring-current font-semibold'
+            )}
+          >
+            {option.id === selectedId ? (
+              <Check className="size-3 flex-shrink-0" />
+            ) : (
+              <Reply className="size-3 flex-shrink-0 opacity-60" />
+            )}
+            <span className="truncate">{option.title}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function ContactsContent({ metadata }: { metadata: MessageMetadata | null }) {
+  const cards = metadata?.contacts ?? []
+
+  return (
+    <div className="space-y-1.5">
+      {cards.map((card, i) => (
+        <div key={i} className="min-w-[200px] rounded-md bg-background/50 px-3 py-2 space-y-1">
+          <div className="flex items-center gap-2">
+            <UserRound className="size-4 flex-shrink-0 text-muted-foreground" />
+            <span className="text-sm font-medium truncate">{card.name}</span>
+          </div>
+          {card.organization && (
+            <p className="text-xs text-muted-foreground">{card.organization}</p>
+          )}
+          {card.phones.map((p) => (
+            <a
+              key={p.phone}
+              href={`tel:${p.phone}`}
+              className="flex items-center gap-1.5 text-xs hover:underline"
+            >
+              <Phone className="size-3 text-muted-foreground" />
+              {p.phone}
+              {p.type && <span className="text-muted-foreground">({p.type.toLowerCase()})</span>}
+            </a>
+          ))}
+          {card.emails.map((email) => (
+            <a
+              key={email}
+              href={`mailto:${email}`}
+              className="flex items-center gap-1.5 text-xs hover:underline"
+            >
+              <Mail className="size-3 text-muted-foreground" />
+              {email}
+            </a>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function OrderContent({ metadata }: { metadata: MessageMetadata | null }) {
+  const order = metadata?.order
+  if (!order) return <p className="text-sm">Order</p>
+
+  const format = (value: number) =>
+    order.currency
+      ? value.toLocaleString('en-US', { style: 'currency', currency: order.currency })
+      : value.toFixed(2)
+
+  return (
+    <div className="min-w-[220px] space-y-1.5">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <ShoppingCart className="size-4 flex-shrink-0" />
+        <span>
+          Order · {order.items.length} item{order.items.length === 1 ? '' : 's'}
+        </span>
+      </div>
+      <div className="rounded-md bg-background/50 px-3 py-2 space-y-0.5">
+        {order.items.map((item) => (
+          <div key={item.product_retailer_id} className="flex justify-between gap-3 text-xs">
+            <span className="truncate">
+              {item.quantity} × {item.product_retailer_id}
+            </span>
+            <span className="tabular-nums">{format(item.item_price * item.quantity)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between gap-3 border-t pt-1 text-xs font-semibold">
+          <span>Total</span>
+          <span className="tabular-nums">{format(order.total)}</span>
+        </div>
+      </div>
+      {order.text && <p className="text-sm">{order.text}</p>}
+    </div>
+  )
+}
+
+function ReferralContent({ referral }: { referral: NonNullable<MessageMetadata['referral']> }) {
+  return (
+    <a
+      href={referral.source_url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="mb-1.5 flex gap-2 rounded-md bg-background/50 p-2 hover:bg-background/80 transition-colors"
+    >
+      {referral.thumbnail_url || referral.image_url ? (
+        <img
+          src={referral.thumbnail_url || referral.image_url}
+          alt=""
+          className="size-12 flex-shrink-0 rounded object-cover"
+        />
+      ) : (
+        <Megaphone className="size-5 flex-shrink-0 text-muted-foreground" />
+      )}
+      <div className="min-w-0 flex-1">
+        <p className="flex items-center gap-1 text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">
+          From {referral.source_type === 'post' ? 'post' : 'ad'}
+          <ExternalLink className="size-2.5" />
+        </p>
+        {referral.headline && (
+          <p className="text-xs font-medium truncate">{referral.headline}</p>
+        )}
+        {referral.body && (
+          <p className="text-[11px] text-muted-foreground line-clamp-2">{referral.body}</p>
+        )}
+      </div>
+    </a>
+  )
+}
+
 // ---------------------------------------------------------------------------
 // Main component
 // ---------------------------------------------------------------------------
@@ -225,6 +423,11 @@ export function MessageBubble({ message, showSenderName = false }: MessageBubble
           </p>
         )}
 
+        {/* Ad / post the contact came from */}
+        {message.metadata?.referral && (
+          <ReferralContent referral={message.metadata.referral} />
+        )}
+
         {/* Message content */}
         {message.message_type === 'image' && message.media_url && (
           <ImageContent url={message.media_url} caption={message.content} />
@@ -245,6 +448,21 @@ export function MessageBubble({ message, showSenderName = false }: MessageBubble
         {message.message_type === 'location' && (
           <LocationContent content={message.content} />
         )}
+        {message.metadata?.interactive_message ? (
+          <InteractiveMessageContent
+            interactive={message.metadata.interactive_message}
+            selectedId={message.metadata.selection?.id}
+            isRight={isRight}
+          />
+        ) : (
+          (message.message_type === 'interactive' || message.message_type === 'button') && (
+            <ReplyContent metadata={message.metadata} content={message.content} />
+          )
+        )}
+        {message.message_type === 'contacts' && (
+          <ContactsContent metadata={message.metadata} />
+        )}
+        {message.message_type === 'order' && <OrderContent metadata={message.metadata} />}
         {(message.message_type === 'text' ||
           message.message_type === 'template' ||
           message.message_type === 'sticker' ||
@@ -1,9 +1,18 @@
 'use client'
 
 import { useCallback, useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
 import { cn } from '@/lib/utils'
+import { fillQuickReply } from '@/lib/quick-replies'
+import {
+  inferMediaType,
+  validateMediaSize,
+  type WhatsAppMediaType,
+} from '@/lib/whatsapp/media'
+import { SERVICE_WINDOW_CLOSED, type ServiceWindow } from '@/lib/whatsapp/service-window'
+import { CONTACT_OPTED_OUT } from '@/lib/contacts/consent'
 import {
   SendHorizontal,
   Paperclip,
@@ -12,16 +21,49 @@ import {
   FileText,
   X,
   Smile,
+  Music,
+  Loader2,
+  AlertCircle,
+  Lock,
+  ListChecks,
 } from 'lucide-react'
+import { useChatStore } from '@/stores/chat-store'
+import { useAuthStore } from '@/stores/auth-store'
+import type { QuickReply } from '@/types/database'
+import { QuickReplyPicker } from './quick-reply-picker'
+import { TemplatePicker, type TemplateSendInput } from './template-picker'
+import { InteractiveBuilder } from './interactive-builder'
+import type { InteractiveMessage } from '@/lib/whatsapp/interactive'
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+interface UploadedMedia {
+  mediaUrl: string
+  mediaMimeType: string
+  filename: string
+  type: WhatsAppMediaType
+}
+
+interface Attachment {
+  key: number
+  name: string
+  size: number | null
+  type: WhatsAppMediaType
+  previewUrl: string | null
+  progress: number
+  status: 'uploading' | 'ready' | 'error'
+  error?: string
+  uploaded?: UploadedMedia
+}
+
 interface MessageComposerProps {
   conversationId: string
   onMessageSent?: () => void
   disabled?: boolean
+  /** Undefined while unknown (messages still loading) */
+  serviceWindow?: ServiceWindow
 }
 
 // ---------------------------------------------------------------------------
@@ -32,20 +74,46 @@ export function MessageComposer({
   conversationId,
   onMessageSent,
   disabled = false,
+  serviceWindow,
 }: MessageComposerProps) {
   const [content, setContent] = useState('')
   const [isNoteMode, setIsNoteMode] = useState(false)
   const [isSending, setIsSending] = useState(false)
-  const [showQuickReplies, setShowQuickReplies] = useState(false)
+  const [quickRepliesOpen, setQuickRepliesOpen] = useState(false)
+  const [templatesOpen, setTemplatesOpen] = useState(false)
+  const [interactiveOpen, setInteractiveOpen] = useState(false)
+  const [attachment, setAttachment] = useState<Attachment | null>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const uploadRef = useRef<XMLHttpRequest | null>(null)
+  const attachmentKey = useRef(0)
+
+  const conversation = useChatStore((s) =>
+    s.conversations.find((c) => c.id === conversationId)
+  )
+  const currentUser = useAuthStore((s) => s.user)
+
+  // Outside the 24h window only templates (and internal notes) can be sent
+  const templateOnly = !!serviceWindow && !serviceWindow.isOpen && !isNoteMode
+
+  const clearAttachment = useCallback(() => {
+    uploadRef.current?.abort()
+    uploadRef.current = null
+    setAttachment((current) => {
+      if (current?.previewUrl?.startsWith('blob:')) URL.revokeObjectURL(current.previewUrl)
+      return null
+    })
+  }, [])
 
   // Reset note mode when conversation changes
   useEffect(() => {
     setIsNoteMode(false)
     setContent('')
-    setShowQuickReplies(false)
-  }, [conversationId])
+    setQuickRepliesOpen(false)
+    setTemplatesOpen(false)
+    setInteractiveOpen(false)
+    clearAttachment()
+  }, [conversationId, clearAttachment])
 
   // Auto-resize textarea
   useEffect(() => {
@@ -57,37 +125,47 @@ export function MessageComposer({
     el.style.height = `${Math.min(scrollH, maxH)}px`
   }, [content])
 
-  // Quick reply trigger
-  useEffect(() => {
-    if (content.startsWith('/')) {
-      setShowQuickReplies(true)
-    } else {
-      setShowQuickReplies(false)
-    }
-  }, [content])
-
   const handleSend = useCallback(async () => {
     const trimmed = content.trim()
-    if (!trimmed || isSending) return
+    const media = attachment?.status === 'ready' ? attachment.uploaded : undefined
+    if (isSending || templateOnly || (!trimmed && !media) || (attachment && !media)) return
 
     setIsSending(true)
     try {
       const response = await fetch('/api/messages/send', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          conversationId,
-          type: isNoteMode ? 'internal_note' : 'text',
-          content: trimmed,
-        }),
+        body: JSON.stringify(
+          media
+            ? {
+                conversationId,
+                type: media.type,
+                content: trimmed || undefined, // sent as the caption
+                mediaUrl: media.mediaUrl,
+                mediaMimeType: media.mediaMimeType,
+                filename: media.filename,
+              }
+            : {
+                conversationId,
+                type: isNoteMode ? 'internal_note' : 'text',
+                content: trimmed,
+              }
+        ),
       })
 
       if (!response.ok) {
+        const body = await response.json().catch(() => ({}))
+        if (body.code === SERVICE_WINDOW_CLOSED) {
+          toast.error(body.error)
+          setTemplatesOpen(true)
+          return
+        }
         throw new Error('Failed to send message')
       }
 
       setContent('')
       setIsNoteMode(false)
+      clearAttachment()
       onMessageSent?.()
       textareaRef.current?.focus()
     } catch (error) {
@@ -95,7 +173,69 @@ export function MessageComposer({
     } finally {
       setIsSending(false)
     }
-  }, [content, conversationId, isNoteMode, isSending, onMessageSent])
+  }, [
+    attachment,
+    clearAttachment,
+    content,
+    conversationId,
+    isNoteMode,
+    isSending,
+    onMessageSent,
+    templateOnly,
+  ])
+
+  const handleTemplateSend = useCallback(
+    async (input: TemplateSendInput): Promise<boolean> => {
+      try {
+        const response = await fetch('/api/messages/send', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ conversationId, type: 'template', ...input }),
+        })
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({}))
+          if (body.code === CONTACT_OPTED_OUT) {
+            toast.error(body.error)
+            return false
+          }
+          throw new Error('Failed to send template')
+        }
+
+        onMessageSent?.()
+        return true
+      } catch (error) {
+        console.error('Send template error:', error)
+        return false
+      }
+    },
+    [conversationId, onMessageSent]
+  )
+
+  const handleInteractiveSend = useCallback(
+    async (interactive: InteractiveMessage): Promise<boolean> => {
+      try {
+        const response = await fetch('/api/messages/send', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ conversationId, type: 'interactive', interactive }),
+        })
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({}))
+          toast.error(body.error || 'Failed to send interactive message')
+          return false
+        }
+
+        onMessageSent?.()
+        return true
+      } catch (error) {
+        console.error('Send interactive message error:', error)
+        return false
+      }
+    },
+    [conversationId, onMessageSent]
+  )
 
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -112,32 +252,123 @@ export function MessageComposer({
   }, [])
 
   const handleFileSelected = useCallback(
-    async (e: React.ChangeEvent<HTMLInputElement>) => {
+    (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0]
+
+      // Reset file input so the same file can be picked again
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ''
+      }
       if (!file) return
 
-      const formData = new FormData()
-      formData.append('file', file)
-      formData.append('conversation_id', conversationId)
+      clearAttachment()
 
-      try {
-        await fetch('/api/messages/send', {
-          method: 'POST',
-          body: formData,
-        })
-        onMessageSent?.()
-      } catch (error) {
-        console.error('Attachment upload error:', error)
+      const key = ++attachmentKey.current
+      const type = inferMediaType(file.type)
+      const previewUrl =
+        type === 'image' || type === 'video' || type === 'audio'
+          ? URL.createObjectURL(file)
+          : null
+      const sizeError = validateMediaSize(type, file.size)
+
+      setAttachment({
+        key,
+        name: file.name,
+        size: file.size,
+        type,
+        previewUrl,
+        progress: 0,
+        status: sizeError ? 'error' : 'uploading',
+        error: sizeError ?? undefined,
+      })
+      if (sizeError) return
+
+      // Upload right away so the agent sees progress while writing a caption
+      uploadRef.current = uploadAttachment(file, conversationId, {
+        onProgress: (progress) =>
+          setAttachment((current) =>
+            current?.key === key ? { ...current, progress } : current
+          ),
+        onDone: (uploaded) =>
+          setAttachment((current) =>
+            current?.key === key
+              ? { ...current, progress: 100, status: 'ready', uploaded }
+              : current
+          ),
+        onError: (error) =>
+          setAttachment((current) =>
+            current?.key === key ? { ...current, status: 'error', error } : current
+          ),
+      })
+      textareaRef.current?.focus()
+    },
+    [clearAttachment, conversationId]
+  )
+
+  // Typing "/" into an empty composer opens the quick reply picker
+  const handleContentChange = useCallback(
+    (value: string) => {
+      if (value === '/' && !content && !isNoteMode && !templateOnly) {
+        setQuickRepliesOpen(true)
       }
+      setContent(value)
+    },
+    [content, isNoteMode, templateOnly]
+  )
 
-      // Reset file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = ''
+  const handleQuickRepliesOpenChange = useCallback((open: boolean) => {
+    setQuickRepliesOpen(open)
+    if (!open) {
+      // Drop the lone slash that opened the picker
+      setContent((current) => (current === '/' ? '' : current))
+      textareaRef.current?.focus()
+    }
+  }, [])
+
+  const handleQuickReplySelect = useCallback(
+    (reply: QuickReply) => {
+      const filled = fillQuickReply(reply.content, {
+        conversation,
+        contact: conversation?.contact,
+        agent: currentUser,
+      })
+
+      setContent((current) =>
+        !current.trim() || current === '/' ? filled : `${current.trimEnd()} ${filled}`
+      )
+
+      // Replies with media become the attachment, the text its caption
+      if (reply.media_url && reply.media_type && !isNoteMode) {
+        clearAttachment()
+        const type = reply.media_type as WhatsAppMediaType
+        const filename = decodeURIComponent(reply.media_url.split('/').pop() || reply.title)
+        setAttachment({
+          key: ++attachmentKey.current,
+          name: filename,
+          size: null,
+          type,
+          previewUrl: type === 'document' ? null : reply.media_url,
+          progress: 100,
+          status: 'ready',
+          uploaded: {
+            mediaUrl: reply.media_url,
+            mediaMimeType: '',
+            filename,
+            type,
+          },
+        })
       }
+
+      setQuickRepliesOpen(false)
+      textareaRef.current?.focus()
     },
-    [conversationId, onMessageSent]
+    [clearAttachment, conversation, currentUser, isNoteMode]
   )
 
+  const canSend =
+    !templateOnly &&
+    (attachment ? attachment.status === 'ready' : content.trim().length > 0)
+
   return (
     <div
       className={cn(
@@ -163,139 +394,197 @@ export function MessageComposer({
         </div>
       )}
 
-      {/* Quick replies dropdown placeholder */}
-      {showQuickReplies && (
-        <div className="mx-4 mt-2 rounded-md border bg-popover p-2 shadow-md">
-          <p className="text-xs text-muted-foreground px-2 py-1">
-            Type a shortcut to search quick replies...
-          </p>
-          <div className="text-xs text-muted-foreground/60 px-2 py-1 italic">
-            No quick replies configured yet
-          </div>
+      {/* Template-only mode */}
+      {templateOnly && (
+        <div className="flex items-center gap-2 px-4 pt-2">
+          <Lock className="size-3.5 text-muted-foreground" />
+          <span className="text-xs text-muted-foreground">
+            {serviceWindow?.expiresAt
+              ? 'The 24h service window closed -- send a template to reopen the conversation'
+              : 'The contact has not written in yet -- start the conversation with a template'}
+          </span>
+          <Button
+            variant="outline"
+            size="xs"
+            onClick={() => setTemplatesOpen(true)}
+            disabled={disabled}
+            className="ml-auto"
+          >
+            <FileText className="size-3" />
+            Send template
+          </Button>
         </div>
       )}
 
+      {/* Attachment preview */}
+      {attachment && (
+        <AttachmentPreview attachment={attachment} onRemove={clearAttachment} />
+      )}
+
       {/* Composer row */}
-      <div className="flex items-end gap-1.5 p-3">
-        {/* Action buttons */}
-        <div className="flex items-center gap-0.5 pb-0.5">
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button
-                variant="ghost"
-                size="icon-sm"
-                onClick={handleAttachment}
-                disabled={disabled}
-              >
-                <Paperclip className="size-4" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent>Attach file</TooltipContent>
-          </Tooltip>
+      <QuickReplyPicker
+        open={quickRepliesOpen}
+        onOpenChange={handleQuickRepliesOpenChange}
+        onSelect={handleQuickReplySelect}
+      >
+        <div className="flex items-end gap-1.5 p-3">
+          {/* Action buttons */}
+          <div className="flex items-center gap-0.5 pb-0.5">
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={handleAttachment}
+                  disabled={disabled || isNoteMode || templateOnly}
+                >
+                  <Paperclip className="size-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Attach file</TooltipContent>
+            </Tooltip>
 
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button
-                variant="ghost"
-                size="icon-sm"
-                onClick={() => setShowQuickReplies(!showQuickReplies)}
-                disabled={disabled}
-              >
-                <Zap className="size-4" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent>Quick replies</TooltipContent>
-          </Tooltip>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => setQuickRepliesOpen(!quickRepliesOpen)}
+                  disabled={disabled || templateOnly}
+                >
+                  <Zap className="size-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Quick replies</TooltipContent>
+            </Tooltip>
 
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button
-                variant="ghost"
-                size="icon-sm"
-                disabled={disabled}
-              >
-                <FileText className="size-4" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent>Templates</TooltipContent>
-          </Tooltip>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => setTemplatesOpen(true)}
+                  disabled={disabled || isNoteMode}
+                >
+                  <FileText className="size-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Templates</TooltipContent>
+            </Tooltip>
 
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => setInteractiveOpen(true)}
+                  disabled={disabled || isNoteMode || templateOnly}
+                >
+                  <ListChecks className="size-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Buttons or list</TooltipContent>
+            </Tooltip>
+
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant={isNoteMode ? 'secondary' : 'ghost'}
+                  size="icon-sm"
+                  onClick={() => setIsNoteMode(!isNoteMode)}
+                  disabled={disabled || !!attachment}
+                  className={cn(isNoteMode && 'bg-amber-500/20 text-amber-600 dark:text-amber-400')}
+                >
+                  <StickyNote className="size-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                {isNoteMode ? 'Switch to message' : 'Internal note'}
+              </TooltipContent>
+            </Tooltip>
+
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  disabled={disabled}
+                >
+                  <Smile className="size-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Emoji</TooltipContent>
+            </Tooltip>
+          </div>
+
+          {/* Textarea */}
+          <textarea
+            ref={textareaRef}
+            value={content}
+            onChange={(e) => handleContentChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={
+              isNoteMode
+                ? 'Write an internal note...'
+                : templateOnly
+                  ? 'Only templates can be sent outside the 24h window'
+                  : attachment
+                  ? attachment.type === 'audio'
+                    ? 'Audio messages have no caption'
+                    : 'Add a caption...'
+                  : 'Type a message...'
+            }
+            disabled={disabled || isSending || templateOnly || attachment?.type === 'audio'}
+            rows={1}
+            className={cn(
+              'flex-1 resize-none rounded-lg border px-3 py-2 text-sm',
+              'bg-background outline-none placeholder:text-muted-foreground',
+              'focus-visible:ring-1 focus-visible:ring-ring',
+              'min-h-[38px] max-h-[120px]',
+              'disabled:opacity-50 disabled:cursor-not-allowed',
+              isNoteMode && 'border-amber-500/30 bg-amber-500/5'
+            )}
+          />
+
+          {/* Send button */}
           <Tooltip>
             <TooltipTrigger asChild>
               <Button
-                variant={isNoteMode ? 'secondary' : 'ghost'}
-                size="icon-sm"
-                onClick={() => setIsNoteMode(!isNoteMode)}
-                disabled={disabled}
-                className={cn(isNoteMode && 'bg-amber-500/20 text-amber-600 dark:text-amber-400')}
+                size="icon"
+                onClick={handleSend}
+                disabled={disabled || isSending || !canSend}
+                className={cn(
+                  'flex-shrink-0 mb-0.5',
+                  isNoteMode
+                    ? 'bg-amber-500 hover:bg-amber-600 text-white'
+                    : 'bg-emerald-600 hover:bg-emerald-700 text-white'
+                )}
               >
-                <StickyNote className="size-4" />
+                {isSending ? (
+                  <Loader2 className="size-4 animate-spin" />
+                ) : (
+                  <SendHorizontal className="size-4" />
+                )}
               </Button>
             </TooltipTrigger>
             <TooltipContent>
-              {isNoteMode ? 'Switch to message' : 'Internal note'}
+              {isNoteMode ? 'Send note' : 'Send message'}
             </TooltipContent>
           </Tooltip>
-
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button
-                variant="ghost"
-                size="icon-sm"
-                disabled={disabled}
-              >
-                <Smile className="size-4" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent>Emoji</TooltipContent>
-          </Tooltip>
         </div>
+      </QuickReplyPicker>
 
-        {/* Textarea */}
-        <textarea
-          ref={textareaRef}
-          value={content}
-          onChange={(e) => setContent(e.target.value)}
-          onKeyDown={handleKeyDown}
-          placeholder={
-            isNoteMode
-              ? 'Write an internal note...'
-              : 'Type a message...'
-          }
-          disabled={disabled || isSending}
-          rows={1}
-          className={cn(
-            'flex-1 resize-none rounded-lg border px-3 py-2 text-sm',
-            'bg-background outline-none placeholder:text-muted-foreground',
-            'focus-visible:ring-1 focus-visible:ring-ring',
-            'min-h-[38px] max-h-[120px]',
-            'disabled:opacity-50 disabled:cursor-not-allowed',
-            isNoteMode && 'border-amber-500/30 bg-amber-500/5'
-          )}
-        />
-
-        {/* Send button */}
-        <Tooltip>
-          <TooltipTrigger asChild>
-            <Button
-              size="icon"
-              onClick={handleSend}
-              disabled={disabled || isSending || !content.trim()}
-              className={cn(
-                'flex-shrink-0 mb-0.5',
-                isNoteMode
-                  ? 'bg-amber-500 hover:bg-amber-600 text-white'
-                  : 'bg-emerald-600 hover:bg-emerald-700 text-white'
-              )}
-            >
-              <SendHorizontal className="size-4" />
-            </Button>
-          </TooltipTrigger>
-          <TooltipContent>
-            {isNoteMode ? 'Send note' : 'Send message'}
-          </TooltipContent>
-        </Tooltip>
-      </div>
+      <TemplatePicker
+        open={templatesOpen}
+        onOpenChange={setTemplatesOpen}
+        onSend={handleTemplateSend}
+      />
+
+      <InteractiveBuilder
+        open={interactiveOpen}
+        onOpenChange={setInteractiveOpen}
+        onSend={handleInteractiveSend}
+      />
 
       {/* Hidden file input */}
       <input
@@ -308,3 +597,111 @@ export function MessageComposer({
     </div>
   )
 }
+
+// ---------------------------------------------------------------------------
+// Attachment preview
+// ---------------------------------------------------------------------------
+
+function AttachmentPreview({
+  attachment,
+  onRemove,
+}: {
+  attachment: Attachment
+  onRemove: () => void
+}) {
+  const { name, size, type, previewUrl, progress, status, error } = attachment
+
+  return (
+    <div className="mx-4 mt-2 flex items-center gap-3 rounded-md border bg-muted/40 p-2">
+      <div className="flex size-14 flex-shrink-0 items-center justify-center overflow-hidden rounded bg-muted">
+        {type === 'image' && previewUrl ? (
+          <img src={previewUrl} alt={name} className="size-full object-cover" />
+        ) : type === 'video' && previewUrl ? (
+          <video src={previewUrl} className="size-full object-cover" muted />
+        ) : type === 'audio' ? (
+          <Music className="size-6 text-muted-foreground" />
+        ) : (
+          <FileText className="size-6 text-muted-foreground" />
+        )}
+      </div>
+
+      <div className="min-w-0 flex-1 space-y-1">
+        <p className="text-xs font-medium truncate">{name}</p>
+        {type === 'audio' && previewUrl && (
+          <audio src={previewUrl} controls className="h-7 w-full max-w-xs" />
+        )}
+        {status === 'error' ? (
+          <p className="flex items-center gap-1 text-[11px] text-destructive">
+            <AlertCircle className="size-3" />
+            {error || 'Upload failed'}
+          </p>
+        ) : (
+          <div className="flex items-center gap-2">
+            <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-muted">
+              <div
+                className={cn(
+                  'h-full rounded-full transition-all',
+                  status === 'ready' ? 'bg-emerald-500' : 'bg-primary'
+                )}
+                style={{ width: `${progress}%` }}
+              />
+            </div>
+            <span className="text-[11px] text-muted-foreground tabular-nums">
+              {status === 'ready' ? (size !== null ? formatFileSize(size) : 'Ready') : `${progress}%`}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <Button variant="ghost" size="icon-xs" onClick={onRemove}>
+        <X className="size-3" />
+      </Button>
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// XMLHttpRequest instead of fetch so upload progress can be reported
+function uploadAttachment(
+  file: File,
+  conversationId: string,
+  handlers: {
+    onProgress: (progress: number) => void
+    onDone: (uploaded: UploadedMedia) => void
+    onError: (error: string) => void
+  }
+): XMLHttpRequest {
+  const formData = new FormData()
+  formData.append('file', file)
+  formData.append('conversation_id', conversationId)
+
+  const xhr = new XMLHttpRequest()
+  xhr.open('POST', '/api/messages/upload')
+  xhr.responseType = 'json'
+
+  xhr.upload.onprogress = (e) => {
+    if (e.lengthComputable) {
+      handlers.onProgress(Math.min(99, Math.round((e.loaded / e.total) * 100)))
+    }
+  }
+  xhr.onload = () => {
+    if (xhr.status >= 200 && xhr.status < 300) {
+      handlers.onDone(xhr.response as UploadedMedia)
+    } else {
+      handlers.onError(xhr.response?.error || 'Upload failed')
+    }
+  }
+  xhr.onerror = () => handlers.onError('Upload failed')
+
+  xhr.send(formData)
+  return xhr
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
@@ -9,6 +9,8 @@ import { Skeleton } from '@/components/ui/skeleton'
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { useChatStore } from '@/stores/chat-store'
+import { useServiceWindow } from '@/hooks/use-service-window'
+import { formatWindowRemaining } from '@/lib/whatsapp/service-window'
 import { MessageBubble } from './message-bubble'
 import { MessageComposer } from './message-composer'
 import { cn } from '@/lib/utils'
@@ -21,6 +23,7 @@ import {
   Phone,
   Loader2,
   ArrowDown,
+  Clock,
 } from 'lucide-react'
 import type { Conversation, Message } from '@/types/database'
 
@@ -151,6 +154,13 @@ export function MessageThread({ conversationId }: MessageThreadProps) {
   // Grouped messages
   const groupedMessages = useMemo(() => groupMessagesByDate(messages), [messages])
 
+  // 24h customer service window, from the contact's last inbound message
+  const lastInboundAt = useMemo(
+    () => messages.findLast((m) => m.sender_type === 'contact')?.created_at ?? null,
+    [messages]
+  )
+  const serviceWindow = useServiceWindow(lastInboundAt)
+
   // Actions
   const handleAction = useCallback(
     async (action: 'resolve' | 'close' | 'transfer') => {
@@ -252,6 +262,34 @@ export function MessageThread({ conversationId }: MessageThreadProps) {
               {statusInfo.label}
             </Badge>
           )}
+
+          {!isLoadingMessages && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge
+                  variant="outline"
+                  className={cn(
+                    'text-[10px] h-5 flex-shrink-0 gap-1 tabular-nums',
+                    !serviceWindow.isOpen
+                      ? 'bg-muted text-muted-foreground border-border'
+                      : serviceWindow.remainingMs < 60 * 60 * 1000
+                        ? 'bg-orange-500/15 text-orange-600 dark:text-orange-400 border-orange-500/30'
+                        : 'bg-emerald-500/15 text-emerald-600 dark:text-emerald-400 border-emerald-500/30'
+                  )}
+                >
+                  <Clock className="size-3" />
+                  {serviceWindow.isOpen
+                    ? formatWindowRemaining(serviceWindow.remainingMs)
+                    : 'Window closed'}
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent>
+                {serviceWindow.isOpen
+                  ? `Free-form messages allowed until ${new Date(serviceWindow.expiresAt!).toLocaleString()}`
+                  : 'Outside the 24h service window -- only templates can be sent'}
+              </TooltipContent>
+            </Tooltip>
+          )}
         </div>
 
         {/* Right: action buttons */}
@@ -412,6 +450,7 @@ export function MessageThread({ conversationId }: MessageThreadProps) {
         conversationId={conversationId}
         onMessageSent={scrollToBottom}
         disabled={conversation?.status === 'closed'}
+        serviceWindow={isLoadingMessages ? undefined : serviceWindow}
       />
     </div>
   )
@@ -0,0 +1,105 @@
+'use client'
+
+import { useMemo } from 'react'
+import Link from 'next/link'
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command'
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover'
+import { useQuickReplies } from '@/hooks/use-quick-replies'
+import { Paperclip } from 'lucide-react'
+import type { QuickReply } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface QuickReplyPickerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSelect: (reply: QuickReply) => void
+  /** Element the picker opens above (the composer) */
+  children: React.ReactNode
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function QuickReplyPicker({ open, onOpenChange, onSelect, children }: QuickReplyPickerProps) {
+  const { quickReplies, isLoading } = useQuickReplies()
+
+  // Group by category, uncategorized last
+  const groups = useMemo(() => {
+    const map = new Map<string, QuickReply[]>()
+    for (const reply of quickReplies) {
+      const key = reply.category || ''
+      map.set(key, [...(map.get(key) ?? []), reply])
+    }
+    return Array.from(map.entries()).sort(([a], [b]) =>
+      a === '' ? 1 : b === '' ? -1 : a.localeCompare(b)
+    )
+  }, [quickReplies])
+
+  return (
+    <Popover open={open} onOpenChange={onOpenChange}>
+      <PopoverAnchor asChild>{children}</PopoverAnchor>
+      <PopoverContent
+        side="top"
+        align="start"
+        className="w-[min(28rem,calc(100vw-2rem))] p-0"
+      >
+        <Command loop>
+          <CommandInput placeholder="Search quick replies..." />
+          <CommandList className="max-h-72">
+            <CommandEmpty>
+              {isLoading ? (
+                'Loading...'
+              ) : quickReplies.length === 0 ? (
+                <span>
+                  No quick replies configured yet.{' '}
+                  <Link href="/settings/quick-replies" className="underline">
+                    Create one
+                  </Link>
+                </span>
+              ) : (
+                'No matching quick replies'
+              )}
+            </CommandEmpty>
+            {groups.map(([category, replies]) => (
+              <CommandGroup key={category || '__none'} heading={category || 'General'}>
+                {replies.map((reply) => (
+                  <CommandItem
+                    key={reply.id}
+                    value={reply.id}
+                    keywords={[reply.shortcut, reply.title, reply.content]}
+                    onSelect={() => onSelect(reply)}
+                    className="flex-col items-start gap-0.5"
+                  >
+                    <div className="flex w-full items-center gap-2">
+                      <span className="font-mono text-xs text-emerald-600 dark:text-emerald-400">
+                        {reply.shortcut}
+                      </span>
+                      <span className="text-xs font-medium truncate">{reply.title}</span>
+                      {reply.media_url && (
+                        <Paperclip className="ml-auto size-3 text-muted-foreground" />
+                      )}
+                    </div>
+                    <span className="w-full text-[11px] text-muted-foreground line-clamp-2">
+                      {reply.content}
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,265 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { ExternalLink, FileText, Image as ImageIcon, Loader2, Phone, Reply, Video } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Command,
+  CommandEmpty,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+import { useWhatsAppTemplates } from '@/hooks/use-whatsapp-templates'
+import {
+  buildTemplateComponents,
+  getTemplateFields,
+  isTemplateComplete,
+  renderTemplatePreview,
+  type TemplatePreview,
+  type TemplateValues,
+} from '@/lib/whatsapp/templates'
+import type { WhatsAppTemplate } from '@/types/database'
+import type { TemplateComponent } from '@/types/whatsapp'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TemplateSendInput {
+  templateName: string
+  templateLanguage: string
+  templateComponents: TemplateComponent[]
+  /** Rendered body, stored as the message content */
+  content: string
+}
+
+interface TemplatePickerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSend: (input: TemplateSendInput) => Promise<boolean>
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function TemplatePicker({ open, onOpenChange, onSend }: TemplatePickerProps) {
+  const { templates, isLoading } = useWhatsAppTemplates()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [values, setValues] = useState<TemplateValues>({})
+  const [isSending, setIsSending] = useState(false)
+
+  const approved = useMemo(
+    () => templates.filter((t) => t.status === 'APPROVED'),
+    [templates]
+  )
+  const selected = approved.find((t) => t.id === selectedId) ?? null
+  const fields = useMemo(() => (selected ? getTemplateFields(selected) : []), [selected])
+  const preview = useMemo(
+    () => (selected ? renderTemplatePreview(selected, values) : null),
+    [selected, values]
+  )
+
+  // Start fresh every time the dialog opens
+  useEffect(() => {
+    if (!open) return
+    setSelectedId(null)
+    setValues({})
+  }, [open])
+
+  const selectTemplate = (template: WhatsAppTemplate) => {
+    setSelectedId(template.id)
+    setValues({})
+  }
+
+  const handleSend = async () => {
+    if (!selected || !preview) return
+    setIsSending(true)
+    try {
+      const ok = await onSend({
+        templateName: selected.name,
+        templateLanguage: selected.language,
+        templateComponents: buildTemplateComponents(selected, values),
+        content: preview.body,
+      })
+      if (ok) onOpenChange(false)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Send template</DialogTitle>
+          <DialogDescription>
+            Approved WhatsApp templates can be sent at any time, including outside the
+            24h service window.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-[16rem_1fr]">
+          {/* Template list */}
+          <Command className="rounded-md border" loop>
+            <CommandInput placeholder="Search templates..." />
+            <CommandList className="max-h-96">
+              <CommandEmpty>
+                {isLoading ? (
+                  'Loading...'
+                ) : approved.length === 0 ? (
+                  <span>
+                    No approved templates.{' '}
+                    <Link href="/settings/templates" className="underline">
+                      Sync from WhatsApp
+                    </Link>
+                  </span>
+                ) : (
+                  'No matching templates'
+                )}
+              </CommandEmpty>
+              {approved.map((template) => (
+                <CommandItem
+                  key={template.id}
+                  value={template.id}
+                  keywords={[template.name, template.language, template.category]}
+                  onSelect={() => selectTemplate(template)}
+                  className={cn(
+                    'flex-col items-start gap-0.5',
+                    template.id === selectedId && 'bg-accent'
+                  )}
+                >
+                  <span className="w-full truncate font-mono text-xs">{template.name}</span>
+                  <span className="text-[10px] text-muted-foreground">
+                    {template.language} · {template.category.toLowerCase()}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandList>
+          </Command>
+
+          {/* Variables + preview */}
+          {selected && preview ? (
+            <div className="grid min-w-0 gap-4 lg:grid-cols-2">
+              <div className="space-y-3">
+                {fields.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    This template has no variables.
+                  </p>
+                ) : (
+                  fields.map((field) => (
+                    <div key={field.key} className="space-y-1.5">
+                      <Label htmlFor={`tpl-${field.key}`} className="text-xs">
+                        {field.label}
+                      </Label>
+                      <Input
+                        id={`tpl-${field.key}`}
+                        value={values[field.key] ?? ''}
+                        onChange={(e) =>
+                          setValues((current) => ({ ...current, [field.key]: e.target.value }))
+                        }
+                        placeholder={field.kind === 'media' ? 'https://...' : field.example}
+                      />
+                    </div>
+                  ))
+                )}
+              </div>
+              <TemplatePreviewBubble preview={preview} />
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center gap-2 rounded-md border border-dashed p-8 text-center">
+              <FileText className="size-6 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">Pick a template to fill it in</p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSend}
+            disabled={!selected || isSending || !isTemplateComplete(fields, values)}
+            className="bg-emerald-600 hover:bg-emerald-700 text-white"
+          >
+            {isSending && <Loader2 className="size-4 animate-spin" />}
+            Send template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Preview bubble
+// ---------------------------------------------------------------------------
+
+function TemplatePreviewBubble({ preview }: { preview: TemplatePreview }) {
+  const { header, body, footer, buttons } = preview
+
+  return (
+    <div className="rounded-lg bg-muted/50 p-3">
+      <div className="max-w-full space-y-1.5 rounded-lg rounded-tr-none bg-emerald-100 p-2.5 text-sm text-foreground shadow-sm dark:bg-emerald-900/40">
+        {header &&
+          (header.format === 'TEXT' ? (
+            header.text && <p className="font-semibold">{header.text}</p>
+          ) : header.format === 'IMAGE' && header.mediaUrl ? (
+            <img src={header.mediaUrl} alt="" className="max-h-40 w-full rounded object-cover" />
+          ) : (
+            <div className="flex h-24 items-center justify-center rounded bg-background/60">
+              {header.format === 'VIDEO' ? (
+                <Video className="size-6 text-muted-foreground" />
+              ) : header.format === 'IMAGE' ? (
+                <ImageIcon className="size-6 text-muted-foreground" />
+              ) : (
+                <FileText className="size-6 text-muted-foreground" />
+              )}
+            </div>
+          ))}
+        <p className="whitespace-pre-wrap break-words">{body}</p>
+        {footer && <p className="text-xs text-muted-foreground">{footer}</p>}
+      </div>
+
+      {buttons.length > 0 && (
+        <div className="mt-1 space-y-1">
+          {buttons.map((button, i) => (
+            <div
+              key={i}
+              title={button.url}
+              className="flex items-center justify-center gap-1.5 rounded-lg bg-background px-2 py-1.5 text-xs font-medium text-sky-600 shadow-sm dark:text-sky-400"
+            >
+              {button.type === 'URL' ? (
+                <ExternalLink className="size-3" />
+              ) : button.type === 'PHONE_NUMBER' ? (
+                <Phone className="size-3" />
+              ) : (
+                <Reply className="size-3" />
+              )}
+              {button.text}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Badge variant="outline" className="mt-2 text-[10px]">
+        Preview
+      </Badge>
+    </div>
+  )
+}
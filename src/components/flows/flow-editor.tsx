@@ -0,0 +1,518 @@
+'use client'
+
+import { useCallback, useMemo, useRef, useState } from 'react'
+import Link from 'next/link'
+import {
+  ReactFlow,
+  ReactFlowProvider,
+  Background,
+  Controls,
+  MiniMap,
+  addEdge,
+  useEdgesState,
+  useNodesState,
+  useReactFlow,
+  type Connection,
+  type Edge,
+  type NodeTypes,
+} from '@xyflow/react'
+import '@xyflow/react/dist/style.css'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Separator } from '@/components/ui/separator'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { validateFlowData } from '@/lib/flows/validation'
+import { cn } from '@/lib/utils'
+import {
+  AlertTriangle,
+  FlaskConical,
+  Archive,
+  ArrowLeft,
+  Loader2,
+  RotateCcw,
+  Rocket,
+  Save,
+  Settings2,
+  Undo2,
+} from 'lucide-react'
+import type {
+  Flow,
+  FlowCondition,
+  FlowEdge,
+  FlowNode,
+  FlowStatus,
+} from '@/types/database'
+import { ActiveFlowNodeContext, FlowNodeCard, type FlowCanvasNode } from './flow-node-card'
+import { FlowInspector } from './flow-inspector'
+import { FlowSimulator } from './flow-simulator'
+import { FLOW_STATUS_BADGES, FlowSettingsDialog, TRIGGER_LABELS } from './flow-settings-dialog'
+import { NodePalette, PALETTE_DRAG_TYPE } from './node-palette'
+import {
+  FLOW_NODE_CATALOG,
+  describeCondition,
+  getNodeDefinition,
+  type FlowNodeDefinition,
+} from './node-catalog'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const nodeTypes: NodeTypes = Object.fromEntries(
+  FLOW_NODE_CATALOG.map((d) => [d.type, FlowNodeCard])
+)
+
+function toCanvasNodes(nodes: FlowNode[]): FlowCanvasNode[] {
+  return nodes.map((n) => ({
+    id: n.id,
+    type: n.type,
+    position: n.position,
+    data: n.data ?? {},
+  }))
+}
+
+function toCanvasEdges(edges: FlowEdge[]): Edge[] {
+  return edges.map((e) => ({
+    id: e.id,
+    source: e.source,
+    target: e.target,
+    sourceHandle: e.sourceHandle ?? null,
+    label: e.label ?? describeCondition(e.condition as FlowCondition | undefined),
+    data: e.condition ? { condition: e.condition } : {},
+  }))
+}
+
+function toFlowData(nodes: FlowCanvasNode[], edges: Edge[]): NonNullable<Flow['flow_data']> {
+  return {
+    nodes: nodes.map((n) => ({
+      id: n.id,
+      type: n.type ?? 'send_text',
+      data: n.data,
+      position: { x: Math.round(n.position.x), y: Math.round(n.position.y) },
+    })),
+    edges: edges.map((e) => ({
+      id: e.id,
+      source: e.source,
+      target: e.target,
+      ...(e.sourceHandle ? { sourceHandle: e.sourceHandle } : {}),
+      ...(typeof e.label === 'string' && e.label ? { label: e.label } : {}),
+      ...(e.data?.condition ? { condition: e.data.condition as Record<string, unknown> } : {}),
+    })),
+  }
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+interface FlowEditorProps {
+  flow: Flow
+  onFlowChange: (flow: Flow) => void
+}
+
+export function FlowEditor(props: FlowEditorProps) {
+  return (
+    <ReactFlowProvider>
+      <FlowEditorInner {...props} />
+    </ReactFlowProvider>
+  )
+}
+
+function FlowEditorInner({ flow, onFlowChange }: FlowEditorProps) {
+  const { screenToFlowPosition } = useReactFlow()
+  const wrapperRef = useRef<HTMLDivElement>(null)
+
+  const [nodes, setNodes, onNodesChange] = useNodesState<FlowCanvasNode>(
+    toCanvasNodes(flow.flow_data?.nodes ?? [])
+  )
+  const [edges, setEdges, onEdgesChange] = useEdgesState<Edge>(
+    toCanvasEdges(flow.flow_data?.edges ?? [])
+  )
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null)
+  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null)
+  const [isDirty, setIsDirty] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [settingsOpen, setSettingsOpen] = useState(false)
+  const [simulatorOpen, setSimulatorOpen] = useState(false)
+  const [activeNodeId, setActiveNodeId] = useState<string | null>(null)
+
+  const readOnly = flow.status !== 'draft'
+  const statusBadge = FLOW_STATUS_BADGES[flow.status]
+
+  const selectedNode = nodes.find((n) => n.id === selectedNodeId) ?? null
+  const selectedEdge = edges.find((e) => e.id === selectedEdgeId) ?? null
+  const problems = useMemo(() => validateFlowData(toFlowData(nodes, edges)), [nodes, edges])
+
+  // -------------------------------------------------------------------------
+  // Persistence
+  // -------------------------------------------------------------------------
+
+  const patchFlow = useCallback(
+    async (updates: Record<string, unknown>): Promise<boolean> => {
+      const res = await fetch(`/api/flows/${flow.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      })
+      const body = await res.json().catch(() => ({}))
+
+      if (!res.ok) {
+        toast.error(body.error || 'Failed to update flow', {
+          description: Array.isArray(body.problems) ? body.problems.join('\n') : undefined,
+        })
+        return false
+      }
+
+      onFlowChange(body.data)
+      return true
+    },
+    [flow.id, onFlowChange]
+  )
+
+  const handleSave = useCallback(async () => {
+    setIsSaving(true)
+    try {
+      const ok = await patchFlow({ flow_data: toFlowData(nodes, edges) })
+      if (ok) {
+        setIsDirty(false)
+        toast.success('Flow saved')
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }, [patchFlow, nodes, edges])
+
+  const handleStatusChange = useCallback(
+    async (status: FlowStatus) => {
+      setIsSaving(true)
+      try {
+        // Publishing saves the current canvas in the same request
+        const ok = await patchFlow(
+          status === 'published' && isDirty
+            ? { status, flow_data: toFlowData(nodes, edges) }
+            : { status }
+        )
+        if (ok) {
+          if (status === 'published') setIsDirty(false)
+          toast.success(`Flow ${FLOW_STATUS_BADGES[status].label.toLowerCase()}`)
+        }
+      } finally {
+        setIsSaving(false)
+      }
+    },
+    [patchFlow, isDirty, nodes, edges]
+  )
+
+  // -------------------------------------------------------------------------
+  // Canvas editing
+  // -------------------------------------------------------------------------
+
+  const addNode = useCallback(
+    (definition: FlowNodeDefinition, position?: { x: number; y: number }) => {
+      if (readOnly) return
+
+      const bounds = wrapperRef.current?.getBoundingClientRect()
+      const fallback = bounds
+        ? screenToFlowPosition({ x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 })
+        : { x: 0, y: 0 }
+
+      const id = definition.type === 'start' ? 'start' : generateId(definition.type)
+      setNodes((current) => [
+        ...current,
+        {
+          id,
+          type: definition.type,
+          position: position ?? fallback,
+          data: structuredClone(definition.defaultData),
+        },
+      ])
+      setSelectedNodeId(id)
+      setSelectedEdgeId(null)
+      setIsDirty(true)
+    },
+    [readOnly, screenToFlowPosition, setNodes]
+  )
+
+  const handleConnect = useCallback(
+    (connection: Connection) => {
+      if (readOnly) return
+      setEdges((current) =>
+        addEdge({ ...connection, id: generateId('edge'), data: {} }, current)
+      )
+      setIsDirty(true)
+    },
+    [readOnly, setEdges]
+  )
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent) => {
+      e.preventDefault()
+      const type = e.dataTransfer.getData(PALETTE_DRAG_TYPE)
+      if (!type) return
+      addNode(getNodeDefinition(type), screenToFlowPosition({ x: e.clientX, y: e.clientY }))
+    },
+    [addNode, screenToFlowPosition]
+  )
+
+  const updateNodeData = useCallback(
+    (id: string, data: Record<string, unknown>) => {
+      setNodes((current) => current.map((n) => (n.id === id ? { ...n, data } : n)))
+      // Drop edges whose option handle no longer exists
+      const optionIds = Array.isArray(data.options)
+        ? (data.options as Array<{ id: string }>).map((o) => o.id)
+        : null
+      if (optionIds) {
+        setEdges((current) =>
+          current.filter(
+            (e) =>
+              e.source !== id ||
+              !e.sourceHandle ||
+              e.sourceHandle === 'default' ||
+              optionIds.includes(e.sourceHandle)
+          )
+        )
+      }
+      setIsDirty(true)
+    },
+    [setNodes, setEdges]
+  )
+
+  const deleteNode = useCallback(
+    (id: string) => {
+      setNodes((current) => current.filter((n) => n.id !== id))
+      setEdges((current) => current.filter((e) => e.source !== id && e.target !== id))
+      setSelectedNodeId(null)
+      setIsDirty(true)
+    },
+    [setNodes, setEdges]
+  )
+
+  const updateEdge = useCallback(
+    (id: string, updates: { label?: string; condition?: FlowCondition | undefined }) => {
+      setEdges((current) =>
+        current.map((e) => {
+          if (e.id !== id) return e
+          const next: Edge = { ...e }
+          if ('condition' in updates) {
+            next.data = updates.condition ? { condition: updates.condition } : {}
+            next.label = describeCondition(updates.condition)
+          }
+          if (updates.label !== undefined) next.label = updates.label
+          return next
+        })
+      )
+      setIsDirty(true)
+    },
+    [setEdges]
+  )
+
+  const deleteEdge = useCallback(
+    (id: string) => {
+      setEdges((current) => current.filter((e) => e.id !== id))
+      setSelectedEdgeId(null)
+      setIsDirty(true)
+    },
+    [setEdges]
+  )
+
+  return (
+    <div className="flex h-[calc(100vh-3.5rem)] flex-col">
+      {/* ----------------------------------------------------------------- */}
+      {/* TOOLBAR */}
+      {/* ----------------------------------------------------------------- */}
+      <div className="flex h-12 flex-shrink-0 items-center gap-2 border-b px-3">
+        <Button variant="ghost" size="icon-sm" asChild>
+          <Link href="/flows">
+            <ArrowLeft className="size-4" />
+          </Link>
+        </Button>
+        <div className="min-w-0">
+          <h1 className="text-sm font-semibold truncate">{flow.name}</h1>
+          <p className="text-[11px] text-muted-foreground truncate">
+            {TRIGGER_LABELS[flow.trigger_type]?.label ?? flow.trigger_type}
+            {flow.trigger_type === 'keyword' && flow.trigger_keywords.length > 0 &&
+              `: ${flow.trigger_keywords.join(', ')}`}
+          </p>
+        </div>
+        <Badge variant="outline" className={cn('text-[10px] h-5', statusBadge.className)}>
+          {statusBadge.label}
+        </Badge>
+        {isDirty && <span className="text-[11px] text-muted-foreground">Unsaved changes</span>}
+
+        <div className="flex-1" />
+
+        {problems.length > 0 && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <span className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+                <AlertTriangle className="size-3.5" />
+                {problems.length} {problems.length === 1 ? 'issue' : 'issues'}
+              </span>
+            </TooltipTrigger>
+            <TooltipContent className="max-w-xs">
+              <ul className="space-y-0.5">
+                {problems.map((p) => (
+                  <li key={p}>{p}</li>
+                ))}
+              </ul>
+            </TooltipContent>
+          </Tooltip>
+        )}
+
+        <Button
+          variant={simulatorOpen ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => setSimulatorOpen((open) => !open)}
+        >
+          <FlaskConical className="size-4" />
+          Test
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => setSettingsOpen(true)}>
+          <Settings2 className="size-4" />
+          Settings
+        </Button>
+
+        <Separator orientation="vertical" className="h-5" />
+
+        {flow.status === 'draft' && (
+          <>
+            <Button variant="outline" size="sm" onClick={handleSave} disabled={isSaving || !isDirty}>
+              {isSaving ? <Loader2 className="size-4 animate-spin" /> : <Save className="size-4" />}
+              Save
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => handleStatusChange('archived')} disabled={isSaving}>
+              <Archive className="size-4" />
+              Archive
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => handleStatusChange('published')}
+              disabled={isSaving || problems.length > 0}
+              className="bg-emerald-600 hover:bg-emerald-700 text-white"
+            >
+              <Rocket className="size-4" />
+              Publish
+            </Button>
+          </>
+        )}
+        {flow.status === 'published' && (
+          <>
+            <Button variant="ghost" size="sm" onClick={() => handleStatusChange('archived')} disabled={isSaving}>
+              <Archive className="size-4" />
+              Archive
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleStatusChange('draft')} disabled={isSaving}>
+              <Undo2 className="size-4" />
+              Unpublish to edit
+            </Button>
+          </>
+        )}
+        {flow.status === 'archived' && (
+          <Button variant="outline" size="sm" onClick={() => handleStatusChange('draft')} disabled={isSaving}>
+            <RotateCcw className="size-4" />
+            Restore as draft
+          </Button>
+        )}
+      </div>
+
+      {/* ----------------------------------------------------------------- */}
+      {/* BODY */}
+      {/* ----------------------------------------------------------------- */}
+      <div className="flex flex-1 min-h-0">
+        <div className="w-56 flex-shrink-0 border-r bg-background">
+          <NodePalette
+            onAddNode={(d) => addNode(d)}
+            disabled={readOnly}
+            hasStartNode={nodes.some((n) => n.type === 'start')}
+          />
+        </div>
+
+        <div
+          ref={wrapperRef}
+          className="flex-1 min-w-0"
+          onDragOver={(e) => {
+            e.preventDefault()
+            e.dataTransfer.dropEffect = 'move'
+          }}
+          onDrop={handleDrop}
+        >
+          <ActiveFlowNodeContext.Provider value={simulatorOpen ? activeNodeId : null}>
+            <ReactFlow
+              nodes={nodes}
+              edges={edges}
+              nodeTypes={nodeTypes}
+              onNodesChange={(changes) => {
+                onNodesChange(changes)
+                if (changes.some((c) => c.type === 'position' || c.type === 'remove')) setIsDirty(true)
+              }}
+              onEdgesChange={(changes) => {
+                onEdgesChange(changes)
+                if (changes.some((c) => c.type === 'remove')) setIsDirty(true)
+              }}
+              onConnect={handleConnect}
+              onNodeClick={(_, node) => {
+                setSelectedNodeId(node.id)
+                setSelectedEdgeId(null)
+              }}
+              onEdgeClick={(_, edge) => {
+                setSelectedEdgeId(edge.id)
+                setSelectedNodeId(null)
+              }}
+              onPaneClick={() => {
+                setSelectedNodeId(null)
+                setSelectedEdgeId(null)
+              }}
+              nodesDraggable={!readOnly}
+              nodesConnectable={!readOnly}
+              edgesReconnectable={!readOnly}
+              deleteKeyCode={readOnly ? null : ['Backspace', 'Delete']}
+              defaultEdgeOptions={{ type: 'smoothstep' }}
+              fitView
+            >
+              <Background gap={16} />
+              <Controls />
+              <MiniMap pannable zoomable className="!bg-background" />
+            </ReactFlow>
+          </ActiveFlowNodeContext.Provider>
+        </div>
+
+        <div className={cn('flex-shrink-0 border-l bg-background', simulatorOpen ? 'w-80' : 'w-72')}>
+          {simulatorOpen ? (
+            <FlowSimulator
+              flowId={flow.id}
+              nodes={nodes}
+              edges={edges}
+              getFlowData={() => toFlowData(nodes, edges)}
+              onActiveNodeChange={setActiveNodeId}
+              onClose={() => setSimulatorOpen(false)}
+            />
+          ) : (
+            <FlowInspector
+              node={selectedNode}
+              edge={selectedEdge}
+              readOnly={readOnly}
+              onNodeChange={updateNodeData}
+              onNodeDelete={deleteNode}
+              onEdgeChange={updateEdge}
+              onEdgeDelete={deleteEdge}
+            />
+          )}
+        </div>
+      </div>
+
+      <FlowSettingsDialog
+        flow={flow}
+        open={settingsOpen}
+        onOpenChange={setSettingsOpen}
+        onSave={async (updates) => {
+          await patchFlow(updates)
+        }}
+      />
+    </div>
+  )
+}
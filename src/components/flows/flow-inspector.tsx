@@ -0,0 +1,468 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, Trash2, X } from 'lucide-react'
+import type { Edge } from '@xyflow/react'
+import type { FlowCondition } from '@/types/database'
+import type { FlowCanvasNode } from './flow-node-card'
+import { getNodeDefinition } from './node-catalog'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const CONDITION_OPERATORS: Array<{ value: FlowCondition['operator']; label: string }> = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
+  { value: 'contains', label: 'contains' },
+  { value: 'starts_with', label: 'starts with' },
+  { value: 'matches', label: 'matches regex' },
+  { value: 'greater_than', label: 'greater than' },
+  { value: 'less_than', label: 'less than' },
+  { value: 'is_set', label: 'is set' },
+  { value: 'is_empty', label: 'is empty' },
+]
+
+function Field({ label, hint, children }: { label: string; hint?: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-xs">{label}</Label>
+      {children}
+      {hint && <p className="text-[11px] text-muted-foreground">{hint}</p>}
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Node inspector
+// ---------------------------------------------------------------------------
+
+interface NodeInspectorProps {
+  node: FlowCanvasNode
+  readOnly: boolean
+  onChange: (data: Record<string, unknown>) => void
+  onDelete: () => void
+}
+
+function NodeInspector({ node, readOnly, onChange, onDelete }: NodeInspectorProps) {
+  const data = node.data
+  const definition = getNodeDefinition(node.type ?? '')
+  const set = (key: string, value: unknown) => onChange({ ...data, [key]: value })
+  const text = (key: string) => (typeof data[key] === 'string' ? (data[key] as string) : '')
+
+  const options = Array.isArray(data.options)
+    ? (data.options as Array<{ id: string; title: string; description?: string }>)
+    : []
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-semibold">{definition.label}</p>
+          <p className="text-[11px] text-muted-foreground">{definition.description}</p>
+        </div>
+        {node.type !== 'start' && (
+          <Button variant="ghost" size="icon-sm" onClick={onDelete} disabled={readOnly}>
+            <Trash2 className="size-4 text-destructive" />
+          </Button>
+        )}
+      </div>
+
+      <fieldset disabled={readOnly} className="space-y-4">
+        <Field label="Label">
+          <Input
+            value={text('label')}
+            onChange={(e) => set('label', e.target.value)}
+            placeholder={definition.label}
+            className="h-8 text-sm"
+          />
+        </Field>
+
+        {['send_text', 'ask_question', 'buttons', 'transfer', 'end'].includes(node.type ?? '') && (
+          <Field
+            label="Message"
+            hint="Use {{variable}} or {{contact.name}} to insert values"
+          >
+            <Textarea
+              value={text('text')}
+              onChange={(e) => set('text', e.target.value)}
+              rows={4}
+              className="text-sm"
+            />
+          </Field>
+        )}
+
+        {['ask_question', 'buttons'].includes(node.type ?? '') && (
+          <Field label="Save reply to variable">
+            <Input
+              value={text('variable')}
+              onChange={(e) => set('variable', e.target.value.replace(/\s+/g, '_'))}
+              placeholder="e.g. customer_name"
+              className="h-8 text-sm font-mono"
+            />
+          </Field>
+        )}
+
+        {node.type === 'send_media' && (
+          <>
+            <Field label="Media type">
+              <Select value={text('media_type') || 'image'} onValueChange={(v) => set('media_type', v)}>
+                <SelectTrigger size="sm" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="image">Image</SelectItem>
+                  <SelectItem value="audio">Audio</SelectItem>
+                  <SelectItem value="video">Video</SelectItem>
+                  <SelectItem value="document">Document</SelectItem>
+                </SelectContent>
+              </Select>
+            </Field>
+            <Field label="Media URL">
+              <Input
+                value={text('url')}
+                onChange={(e) => set('url', e.target.value)}
+                placeholder="https://..."
+                className="h-8 text-sm"
+              />
+            </Field>
+            <Field label="Caption">
+              <Input
+                value={text('caption')}
+                onChange={(e) => set('caption', e.target.value)}
+                className="h-8 text-sm"
+              />
+            </Field>
+            {text('media_type') === 'document' && (
+              <Field label="Filename">
+                <Input
+                  value={text('filename')}
+                  onChange={(e) => set('filename', e.target.value)}
+                  className="h-8 text-sm"
+                />
+              </Field>
+            )}
+          </>
+        )}
+
+        {node.type === 'buttons' && (
+          <>
+            <Field label="Display as">
+              <Select value={text('display') || 'buttons'} onValueChange={(v) => set('display', v)}>
+                <SelectTrigger size="sm" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="buttons">Reply buttons (max 3)</SelectItem>
+                  <SelectItem value="list">List</SelectItem>
+                </SelectContent>
+              </Select>
+            </Field>
+            {text('display') === 'list' && (
+              <Field label="List button text">
+                <Input
+                  value={text('button_text')}
+                  onChange={(e) => set('button_text', e.target.value.slice(0, 20))}
+                  placeholder="Options"
+                  className="h-8 text-sm"
+                />
+              </Field>
+            )}
+            <Field label="Options" hint="Each option gets its own output on the canvas">
+              <div className="space-y-1.5">
+                {options.map((option, index) => (
+                  <div key={option.id} className="flex items-center gap-1">
+                    <Input
+                      value={option.title}
+                      onChange={(e) => {
+                        const next = [...options]
+                        next[index] = { ...option, title: e.target.value.slice(0, 24) }
+                        set('options', next)
+                      }}
+                      className="h-8 text-sm"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => set('options', options.filter((o) => o.id !== option.id))}
+                    >
+                      <X className="size-3.5" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="xs"
+                  onClick={() =>
+                    set('options', [
+                      ...options,
+                      { id: `option_${Date.now().toString(36)}`, title: `Option ${options.length + 1}` },
+                    ])
+                  }
+                  disabled={text('display') !== 'list' && options.length >= 3}
+                >
+                  <Plus className="size-3" />
+                  Add option
+                </Button>
+              </div>
+            </Field>
+          </>
+        )}
+
+        {node.type === 'set_variable' && (
+          <>
+            <Field label="Variable">
+              <Input
+                value={text('variable')}
+                onChange={(e) => set('variable', e.target.value.replace(/\s+/g, '_'))}
+                className="h-8 text-sm font-mono"
+              />
+            </Field>
+            <Field label="Value" hint="Supports {{variable}} placeholders">
+              <Input
+                value={text('value')}
+                onChange={(e) => set('value', e.target.value)}
+                className="h-8 text-sm"
+              />
+            </Field>
+          </>
+        )}
+
+        {node.type === 'tag_conversation' && (
+          <Field label="Tags" hint="Comma-separated">
+            <Input
+              value={Array.isArray(data.tags) ? (data.tags as string[]).join(', ') : ''}
+              onChange={(e) =>
+                set(
+                  'tags',
+                  e.target.value.split(',').map((t) => t.trim()).filter(Boolean)
+                )
+              }
+              className="h-8 text-sm"
+            />
+          </Field>
+        )}
+
+        {['assign_queue', 'transfer'].includes(node.type ?? '') && (
+          <Field
+            label="Queue"
+            hint={node.type === 'transfer' ? 'Optional -- keeps the current queue when empty' : undefined}
+          >
+            <Input
+              value={text('queue')}
+              onChange={(e) => set('queue', e.target.value)}
+              placeholder="e.g. sdr"
+              className="h-8 text-sm"
+            />
+          </Field>
+        )}
+
+        {node.type === 'http_request' && (
+          <>
+            <Field label="Method">
+              <Select value={text('method') || 'GET'} onValueChange={(v) => set('method', v)}>
+                <SelectTrigger size="sm" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].map((m) => (
+                    <SelectItem key={m} value={m}>{m}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </Field>
+            <Field label="URL">
+              <Input
+                value={text('url')}
+                onChange={(e) => set('url', e.target.value)}
+                placeholder="https://api.example.com/..."
+                className="h-8 text-sm"
+              />
+            </Field>
+            <Field label="Body (JSON)">
+              <Textarea
+                value={text('body')}
+                onChange={(e) => set('body', e.target.value)}
+                rows={4}
+                className="text-xs font-mono"
+              />
+            </Field>
+            <Field label="Save response to variable">
+              <Input
+                value={text('response_variable')}
+                onChange={(e) => set('response_variable', e.target.value.replace(/\s+/g, '_'))}
+                className="h-8 text-sm font-mono"
+              />
+            </Field>
+          </>
+        )}
+      </fieldset>
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Edge inspector
+// ---------------------------------------------------------------------------
+
+interface EdgeInspectorProps {
+  edge: Edge
+  readOnly: boolean
+  onChange: (updates: { label?: string; condition?: FlowCondition | undefined }) => void
+  onDelete: () => void
+}
+
+function EdgeInspector({ edge, readOnly, onChange, onDelete }: EdgeInspectorProps) {
+  const condition = (edge.data?.condition as FlowCondition | undefined) ?? undefined
+  const needsValue = condition && !['is_set', 'is_empty'].includes(condition.operator)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-semibold">Connection</p>
+          <p className="text-[11px] text-muted-foreground">
+            Conditions are checked in order; a connection without one is the fallback
+          </p>
+        </div>
+        <Button variant="ghost" size="icon-sm" onClick={onDelete} disabled={readOnly}>
+          <Trash2 className="size-4 text-destructive" />
+        </Button>
+      </div>
+
+      <fieldset disabled={readOnly} className="space-y-4">
+        <Field label="Label">
+          <Input
+            value={typeof edge.label === 'string' ? edge.label : ''}
+            onChange={(e) => onChange({ label: e.target.value })}
+            className="h-8 text-sm"
+          />
+        </Field>
+
+        {condition ? (
+          <div className="space-y-3 rounded-md border p-3">
+            <Field label="Variable">
+              <Input
+                value={condition.variable}
+                onChange={(e) => onChange({ condition: { ...condition, variable: e.target.value } })}
+                placeholder="e.g. last_input"
+                className="h-8 text-sm font-mono"
+              />
+            </Field>
+            <Field label="Operator">
+              <Select
+                value={condition.operator}
+                onValueChange={(v) =>
+                  onChange({ condition: { ...condition, operator: v as FlowCondition['operator'] } })
+                }
+              >
+                <SelectTrigger size="sm" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONDITION_OPERATORS.map((op) => (
+                    <SelectItem key={op.value} value={op.value}>{op.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </Field>
+            {needsValue && (
+              <Field label="Value">
+                <Input
+                  value={condition.value === null || condition.value === undefined ? '' : String(condition.value)}
+                  onChange={(e) => onChange({ condition: { ...condition, value: e.target.value } })}
+                  className="h-8 text-sm"
+                />
+              </Field>
+            )}
+            <Button variant="ghost" size="xs" onClick={() => onChange({ condition: undefined })}>
+              <X className="size-3" />
+              Remove condition
+            </Button>
+          </div>
+        ) : (
+          <Button
+            variant="outline"
+            size="xs"
+            onClick={() =>
+              onChange({ condition: { variable: 'last_input', operator: 'equals', value: '' } })
+            }
+          >
+            <Plus className="size-3" />
+            Add condition
+          </Button>
+        )}
+      </fieldset>
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Inspector panel
+// ---------------------------------------------------------------------------
+
+interface FlowInspectorProps {
+  node: FlowCanvasNode | null
+  edge: Edge | null
+  readOnly: boolean
+  onNodeChange: (id: string, data: Record<string, unknown>) => void
+  onNodeDelete: (id: string) => void
+  onEdgeChange: (id: string, updates: { label?: string; condition?: FlowCondition | undefined }) => void
+  onEdgeDelete: (id: string) => void
+}
+
+export function FlowInspector({
+  node,
+  edge,
+  readOnly,
+  onNodeChange,
+  onNodeDelete,
+  onEdgeChange,
+  onEdgeDelete,
+}: FlowInspectorProps) {
+  return (
+    <div className="flex h-full flex-col">
+      <div className="px-3 py-2.5 border-b">
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+          Properties
+        </h3>
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="p-3">
+          {node ? (
+            <NodeInspector
+              key={node.id}
+              node={node}
+              readOnly={readOnly}
+              onChange={(data) => onNodeChange(node.id, data)}
+              onDelete={() => onNodeDelete(node.id)}
+            />
+          ) : edge ? (
+            <EdgeInspector
+              key={edge.id}
+              edge={edge}
+              readOnly={readOnly}
+              onChange={(updates) => onEdgeChange(edge.id, updates)}
+              onDelete={() => onEdgeDelete(edge.id)}
+            />
+          ) : (
+            <p className="text-xs text-muted-foreground/60 italic">
+              Select a node or connection to edit it
+            </p>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+'use client'
+
+import { createContext, memo, useContext } from 'react'
+import { Handle, Position, type Node, type NodeProps } from '@xyflow/react'
+import { cn } from '@/lib/utils'
+import { getNodeDefinition, summarizeNode } from './node-catalog'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type FlowCanvasNode = Node<Record<string, unknown>>
+
+/** Id of the node the simulator is currently at, highlighted on the canvas */
+export const ActiveFlowNodeContext = createContext<string | null>(null)
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+function FlowNodeCardComponent({ id, type, data, selected }: NodeProps<FlowCanvasNode>) {
+  const isActive = useContext(ActiveFlowNodeContext) === id
+  const definition = getNodeDefinition(type)
+  const Icon = definition.icon
+  const summary = summarizeNode(type, data)
+  const isStart = type === 'start'
+  const isTerminal = type === 'end' || type === 'transfer'
+  const options =
+    type === 'buttons' && Array.isArray(data.options)
+      ? (data.options as Array<{ id: string; title: string }>)
+      : []
+
+  return (
+    <div
+      className={cn(
+        'w-56 rounded-lg border bg-card text-card-foreground shadow-sm',
+        selected && 'ring-2 ring-primary',
+        isActive && 'ring-2 ring-amber-500 shadow-lg shadow-amber-500/20'
+      )}
+    >
+      {!isStart && (
+        <Handle type="target" position={Position.Left} className="!size-2.5" />
+      )}
+
+      {/* Header */}
+      <div className="flex items-center gap-2 px-3 py-2 border-b">
+        <span
+          className={cn(
+            'flex size-6 items-center justify-center rounded-md text-white',
+            definition.color
+          )}
+        >
+          <Icon className="size-3.5" />
+        </span>
+        <span className="text-xs font-semibold truncate">
+          {(data.label as string) || definition.label}
+        </span>
+      </div>
+
+      {/* Body */}
+      <div className="px-3 py-2">
+        <p className="text-[11px] text-muted-foreground line-clamp-3 break-words min-h-4">
+          {summary || definition.description}
+        </p>
+
+        {options.length > 0 && (
+          <div className="mt-2 space-y-1">
+            {options.map((option) => (
+              <div
+                key={option.id}
+                className="relative rounded border bg-muted/40 px-2 py-1 text-[11px]"
+              >
+                {option.title}
+                <Handle
+                  type="source"
+                  id={option.id}
+                  position={Position.Right}
+                  className="!size-2.5 !-right-4"
+                />
+              </div>
+            ))}
+            <div className="relative px-2 py-1 text-[10px] italic text-muted-foreground">
+              No match
+              <Handle
+                type="source"
+                id="default"
+                position={Position.Right}
+                className="!size-2.5 !-right-4"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {!isTerminal && options.length === 0 && (
+        <Handle type="source" position={Position.Right} className="!size-2.5" />
+      )}
+    </div>
+  )
+}
+
+export const FlowNodeCard = memo(FlowNodeCardComponent)
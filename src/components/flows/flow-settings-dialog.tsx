@@ -0,0 +1,205 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { Flow, FlowStatus, FlowTriggerType } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export const TRIGGER_LABELS: Record<FlowTriggerType, { label: string; description: string }> = {
+  keyword: {
+    label: 'Keyword',
+    description: 'Starts when an inbound message contains one of the keywords',
+  },
+  first_message: {
+    label: 'First message',
+    description: 'Starts on the first message of a new conversation',
+  },
+  welcome: {
+    label: 'Welcome',
+    description: 'Starts the first time a contact ever messages you',
+  },
+  manual: {
+    label: 'Manual',
+    description: 'Started by an agent from the desk',
+  },
+  bulk: {
+    label: 'Bulk sending',
+    description: 'Started when a contact replies to a campaign',
+  },
+}
+
+// Trigger types matched automatically against inbound messages
+const AUTOMATIC_TRIGGERS: FlowTriggerType[] = ['keyword', 'first_message', 'welcome']
+
+export const FLOW_STATUS_BADGES: Record<FlowStatus, { label: string; className: string }> = {
+  draft: {
+    label: 'Draft',
+    className: 'bg-muted text-muted-foreground border-border',
+  },
+  published: {
+    label: 'Published',
+    className: 'bg-emerald-500/15 text-emerald-600 dark:text-emerald-400 border-emerald-500/30',
+  },
+  archived: {
+    label: 'Archived',
+    className: 'bg-zinc-500/15 text-zinc-600 dark:text-zinc-400 border-zinc-500/30',
+  },
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+interface FlowSettingsDialogProps {
+  flow: Flow
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSave: (
+    updates: Partial<Pick<Flow, 'name' | 'description' | 'trigger_type' | 'trigger_keywords' | 'priority'>>
+  ) => Promise<void>
+}
+
+export function FlowSettingsDialog({ flow, open, onOpenChange, onSave }: FlowSettingsDialogProps) {
+  const [name, setName] = useState(flow.name)
+  const [description, setDescription] = useState(flow.description ?? '')
+  const [triggerType, setTriggerType] = useState<FlowTriggerType>(flow.trigger_type)
+  const [keywords, setKeywords] = useState((flow.trigger_keywords ?? []).join(', '))
+  const [priority, setPriority] = useState(String(flow.priority ?? 0))
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Reset the form whenever the dialog is reopened
+  useEffect(() => {
+    if (!open) return
+    setName(flow.name)
+    setDescription(flow.description ?? '')
+    setTriggerType(flow.trigger_type)
+    setKeywords((flow.trigger_keywords ?? []).join(', '))
+    setPriority(String(flow.priority ?? 0))
+  }, [open, flow])
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await onSave({
+        name,
+        description: description || null,
+        trigger_type: triggerType,
+        trigger_keywords: keywords
+          .split(',')
+          .map((k) => k.trim())
+          .filter(Boolean),
+        priority: parseInt(priority, 10) || 0,
+      })
+      onOpenChange(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Flow settings</DialogTitle>
+          <DialogDescription>Name, description and what starts this flow.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="flow-name">Name</Label>
+            <Input id="flow-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="flow-description">Description</Label>
+            <Textarea
+              id="flow-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Trigger</Label>
+            <Select value={triggerType} onValueChange={(v) => setTriggerType(v as FlowTriggerType)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TRIGGER_LABELS) as FlowTriggerType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {TRIGGER_LABELS[type].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {TRIGGER_LABELS[triggerType].description}
+            </p>
+          </div>
+
+          {triggerType === 'keyword' && (
+            <div className="space-y-1.5">
+              <Label htmlFor="flow-keywords">Keywords</Label>
+              <Input
+                id="flow-keywords"
+                value={keywords}
+                onChange={(e) => setKeywords(e.target.value)}
+                placeholder="e.g. menu, orcamento, price"
+              />
+              <p className="text-xs text-muted-foreground">Comma-separated, case-insensitive</p>
+            </div>
+          )}
+
+          {AUTOMATIC_TRIGGERS.includes(triggerType) && (
+            <div className="space-y-1.5">
+              <Label htmlFor="flow-priority">Priority</Label>
+              <Input
+                id="flow-priority"
+                type="number"
+                step={1}
+                value={priority}
+                onChange={(e) => setPriority(e.target.value)}
+                className="w-28"
+              />
+              <p className="text-xs text-muted-foreground">
+                When several published flows match the same message, the highest priority starts
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
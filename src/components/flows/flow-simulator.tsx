@@ -0,0 +1,399 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { cn } from '@/lib/utils'
+import { Bot, Globe, Headset, Loader2, RotateCcw, Send, Tag, Users, X } from 'lucide-react'
+import type { Edge } from '@xyflow/react'
+import type { Flow } from '@/types/database'
+import type { FlowStep } from '@/lib/flows/engine'
+import type { SimulationTurn, SimulatorEvent } from '@/lib/flows/simulator'
+import type { FlowCanvasNode } from './flow-node-card'
+import { describeCondition, getNodeDefinition } from './node-catalog'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type TranscriptMessage =
+  | { role: 'user'; text: string }
+  | { role: 'bot'; event: SimulatorEvent }
+  | { role: 'system'; text: string }
+
+type TranscriptEntry = TranscriptMessage & { id: number }
+
+interface FlowSimulatorProps {
+  flowId: string
+  nodes: FlowCanvasNode[]
+  edges: Edge[]
+  getFlowData: () => NonNullable<Flow['flow_data']>
+  onActiveNodeChange: (nodeId: string | null) => void
+  onClose: () => void
+}
+
+const STATUS_LABELS: Record<SimulationTurn['status'], string> = {
+  waiting: 'Waiting for reply',
+  completed: 'Completed',
+  handoff: 'Handed off to agent',
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function FlowSimulator({
+  flowId,
+  nodes,
+  edges,
+  getFlowData,
+  onActiveNodeChange,
+  onClose,
+}: FlowSimulatorProps) {
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([])
+  const [variables, setVariables] = useState<Record<string, unknown>>({})
+  const [lastTurn, setLastTurn] = useState<SimulationTurn | null>(null)
+  const [text, setText] = useState('')
+  const [isRunning, setIsRunning] = useState(false)
+  const entryId = useRef(0)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [transcript])
+
+  // Clear the canvas highlight when the panel closes
+  useEffect(() => () => onActiveNodeChange(null), [onActiveNodeChange])
+
+  const nodeLabel = (nodeId: string | null) => {
+    if (!nodeId) return '—'
+    const node = nodes.find((n) => n.id === nodeId)
+    if (!node) return nodeId
+    return (node.data.label as string) || getNodeDefinition(node.type ?? '').label
+  }
+
+  const append = (...entries: TranscriptMessage[]) => {
+    setTranscript((current) => [
+      ...current,
+      ...entries.map((e) => ({ ...e, id: ++entryId.current })),
+    ])
+  }
+
+  const runTurn = async (input: { text: string | null; replyId?: string; display?: string }) => {
+    if (isRunning) return
+    setIsRunning(true)
+
+    if (input.display ?? input.text) {
+      append({ role: 'user', text: input.display ?? input.text ?? '' })
+    }
+
+    // A finished run starts over on the next message
+    const carried = lastTurn && lastTurn.status !== 'waiting' ? {} : variables
+
+    try {
+      const res = await fetch(`/api/flows/${flowId}/simulate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          text: input.text,
+          reply_id: input.replyId ?? null,
+          variables: carried,
+          flow_data: getFlowData(),
+        }),
+      })
+      const body = await res.json()
+
+      if (!res.ok) {
+        append({ role: 'system', text: body.error || 'Simulation failed' })
+        return
+      }
+
+      const turn: SimulationTurn = body.data
+      const entries: TranscriptMessage[] = []
+
+      if (turn.trigger) {
+        entries.push({
+          role: 'system',
+          text: turn.trigger.matched
+            ? turn.trigger.keyword
+              ? `Trigger matched keyword "${turn.trigger.keyword}"`
+              : 'Trigger matched'
+            : 'This message would not trigger the flow (started anyway)',
+        })
+      }
+      for (const event of turn.events) {
+        entries.push({ role: 'bot', event })
+      }
+      if (turn.status !== 'waiting') {
+        entries.push({ role: 'system', text: `Flow ${STATUS_LABELS[turn.status].toLowerCase()}` })
+      }
+      append(...entries)
+
+      setLastTurn(turn)
+      setVariables(turn.variables)
+      onActiveNodeChange(turn.current_node_id)
+    } catch (error) {
+      console.error('[FlowSimulator] error:', error)
+      append({ role: 'system', text: 'Simulation failed' })
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const handleSend = () => {
+    const value = text.trim()
+    if (!value) return
+    setText('')
+    runTurn({ text: value })
+  }
+
+  const handleReset = () => {
+    setTranscript([])
+    setVariables({})
+    setLastTurn(null)
+    onActiveNodeChange(null)
+  }
+
+  // Options of the menu the flow is waiting on, if any
+  const lastEvent = transcript[transcript.length - 1]
+  const pendingMenu =
+    lastTurn?.status === 'waiting' && lastEvent?.role === 'bot' && lastEvent.event.kind === 'menu'
+      ? lastEvent.event
+      : null
+
+  const visibleVariables = Object.fromEntries(
+    Object.entries(variables).filter(([key]) => !key.startsWith('__'))
+  )
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="flex items-center gap-2 px-3 py-2.5 border-b">
+        <Bot className="size-4 text-muted-foreground" />
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground flex-1">
+          Simulator
+        </h3>
+        <Button variant="ghost" size="icon-xs" onClick={handleReset} title="Restart">
+          <RotateCcw className="size-3.5" />
+        </Button>
+        <Button variant="ghost" size="icon-xs" onClick={onClose} title="Close">
+          <X className="size-3.5" />
+        </Button>
+      </div>
+
+      {/* Transcript */}
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="space-y-2 p-3">
+          {transcript.length === 0 && (
+            <div className="py-6 text-center">
+              <p className="text-xs text-muted-foreground">
+                Send a message to start the flow. Nothing is sent to WhatsApp.
+              </p>
+              <Button
+                variant="outline"
+                size="xs"
+                className="mt-3"
+                onClick={() => runTurn({ text: null })}
+                disabled={isRunning}
+              >
+                Start without a message
+              </Button>
+            </div>
+          )}
+          {transcript.map((entry) => (
+            <TranscriptItem key={entry.id} entry={entry} />
+          ))}
+          <div ref={bottomRef} />
+        </div>
+      </ScrollArea>
+
+      {/* Menu quick replies */}
+      {pendingMenu && (
+        <div className="flex flex-wrap gap-1 border-t px-3 py-2">
+          {pendingMenu.options.map((option) => (
+            <Button
+              key={option.id}
+              variant="outline"
+              size="xs"
+              disabled={isRunning}
+              onClick={() =>
+                runTurn({ text: option.title, replyId: option.id, display: option.title })
+              }
+            >
+              {option.title}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {/* Composer */}
+      <div className="flex items-center gap-2 border-t p-2">
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSend()
+          }}
+          placeholder="Type as the contact..."
+          className="h-8 text-xs"
+          disabled={isRunning}
+        />
+        <Button size="icon-sm" onClick={handleSend} disabled={isRunning || !text.trim()}>
+          {isRunning ? <Loader2 className="size-4 animate-spin" /> : <Send className="size-4" />}
+        </Button>
+      </div>
+
+      {/* Debug state */}
+      <div className="max-h-[40%] flex-shrink-0 overflow-y-auto border-t bg-muted/30 p-3 space-y-3 text-[11px]">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-muted-foreground">Current node</span>
+          <span className="font-medium truncate">{nodeLabel(lastTurn?.current_node_id ?? null)}</span>
+        </div>
+        {lastTurn && (
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-muted-foreground">Status</span>
+            <Badge variant="outline" className="text-[10px] h-5">
+              {STATUS_LABELS[lastTurn.status]}
+            </Badge>
+          </div>
+        )}
+
+        {lastTurn && lastTurn.steps.length > 0 && (
+          <div className="space-y-1">
+            <p className="font-semibold text-muted-foreground uppercase tracking-wider text-[10px]">
+              Path
+            </p>
+            <ol className="space-y-1">
+              {lastTurn.steps.map((step, index) => (
+                <li key={`${step.node_id}-${index}`} className="rounded border bg-background px-2 py-1">
+                  <span className="font-medium">{nodeLabel(step.node_id)}</span>
+                  <span className="block text-muted-foreground">
+                    {describeStepEdge(step, edges, nodeLabel)}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <p className="font-semibold text-muted-foreground uppercase tracking-wider text-[10px]">
+            flow_variables
+          </p>
+          <pre className="rounded border bg-background p-2 font-mono text-[10px] whitespace-pre-wrap break-all">
+            {JSON.stringify(visibleVariables, null, 2)}
+          </pre>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function describeStepEdge(
+  step: FlowStep,
+  edges: Edge[],
+  nodeLabel: (nodeId: string | null) => string
+): string {
+  if (!step.edge_id) return 'Stopped here'
+  const edge = edges.find((e) => e.id === step.edge_id)
+  const target = edge ? nodeLabel(edge.target) : step.edge_id
+  const condition = describeCondition(step.condition)
+  if (condition) return `→ ${target} (matched: ${condition})`
+  if (edge?.sourceHandle === 'default') return `→ ${target} (no option matched)`
+  if (edge?.sourceHandle) return `→ ${target} (option)`
+  return `→ ${target}`
+}
+
+function TranscriptItem({ entry }: { entry: TranscriptEntry }) {
+  if (entry.role === 'system') {
+    return (
+      <p className="text-center text-[10px] italic text-muted-foreground">{entry.text}</p>
+    )
+  }
+
+  if (entry.role === 'user') {
+    return (
+      <div className="flex justify-end">
+        <div className="max-w-[85%] rounded-lg rounded-br-sm bg-emerald-600 px-2.5 py-1.5 text-xs text-white whitespace-pre-wrap break-words">
+          {entry.text}
+        </div>
+      </div>
+    )
+  }
+
+  const { event } = entry
+  switch (event.kind) {
+    case 'text':
+    case 'menu':
+      return (
+        <div className="flex">
+          <div className="max-w-[85%] rounded-lg rounded-bl-sm bg-muted px-2.5 py-1.5 text-xs whitespace-pre-wrap break-words">
+            {event.text}
+            {event.kind === 'menu' && (
+              <div className="mt-1.5 space-y-1">
+                {event.options.map((option, index) => (
+                  <div
+                    key={option.id}
+                    className="rounded border bg-background px-2 py-0.5 text-center text-[11px]"
+                  >
+                    {event.display === 'list' ? `${index + 1}. ` : ''}
+                    {option.title}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )
+    case 'media':
+      return (
+        <div className="flex">
+          <div className="max-w-[85%] rounded-lg rounded-bl-sm bg-muted px-2.5 py-1.5 text-xs">
+            <span className="font-medium capitalize">{event.type}</span>
+            <span className="block truncate text-muted-foreground">{event.filename || event.url}</span>
+            {event.caption && <span className="block mt-1">{event.caption}</span>}
+          </div>
+        </div>
+      )
+    default:
+      return <SideEffect event={event} />
+  }
+}
+
+function SideEffect({ event }: { event: SimulatorEvent }) {
+  let Icon = Tag
+  let label = ''
+
+  if (event.kind === 'tag') {
+    label = `Tagged: ${event.tags.join(', ')}`
+  } else if (event.kind === 'queue') {
+    Icon = Users
+    label = `Queue set to ${event.queue}`
+  } else if (event.kind === 'handoff') {
+    Icon = Headset
+    label = event.queue ? `Handed off to queue ${event.queue}` : 'Handed off to an agent'
+  } else if (event.kind === 'http') {
+    Icon = Globe
+    label = event.error
+      ? `${event.request.method} ${event.request.url} failed: ${event.error}`
+      : `${event.request.method} ${event.request.url}`
+  }
+
+  return (
+    <div
+      className={cn(
+        'flex items-start gap-1.5 rounded-md border border-dashed px-2 py-1 text-[11px] text-muted-foreground',
+        event.kind === 'http' && event.error && 'border-destructive/40 text-destructive'
+      )}
+    >
+      <Icon className="size-3 mt-0.5 flex-shrink-0" />
+      <span className="break-all">{label}</span>
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+import {
+  Play,
+  MessageSquareText,
+  Image,
+  HelpCircle,
+  ListChecks,
+  GitFork,
+  Variable,
+  Tag,
+  Users,
+  Globe,
+  Headset,
+  CircleStop,
+} from 'lucide-react'
+import type { FlowCondition, FlowNodeType } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Node catalog -- labels, icons, colors and defaults for each node type
+// ---------------------------------------------------------------------------
+
+export interface FlowNodeDefinition {
+  type: FlowNodeType
+  label: string
+  description: string
+  icon: React.ComponentType<{ className?: string }>
+  color: string
+  defaultData: Record<string, unknown>
+}
+
+export const FLOW_NODE_CATALOG: FlowNodeDefinition[] = [
+  {
+    type: 'start',
+    label: 'Start',
+    description: 'Entry point of the flow',
+    icon: Play,
+    color: 'bg-emerald-500',
+    defaultData: {},
+  },
+  {
+    type: 'send_text',
+    label: 'Send text',
+    description: 'Send a text message',
+    icon: MessageSquareText,
+    color: 'bg-blue-500',
+    defaultData: { text: '' },
+  },
+  {
+    type: 'send_media',
+    label: 'Send media',
+    description: 'Send an image, audio, video or document',
+    icon: Image,
+    color: 'bg-sky-500',
+    defaultData: { media_type: 'image', url: '', caption: '' },
+  },
+  {
+    type: 'ask_question',
+    label: 'Ask question',
+    description: 'Ask and save the reply to a variable',
+    icon: HelpCircle,
+    color: 'bg-violet-500',
+    defaultData: { text: '', variable: '' },
+  },
+  {
+    type: 'buttons',
+    label: 'Buttons / List',
+    description: 'Offer options as buttons or a list',
+    icon: ListChecks,
+    color: 'bg-purple-500',
+    defaultData: {
+      text: '',
+      display: 'buttons',
+      variable: '',
+      options: [{ id: 'option_1', title: 'Option 1' }],
+    },
+  },
+  {
+    type: 'condition',
+    label: 'Condition',
+    description: 'Branch using conditions on connections',
+    icon: GitFork,
+    color: 'bg-amber-500',
+    defaultData: {},
+  },
+  {
+    type: 'set_variable',
+    label: 'Set variable',
+    description: 'Store a value in a flow variable',
+    icon: Variable,
+    color: 'bg-orange-500',
+    defaultData: { variable: '', value: '' },
+  },
+  {
+    type: 'tag_conversation',
+    label: 'Tag conversation',
+    description: 'Add tags to the conversation',
+    icon: Tag,
+    color: 'bg-pink-500',
+    defaultData: { tags: [] },
+  },
+  {
+    type: 'assign_queue',
+    label: 'Assign queue',
+    description: 'Route the conversation to a queue',
+    icon: Users,
+    color: 'bg-teal-500',
+    defaultData: { queue: '' },
+  },
+  {
+    type: 'http_request',
+    label: 'HTTP call',
+    description: 'Call an external API',
+    icon: Globe,
+    color: 'bg-slate-500',
+    defaultData: { method: 'GET', url: '', body: '', response_variable: '' },
+  },
+  {
+    type: 'transfer',
+    label: 'Transfer to human',
+    description: 'Hand the conversation to an agent',
+    icon: Headset,
+    color: 'bg-rose-500',
+    defaultData: { text: '', queue: '' },
+  },
+  {
+    type: 'end',
+    label: 'End',
+    description: 'Finish the flow',
+    icon: CircleStop,
+    color: 'bg-zinc-500',
+    defaultData: { text: '' },
+  },
+]
+
+export function getNodeDefinition(type: string): FlowNodeDefinition {
+  return (
+    FLOW_NODE_CATALOG.find((d) => d.type === type) ?? {
+      type: type as FlowNodeType,
+      label: type,
+      description: '',
+      icon: HelpCircle,
+      color: 'bg-muted-foreground',
+      defaultData: {},
+    }
+  )
+}
+
+/** Short one-line summary of a node's configuration for the canvas */
+export function summarizeNode(type: string, data: Record<string, unknown>): string {
+  switch (type) {
+    case 'send_text':
+    case 'ask_question':
+    case 'buttons':
+    case 'end':
+    case 'transfer':
+      return (data.text as string) || ''
+    case 'send_media':
+      return (data.url as string) || ''
+    case 'set_variable':
+      return data.variable ? `${data.variable} = ${data.value ?? ''}` : ''
+    case 'tag_conversation':
+      return Array.isArray(data.tags) ? data.tags.join(', ') : ''
+    case 'assign_queue':
+      return (data.queue as string) || ''
+    case 'http_request':
+      return data.url ? `${data.method || 'GET'} ${data.url}` : ''
+    default:
+      return ''
+  }
+}
+
+/** Readable form of an edge condition, used as the edge label */
+export function describeCondition(condition: FlowCondition | null | undefined): string | undefined {
+  if (!condition) return undefined
+  if (condition.operator === 'is_set' || condition.operator === 'is_empty') {
+    return `${condition.variable} ${condition.operator.replace('_', ' ')}`
+  }
+  return `${condition.variable} ${condition.operator.replace('_', ' ')} ${condition.value ?? ''}`
+}
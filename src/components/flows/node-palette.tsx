@@ -0,0 +1,78 @@
+'use client'
+
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { cn } from '@/lib/utils'
+import { FLOW_NODE_CATALOG, type FlowNodeDefinition } from './node-catalog'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const PALETTE_DRAG_TYPE = 'application/x-crm-flow-node'
+
+interface NodePaletteProps {
+  onAddNode: (definition: FlowNodeDefinition) => void
+  disabled?: boolean
+  hasStartNode: boolean
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function NodePalette({ onAddNode, disabled = false, hasStartNode }: NodePaletteProps) {
+  const items = FLOW_NODE_CATALOG.filter((d) => d.type !== 'start' || !hasStartNode)
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="px-3 py-2.5 border-b">
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+          Nodes
+        </h3>
+        <p className="text-[11px] text-muted-foreground/70 mt-0.5">
+          Drag onto the canvas or click to add
+        </p>
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {items.map((definition) => {
+            const Icon = definition.icon
+            return (
+              <button
+                key={definition.type}
+                type="button"
+                draggable={!disabled}
+                disabled={disabled}
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(PALETTE_DRAG_TYPE, definition.type)
+                  e.dataTransfer.effectAllowed = 'move'
+                }}
+                onClick={() => onAddNode(definition)}
+                className={cn(
+                  'flex w-full items-start gap-2 rounded-md px-2 py-1.5 text-left transition-colors',
+                  'hover:bg-accent disabled:opacity-50 disabled:cursor-not-allowed',
+                  !disabled && 'cursor-grab active:cursor-grabbing'
+                )}
+              >
+                <span
+                  className={cn(
+                    'flex size-6 flex-shrink-0 items-center justify-center rounded-md text-white',
+                    definition.color
+                  )}
+                >
+                  <Icon className="size-3.5" />
+                </span>
+                <span className="min-w-0">
+                  <span className="block text-xs font-medium">{definition.label}</span>
+                  <span className="block text-[11px] text-muted-foreground truncate">
+                    {definition.description}
+                  </span>
+                </span>
+              </button>
+            )
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
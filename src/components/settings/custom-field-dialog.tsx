@@ -0,0 +1,191 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CUSTOM_FIELD_TYPES, hasOptions } from '@/lib/contacts/custom-fields'
+import { customFieldKey } from '@/lib/contacts/import'
+import type { CustomFieldDefinition, CustomFieldType } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CustomFieldInput = Pick<
+  CustomFieldDefinition,
+  'key' | 'label' | 'type' | 'options' | 'required'
+>
+
+interface CustomFieldDialogProps {
+  field: CustomFieldDefinition | null // null when creating
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSave: (input: CustomFieldInput) => Promise<boolean>
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function CustomFieldDialog({ field, open, onOpenChange, onSave }: CustomFieldDialogProps) {
+  const [label, setLabel] = useState('')
+  const [key, setKey] = useState('')
+  const [keyEdited, setKeyEdited] = useState(false)
+  const [type, setType] = useState<CustomFieldType>('text')
+  const [options, setOptions] = useState('')
+  const [required, setRequired] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Reset the form whenever the dialog is reopened
+  useEffect(() => {
+    if (!open) return
+    setLabel(field?.label ?? '')
+    setKey(field?.key ?? '')
+    setKeyEdited(false)
+    setType(field?.type ?? 'text')
+    setOptions(field?.options.join('\n') ?? '')
+    setRequired(field?.required ?? false)
+  }, [open, field])
+
+  const handleLabelChange = (value: string) => {
+    setLabel(value)
+    // The key follows the label until it is edited by hand
+    if (!field && !keyEdited) setKey(customFieldKey(value))
+  }
+
+  const optionList = options
+    .split('\n')
+    .map((o) => o.trim())
+    .filter(Boolean)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const ok = await onSave({
+        key,
+        label: label.trim(),
+        type,
+        options: hasOptions(type) ? optionList : [],
+        required,
+      })
+      if (ok) onOpenChange(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const isValid = label.trim() && key && (!hasOptions(type) || optionList.length > 0)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{field ? 'Edit custom field' : 'New custom field'}</DialogTitle>
+          <DialogDescription>
+            Shown on every contact and available in segments and campaign variables.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="cf-label">Label</Label>
+            <Input
+              id="cf-label"
+              value={label}
+              onChange={(e) => handleLabelChange(e.target.value)}
+              placeholder="e.g. Birthday"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="cf-key">Key</Label>
+              <Input
+                id="cf-key"
+                value={key}
+                onChange={(e) => {
+                  setKeyEdited(true)
+                  setKey(e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_'))
+                }}
+                disabled={!!field}
+                placeholder="birthday"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Type</Label>
+              <Select
+                value={type}
+                onValueChange={(v) => setType(v as CustomFieldType)}
+                disabled={!!field}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CUSTOM_FIELD_TYPES) as CustomFieldType[]).map((t) => (
+                    <SelectItem key={t} value={t}>
+                      {CUSTOM_FIELD_TYPES[t]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {field && (
+            <p className="-mt-2 text-xs text-muted-foreground">
+              The key and type are fixed: contacts store their values under them.
+            </p>
+          )}
+
+          {hasOptions(type) && (
+            <div className="space-y-1.5">
+              <Label htmlFor="cf-options">Options</Label>
+              <Textarea
+                id="cf-options"
+                value={options}
+                onChange={(e) => setOptions(e.target.value)}
+                rows={4}
+                placeholder={'One per line, e.g.\nGold\nSilver'}
+              />
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={required} onCheckedChange={(v) => setRequired(v === true)} />
+            Required when creating or editing a contact
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !isValid}>
+            {isSaving && <Loader2 className="size-4 animate-spin" />}
+            {field ? 'Save' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,165 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useHubSpotPipelines } from '@/hooks/use-hubspot-pipelines'
+import type { HubSpotDealRule } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type HubSpotDealRuleInput = Pick<
+  HubSpotDealRule,
+  'classification' | 'pipeline_id' | 'stage_id'
+>
+
+interface HubSpotDealRuleDialogProps {
+  rule: HubSpotDealRule | null // null when creating
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSave: (input: HubSpotDealRuleInput) => Promise<boolean>
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function HubSpotDealRuleDialog({
+  rule,
+  open,
+  onOpenChange,
+  onSave,
+}: HubSpotDealRuleDialogProps) {
+  const { pipelines, isLoading, error } = useHubSpotPipelines(open)
+
+  const [classification, setClassification] = useState('')
+  const [pipelineId, setPipelineId] = useState('')
+  const [stageId, setStageId] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Reset the form whenever the dialog is reopened
+  useEffect(() => {
+    if (!open) return
+    setClassification(rule?.classification ?? '')
+    setPipelineId(rule?.pipeline_id ?? '')
+    setStageId(rule?.stage_id ?? '')
+  }, [open, rule])
+
+  const stages = pipelines.find((p) => p.id === pipelineId)?.stages ?? []
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const ok = await onSave({
+        classification: classification.trim(),
+        pipeline_id: pipelineId,
+        stage_id: stageId,
+      })
+      if (ok) onOpenChange(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{rule ? 'Edit deal rule' : 'New deal rule'}</DialogTitle>
+          <DialogDescription>
+            Resolving a conversation with this classification moves the contact&apos;s open
+            deal to the stage, or creates a deal there.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="deal-rule-classification">Classification</Label>
+            <Input
+              id="deal-rule-classification"
+              value={classification}
+              onChange={(e) => setClassification(e.target.value)}
+              placeholder="e.g. Sale"
+            />
+          </div>
+
+          {error ? (
+            <p className="text-sm text-destructive">{error.message}</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label>Pipeline</Label>
+                <Select
+                  value={pipelineId}
+                  onValueChange={(v) => {
+                    setPipelineId(v)
+                    setStageId('')
+                  }}
+                  disabled={isLoading}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder={isLoading ? 'Loading...' : 'Choose'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {pipelines.map((pipeline) => (
+                      <SelectItem key={pipeline.id} value={pipeline.id}>
+                        {pipeline.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Stage</Label>
+                <Select value={stageId} onValueChange={setStageId} disabled={!pipelineId}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Choose" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {stages.map((stage) => (
+                      <SelectItem key={stage.id} value={stage.id}>
+                        {stage.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !classification.trim() || !pipelineId || !stageId}
+          >
+            {isSaving && <Loader2 className="size-4 animate-spin" />}
+            {rule ? 'Save' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
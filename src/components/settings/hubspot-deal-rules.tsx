@@ -0,0 +1,135 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { ArrowRight, Handshake, Pencil, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  HubSpotDealRuleDialog,
+  type HubSpotDealRuleInput,
+} from '@/components/settings/hubspot-deal-rule-dialog'
+import { useHubSpotDealRules } from '@/hooks/use-hubspot-deal-rules'
+import type { HubSpotDealRule } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/** Classifications that create or advance a HubSpot deal on resolve */
+export function HubSpotDealRules({ canManage }: { canManage: boolean }) {
+  const { rules, isLoading, invalidate } = useHubSpotDealRules()
+
+  const [editing, setEditing] = useState<HubSpotDealRule | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+
+  const openDialog = (rule: HubSpotDealRule | null) => {
+    setEditing(rule)
+    setDialogOpen(true)
+  }
+
+  const handleSave = async (input: HubSpotDealRuleInput): Promise<boolean> => {
+    const res = await fetch(
+      editing ? `/api/hubspot/deal-rules/${editing.id}` : '/api/hubspot/deal-rules',
+      {
+        method: editing ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      }
+    )
+    const result = await res.json().catch(() => ({}))
+
+    if (!res.ok) {
+      toast.error(result.error || 'Failed to save deal rule')
+      return false
+    }
+
+    await invalidate()
+    toast.success(editing ? 'Deal rule updated' : 'Deal rule added')
+    return true
+  }
+
+  const handleDelete = async (rule: HubSpotDealRule) => {
+    if (!window.confirm(`Stop creating deals for "${rule.classification}"?`)) return
+
+    const res = await fetch(`/api/hubspot/deal-rules/${rule.id}`, { method: 'DELETE' })
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}))
+      toast.error(body.error || 'Failed to delete deal rule')
+      return
+    }
+    await invalidate()
+    toast.success('Deal rule deleted')
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h2 className="text-base font-semibold">Deals</h2>
+          <p className="text-sm text-muted-foreground">
+            Resolved conversations are logged as notes on the HubSpot contact. When the
+            classification matches a rule, the contact&apos;s deal is created or advanced.
+          </p>
+        </div>
+        {canManage && (
+          <Button variant="outline" onClick={() => openDialog(null)}>
+            <Plus className="size-4" />
+            Add rule
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 2 }).map((_, i) => (
+            <Skeleton key={i} className="h-12 rounded-lg" />
+          ))}
+        </div>
+      ) : rules.length === 0 ? (
+        <div className="flex flex-col items-center justify-center gap-3 rounded-xl border border-dashed py-12 text-center">
+          <div className="flex size-12 items-center justify-center rounded-full bg-muted">
+            <Handshake className="size-6 text-muted-foreground" />
+          </div>
+          <p className="text-sm text-muted-foreground">No classification creates deals</p>
+        </div>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center gap-4 p-3">
+              <div className="flex min-w-0 flex-1 items-center gap-3">
+                <span className="text-sm font-medium truncate">{rule.classification}</span>
+                <ArrowRight className="size-3.5 flex-shrink-0 text-muted-foreground" />
+                <span className="text-sm text-muted-foreground truncate">
+                  {rule.pipeline_label} / {rule.stage_label}
+                </span>
+              </div>
+              {canManage && (
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="icon-sm" onClick={() => openDialog(rule)}>
+                    <Pencil className="size-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => handleDelete(rule)}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <HubSpotDealRuleDialog
+        rule={editing}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSave={handleSave}
+      />
+    </div>
+  )
+}
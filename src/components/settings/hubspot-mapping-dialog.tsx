@@ -0,0 +1,175 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  COMMON_HUBSPOT_PROPERTIES,
+  HUBSPOT_DIRECTIONS,
+  crmFieldOptions,
+} from '@/lib/hubspot/mapping'
+import type {
+  CustomFieldDefinition,
+  HubSpotFieldMapping,
+  HubSpotSyncDirection,
+} from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type HubSpotMappingInput = Pick<
+  HubSpotFieldMapping,
+  'crm_field' | 'hubspot_property' | 'direction'
+>
+
+interface HubSpotMappingDialogProps {
+  mapping: HubSpotFieldMapping | null // null when creating
+  /** Fields that already have a mapping, left out of the CRM field list */
+  mappedFields: string[]
+  customFields: CustomFieldDefinition[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSave: (input: HubSpotMappingInput) => Promise<boolean>
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function HubSpotMappingDialog({
+  mapping,
+  mappedFields,
+  customFields,
+  open,
+  onOpenChange,
+  onSave,
+}: HubSpotMappingDialogProps) {
+  const [crmField, setCrmField] = useState('')
+  const [property, setProperty] = useState('')
+  const [direction, setDirection] = useState<HubSpotSyncDirection>('both')
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Reset the form whenever the dialog is reopened
+  useEffect(() => {
+    if (!open) return
+    setCrmField(mapping?.crm_field ?? '')
+    setProperty(mapping?.hubspot_property ?? '')
+    setDirection(mapping?.direction ?? 'both')
+  }, [open, mapping])
+
+  const fieldOptions = crmFieldOptions(customFields).filter(
+    (option) => option.value === mapping?.crm_field || !mappedFields.includes(option.value)
+  )
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const ok = await onSave({
+        crm_field: crmField,
+        hubspot_property: property.trim().toLowerCase(),
+        direction,
+      })
+      if (ok) onOpenChange(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{mapping ? 'Edit field mapping' : 'Map a field'}</DialogTitle>
+          <DialogDescription>
+            Keeps a contact field in sync with a HubSpot contact property.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label>CRM field</Label>
+            <Select value={crmField} onValueChange={setCrmField} disabled={!!mapping}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Choose a field" />
+              </SelectTrigger>
+              <SelectContent>
+                {fieldOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="hs-property">HubSpot property</Label>
+            <Input
+              id="hs-property"
+              value={property}
+              onChange={(e) => setProperty(e.target.value)}
+              list="hubspot-properties"
+              placeholder="firstname"
+              className="font-mono"
+            />
+            <datalist id="hubspot-properties">
+              {COMMON_HUBSPOT_PROPERTIES.map((p) => (
+                <option key={p} value={p} />
+              ))}
+            </datalist>
+            <p className="text-xs text-muted-foreground">
+              The internal name, found under Settings → Properties in HubSpot.
+            </p>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Direction</Label>
+            <Select
+              value={direction}
+              onValueChange={(v) => setDirection(v as HubSpotSyncDirection)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(HUBSPOT_DIRECTIONS) as HubSpotSyncDirection[]).map((d) => (
+                  <SelectItem key={d} value={d}>
+                    {HUBSPOT_DIRECTIONS[d]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !crmField || !property.trim()}>
+            {isSaving && <Loader2 className="size-4 animate-spin" />}
+            {mapping ? 'Save' : 'Add'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
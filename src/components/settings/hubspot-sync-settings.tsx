@@ -0,0 +1,224 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { formatDistanceToNow } from 'date-fns'
+import { ArrowLeftRight, Pencil, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  HubSpotMappingDialog,
+  type HubSpotMappingInput,
+} from '@/components/settings/hubspot-mapping-dialog'
+import { useCustomFields } from '@/hooks/use-custom-fields'
+import { useHubSpotMappings } from '@/hooks/use-hubspot-mappings'
+import type { HubSpotConnection } from '@/hooks/use-hubspot-connection'
+import {
+  HUBSPOT_CONFLICT_RULES,
+  HUBSPOT_DIRECTIONS,
+  crmFieldLabel,
+} from '@/lib/hubspot/mapping'
+import type { HubSpotConflictRule, HubSpotFieldMapping } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface HubSpotSyncSettingsProps {
+  connection: HubSpotConnection
+  canManage: boolean
+  onConnectionChanged: () => Promise<unknown>
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/** Conflict rule and field mappings of a connected HubSpot portal */
+export function HubSpotSyncSettings({
+  connection,
+  canManage,
+  onConnectionChanged,
+}: HubSpotSyncSettingsProps) {
+  const { mappings, isLoading, invalidate } = useHubSpotMappings()
+  const { customFields } = useCustomFields()
+
+  const [editing, setEditing] = useState<HubSpotFieldMapping | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+
+  const openDialog = (mapping: HubSpotFieldMapping | null) => {
+    setEditing(mapping)
+    setDialogOpen(true)
+  }
+
+  const handleConflictRuleChange = async (rule: HubSpotConflictRule) => {
+    const res = await fetch('/api/hubspot', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ conflict_rule: rule }),
+    })
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}))
+      toast.error(body.error || 'Failed to update the conflict rule')
+      return
+    }
+    await onConnectionChanged()
+    toast.success('Conflict rule updated')
+  }
+
+  const handleSave = async (input: HubSpotMappingInput): Promise<boolean> => {
+    // The CRM field of an existing mapping is fixed
+    const body = editing
+      ? { hubspot_property: input.hubspot_property, direction: input.direction }
+      : input
+    const res = await fetch(
+      editing ? `/api/hubspot/mappings/${editing.id}` : '/api/hubspot/mappings',
+      {
+        method: editing ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      }
+    )
+    const result = await res.json().catch(() => ({}))
+
+    if (!res.ok) {
+      toast.error(result.error || 'Failed to save mapping')
+      return false
+    }
+
+    await invalidate()
+    toast.success(editing ? 'Mapping updated' : 'Mapping added')
+    return true
+  }
+
+  const handleDelete = async (mapping: HubSpotFieldMapping) => {
+    const label = crmFieldLabel(mapping.crm_field, customFields)
+    if (!window.confirm(`Stop syncing ${label}? Values already synced are kept on both sides.`)) {
+      return
+    }
+
+    const res = await fetch(`/api/hubspot/mappings/${mapping.id}`, { method: 'DELETE' })
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}))
+      toast.error(body.error || 'Failed to delete mapping')
+      return
+    }
+    await invalidate()
+    toast.success('Mapping deleted')
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Conflict rule */}
+      <div className="space-y-2">
+        <div>
+          <h2 className="text-base font-semibold">When both sides change</h2>
+          <p className="text-sm text-muted-foreground">
+            {HUBSPOT_CONFLICT_RULES[connection.conflict_rule].description}
+            {connection.synced_until &&
+              ` HubSpot changes pulled up to ${formatDistanceToNow(new Date(connection.synced_until), { addSuffix: true })}.`}
+          </p>
+        </div>
+        <Select
+          value={connection.conflict_rule}
+          onValueChange={(v) => handleConflictRuleChange(v as HubSpotConflictRule)}
+          disabled={!canManage}
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(HUBSPOT_CONFLICT_RULES) as HubSpotConflictRule[]).map((rule) => (
+              <SelectItem key={rule} value={rule}>
+                {HUBSPOT_CONFLICT_RULES[rule].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Field mappings */}
+      <div className="space-y-3">
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <h2 className="text-base font-semibold">Field mapping</h2>
+            <p className="text-sm text-muted-foreground">
+              Contacts are matched by phone or email. The phone is always sent when a
+              HubSpot contact is created.
+            </p>
+          </div>
+          {canManage && (
+            <Button variant="outline" onClick={() => openDialog(null)}>
+              <Plus className="size-4" />
+              Map a field
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-12 rounded-lg" />
+            ))}
+          </div>
+        ) : mappings.length === 0 ? (
+          <div className="flex flex-col items-center justify-center gap-3 rounded-xl border border-dashed py-12 text-center">
+            <div className="flex size-12 items-center justify-center rounded-full bg-muted">
+              <ArrowLeftRight className="size-6 text-muted-foreground" />
+            </div>
+            <p className="text-sm text-muted-foreground">No fields are synced</p>
+          </div>
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {mappings.map((mapping) => (
+              <div key={mapping.id} className="flex items-center gap-4 p-3">
+                <div className="flex min-w-0 flex-1 items-center gap-3">
+                  <span className="text-sm font-medium truncate">
+                    {crmFieldLabel(mapping.crm_field, customFields)}
+                  </span>
+                  <ArrowLeftRight className="size-3.5 flex-shrink-0 text-muted-foreground" />
+                  <span className="font-mono text-sm truncate">{mapping.hubspot_property}</span>
+                  <Badge variant="outline" className="text-[10px] h-5">
+                    {HUBSPOT_DIRECTIONS[mapping.direction]}
+                  </Badge>
+                </div>
+                {canManage && (
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="icon-sm" onClick={() => openDialog(mapping)}>
+                      <Pencil className="size-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => handleDelete(mapping)}
+                      className="text-muted-foreground hover:text-destructive"
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <HubSpotMappingDialog
+        mapping={editing}
+        mappedFields={mappings.map((m) => m.crm_field)}
+        customFields={customFields}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSave={handleSave}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,217 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { QUICK_REPLY_PLACEHOLDERS } from '@/lib/quick-replies'
+import type { QuickReply } from '@/types/database'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type QuickReplyInput = Pick<
+  QuickReply,
+  'shortcut' | 'title' | 'content' | 'category' | 'media_url' | 'media_type'
+>
+
+interface QuickReplyDialogProps {
+  quickReply: QuickReply | null // null when creating
+  categories: string[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSave: (input: QuickReplyInput) => Promise<boolean>
+}
+
+const NO_MEDIA = 'none'
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function QuickReplyDialog({
+  quickReply,
+  categories,
+  open,
+  onOpenChange,
+  onSave,
+}: QuickReplyDialogProps) {
+  const [shortcut, setShortcut] = useState('')
+  const [title, setTitle] = useState('')
+  const [content, setContent] = useState('')
+  const [category, setCategory] = useState('')
+  const [mediaType, setMediaType] = useState<string>(NO_MEDIA)
+  const [mediaUrl, setMediaUrl] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Reset the form whenever the dialog is reopened
+  useEffect(() => {
+    if (!open) return
+    setShortcut(quickReply?.shortcut ?? '/')
+    setTitle(quickReply?.title ?? '')
+    setContent(quickReply?.content ?? '')
+    setCategory(quickReply?.category ?? '')
+    setMediaType(quickReply?.media_type ?? NO_MEDIA)
+    setMediaUrl(quickReply?.media_url ?? '')
+  }, [open, quickReply])
+
+  const insertPlaceholder = (token: string) => {
+    setContent((current) => (current ? `${current}${current.endsWith(' ') ? '' : ' '}${token}` : token))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const hasMedia = mediaType !== NO_MEDIA && mediaUrl.trim()
+      const ok = await onSave({
+        shortcut,
+        title,
+        content,
+        category: category.trim() || null,
+        media_type: hasMedia ? mediaType : null,
+        media_url: hasMedia ? mediaUrl.trim() : null,
+      })
+      if (ok) onOpenChange(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const isValid =
+    shortcut.replace(/^\/+/, '').trim() &&
+    title.trim() &&
+    content.trim() &&
+    (mediaType === NO_MEDIA || mediaUrl.trim())
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{quickReply ? 'Edit quick reply' : 'New quick reply'}</DialogTitle>
+          <DialogDescription>
+            Agents type the shortcut after &quot;/&quot; in the composer to insert it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-[8rem_1fr] gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="qr-shortcut">Shortcut</Label>
+              <Input
+                id="qr-shortcut"
+                value={shortcut}
+                onChange={(e) => setShortcut(e.target.value)}
+                placeholder="/hello"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="qr-title">Title</Label>
+              <Input
+                id="qr-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Greeting"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="qr-content">Content</Label>
+            <Textarea
+              id="qr-content"
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              rows={5}
+              placeholder="Hi {{contact.name}}, my name is {{agent.name}}..."
+            />
+            <div className="flex flex-wrap gap-1">
+              {QUICK_REPLY_PLACEHOLDERS.map((p) => (
+                <button
+                  key={p.token}
+                  type="button"
+                  title={p.description}
+                  onClick={() => insertPlaceholder(p.token)}
+                  className="rounded border bg-muted/50 px-1.5 py-0.5 font-mono text-[10px] text-muted-foreground hover:bg-accent"
+                >
+                  {p.token}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="qr-category">Category</Label>
+            <Input
+              id="qr-category"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="e.g. Sales"
+              list="qr-categories"
+            />
+            <datalist id="qr-categories">
+              {categories.map((c) => (
+                <option key={c} value={c} />
+              ))}
+            </datalist>
+          </div>
+
+          <div className="grid grid-cols-[8rem_1fr] gap-3">
+            <div className="space-y-1.5">
+              <Label>Media</Label>
+              <Select value={mediaType} onValueChange={setMediaType}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_MEDIA}>None</SelectItem>
+                  <SelectItem value="image">Image</SelectItem>
+                  <SelectItem value="video">Video</SelectItem>
+                  <SelectItem value="audio">Audio</SelectItem>
+                  <SelectItem value="document">Document</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {mediaType !== NO_MEDIA && (
+              <div className="space-y-1.5">
+                <Label htmlFor="qr-media-url">Media URL</Label>
+                <Input
+                  id="qr-media-url"
+                  value={mediaUrl}
+                  onChange={(e) => setMediaUrl(e.target.value)}
+                  placeholder="https://..."
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !isValid}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,28 @@
+'use client'
+
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import type { CustomFieldDefinition } from '@/types/database'
+
+export const CUSTOM_FIELDS_QUERY_KEY = ['custom-fields'] as const
+
+export function useCustomFields() {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: CUSTOM_FIELDS_QUERY_KEY,
+    queryFn: async (): Promise<CustomFieldDefinition[]> => {
+      const res = await fetch('/api/custom-fields')
+      if (!res.ok) throw new Error('Failed to load custom fields')
+      const body = await res.json()
+      return body.data ?? []
+    },
+  })
+
+  return {
+    customFields: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+    invalidate: () =>
+      queryClient.invalidateQueries({ queryKey: CUSTOM_FIELDS_QUERY_KEY }),
+  }
+}
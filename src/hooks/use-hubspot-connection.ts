@@ -0,0 +1,39 @@
+'use client'
+
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import type { HubSpotConflictRule } from '@/types/database'
+
+export const HUBSPOT_CONNECTION_QUERY_KEY = ['hubspot-connection'] as const
+
+export interface HubSpotConnection {
+  configured: boolean
+  connected: boolean
+  portal_id: string | null
+  connected_at: string | null
+  connected_by_name: string | null
+  conflict_rule: HubSpotConflictRule
+  /** HubSpot changes up to this time have been pulled */
+  synced_until: string | null
+}
+
+export function useHubSpotConnection() {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: HUBSPOT_CONNECTION_QUERY_KEY,
+    queryFn: async (): Promise<HubSpotConnection> => {
+      const res = await fetch('/api/hubspot')
+      if (!res.ok) throw new Error('Failed to load HubSpot connection')
+      const body = await res.json()
+      return body.data
+    },
+  })
+
+  return {
+    connection: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error,
+    invalidate: () =>
+      queryClient.invalidateQueries({ queryKey: HUBSPOT_CONNECTION_QUERY_KEY }),
+  }
+}
@@ -0,0 +1,33 @@
+'use client'
+
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import type { HubSpotContactCard } from '@/lib/hubspot/contact-card'
+
+async function fetchContactCard(contactId: string, refresh: boolean): Promise<HubSpotContactCard> {
+  const res = await fetch(`/api/contacts/${contactId}/hubspot${refresh ? '?refresh=1' : ''}`)
+  const body = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(body.error || 'Failed to load the contact from HubSpot')
+  return body.data
+}
+
+/** Live HubSpot card of a linked contact; `refresh` bypasses the server cache */
+export function useHubSpotContactCard(contactId: string, enabled = true) {
+  const queryClient = useQueryClient()
+  const queryKey = ['hubspot-contact-card', contactId]
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => fetchContactCard(contactId, false),
+    enabled,
+  })
+
+  return {
+    card: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error,
+    invalidate: () => queryClient.invalidateQueries({ queryKey }),
+    refresh: async () => {
+      queryClient.setQueryData(queryKey, await fetchContactCard(contactId, true))
+    },
+  }
+}
@@ -0,0 +1,27 @@
+'use client'
+
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import type { HubSpotDealRule } from '@/types/database'
+
+export const HUBSPOT_DEAL_RULES_QUERY_KEY = ['hubspot-deal-rules'] as const
+
+export function useHubSpotDealRules() {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: HUBSPOT_DEAL_RULES_QUERY_KEY,
+    queryFn: async (): Promise<HubSpotDealRule[]> => {
+      const res = await fetch('/api/hubspot/deal-rules')
+      if (!res.ok) throw new Error('Failed to load HubSpot deal rules')
+      const body = await res.json()
+      return body.data ?? []
+    },
+  })
+
+  return {
+    rules: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+    invalidate: () => queryClient.invalidateQueries({ queryKey: HUBSPOT_DEAL_RULES_QUERY_KEY }),
+  }
+}
@@ -0,0 +1,27 @@
+'use client'
+
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import type { HubSpotFieldMapping } from '@/types/database'
+
+export const HUBSPOT_MAPPINGS_QUERY_KEY = ['hubspot-mappings'] as const
+
+export function useHubSpotMappings() {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: HUBSPOT_MAPPINGS_QUERY_KEY,
+    queryFn: async (): Promise<HubSpotFieldMapping[]> => {
+      const res = await fetch('/api/hubspot/mappings')
+      if (!res.ok) throw new Error('Failed to load HubSpot field mappings')
+      const body = await res.json()
+      return body.data ?? []
+    },
+  })
+
+  return {
+    mappings: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+    invalidate: () => queryClient.invalidateQueries({ queryKey: HUBSPOT_MAPPINGS_QUERY_KEY }),
+  }
+}
@@ -0,0 +1,27 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import type { HubSpotPipeline } from '@/lib/hubspot/engagements'
+
+export const HUBSPOT_PIPELINES_QUERY_KEY = ['hubspot-pipelines'] as const
+
+/** Deal pipelines of the connected portal, fetched from HubSpot when enabled */
+export function useHubSpotPipelines(enabled = true) {
+  const query = useQuery({
+    queryKey: HUBSPOT_PIPELINES_QUERY_KEY,
+    queryFn: async (): Promise<HubSpotPipeline[]> => {
+      const res = await fetch('/api/hubspot/pipelines')
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || 'Failed to load HubSpot pipelines')
+      return body.data ?? []
+    },
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  return {
+    pipelines: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+  }
+}
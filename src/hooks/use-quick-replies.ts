@@ -0,0 +1,28 @@
+'use client'
+
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import type { QuickReply } from '@/types/database'
+
+export const QUICK_REPLIES_QUERY_KEY = ['quick-replies'] as const
+
+export function useQuickReplies() {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: QUICK_REPLIES_QUERY_KEY,
+    queryFn: async (): Promise<QuickReply[]> => {
+      const res = await fetch('/api/quick-replies')
+      if (!res.ok) throw new Error('Failed to load quick replies')
+      const body = await res.json()
+      return body.data ?? []
+    },
+  })
+
+  return {
+    quickReplies: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+    invalidate: () =>
+      queryClient.invalidateQueries({ queryKey: QUICK_REPLIES_QUERY_KEY }),
+  }
+}
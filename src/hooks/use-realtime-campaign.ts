@@ -0,0 +1,73 @@
+'use client'
+
+import { useEffect, useEffectEvent } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import type { Campaign, CampaignRecipient } from '@/types/database'
+
+/** Streams status and counter changes of one campaign */
+export function useRealtimeCampaign(
+  campaignId: string | null,
+  onChange: (campaign: Campaign) => void
+) {
+  const handleChange = useEffectEvent(onChange)
+
+  useEffect(() => {
+    if (!campaignId) return
+
+    const supabase = createClient()
+
+    const channel = supabase
+      .channel(`campaign:${campaignId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'crm_campaigns',
+          filter: `id=eq.${campaignId}`,
+        },
+        (payload) => {
+          handleChange(payload.new as Campaign)
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [campaignId])
+}
+
+/** Streams per-recipient status changes (rows arrive without the contact join) */
+export function useRealtimeCampaignRecipients(
+  campaignId: string | null,
+  onChange: (recipient: CampaignRecipient) => void
+) {
+  const handleChange = useEffectEvent(onChange)
+
+  useEffect(() => {
+    if (!campaignId) return
+
+    const supabase = createClient()
+
+    const channel = supabase
+      .channel(`campaign-recipients:${campaignId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'crm_campaign_recipients',
+          filter: `campaign_id=eq.${campaignId}`,
+        },
+        (payload) => {
+          handleChange(payload.new as CampaignRecipient)
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [campaignId])
+}
@@ -7,7 +7,7 @@ import type { Message } from '@/types/database'
 
 export function useRealtimeMessages(conversationId: string | null) {
   const addMessage = useChatStore((s) => s.addMessage)
-  const updateMessageStatus = useChatStore((s) => s.updateMessageStatus)
+  const updateMessage = useChatStore((s) => s.updateMessage)
 
   useEffect(() => {
     if (!conversationId) return
@@ -37,8 +37,9 @@ export function useRealtimeMessages(conversationId: string | null) {
           filter: `conversation_id=eq.${conversationId}`,
         },
         (payload) => {
+          // Status changes, plus interactive selections recorded on metadata
           const msg = payload.new as Message
-          updateMessageStatus(msg.id, msg.status)
+          updateMessage(msg.id, { status: msg.status, metadata: msg.metadata })
         }
       )
       .subscribe()
@@ -46,5 +47,5 @@ export function useRealtimeMessages(conversationId: string | null) {
     return () => {
       supabase.removeChannel(channel)
     }
-  }, [conversationId, addMessage, updateMessageStatus])
+  }, [conversationId, addMessage, updateMessage])
 }
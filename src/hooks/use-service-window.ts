@@ -0,0 +1,18 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getServiceWindow, type ServiceWindow } from '@/lib/whatsapp/service-window'
+
+const TICK_MS = 30_000
+
+/** Live view of the 24h service window, re-evaluated every 30 seconds */
+export function useServiceWindow(lastInboundAt: string | null | undefined): ServiceWindow {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS)
+    return () => clearInterval(timer)
+  }, [])
+
+  return getServiceWindow(lastInboundAt, now)
+}
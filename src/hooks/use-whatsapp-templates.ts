@@ -0,0 +1,28 @@
+'use client'
+
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import type { WhatsAppTemplate } from '@/types/database'
+
+export const WHATSAPP_TEMPLATES_QUERY_KEY = ['whatsapp-templates'] as const
+
+export function useWhatsAppTemplates() {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: WHATSAPP_TEMPLATES_QUERY_KEY,
+    queryFn: async (): Promise<WhatsAppTemplate[]> => {
+      const res = await fetch('/api/templates')
+      if (!res.ok) throw new Error('Failed to load templates')
+      const body = await res.json()
+      return body.data ?? []
+    },
+  })
+
+  return {
+    templates: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+    invalidate: () =>
+      queryClient.invalidateQueries({ queryKey: WHATSAPP_TEMPLATES_QUERY_KEY }),
+  }
+}
@@ -0,0 +1,109 @@
+// =============================================================================
+// Campaign Audience Lists
+// Parses a pasted or uploaded list of recipients: one per line, the phone in
+// the first column and an optional name in the second (comma, semicolon or
+// tab separated). The wizard previews the parse; the API re-parses and
+// resolves the phones to contacts with the service-role client.
+// =============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { phoneVariants, toE164 } from '@/lib/contacts/phone'
+
+export interface AudienceEntry {
+  phone: string
+  name?: string
+}
+
+export interface ParsedAudienceList {
+  entries: AudienceEntry[]
+  /** Lines whose first column is not a phone number (headers included) */
+  invalid: string[]
+}
+
+export const MAX_AUDIENCE_LIST = 10_000
+
+/** Normalizes to canonical E.164, or null when the cell is not a phone */
+export function cleanAudiencePhone(raw: string): string | null {
+  return toE164(raw)
+}
+
+export function parseAudienceList(text: string): ParsedAudienceList {
+  const entries: AudienceEntry[] = []
+  const invalid: string[] = []
+  const seen = new Set<string>()
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue
+
+    const [rawPhone = '', rawName = ''] = line
+      .split(/[,;\t]/)
+      .map((cell) => cell.trim().replace(/^"|"$/g, ''))
+
+    const phone = cleanAudiencePhone(rawPhone)
+    if (!phone) {
+      invalid.push(line.trim())
+      continue
+    }
+    if (seen.has(phone)) continue
+    seen.add(phone)
+
+    entries.push(rawName ? { phone, name: rawName } : { phone })
+  }
+
+  return { entries, invalid }
+}
+
+/**
+ * Returns the contact id for every entry, creating contacts for phones the
+ * org does not know yet.
+ */
+export async function resolveAudienceContacts(
+  supabase: SupabaseClient,
+  orgId: string,
+  entries: AudienceEntry[]
+): Promise<string[]> {
+  const ids: string[] = []
+  const CHUNK = 100
+
+  for (let i = 0; i < entries.length; i += CHUNK) {
+    const chunk = entries.slice(i, i + CHUNK)
+
+    const { data: existing, error } = await supabase
+      .from('crm_contacts')
+      .select('id, phone')
+      .eq('org_id', orgId)
+      .in('phone', chunk.flatMap((e) => phoneVariants(e.phone)))
+
+    if (error) throw new Error(`Failed to look up contacts: ${error.message}`)
+
+    const known = new Map(
+      (existing ?? []).map((c) => [toE164(c.phone) ?? (c.phone as string), c.id as string])
+    )
+    const missing = chunk.filter((e) => !known.has(e.phone))
+
+    if (missing.length > 0) {
+      const { data: created, error: createError } = await supabase
+        .from('crm_contacts')
+        .insert(
+          missing.map((e) => ({
+            org_id: orgId,
+            phone: e.phone,
+            name: e.name || null,
+            custom_fields: {},
+            tags: [],
+          }))
+        )
+        .select('id, phone')
+
+      if (createError) throw new Error(`Failed to create contacts: ${createError.message}`)
+      for (const c of created ?? []) known.set(c.phone, c.id)
+    }
+
+    for (const entry of chunk) {
+      const id = known.get(entry.phone)
+      if (id) ids.push(id)
+    }
+  }
+
+  return ids
+}
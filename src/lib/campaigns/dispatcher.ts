@@ -0,0 +1,585 @@
+// =============================================================================
+// Campaign Dispatcher
+// Expands a campaign's audience into crm_campaign_recipients and sends its
+// template in throttled batches (batch_size every batch_interval_seconds).
+// Runs with the service-role client from /api/cron/campaigns and right after
+// a campaign is started or resumed.
+// =============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { sendTemplateMessage } from '@/lib/whatsapp/api'
+import { buildTemplateComponents } from '@/lib/whatsapp/templates'
+import { resolveCampaignValues } from '@/lib/campaigns/variables'
+import {
+  isOptedOut,
+  optedOutMessage,
+  templateConsentCategory,
+} from '@/lib/contacts/consent'
+import { loadCustomFieldDefinitions } from '@/lib/contacts/custom-fields'
+import { whatsAppRecipient } from '@/lib/contacts/phone'
+import { loadGroupSegment, segmentContacts } from '@/lib/contacts/segments'
+import type {
+  Campaign,
+  CampaignRecipient,
+  Contact,
+  CustomFieldDefinition,
+  Organization,
+  WhatsAppTemplate,
+} from '@/types/database'
+
+/** How long a dispatcher run may hold a campaign before others can take it */
+const LOCK_MS = 2 * 60 * 1000
+/** Contacts looked up per query while expanding the audience */
+const EXPAND_CHUNK = 200
+/** Shortest pause between polls when batches are due but locked elsewhere */
+const MIN_POLL_MS = 1000
+/**
+ * Recipients claimed, sent and counted at a time. A killed run leaves at most
+ * this many recipients unresolved, and a pause takes effect within a chunk.
+ */
+const SEND_CHUNK = 10
+
+export interface DispatchSummary {
+  started: number
+  batches: number
+  sent: number
+  failed: number
+}
+
+interface BatchResult {
+  sent: number
+  failed: number
+  completed: boolean
+}
+
+type RecipientWithContact = CampaignRecipient & {
+  contact: Pick<
+    Contact,
+    | 'id'
+    | 'name'
+    | 'phone'
+    | 'wa_id'
+    | 'email'
+    | 'custom_fields'
+    | 'marketing_opted_out_at'
+    | 'utility_opted_out_at'
+  > | null
+}
+
+// -----------------------------------------------------------------------------
+// Audience expansion
+// -----------------------------------------------------------------------------
+
+/**
+ * Adds every contact of target_group_id (members, or the segment's current
+ * matches for a dynamic group), target_tags and target_contacts that
+ * has a phone number as a pending recipient. Safe to run more than once.
+ * Returns the campaign's total recipient count.
+ */
+export async function expandCampaignRecipients(
+  supabase: SupabaseClient,
+  campaign: Campaign
+): Promise<number> {
+  const contactIds = new Set<string>(campaign.target_contacts ?? [])
+
+  if (campaign.target_group_id) {
+    // Dynamic groups are evaluated now, so the campaign gets the current members
+    const segment = await loadGroupSegment(supabase, campaign.org_id, campaign.target_group_id)
+
+    if (segment) {
+      for (let from = 0; ; from += 1000) {
+        const { data: matching, error } = await segmentContacts(supabase, campaign.org_id, segment)
+          .select('id')
+          .order('id')
+          .range(from, from + 999)
+
+        if (error) throw new Error(`Failed to evaluate segment: ${error.message}`)
+        const page = (matching ?? []) as Array<{ id: string }>
+        for (const contact of page) contactIds.add(contact.id)
+        if (page.length < 1000) break
+      }
+    } else {
+      for (let from = 0; ; from += 1000) {
+        const { data: members, error } = await supabase
+          .from('crm_contact_group_members')
+          .select('contact_id')
+          .eq('group_id', campaign.target_group_id)
+          .order('contact_id')
+          .range(from, from + 999)
+
+        if (error) throw new Error(`Failed to load group members: ${error.message}`)
+        for (const member of members ?? []) contactIds.add(member.contact_id)
+        if (!members || members.length < 1000) break
+      }
+    }
+  }
+
+  if (campaign.target_tags?.length) {
+    for (let from = 0; ; from += 1000) {
+      const { data: tagged, error } = await supabase
+        .from('crm_contacts')
+        .select('id')
+        .eq('org_id', campaign.org_id)
+        .overlaps('tags', campaign.target_tags)
+        .order('id')
+        .range(from, from + 999)
+
+      if (error) throw new Error(`Failed to load tagged contacts: ${error.message}`)
+      for (const contact of tagged ?? []) contactIds.add(contact.id)
+      if (!tagged || tagged.length < 1000) break
+    }
+  }
+
+  const ids = Array.from(contactIds)
+  for (let i = 0; i < ids.length; i += EXPAND_CHUNK) {
+    const { data: contacts, error } = await supabase
+      .from('crm_contacts')
+      .select('id, phone')
+      .eq('org_id', campaign.org_id)
+      .in('id', ids.slice(i, i + EXPAND_CHUNK))
+
+    if (error) throw new Error(`Failed to load contacts: ${error.message}`)
+
+    const rows = (contacts ?? [])
+      .filter((c) => c.phone)
+      .map((c) => ({
+        campaign_id: campaign.id,
+        contact_id: c.id,
+        phone: c.phone,
+        status: 'pending',
+      }))
+
+    if (rows.length > 0) {
+      const { error: insertError } = await supabase
+        .from('crm_campaign_recipients')
+        .upsert(rows, { onConflict: 'campaign_id,contact_id', ignoreDuplicates: true })
+
+      if (insertError) {
+        throw new Error(`Failed to add recipients: ${insertError.message}`)
+      }
+    }
+  }
+
+  const { count, error: countError } = await supabase
+    .from('crm_campaign_recipients')
+    .select('id', { count: 'exact', head: true })
+    .eq('campaign_id', campaign.id)
+
+  if (countError) throw new Error(`Failed to count recipients: ${countError.message}`)
+
+  await supabase
+    .from('crm_campaigns')
+    .update({ total_recipients: count ?? 0 })
+    .eq('id', campaign.id)
+
+  return count ?? 0
+}
+
+// -----------------------------------------------------------------------------
+// Start
+// -----------------------------------------------------------------------------
+
+/** Expands the audience and moves the campaign to running, first batch due now */
+export async function startCampaign(
+  supabase: SupabaseClient,
+  campaign: Campaign
+): Promise<Campaign> {
+  const total = await expandCampaignRecipients(supabase, campaign)
+  if (total === 0) {
+    throw new Error('The campaign has no recipients with a phone number')
+  }
+
+  const now = new Date().toISOString()
+  const { data: started, error } = await supabase
+    .from('crm_campaigns')
+    .update({
+      status: 'running',
+      started_at: campaign.started_at ?? now,
+      next_batch_at: now,
+      last_error: null,
+    })
+    .eq('id', campaign.id)
+    .in('status', ['draft', 'scheduled'])
+    .select()
+    .single()
+
+  if (error || !started) {
+    throw new Error(`Failed to start campaign: ${error?.message ?? 'status changed'}`)
+  }
+
+  return started as Campaign
+}
+
+// -----------------------------------------------------------------------------
+// Batch
+// -----------------------------------------------------------------------------
+
+/**
+ * Sends the next batch of pending recipients, claiming them SEND_CHUNK at a
+ * time. Stops early when the campaign is paused or cancelled, or once
+ * `deadline` (ms timestamp) has passed. The caller must hold the campaign
+ * lock; it is released by the final update.
+ */
+export async function runCampaignBatch(
+  supabase: SupabaseClient,
+  campaign: Campaign,
+  org: Organization,
+  deadline: number
+): Promise<BatchResult> {
+  const phoneNumberId = org.whatsapp_phone_number_id || process.env.WHATSAPP_PHONE_NUMBER_ID
+  const accessToken = org.whatsapp_access_token || process.env.WHATSAPP_ACCESS_TOKEN
+
+  if (!phoneNumberId || !accessToken) {
+    await failCampaign(supabase, campaign.id, 'WhatsApp credentials not configured')
+    return { sent: 0, failed: 0, completed: true }
+  }
+
+  const { data: template } = await supabase
+    .from('crm_whatsapp_templates')
+    .select('*')
+    .eq('org_id', campaign.org_id)
+    .eq('name', campaign.template_name)
+    .eq('language', campaign.template_language)
+    .maybeSingle()
+
+  if (!template || template.status !== 'APPROVED') {
+    await failCampaign(
+      supabase,
+      campaign.id,
+      `Template ${campaign.template_name} (${campaign.template_language}) is not approved`
+    )
+    return { sent: 0, failed: 0, completed: true }
+  }
+
+  const customFields = await loadCustomFieldDefinitions(supabase, campaign.org_id)
+
+  let sent = 0
+  let failed = 0
+  let stillRunning = true
+
+  while (sent + failed < campaign.batch_size && Date.now() < deadline) {
+    // A pause or cancel issued mid-batch takes effect before the next chunk
+    if (sent + failed > 0) {
+      const { data: current } = await supabase
+        .from('crm_campaigns')
+        .select('status')
+        .eq('id', campaign.id)
+        .single()
+      if (current?.status !== 'running') {
+        stillRunning = false
+        break
+      }
+    }
+
+    const recipients = await claimRecipients(
+      supabase,
+      campaign.id,
+      Math.min(SEND_CHUNK, campaign.batch_size - sent - failed)
+    )
+    if (recipients.length === 0) break
+
+    let chunkSent = 0
+    let chunkFailed = 0
+    for (const recipient of recipients) {
+      const result = await sendToRecipient(
+        supabase,
+        campaign,
+        template as WhatsAppTemplate,
+        recipient,
+        customFields,
+        phoneNumberId,
+        accessToken
+      )
+      if (result) chunkSent++
+      else chunkFailed++
+    }
+    sent += chunkSent
+    failed += chunkFailed
+
+    // Status webhooks adjust the same counters, so add rather than overwrite
+    const { error: counterError } = await supabase.rpc('crm_increment_campaign_counters', {
+      p_campaign_id: campaign.id,
+      p_sent: chunkSent,
+      p_failed: chunkFailed,
+    })
+    if (counterError) console.error('Error updating campaign counters:', counterError)
+  }
+
+  // Anything left for a later batch? Recipients still sending belong to a run
+  // that died; the next claim returns them to pending once they are stale.
+  const { count: remaining } = await supabase
+    .from('crm_campaign_recipients')
+    .select('id', { count: 'exact', head: true })
+    .eq('campaign_id', campaign.id)
+    .in('status', ['pending', 'sending'])
+
+  const now = Date.now()
+  await supabase
+    .from('crm_campaigns')
+    .update({ locked_until: null })
+    .eq('id', campaign.id)
+
+  // Guarded so a pause or cancel issued mid-batch is not overwritten
+  const completed = stillRunning && !remaining
+  await supabase
+    .from('crm_campaigns')
+    .update(
+      completed
+        ? { status: 'completed', completed_at: new Date(now).toISOString(), next_batch_at: null }
+        : {
+            next_batch_at: new Date(now + campaign.batch_interval_seconds * 1000).toISOString(),
+          }
+    )
+    .eq('id', campaign.id)
+    .eq('status', 'running')
+
+  return { sent, failed, completed }
+}
+
+/** Moves the next pending recipients to sending and loads them with their contact */
+async function claimRecipients(
+  supabase: SupabaseClient,
+  campaignId: string,
+  limit: number
+): Promise<RecipientWithContact[]> {
+  const { data: claimed, error: claimError } = await supabase.rpc(
+    'crm_claim_campaign_recipients',
+    { p_campaign_id: campaignId, p_limit: limit }
+  )
+  if (claimError) throw new Error(`Failed to claim recipients: ${claimError.message}`)
+
+  const ids = ((claimed ?? []) as CampaignRecipient[]).map((r) => r.id)
+  if (ids.length === 0) return []
+
+  const { data: recipients, error } = await supabase
+    .from('crm_campaign_recipients')
+    .select(
+      '*, contact:crm_contacts(id, name, phone, wa_id, email, custom_fields, marketing_opted_out_at, utility_opted_out_at)'
+    )
+    .in('id', ids)
+    .order('created_at', { ascending: true })
+
+  if (error) throw new Error(`Failed to load recipients: ${error.message}`)
+  return (recipients ?? []) as RecipientWithContact[]
+}
+
+async function sendToRecipient(
+  supabase: SupabaseClient,
+  campaign: Campaign,
+  template: WhatsAppTemplate,
+  recipient: RecipientWithContact,
+  customFields: CustomFieldDefinition[],
+  phoneNumberId: string,
+  accessToken: string
+): Promise<boolean> {
+  const phone = recipient.phone || recipient.contact?.phone
+  if (!phone) {
+    await supabase
+      .from('crm_campaign_recipients')
+      .update({ status: 'failed', error_message: 'Contact has no phone number' })
+      .eq('id', recipient.id)
+    return false
+  }
+
+  // Checked at send time so opt-outs received mid-campaign are honored
+  const consentCategory = templateConsentCategory(template.category)
+  if (consentCategory && recipient.contact && isOptedOut(recipient.contact, consentCategory)) {
+    await supabase
+      .from('crm_campaign_recipients')
+      .update({
+        status: 'failed',
+        error_message: optedOutMessage(consentCategory),
+      })
+      .eq('id', recipient.id)
+    return false
+  }
+
+  // Personalize {{contact.*}} references per recipient
+  const values = resolveCampaignValues(
+    campaign.template_params?.values,
+    { ...recipient.contact, phone },
+    customFields
+  )
+
+  try {
+    const response = await sendTemplateMessage({
+      to: recipient.contact ? whatsAppRecipient(recipient.contact) : phone,
+      templateName: campaign.template_name,
+      language: campaign.template_language,
+      components: buildTemplateComponents(template, values),
+      phoneNumberId,
+      accessToken,
+    })
+
+    await supabase
+      .from('crm_campaign_recipients')
+      .update({
+        status: 'sent',
+        whatsapp_message_id: response.messages?.[0]?.id ?? null,
+        sent_at: new Date().toISOString(),
+        error_message: null,
+      })
+      .eq('id', recipient.id)
+    return true
+  } catch (error) {
+    await supabase
+      .from('crm_campaign_recipients')
+      .update({
+        status: 'failed',
+        error_message: error instanceof Error ? error.message : String(error),
+      })
+      .eq('id', recipient.id)
+    return false
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Dispatch loop
+// -----------------------------------------------------------------------------
+
+/**
+ * Starts scheduled campaigns that are due and sends every batch that comes
+ * due within maxDurationMs, sleeping between batches so intervals shorter
+ * than the cron period are still honored.
+ */
+export async function dispatchDueCampaigns(
+  supabase: SupabaseClient,
+  { maxDurationMs }: { maxDurationMs: number }
+): Promise<DispatchSummary> {
+  const deadline = Date.now() + maxDurationMs
+  const summary: DispatchSummary = { started: 0, batches: 0, sent: 0, failed: 0 }
+  const orgs = new Map<string, Organization | null>()
+
+  while (Date.now() < deadline) {
+    const nowIso = new Date().toISOString()
+
+    // 1. Scheduled campaigns whose time has come
+    const { data: due } = await supabase
+      .from('crm_campaigns')
+      .select('*')
+      .eq('status', 'scheduled')
+      .lte('scheduled_at', nowIso)
+
+    for (const campaign of (due ?? []) as Campaign[]) {
+      try {
+        await startCampaign(supabase, campaign)
+        summary.started++
+      } catch (error) {
+        await failCampaign(
+          supabase,
+          campaign.id,
+          error instanceof Error ? error.message : String(error)
+        )
+      }
+    }
+
+    // 2. Running campaigns with a batch due
+    const { data: running } = await supabase
+      .from('crm_campaigns')
+      .select('id, org_id')
+      .eq('status', 'running')
+      .lte('next_batch_at', nowIso)
+      .order('next_batch_at', { ascending: true })
+
+    let ranBatch = false
+    for (const { id, org_id } of running ?? []) {
+      if (Date.now() >= deadline) break
+
+      const campaign = await claimCampaign(supabase, id)
+      if (!campaign) continue // paused, cancelled or held by another run
+
+      const org = await loadOrganization(supabase, orgs, org_id)
+      if (!org) {
+        await failCampaign(supabase, id, 'Organization not found')
+        continue
+      }
+
+      try {
+        const result = await runCampaignBatch(supabase, campaign, org, deadline)
+        summary.batches++
+        summary.sent += result.sent
+        summary.failed += result.failed
+        ranBatch = true
+      } catch (error) {
+        console.error(`Campaign ${id} batch failed:`, error)
+        await supabase
+          .from('crm_campaigns')
+          .update({
+            locked_until: null,
+            last_error: error instanceof Error ? error.message : String(error),
+          })
+          .eq('id', id)
+      }
+    }
+
+    // 3. Sleep until the next batch is due, or stop if that is past the deadline
+    const { data: next } = await supabase
+      .from('crm_campaigns')
+      .select('next_batch_at')
+      .eq('status', 'running')
+      .not('next_batch_at', 'is', null)
+      .order('next_batch_at', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+
+    if (!next?.next_batch_at) break
+
+    const wait = Math.max(
+      new Date(next.next_batch_at).getTime() - Date.now(),
+      ranBatch ? 0 : MIN_POLL_MS
+    )
+    if (Date.now() + wait >= deadline) break
+    await new Promise((resolve) => setTimeout(resolve, wait))
+  }
+
+  return summary
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/** Takes the campaign lock; returns the fresh row, or null if unavailable */
+async function claimCampaign(supabase: SupabaseClient, id: string): Promise<Campaign | null> {
+  const now = new Date()
+  const { data } = await supabase
+    .from('crm_campaigns')
+    .update({ locked_until: new Date(now.getTime() + LOCK_MS).toISOString() })
+    .eq('id', id)
+    .eq('status', 'running')
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select()
+    .maybeSingle()
+
+  return (data as Campaign | null) ?? null
+}
+
+async function loadOrganization(
+  supabase: SupabaseClient,
+  cache: Map<string, Organization | null>,
+  orgId: string
+): Promise<Organization | null> {
+  if (!cache.has(orgId)) {
+    const { data } = await supabase
+      .from('crm_organizations')
+      .select('*')
+      .eq('org_id', orgId)
+      .maybeSingle()
+    cache.set(orgId, (data as Organization | null) ?? null)
+  }
+  return cache.get(orgId) ?? null
+}
+
+async function failCampaign(supabase: SupabaseClient, id: string, reason: string) {
+  console.error(`Campaign ${id} failed: ${reason}`)
+  await supabase
+    .from('crm_campaigns')
+    .update({
+      status: 'failed',
+      last_error: reason,
+      completed_at: new Date().toISOString(),
+      next_batch_at: null,
+      locked_until: null,
+    })
+    .eq('id', id)
+}
@@ -0,0 +1,40 @@
+// =============================================================================
+// Campaign Status Machine
+// Shared by the campaigns API, the dispatcher and the Bulk Sending page.
+// =============================================================================
+
+import type { CampaignStatus } from '@/types/database'
+
+export const CAMPAIGN_STATUS_TRANSITIONS: Record<CampaignStatus, CampaignStatus[]> = {
+  draft: ['scheduled', 'running', 'cancelled'],
+  scheduled: ['draft', 'running', 'cancelled'],
+  running: ['paused', 'completed', 'cancelled', 'failed'],
+  paused: ['running', 'cancelled'],
+  completed: [],
+  cancelled: [],
+  failed: [],
+}
+
+export function canTransitionCampaign(from: CampaignStatus, to: CampaignStatus): boolean {
+  return CAMPAIGN_STATUS_TRANSITIONS[from].includes(to)
+}
+
+/** Actions exposed to users, mapped to the status they move the campaign to */
+export const CAMPAIGN_ACTIONS = {
+  start: 'running',
+  schedule: 'scheduled',
+  unschedule: 'draft',
+  pause: 'paused',
+  resume: 'running',
+  cancel: 'cancelled',
+} as const satisfies Record<string, CampaignStatus>
+
+export type CampaignAction = keyof typeof CAMPAIGN_ACTIONS
+
+export function isCampaignAction(value: unknown): value is CampaignAction {
+  return typeof value === 'string' && value in CAMPAIGN_ACTIONS
+}
+
+export function isCampaignFinished(status: CampaignStatus): boolean {
+  return CAMPAIGN_STATUS_TRANSITIONS[status].length === 0
+}
@@ -0,0 +1,118 @@
+// =============================================================================
+// Campaign Validation
+// Shared by POST /api/campaigns and PATCH /api/campaigns/[id] to turn a
+// request body into a column update.
+// =============================================================================
+
+import { parseAudienceList, MAX_AUDIENCE_LIST, type AudienceEntry } from '@/lib/campaigns/audience'
+
+export const BATCH_SIZE_LIMITS = { min: 1, max: 1000 } as const
+export const BATCH_INTERVAL_LIMITS = { min: 0, max: 86_400 } as const
+export const REPLY_WINDOW_LIMITS = { min: 1, max: 720 } as const
+
+export interface CampaignInput {
+  name?: string
+  description?: string | null
+  template_name?: string
+  template_language?: string
+  template_params?: { values?: Record<string, string> }
+  target_group_id?: string | null
+  target_tags?: string[]
+  target_contacts?: string[]
+  /** Pasted or uploaded list, resolved to contacts and added to target_contacts */
+  audience_list?: string
+  batch_size?: number
+  batch_interval_seconds?: number
+  reply_window_hours?: number
+}
+
+export type CampaignValidation =
+  | { error: string }
+  | { error?: undefined; updates: Record<string, unknown>; audience: AudienceEntry[] }
+
+/**
+ * Validates the provided fields. With `requireAll`, name and template are
+ * mandatory (campaign creation).
+ */
+export function validateCampaignInput(
+  input: CampaignInput,
+  { requireAll }: { requireAll: boolean }
+): CampaignValidation {
+  const updates: Record<string, unknown> = {}
+  let audience: AudienceEntry[] = []
+
+  if (input.name !== undefined || requireAll) {
+    if (!input.name?.trim()) return { error: 'Campaign name is required' }
+    updates.name = input.name.trim()
+  }
+  if (input.description !== undefined) updates.description = input.description?.trim() || null
+
+  if (input.template_name !== undefined || requireAll) {
+    if (!input.template_name?.trim()) return { error: 'template_name is required' }
+    if (!input.template_language?.trim()) return { error: 'template_language is required' }
+    updates.template_name = input.template_name.trim()
+    updates.template_language = input.template_language.trim()
+  }
+
+  if (input.template_params !== undefined) {
+    const values = input.template_params?.values ?? {}
+    if (
+      typeof values !== 'object' ||
+      Object.values(values).some((v) => typeof v !== 'string')
+    ) {
+      return { error: 'template_params.values must map field keys to strings' }
+    }
+    updates.template_params = { values }
+  }
+
+  if (input.target_group_id !== undefined) updates.target_group_id = input.target_group_id || null
+
+  if (input.target_tags !== undefined) {
+    if (!Array.isArray(input.target_tags)) return { error: 'target_tags must be an array' }
+    updates.target_tags = Array.from(
+      new Set(input.target_tags.map((t) => String(t).trim()).filter(Boolean))
+    )
+  }
+
+  if (input.target_contacts !== undefined) {
+    if (!Array.isArray(input.target_contacts)) {
+      return { error: 'target_contacts must be an array of contact ids' }
+    }
+    updates.target_contacts = Array.from(new Set(input.target_contacts))
+  }
+
+  if (input.audience_list) {
+    audience = parseAudienceList(input.audience_list).entries
+    if (audience.length > MAX_AUDIENCE_LIST) {
+      return { error: `Lists are limited to ${MAX_AUDIENCE_LIST} recipients` }
+    }
+  }
+
+  if (input.batch_size !== undefined) {
+    const { min, max } = BATCH_SIZE_LIMITS
+    if (!Number.isInteger(input.batch_size) || input.batch_size < min || input.batch_size > max) {
+      return { error: `batch_size must be between ${min} and ${max}` }
+    }
+    updates.batch_size = input.batch_size
+  }
+
+  if (input.batch_interval_seconds !== undefined) {
+    const { min, max } = BATCH_INTERVAL_LIMITS
+    const interval = input.batch_interval_seconds
+    if (!Number.isInteger(interval) || interval < min || interval > max) {
+      return { error: `batch_interval_seconds must be between ${min} and ${max}` }
+    }
+    updates.batch_interval_seconds = interval
+  }
+
+  if (input.reply_window_hours !== undefined) {
+    const { min, max } = REPLY_WINDOW_LIMITS
+    const hours = input.reply_window_hours
+    if (!Number.isInteger(hours) || hours < min || hours > max) {
+      return { error: `reply_window_hours must be between ${min} and ${max}` }
+    }
+    updates.reply_window_hours = hours
+  }
+
+  return { updates, audience }
+}
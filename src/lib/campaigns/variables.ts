@@ -0,0 +1,73 @@
+// =============================================================================
+// Campaign Template Variables
+// Maps template fields to per-recipient values. A mapped value is stored in
+// template_params.values as a placeholder ({{contact.name}}) or fixed text,
+// and resolved for each recipient when the dispatcher sends.
+// Client-safe: used by the campaign wizard and the dispatcher.
+// =============================================================================
+
+import { interpolate } from '@/lib/flows/engine'
+import { formatCustomFieldValue } from '@/lib/contacts/custom-fields'
+import type { Contact, CustomFieldDefinition } from '@/types/database'
+
+export interface VariableSource {
+  value: string
+  label: string
+}
+
+export const CONTACT_VARIABLE_SOURCES: VariableSource[] = [
+  { value: '{{contact.name}}', label: 'Contact name' },
+  { value: '{{contact.phone}}', label: 'Contact phone' },
+  { value: '{{contact.email}}', label: 'Contact email' },
+]
+
+const CUSTOM_FIELD_PATTERN = /^\{\{\s*contact\.custom_fields\.([\w]+)\s*\}\}$/
+
+export function customFieldVariable(key: string): string {
+  return `{{contact.custom_fields.${key}}}`
+}
+
+/** One source per defined custom field, labelled like the field */
+export function customFieldVariableSources(
+  definitions: Pick<CustomFieldDefinition, 'key' | 'label'>[]
+): VariableSource[] {
+  return definitions.map((f) => ({ value: customFieldVariable(f.key), label: f.label }))
+}
+
+/** The custom field key a mapped value points at, if it is one */
+export function parseCustomFieldVariable(value: string): string | null {
+  return value.match(CUSTOM_FIELD_PATTERN)?.[1] ?? null
+}
+
+type RecipientContact = Pick<Contact, 'name' | 'phone' | 'email' | 'custom_fields'>
+
+/**
+ * Resolves every mapped value for one recipient. Defined custom fields are
+ * formatted for display (dates as dd/MM/yyyy, lists joined, yes/no).
+ */
+export function resolveCampaignValues(
+  values: Record<string, string> | undefined,
+  contact: Partial<RecipientContact>,
+  definitions: Pick<CustomFieldDefinition, 'key' | 'type'>[] = []
+): Record<string, string> {
+  const customFields = Object.fromEntries(
+    Object.entries(contact.custom_fields ?? {}).map(([key, value]) => [
+      key,
+      formatCustomFieldValue(definitions.find((f) => f.key === key), value),
+    ])
+  )
+  const scope = {
+    contact: {
+      name: contact.name ?? '',
+      phone: contact.phone ?? '',
+      email: contact.email ?? '',
+      custom_fields: customFields,
+    },
+  }
+
+  const resolved: Record<string, string> = {}
+  for (const [key, value] of Object.entries(values ?? {})) {
+    resolved[key] = interpolate(value, scope)
+  }
+  return resolved
+}
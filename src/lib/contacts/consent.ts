@@ -0,0 +1,185 @@
+// =============================================================================
+// Contact Consent
+// Opt-out keywords, per-category checks for template sends and recording of
+// consent changes. Marketing and utility consent are tracked separately, as
+// Meta categorizes templates; authentication templates are always allowed.
+// =============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  ConsentAction,
+  ConsentCategory,
+  ConsentSource,
+  Contact,
+} from '@/types/database'
+
+export const CONTACT_OPTED_OUT = 'CONTACT_OPTED_OUT'
+
+export const CONSENT_CATEGORIES: ConsentCategory[] = ['marketing', 'utility']
+
+export const CONSENT_LABELS: Record<ConsentCategory, string> = {
+  marketing: 'Marketing',
+  utility: 'Utility',
+}
+
+const OPTED_OUT_COLUMN = {
+  marketing: 'marketing_opted_out_at',
+  utility: 'utility_opted_out_at',
+} as const satisfies Record<ConsentCategory, keyof Contact>
+
+// -----------------------------------------------------------------------------
+// Keywords
+// Matched against the whole message after normalization, so "parar." or
+// "Pare" count but "não quero parar agora" does not. Words that are also
+// ordinary replies in bot menus or support chats ("voltar", "sair",
+// "cancelar", "start") are left out so navigating a flow never changes
+// consent by accident.
+// -----------------------------------------------------------------------------
+
+const KEYWORDS: Array<{ words: string[]; action: ConsentAction; categories: ConsentCategory[] }> = [
+  {
+    words: ['PARAR TUDO', 'CANCELAR TUDO', 'STOP ALL'],
+    action: 'opt_out',
+    categories: ['marketing', 'utility'],
+  },
+  {
+    // Includes the opt-out quick reply Meta adds to marketing templates
+    words: [
+      'PARAR',
+      'PARE',
+      'DESCADASTRAR',
+      'CANCELAR INSCRICAO',
+      'SAIR DA LISTA',
+      'PARAR PROMOCOES',
+      'STOP',
+      'UNSUBSCRIBE',
+      'STOP PROMOTIONS',
+    ],
+    action: 'opt_out',
+    categories: ['marketing'],
+  },
+  {
+    words: ['VOLTAR A RECEBER', 'INSCREVER', 'SUBSCRIBE'],
+    action: 'opt_in',
+    categories: ['marketing', 'utility'],
+  },
+]
+
+export interface ConsentKeywordMatch {
+  keyword: string
+  action: ConsentAction
+  categories: ConsentCategory[]
+}
+
+export function normalizeConsentText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+export function detectConsentKeyword(text: string | null | undefined): ConsentKeywordMatch | null {
+  if (!text) return null
+  const normalized = normalizeConsentText(text)
+  for (const entry of KEYWORDS) {
+    if (entry.words.includes(normalized)) {
+      return { keyword: normalized, action: entry.action, categories: entry.categories }
+    }
+  }
+  return null
+}
+
+// -----------------------------------------------------------------------------
+// Checks
+// -----------------------------------------------------------------------------
+
+/**
+ * Consent category a template send needs. Unknown categories are treated as
+ * marketing, the strictest one.
+ */
+export function templateConsentCategory(category: string | null | undefined): ConsentCategory | null {
+  switch (category) {
+    case 'AUTHENTICATION':
+      return null
+    case 'UTILITY':
+      return 'utility'
+    default:
+      return 'marketing'
+  }
+}
+
+export function isOptedOut(
+  contact: Partial<Pick<Contact, 'marketing_opted_out_at' | 'utility_opted_out_at'>>,
+  category: ConsentCategory | null
+): boolean {
+  if (!category) return false
+  return !!contact[OPTED_OUT_COLUMN[category]]
+}
+
+export function optedOutMessage(category: ConsentCategory): string {
+  return `The contact opted out of ${CONSENT_LABELS[category].toLowerCase()} messages`
+}
+
+// -----------------------------------------------------------------------------
+// Recording
+// -----------------------------------------------------------------------------
+
+export interface ConsentChange {
+  orgId: string
+  contact: Pick<Contact, 'id' | 'marketing_opted_out_at' | 'utility_opted_out_at'>
+  categories: ConsentCategory[]
+  action: ConsentAction
+  source: ConsentSource
+  detail?: string | null
+  messageId?: string | null
+  createdBy?: string | null
+}
+
+/**
+ * Applies the change to the contact and logs one event per category whose
+ * state actually changed. Returns those categories.
+ */
+export async function recordConsentChange(
+  supabase: SupabaseClient,
+  change: ConsentChange
+): Promise<ConsentCategory[]> {
+  const optingOut = change.action === 'opt_out'
+  const changed = change.categories.filter(
+    (category) => isOptedOut(change.contact, category) !== optingOut
+  )
+  if (changed.length === 0) return []
+
+  const now = new Date().toISOString()
+  const updates: Record<string, string | null> = {}
+  for (const category of changed) {
+    updates[OPTED_OUT_COLUMN[category]] = optingOut ? now : null
+  }
+
+  const { error: updateError } = await supabase
+    .from('crm_contacts')
+    .update(updates)
+    .eq('id', change.contact.id)
+
+  if (updateError) throw new Error(`Failed to update consent: ${updateError.message}`)
+
+  const { error: eventError } = await supabase.from('crm_contact_consent_events').insert(
+    changed.map((category) => ({
+      org_id: change.orgId,
+      contact_id: change.contact.id,
+      category,
+      action: change.action,
+      source: change.source,
+      detail: change.detail ?? null,
+      message_id: change.messageId ?? null,
+      created_by: change.createdBy ?? null,
+      created_at: now,
+    }))
+  )
+
+  if (eventError) throw new Error(`Failed to log consent change: ${eventError.message}`)
+
+  return changed
+}
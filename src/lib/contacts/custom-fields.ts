@@ -0,0 +1,260 @@
+// =============================================================================
+// Custom Field Definitions
+// Each org declares typed custom fields for its contacts. The definitions
+// build the Zod schema that validates Contact.custom_fields on every write and
+// decide how values are edited and displayed. Keys without a definition are
+// kept as free-form values.
+// Client-safe: used by the contact editors and the API.
+// =============================================================================
+
+import { format, parseISO } from 'date-fns'
+import { z } from 'zod'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CustomFieldDefinition, CustomFieldType } from '@/types/database'
+
+export const CUSTOM_FIELD_TYPES: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Select',
+  multi_select: 'Multi-select',
+  boolean: 'Yes / no',
+  url: 'URL',
+}
+
+export const CUSTOM_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]*$/
+
+/** Types whose values must be one of the definition's options */
+export function hasOptions(type: CustomFieldType): boolean {
+  return type === 'select' || type === 'multi_select'
+}
+
+const MAX_TEXT_LENGTH = 1000
+
+type CustomFieldShape = Pick<CustomFieldDefinition, 'key' | 'label' | 'type' | 'options' | 'required'>
+
+// -----------------------------------------------------------------------------
+// Validation
+// -----------------------------------------------------------------------------
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0)
+
+/** Missing values report "is required"; anything else gets the type message */
+const invalid = (message: string) => (issue: { input?: unknown }) =>
+  isEmpty(issue.input) ? 'is required' : message
+
+function valueSchema(field: CustomFieldShape): z.ZodType {
+  // Spreadsheets and forms send text; match options regardless of case
+  const toOption = (value: unknown) =>
+    typeof value === 'string'
+      ? field.options.find((o) => o.toLowerCase() === value.trim().toLowerCase()) ?? value
+      : value
+  const optionsMessage = `must be one of: ${field.options.join(', ')}`
+
+  switch (field.type) {
+    case 'text':
+      return z
+        .string({ error: invalid('must be text') })
+        .trim()
+        .max(MAX_TEXT_LENGTH, `must be at most ${MAX_TEXT_LENGTH} characters`)
+    case 'number':
+      return z.preprocess(
+        (value) =>
+          typeof value === 'string' && value.trim() !== '' ? Number(value.replace(',', '.')) : value,
+        z.number({ error: invalid('must be a number') })
+      )
+    case 'date':
+      return z.preprocess(
+        (value) => (typeof value === 'string' ? value.trim().slice(0, 10) : value),
+        z.iso.date({ error: invalid('must be a date (YYYY-MM-DD)') })
+      )
+    case 'select':
+      return z.preprocess(
+        toOption,
+        z
+          .string({ error: invalid(optionsMessage) })
+          .refine((value) => field.options.includes(value), optionsMessage)
+      )
+    case 'multi_select':
+      return z.preprocess(
+        (value) => {
+          const list = typeof value === 'string' ? value.split(/[,;|]/) : value
+          return Array.isArray(list)
+            ? [...new Set(list.filter((v) => !isEmpty(v)).map(toOption))]
+            : value
+        },
+        z
+          .array(z.string(), { error: invalid(optionsMessage) })
+          .refine((values) => values.every((v) => field.options.includes(v)), optionsMessage)
+      )
+    case 'boolean':
+      return z.preprocess(
+        (value) => {
+          if (typeof value !== 'string') return value
+          const normalized = value.trim().toLowerCase()
+          if (['true', 'yes', 'sim', 's', 'y', '1'].includes(normalized)) return true
+          if (['false', 'no', 'nao', 'não', 'n', '0'].includes(normalized)) return false
+          return value
+        },
+        z.boolean({ error: invalid('must be yes or no') })
+      )
+    case 'url': {
+      const message = 'must be a link starting with http:// or https://'
+      return z
+        .string({ error: invalid(message) })
+        .trim()
+        .pipe(z.url({ protocol: /^https?$/, error: message }))
+    }
+  }
+}
+
+/**
+ * Zod schema for Contact.custom_fields under the given definitions. Empty
+ * values become null, which clears the field. With `partial` (updates),
+ * omitted fields are left alone; otherwise required fields must be present.
+ */
+export function customFieldsSchema(
+  definitions: CustomFieldShape[],
+  options: { partial?: boolean } = {}
+) {
+  const shape: Record<string, z.ZodType> = {}
+  for (const field of definitions) {
+    const value = valueSchema(field)
+    const schema = z.preprocess(
+      (input) => (isEmpty(input) ? null : input),
+      field.required ? value : value.nullable()
+    )
+    shape[field.key] = options.partial ? schema.optional() : schema
+  }
+
+  return z
+    .object(shape, { error: 'custom_fields must be an object' })
+    .catchall(
+      z.union(
+        [z.string().trim().max(MAX_TEXT_LENGTH), z.number(), z.boolean(), z.null()],
+        { error: 'must be text, a number or yes/no' }
+      )
+    )
+}
+
+/**
+ * Validates custom field values from a request. Returns the typed values,
+ * null for fields being cleared, or a message naming the first bad field.
+ */
+export function parseCustomFields(
+  definitions: CustomFieldShape[],
+  input: unknown,
+  options: { partial?: boolean } = {}
+):
+  | { values: Record<string, unknown>; error?: undefined }
+  | { values?: undefined; error: string } {
+  const result = customFieldsSchema(definitions, options).safeParse(input ?? {})
+  if (result.success) {
+    // Drop keys that were omitted from a partial update
+    const values = Object.fromEntries(
+      Object.entries(result.data).filter(([, value]) => value !== undefined)
+    )
+    return { values }
+  }
+
+  const issue = result.error.issues[0]
+  const key = issue.path[0]
+  if (key === undefined) return { error: issue.message }
+  const label = definitions.find((f) => f.key === key)?.label ?? String(key)
+  return { error: `${label} ${issue.message}` }
+}
+
+/** Applies parsed values to stored custom fields; null removes a key */
+export function mergeCustomFields(
+  current: Record<string, unknown>,
+  updates: Record<string, unknown>
+): Record<string, unknown> {
+  const merged = { ...current, ...updates }
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === null) delete merged[key]
+  }
+  return merged
+}
+
+// -----------------------------------------------------------------------------
+// Definitions
+// -----------------------------------------------------------------------------
+
+const optionsSchema = z
+  .array(z.string().trim().min(1).max(100), { error: 'options must be a list' })
+  .max(100, 'A field can have at most 100 options')
+  .transform((options) => [...new Set(options)])
+
+/** Body of POST /api/custom-fields; PATCH takes the same without key and type */
+export const customFieldDefinitionSchema = z
+  .object({
+    key: z
+      .string({ error: 'key is required' })
+      .trim()
+      .regex(CUSTOM_FIELD_KEY_PATTERN, 'key must start with a letter and use a-z, 0-9 and _')
+      .max(64, 'key must be at most 64 characters'),
+    label: z
+      .string({ error: 'label is required' })
+      .trim()
+      .min(1, 'label is required')
+      .max(100, 'label must be at most 100 characters'),
+    type: z.enum(Object.keys(CUSTOM_FIELD_TYPES) as [CustomFieldType, ...CustomFieldType[]], {
+      error: `type must be one of: ${Object.keys(CUSTOM_FIELD_TYPES).join(', ')}`,
+    }),
+    options: optionsSchema.default([]),
+    required: z.boolean().default(false),
+    position: z.number().int().min(0).optional(),
+  })
+  .refine((d) => !hasOptions(d.type) || d.options.length > 0, {
+    message: 'Add at least one option',
+    path: ['options'],
+  })
+
+export const customFieldDefinitionUpdateSchema = z.object({
+  label: customFieldDefinitionSchema.shape.label.optional(),
+  options: optionsSchema.optional(),
+  required: z.boolean().optional(),
+  position: z.number().int().min(0).optional(),
+})
+
+// -----------------------------------------------------------------------------
+// Display
+// -----------------------------------------------------------------------------
+
+/** Human-readable value, also used when filling template variables */
+export function formatCustomFieldValue(
+  field: Pick<CustomFieldDefinition, 'type'> | undefined,
+  value: unknown
+): string {
+  if (value === null || value === undefined) return ''
+  if (Array.isArray(value)) return value.join(', ')
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (field?.type === 'date' && typeof value === 'string') {
+    const date = parseISO(value)
+    return Number.isNaN(date.getTime()) ? value : format(date, 'dd/MM/yyyy')
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+// -----------------------------------------------------------------------------
+// Loading (server side)
+// -----------------------------------------------------------------------------
+
+export async function loadCustomFieldDefinitions(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<CustomFieldDefinition[]> {
+  const { data, error } = await supabase
+    .from('crm_custom_field_definitions')
+    .select('*')
+    .eq('org_id', orgId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (error) throw new Error(`Failed to load custom fields: ${error.message}`)
+  return (data ?? []) as CustomFieldDefinition[]
+}
@@ -0,0 +1,267 @@
+// =============================================================================
+// Duplicate Contacts
+// Groups an org's contacts that look like the same person (same normalized
+// phone, same email or a similar name) and merges a group into one surviving
+// contact. The merge itself runs in crm_merge_contacts so repointing
+// conversations, recipients and memberships is atomic and audited.
+// =============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { toE164 } from '@/lib/contacts/phone'
+import type { Contact } from '@/types/database'
+
+export type DuplicateReason = 'phone' | 'email' | 'name'
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: 'Same phone',
+  email: 'Same email',
+  name: 'Similar name',
+}
+
+export interface DuplicateGroup {
+  /** Id of the oldest contact; stable while the group is unchanged */
+  id: string
+  reasons: DuplicateReason[]
+  /** Oldest first */
+  contacts: Contact[]
+}
+
+export const MAX_MERGE_CONTACTS = 10
+
+const SCAN_PAGE_SIZE = 1000
+const MAX_DUPLICATE_GROUPS = 500
+/**
+ * Names shared by more contacts than this ("Maria Silva") are too common to
+ * mean the same person, and first-name buckets larger than this ("Maria ...")
+ * skip the fuzzy comparison
+ */
+const MAX_NAME_BUCKET = 50
+
+// -----------------------------------------------------------------------------
+// Finder
+// -----------------------------------------------------------------------------
+
+export async function findDuplicateContacts(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<DuplicateGroup[]> {
+  const contacts: Contact[] = []
+  for (let from = 0; ; from += SCAN_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('crm_contacts')
+      .select('*')
+      .eq('org_id', orgId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + SCAN_PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load contacts: ${error.message}`)
+    contacts.push(...((data ?? []) as Contact[]))
+    if (!data || data.length < SCAN_PAGE_SIZE) break
+  }
+
+  const parent = contacts.map((_, i) => i)
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]]
+      i = parent[i]
+    }
+    return i
+  }
+  const edges: Array<[number, number, DuplicateReason]> = []
+  const link = (a: number, b: number, reason: DuplicateReason) => {
+    edges.push([a, b, reason])
+    parent[find(b)] = find(a)
+  }
+
+  const names = contacts.map((contact) => nameKey(contact.name))
+  const nameCounts = new Map<string, number>()
+  for (const name of names) {
+    if (name) nameCounts.set(name, (nameCounts.get(name) ?? 0) + 1)
+  }
+
+  // Exact keys: the first contact with a key is linked to every later one
+  const firstByKey = new Map<string, number>()
+  const nameBuckets = new Map<string, Array<{ index: number; key: string }>>()
+
+  contacts.forEach((contact, index) => {
+    const name = names[index]
+    const keys: Array<[DuplicateReason, string | null]> = [
+      ['phone', toE164(contact.phone) ?? contact.phone],
+      ['email', contact.email?.trim().toLowerCase() || null],
+      ['name', name && (nameCounts.get(name) ?? 0) <= MAX_NAME_BUCKET ? name : null],
+    ]
+
+    for (const [reason, key] of keys) {
+      if (!key) continue
+      const first = firstByKey.get(`${reason}:${key}`)
+      if (first === undefined) {
+        firstByKey.set(`${reason}:${key}`, index)
+      } else {
+        link(first, index, reason)
+      }
+    }
+
+    if (name) {
+      const first = name.split(' ')[0]
+      const bucket = nameBuckets.get(first)
+      if (bucket) bucket.push({ index, key: name })
+      else nameBuckets.set(first, [{ index, key: name }])
+    }
+  })
+
+  // Typos: names sharing a first token within a small edit distance
+  for (const bucket of nameBuckets.values()) {
+    if (bucket.length < 2 || bucket.length > MAX_NAME_BUCKET) continue
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const a = bucket[i]
+        const b = bucket[j]
+        if (a.key !== b.key && isSimilarName(a.key, b.key)) link(a.index, b.index, 'name')
+      }
+    }
+  }
+
+  const groups = new Map<number, { members: number[]; reasons: Set<DuplicateReason> }>()
+  contacts.forEach((_, index) => {
+    const root = find(index)
+    const group = groups.get(root) ?? { members: [], reasons: new Set() }
+    group.members.push(index)
+    groups.set(root, group)
+  })
+  for (const [a, , reason] of edges) groups.get(find(a))?.reasons.add(reason)
+
+  return [...groups.values()]
+    .filter((g) => g.members.length > 1)
+    .map((g) => ({
+      id: contacts[g.members[0]].id,
+      reasons: (['phone', 'email', 'name'] as const).filter((r) => g.reasons.has(r)),
+      contacts: g.members.map((index) => contacts[index]),
+    }))
+    .sort((a, b) => groupRank(a) - groupRank(b) || b.contacts.length - a.contacts.length)
+    .slice(0, MAX_DUPLICATE_GROUPS)
+}
+
+/** Phone and email matches are listed before name-only ones */
+function groupRank(group: DuplicateGroup): number {
+  return group.reasons.includes('phone') ? 0 : group.reasons.includes('email') ? 1 : 2
+}
+
+/**
+ * Lowercase, accent-free name with its words sorted, so "Silva, João" and
+ * "joão silva" match. Single-word names are too ambiguous and return null.
+ */
+function nameKey(name: string | null): string | null {
+  if (!name) return null
+  const words = name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+  return words.length >= 2 ? words.sort().join(' ') : null
+}
+
+function isSimilarName(a: string, b: string): boolean {
+  if (Math.min(a.length, b.length) < 8 || Math.abs(a.length - b.length) > 2) return false
+  return editDistance(a, b) <= 2
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// -----------------------------------------------------------------------------
+// Merge
+// -----------------------------------------------------------------------------
+
+export const MERGE_FIELDS = [
+  'name',
+  'phone',
+  'email',
+  'profile_picture_url',
+  'hubspot_contact_id',
+  'existing_client_id',
+] as const
+
+export type MergeField = (typeof MERGE_FIELDS)[number]
+
+export const MERGE_FIELD_LABELS: Record<MergeField, string> = {
+  name: 'Name',
+  phone: 'Phone',
+  email: 'Email',
+  profile_picture_url: 'Profile picture',
+  hubspot_contact_id: 'HubSpot contact',
+  existing_client_id: 'Linked client',
+}
+
+/** Which contact each surviving field value is taken from */
+export type MergeChoices = Partial<Record<MergeField, string>>
+
+/**
+ * The contact a surviving field value is taken from: the chosen one, else the
+ * survivor when it has a value, else the oldest other contact that has one.
+ */
+export function mergeSource(
+  field: MergeField,
+  survivor: Contact,
+  others: Contact[],
+  choices: MergeChoices
+): Contact {
+  const all = [survivor, ...others]
+  return all.find((c) => c.id === choices[field]) ?? all.find((c) => c[field]) ?? survivor
+}
+
+/** The scalar values the survivor ends up with; the wa_id follows the phone */
+export function resolveMergeValues(
+  survivor: Contact,
+  others: Contact[],
+  choices: MergeChoices
+): Record<MergeField | 'wa_id', string | null> {
+  const values = Object.fromEntries(
+    MERGE_FIELDS.map((field) => [field, mergeSource(field, survivor, others, choices)[field]])
+  ) as Record<MergeField, string | null>
+
+  const phoneSource = mergeSource('phone', survivor, others, choices)
+  const waId =
+    phoneSource.wa_id ?? [survivor, ...others].find((c) => c.wa_id)?.wa_id ?? null
+
+  return { ...values, wa_id: waId }
+}
+
+/**
+ * Merges `others` into `survivor` (both already loaded from the org) and
+ * returns the crm_contact_merges id.
+ */
+export async function mergeContacts(
+  supabase: SupabaseClient,
+  orgId: string,
+  survivor: Contact,
+  others: Contact[],
+  choices: MergeChoices,
+  mergedBy: string
+): Promise<string> {
+  const { data, error } = await supabase.rpc('crm_merge_contacts', {
+    p_org_id: orgId,
+    p_survivor_id: survivor.id,
+    p_merged_ids: others.map((c) => c.id),
+    p_values: resolveMergeValues(survivor, others, choices),
+    p_merged_by: mergedBy,
+  })
+
+  if (error) throw new Error(`Failed to merge contacts: ${error.message}`)
+  return data as string
+}
@@ -0,0 +1,127 @@
+// =============================================================================
+// Contact Filters
+// ContactFilters <-> query string, and the filtered crm_contacts query shared
+// by the contacts list and the contacts export.
+// =============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { dateToBound } from '@/lib/dates'
+import { segmentContacts } from '@/lib/contacts/segments'
+import type { ContactFilters, SegmentFilter } from '@/types/database'
+
+export const CONTACT_SORT_COLUMNS = ['name', 'phone', 'email', 'created_at', 'updated_at'] as const
+export type ContactSortColumn = (typeof CONTACT_SORT_COLUMNS)[number]
+
+export interface ContactSort {
+  column: ContactSortColumn
+  ascending: boolean
+}
+
+/** Query params: search, group_id, tags (comma-separated), has_hubspot, date_from, date_to */
+export function parseContactFilters(params: URLSearchParams): ContactFilters {
+  const filters: ContactFilters = {}
+
+  const search = params.get('search')?.trim()
+  if (search) filters.search = search
+
+  const groupId = params.get('group_id')
+  if (groupId) filters.group_id = groupId
+
+  const tags = params
+    .get('tags')
+    ?.split(',')
+    .map((t) => t.trim())
+    .filter(Boolean)
+  if (tags?.length) filters.tags = tags
+
+  const hasHubspot = params.get('has_hubspot')
+  if (hasHubspot === 'true' || hasHubspot === 'false') {
+    filters.has_hubspot = hasHubspot === 'true'
+  }
+
+  const dateFrom = params.get('date_from')
+  if (dateFrom) filters.date_from = dateFrom
+  const dateTo = params.get('date_to')
+  if (dateTo) filters.date_to = dateTo
+
+  return filters
+}
+
+export function contactFiltersToParams(filters: ContactFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.search) params.set('search', filters.search)
+  if (filters.group_id) params.set('group_id', filters.group_id)
+  if (filters.tags?.length) params.set('tags', filters.tags.join(','))
+  if (filters.has_hubspot !== undefined) params.set('has_hubspot', String(filters.has_hubspot))
+  if (filters.date_from) params.set('date_from', filters.date_from)
+  if (filters.date_to) params.set('date_to', filters.date_to)
+  return params
+}
+
+/** Query params: sort (one of CONTACT_SORT_COLUMNS), order ('asc' | 'desc') */
+export function parseContactSort(params: URLSearchParams): ContactSort {
+  const sort = params.get('sort') as ContactSortColumn | null
+  return {
+    column: sort && CONTACT_SORT_COLUMNS.includes(sort) ? sort : 'updated_at',
+    ascending: params.get('order') === 'asc',
+  }
+}
+
+/**
+ * The org's contacts matching the filters, in a stable order. Static group
+ * membership is filtered through an inner join so large groups don't turn
+ * into huge id lists; when filters.group_id is a dynamic group, pass its
+ * saved filter as `segment` and the contacts come from the segment instead.
+ */
+export function queryContacts(
+  supabase: SupabaseClient,
+  orgId: string,
+  filters: ContactFilters,
+  sort: ContactSort,
+  options: { count?: 'exact'; segment?: SegmentFilter | null } = {}
+) {
+  const joinGroup = !!filters.group_id && !options.segment
+  const select: string = joinGroup ? '*, crm_contact_group_members!inner()' : '*'
+
+  let query = (
+    options.segment
+      ? segmentContacts(supabase, orgId, options.segment, { count: options.count }).select(select)
+      : supabase.from('crm_contacts').select(select, { count: options.count })
+  )
+    .eq('org_id', orgId)
+    .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+    .order('id', { ascending: true })
+
+  // Search by name, phone, or email
+  if (filters.search) {
+    const search = filters.search.replace(/[,()]/g, ' ')
+    query = query.or(`name.ilike.%${search}%,phone.ilike.%${search}%,email.ilike.%${search}%`)
+  }
+
+  // Filter by static group membership
+  if (joinGroup) {
+    query = query.eq('crm_contact_group_members.group_id', filters.group_id)
+  }
+
+  // Filter by tags (contacts must contain all specified tags)
+  if (filters.tags?.length) {
+    query = query.contains('tags', filters.tags)
+  }
+
+  // Filter by HubSpot link
+  if (filters.has_hubspot === true) {
+    query = query.not('hubspot_contact_id', 'is', null)
+  } else if (filters.has_hubspot === false) {
+    query = query.is('hubspot_contact_id', null)
+  }
+
+  // Filter by creation date; a bare date_to includes that whole day
+  if (filters.date_from) {
+    query = query.gte('created_at', filters.date_from)
+  }
+  if (filters.date_to) {
+    query = query.lt('created_at', dateToBound(filters.date_to))
+  }
+
+  return query
+}
@@ -0,0 +1,431 @@
+// =============================================================================
+// Contact Import
+// The import dialog parses the spreadsheet in the browser and applies the
+// column mapping; the API re-validates every record, plans the import against
+// the org's contacts (dry run) and then commits the same plan.
+// =============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { phoneVariants, toE164 } from '@/lib/contacts/phone'
+import { loadCustomFieldDefinitions, parseCustomFields } from '@/lib/contacts/custom-fields'
+import type { Contact, CustomFieldDefinition } from '@/types/database'
+
+export const MAX_IMPORT_ROWS = 10_000
+
+// -----------------------------------------------------------------------------
+// Column mapping (client side)
+// -----------------------------------------------------------------------------
+
+export type ImportTarget = 'ignore' | 'phone' | 'name' | 'email' | 'tags' | 'custom_field'
+
+export const IMPORT_TARGET_LABELS: Record<ImportTarget, string> = {
+  ignore: "Don't import",
+  phone: 'Phone',
+  name: 'Name',
+  email: 'Email',
+  tags: 'Tags',
+  custom_field: 'Custom field',
+}
+
+export interface ImportColumnMapping {
+  target: ImportTarget
+  /** Custom field key when target is custom_field */
+  key?: string
+}
+
+/** A spreadsheet row after the mapping was applied; the phone is still raw */
+export interface ImportRecord {
+  /** 1-based spreadsheet row number, header included, for the report */
+  row: number
+  phone: string
+  name?: string
+  email?: string
+  tags?: string[]
+  custom_fields?: Record<string, string>
+}
+
+const HEADER_GUESSES: Array<{ pattern: RegExp; target: ImportTarget }> = [
+  { pattern: /^(phone|telefone|celular|whatsapp|mobile|fone|numero|tel)/, target: 'phone' },
+  { pattern: /^(name|nome|full ?name|nome completo|contato|contact)$/, target: 'name' },
+  { pattern: /^(e-?mail)/, target: 'email' },
+  { pattern: /^(tags?|etiquetas?|marcadores?)$/, target: 'tags' },
+]
+
+/**
+ * Suggests a mapping from a header cell. Other headers become custom fields,
+ * matched to a defined field by key or label when there is one.
+ */
+export function guessImportMapping(
+  header: string,
+  customFields: Pick<CustomFieldDefinition, 'key' | 'label'>[] = []
+): ImportColumnMapping {
+  const normalized = header
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .trim()
+    .toLowerCase()
+
+  if (!normalized) return { target: 'ignore' }
+
+  for (const { pattern, target } of HEADER_GUESSES) {
+    if (pattern.test(normalized)) return { target }
+  }
+  const key = customFieldKey(header)
+  const defined = customFields.find((f) => f.key === key || customFieldKey(f.label) === key)
+  return { target: 'custom_field', key: defined?.key ?? key }
+}
+
+/** snake_case key for a custom field, e.g. "Data de Nascimento" -> data_de_nascimento */
+export function customFieldKey(label: string): string {
+  return label
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
+
+export interface ParsedSpreadsheet {
+  headers: string[]
+  rows: string[][]
+}
+
+/**
+ * Reads the first sheet of an XLSX, XLS or CSV file. Every cell comes back as
+ * text; large numbers keep all their digits so phones are not mangled.
+ */
+export async function readSpreadsheet(file: File): Promise<ParsedSpreadsheet> {
+  const XLSX = await import('xlsx')
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true })
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  if (!sheet) return { headers: [], rows: [] }
+
+  const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: true,
+    defval: '',
+    blankrows: false,
+  })
+
+  const [headerRow = [], ...dataRows] = table.map((row) => row.map(cellToText))
+  return { headers: headerRow, rows: dataRows }
+}
+
+function cellToText(cell: unknown): string {
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10)
+  if (typeof cell === 'number') {
+    return Number.isInteger(cell) ? cell.toFixed(0) : String(cell)
+  }
+  return String(cell ?? '').trim()
+}
+
+/** Turns spreadsheet rows (header row excluded) into import records */
+export function applyImportMapping(
+  rows: string[][],
+  mappings: ImportColumnMapping[]
+): ImportRecord[] {
+  const records: ImportRecord[] = []
+
+  rows.forEach((cells, index) => {
+    const record: ImportRecord = { row: index + 2, phone: '' }
+
+    mappings.forEach((mapping, column) => {
+      const value = (cells[column] ?? '').trim()
+      if (!value) return
+
+      switch (mapping.target) {
+        case 'phone':
+          record.phone = value
+          break
+        case 'name':
+          record.name = value
+          break
+        case 'email':
+          record.email = value
+          break
+        case 'tags':
+          record.tags = [
+            ...(record.tags ?? []),
+            ...value.split(/[,;|]/).map((t) => t.trim()).filter(Boolean),
+          ]
+          break
+        case 'custom_field':
+          if (mapping.key) {
+            record.custom_fields = { ...record.custom_fields, [mapping.key]: value }
+          }
+          break
+      }
+    })
+
+    // Skip rows that are completely empty
+    if (record.phone || record.name || record.email) records.push(record)
+  })
+
+  return records
+}
+
+// -----------------------------------------------------------------------------
+// Planning (server side)
+// -----------------------------------------------------------------------------
+
+export type ImportRowStatus = 'new' | 'update' | 'duplicate' | 'invalid'
+
+export interface ImportRowResult {
+  row: number
+  status: ImportRowStatus
+  phone: string
+  name: string | null
+  /** Why the row is invalid or a duplicate */
+  reason?: string
+}
+
+export type ImportCounts = Record<ImportRowStatus, number>
+
+export interface ImportPlan {
+  counts: ImportCounts
+  rows: ImportRowResult[]
+}
+
+interface PlannedWrite {
+  /** Custom fields are typed by the org's definitions */
+  record: Omit<ImportRecord, 'custom_fields'> & {
+    phone: string
+    custom_fields: Record<string, unknown>
+  }
+  existing: Contact | null
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const LOOKUP_CHUNK = 100
+const WRITE_CHUNK = 500
+
+/**
+ * Validates the records and matches them against the org's contacts.
+ * The first row for a phone wins; later rows with the same phone are
+ * reported as duplicates and skipped.
+ */
+export async function planContactImport(
+  supabase: SupabaseClient,
+  orgId: string,
+  records: ImportRecord[],
+  defaultCountryCode?: string
+): Promise<ImportPlan & { writes: PlannedWrite[] }> {
+  const rows: ImportRowResult[] = []
+  const writes: PlannedWrite[] = []
+  const firstRowByPhone = new Map<string, number>()
+  const definitions = await loadCustomFieldDefinitions(supabase, orgId)
+
+  for (const raw of records) {
+    const record = coerceRecord(raw)
+    const phone = toE164(record.phone, defaultCountryCode)
+    const name = record.name ?? null
+
+    if (!phone) {
+      rows.push({
+        row: record.row,
+        status: 'invalid',
+        phone: record.phone,
+        name,
+        reason: record.phone
+          ? 'Invalid phone number (write international numbers with +)'
+          : 'Missing phone number',
+      })
+      continue
+    }
+    if (record.email && !EMAIL_PATTERN.test(record.email)) {
+      rows.push({ row: record.row, status: 'invalid', phone, name, reason: 'Invalid email' })
+      continue
+    }
+    // Required fields are not enforced: a row may only update other columns
+    const customFields = parseCustomFields(definitions, record.custom_fields, { partial: true })
+    if (customFields.error !== undefined) {
+      rows.push({ row: record.row, status: 'invalid', phone, name, reason: customFields.error })
+      continue
+    }
+
+    const firstRow = firstRowByPhone.get(phone)
+    if (firstRow !== undefined) {
+      rows.push({
+        row: record.row,
+        status: 'duplicate',
+        phone,
+        name,
+        reason: `Same phone as row ${firstRow}`,
+      })
+      continue
+    }
+    firstRowByPhone.set(phone, record.row)
+
+    // Status is settled once existing contacts are known
+    const result: ImportRowResult = { row: record.row, status: 'new', phone, name }
+    rows.push(result)
+    writes.push({
+      record: { ...record, phone, custom_fields: customFields.values },
+      existing: null,
+    })
+  }
+
+  // Match against existing contacts in any stored form of the phone
+  const existingByPhone = new Map<string, Contact>()
+  const phones = writes.map((w) => w.record.phone)
+
+  for (let i = 0; i < phones.length; i += LOOKUP_CHUNK) {
+    const chunk = phones.slice(i, i + LOOKUP_CHUNK)
+    const { data, error } = await supabase
+      .from('crm_contacts')
+      .select('*')
+      .eq('org_id', orgId)
+      .in('phone', chunk.flatMap(phoneVariants))
+
+    if (error) throw new Error(`Failed to look up contacts: ${error.message}`)
+
+    for (const contact of (data ?? []) as Contact[]) {
+      const key = toE164(contact.phone, defaultCountryCode) ?? contact.phone
+      if (!existingByPhone.has(key) || key === contact.phone) {
+        existingByPhone.set(key, contact)
+      }
+    }
+  }
+
+  const resultByRow = new Map(rows.map((r) => [r.row, r]))
+  for (const write of writes) {
+    write.existing = existingByPhone.get(write.record.phone) ?? null
+    const result = resultByRow.get(write.record.row)
+    if (write.existing && result) result.status = 'update'
+  }
+
+  const counts: ImportCounts = { new: 0, update: 0, duplicate: 0, invalid: 0 }
+  for (const row of rows) counts[row.status]++
+
+  return { counts, rows, writes }
+}
+
+/** Records come from the browser; keep only well-typed values */
+function coerceRecord(raw: ImportRecord): ImportRecord {
+  const text = (value: unknown) =>
+    typeof value === 'string' || typeof value === 'number' ? String(value).trim() : ''
+
+  const customFields: Record<string, string> = {}
+  if (raw.custom_fields && typeof raw.custom_fields === 'object') {
+    for (const [key, value] of Object.entries(raw.custom_fields)) {
+      const clean = text(value)
+      if (key && clean) customFields[key] = clean
+    }
+  }
+
+  return {
+    row: Number(raw.row) || 0,
+    phone: text(raw.phone),
+    name: text(raw.name) || undefined,
+    email: text(raw.email) || undefined,
+    tags: Array.isArray(raw.tags) ? raw.tags.map(text).filter(Boolean) : undefined,
+    custom_fields: customFields,
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Commit (server side)
+// -----------------------------------------------------------------------------
+
+export interface ImportResult {
+  created: number
+  updated: number
+  added_to_group: number
+}
+
+/**
+ * Writes a plan: creates new contacts and merges the file into existing ones.
+ * Values in the file overwrite name and email, tags are added to the existing
+ * tags and custom fields are merged key by key.
+ */
+export async function commitContactImport(
+  supabase: SupabaseClient,
+  orgId: string,
+  writes: PlannedWrite[],
+  groupId?: string | null
+): Promise<ImportResult> {
+  const contactIds: string[] = []
+  let created = 0
+  let updated = 0
+
+  const inserts = writes.filter((w) => !w.existing)
+  const updates = writes.filter((w) => w.existing)
+
+  for (let i = 0; i < inserts.length; i += WRITE_CHUNK) {
+    const chunk = inserts.slice(i, i + WRITE_CHUNK)
+    const { data, error } = await supabase
+      .from('crm_contacts')
+      .insert(
+        chunk.map(({ record }) => ({
+          org_id: orgId,
+          phone: record.phone,
+          name: record.name ?? null,
+          email: record.email ?? null,
+          custom_fields: record.custom_fields ?? {},
+          tags: [...new Set(record.tags ?? [])],
+        }))
+      )
+      .select('id')
+
+    if (error) throw new Error(`Failed to create contacts: ${error.message}`)
+    created += data?.length ?? 0
+    contactIds.push(...(data ?? []).map((c) => c.id as string))
+  }
+
+  for (let i = 0; i < updates.length; i += WRITE_CHUNK) {
+    const chunk = updates.slice(i, i + WRITE_CHUNK)
+    const { data, error } = await supabase
+      .from('crm_contacts')
+      .upsert(
+        chunk.map(({ record, existing }) => {
+          const current = existing as Contact
+          return {
+            id: current.id,
+            org_id: orgId,
+            phone: current.phone,
+            name: record.name ?? current.name,
+            email: record.email ?? current.email,
+            custom_fields: { ...current.custom_fields, ...record.custom_fields },
+            tags: [...new Set([...current.tags, ...(record.tags ?? [])])],
+          }
+        }),
+        { onConflict: 'id' }
+      )
+      .select('id')
+
+    if (error) throw new Error(`Failed to update contacts: ${error.message}`)
+    updated += data?.length ?? 0
+    contactIds.push(...(data ?? []).map((c) => c.id as string))
+  }
+
+  // Make imported tags show up in the org's tag list
+  const tagNames = [...new Set(writes.flatMap((w) => w.record.tags ?? []))]
+  if (tagNames.length > 0) {
+    await supabase
+      .from('crm_tags')
+      .upsert(
+        tagNames.map((name) => ({ org_id: orgId, name })),
+        { onConflict: 'org_id,name', ignoreDuplicates: true }
+      )
+  }
+
+  let addedToGroup = 0
+  if (groupId) {
+    for (let i = 0; i < contactIds.length; i += WRITE_CHUNK) {
+      const { error } = await supabase
+        .from('crm_contact_group_members')
+        .upsert(
+          contactIds.slice(i, i + WRITE_CHUNK).map((contactId) => ({
+            group_id: groupId,
+            contact_id: contactId,
+          })),
+          { onConflict: 'group_id,contact_id', ignoreDuplicates: true }
+        )
+
+      if (error) throw new Error(`Failed to add contacts to group: ${error.message}`)
+    }
+    addedToGroup = contactIds.length
+  }
+
+  return { created, updated, added_to_group: addedToGroup }
+}
@@ -0,0 +1,106 @@
+// =============================================================================
+// Phone Numbers
+// Contacts are stored with a canonical E.164 phone (+5511999999999) and,
+// once they have messaged us, the WhatsApp wa_id they write from. Every place
+// that creates, matches or messages a contact goes through this module.
+//
+// Brazilian mobiles gained a 9th digit in 2012-2016, but WhatsApp still
+// reports many of them without it (wa_id 551199999999). The canonical phone
+// always includes the 9th digit and lookups try both forms.
+// =============================================================================
+
+import type { Contact } from '@/types/database'
+
+export const DEFAULT_COUNTRY_CODE = '55'
+
+// Brazilian national number after the trunk 0: DDD, then a 9-digit mobile
+// or an 8-digit line
+const BRAZILIAN_NATIONAL = /^[1-9][1-9](9\d{8}|[2-9]\d{7})$/
+
+/**
+ * Normalizes a phone number to canonical E.164, or returns null when it cannot
+ * be one. `defaultCountryCode` (digits only) is used for national numbers;
+ * with the Brazilian default, only numbers shaped like a Brazilian one get it,
+ * so a foreign number written without '+' is rejected rather than misfiled.
+ */
+export function toE164(
+  raw: string | number | null | undefined,
+  defaultCountryCode: string = DEFAULT_COUNTRY_CODE
+): string | null {
+  if (raw === null || raw === undefined) return null
+
+  const text = String(raw).trim()
+  if (!text) return null
+
+  const hasPlus = text.startsWith('+')
+  let digits = text.replace(/\D/g, '')
+  if (!digits) return null
+
+  if (!hasPlus) {
+    if (digits.startsWith('00')) {
+      // International dialing prefix: 0055 11 ...
+      digits = digits.slice(2)
+    } else if (digits.length <= 11 || digits.startsWith('0')) {
+      // National number, possibly with a trunk prefix: (011) 99999-9999
+      const national = digits.replace(/^0+/, '')
+      if (defaultCountryCode === '55' && !BRAZILIAN_NATIONAL.test(national)) return null
+      digits = defaultCountryCode + national
+    }
+  }
+
+  if (!/^[1-9]\d{7,14}$/.test(digits)) return null
+  return `+${withBrazilianNinthDigit(digits)}`
+}
+
+/** Canonical E.164 phone for a WhatsApp wa_id (always international digits) */
+export function waIdToE164(waId: string): string | null {
+  return toE164(`+${waId.replace(/\D/g, '')}`)
+}
+
+/**
+ * Every stored form a canonical phone may have: itself and, for Brazilian
+ * mobiles, the form without the 9th digit, each with and without '+' (the
+ * webhook used to store bare digits). Use with `.in('phone', ...)`.
+ */
+export function phoneVariants(phone: string): string[] {
+  const canonical = toE164(phone)
+  if (!canonical) return [phone]
+
+  const digits = canonical.slice(1)
+  const forms = [digits]
+  if (isBrazilianMobile(digits)) {
+    forms.push(`${digits.slice(0, 4)}${digits.slice(5)}`)
+  }
+  return forms.flatMap((form) => [`+${form}`, form])
+}
+
+/** True when both numbers are the same line, ignoring the BR 9th digit */
+export function isSamePhone(a: string, b: string): boolean {
+  const canonical = toE164(a)
+  return canonical !== null && canonical === toE164(b)
+}
+
+/**
+ * The `to` for WhatsApp Cloud API sends: the wa_id the contact writes from
+ * when known, otherwise the phone digits.
+ */
+export function whatsAppRecipient(contact: Pick<Contact, 'phone' | 'wa_id'>): string {
+  return contact.wa_id || contact.phone.replace(/\D/g, '')
+}
+
+// -----------------------------------------------------------------------------
+// Brazil
+// -----------------------------------------------------------------------------
+
+/** 55 + area code (11-99) + 9 + 8-digit subscriber starting 6-9 */
+function isBrazilianMobile(digits: string): boolean {
+  return /^55[1-9][1-9]9[6-9]\d{7}$/.test(digits)
+}
+
+/** Adds the 9th digit to an 8-digit Brazilian mobile: 55 11 8888-7777 -> 55 11 98888-7777 */
+function withBrazilianNinthDigit(digits: string): string {
+  if (/^55[1-9][1-9][6-9]\d{7}$/.test(digits)) {
+    return `${digits.slice(0, 4)}9${digits.slice(4)}`
+  }
+  return digits
+}
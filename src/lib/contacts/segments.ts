@@ -0,0 +1,220 @@
+// =============================================================================
+// Dynamic Segments
+// A dynamic contact group stores a SegmentFilter instead of members. The
+// filter is validated here and evaluated by crm_segment_contacts whenever the
+// group is listed, exported or targeted by a campaign.
+// =============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  CampaignEngagementEvent,
+  CustomFieldOperator,
+  CustomFieldType,
+  SegmentFilter,
+} from '@/types/database'
+
+export const CUSTOM_FIELD_OPERATORS: Record<CustomFieldOperator, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  contains: 'contains',
+  greater_than: 'greater than',
+  less_than: 'less than',
+  exists: 'is set',
+  not_exists: 'is empty',
+}
+
+const OPERATORS_BY_TYPE: Record<CustomFieldType, CustomFieldOperator[]> = {
+  text: ['equals', 'not_equals', 'contains', 'exists', 'not_exists'],
+  url: ['equals', 'not_equals', 'contains', 'exists', 'not_exists'],
+  number: ['equals', 'not_equals', 'greater_than', 'less_than', 'exists', 'not_exists'],
+  date: ['equals', 'not_equals', 'greater_than', 'less_than', 'exists', 'not_exists'],
+  select: ['equals', 'not_equals', 'exists', 'not_exists'],
+  multi_select: ['contains', 'exists', 'not_exists'],
+  boolean: ['equals', 'exists', 'not_exists'],
+}
+
+/** Operators that make sense for a field type; all of them for undefined keys */
+export function customFieldOperators(type: CustomFieldType | undefined): CustomFieldOperator[] {
+  return type ? OPERATORS_BY_TYPE[type] : (Object.keys(CUSTOM_FIELD_OPERATORS) as CustomFieldOperator[])
+}
+
+export const CAMPAIGN_ENGAGEMENT_EVENTS: Record<CampaignEngagementEvent, string> = {
+  received: 'Received',
+  read: 'Read',
+  replied: 'Replied to',
+  not_replied: 'Did not reply to',
+}
+
+const MAX_DAYS = 3650
+
+/** Values greater_than / less_than can compare against */
+const COMPARABLE_VALUE = /^(-?\d+(\.\d+)?|\d{4}-\d{2}-\d{2})$/
+
+/** campaign.campaign_id is compared with a uuid column */
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// -----------------------------------------------------------------------------
+// Validation
+// -----------------------------------------------------------------------------
+
+/**
+ * Validates a filter from a request body and drops empty conditions.
+ * Returns an error message for anything malformed.
+ */
+export function parseSegmentFilter(
+  input: unknown
+): { filter: SegmentFilter; error?: undefined } | { filter?: undefined; error: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'filter must be an object' }
+  }
+  const raw = input as Record<string, unknown>
+  const filter: SegmentFilter = {}
+
+  for (const key of ['tags_any', 'tags_all', 'classifications'] as const) {
+    if (raw[key] === undefined || raw[key] === null) continue
+    if (!Array.isArray(raw[key])) return { error: `${key} must be a list` }
+    const values = [...new Set((raw[key] as unknown[]).map((v) => String(v).trim()).filter(Boolean))]
+    if (values.length > 0) filter[key] = values
+  }
+
+  if (raw.custom_fields !== undefined && raw.custom_fields !== null) {
+    if (!Array.isArray(raw.custom_fields)) return { error: 'custom_fields must be a list' }
+    const conditions: NonNullable<SegmentFilter['custom_fields']> = []
+    for (const item of raw.custom_fields as Array<Record<string, unknown>>) {
+      const key = String(item?.key ?? '').trim()
+      const op = item?.op as CustomFieldOperator
+      if (!key) return { error: 'Every custom field condition needs a field' }
+      if (!Object.hasOwn(CUSTOM_FIELD_OPERATORS, op)) {
+        return { error: `Unknown custom field operator: ${String(item?.op)}` }
+      }
+      if (op === 'exists' || op === 'not_exists') {
+        conditions.push({ key, op })
+      } else {
+        const value = String(item?.value ?? '').trim()
+        if (!value) return { error: `Enter a value for ${key}` }
+        if ((op === 'greater_than' || op === 'less_than') && !COMPARABLE_VALUE.test(value)) {
+          return { error: `${key} can only be compared with a number or a date (YYYY-MM-DD)` }
+        }
+        conditions.push({ key, op, value })
+      }
+    }
+    if (conditions.length > 0) filter.custom_fields = conditions
+  }
+
+  for (const key of ['last_conversation_within_days', 'no_conversation_in_days'] as const) {
+    if (raw[key] === undefined || raw[key] === null || raw[key] === '') continue
+    const days = parseDays(raw[key])
+    if (days === null) return { error: `${key} must be between 1 and ${MAX_DAYS}` }
+    filter[key] = days
+  }
+
+  if (raw.campaign !== undefined && raw.campaign !== null) {
+    if (typeof raw.campaign !== 'object' || Array.isArray(raw.campaign)) {
+      return { error: 'campaign must be an object' }
+    }
+    const campaign = raw.campaign as Record<string, unknown>
+    const event = campaign.event as CampaignEngagementEvent
+    if (!Object.hasOwn(CAMPAIGN_ENGAGEMENT_EVENTS, event)) {
+      return { error: `Unknown campaign event: ${String(campaign.event)}` }
+    }
+    filter.campaign = { event }
+    if (campaign.campaign_id) {
+      if (typeof campaign.campaign_id !== 'string' || !UUID.test(campaign.campaign_id)) {
+        return { error: 'campaign.campaign_id must be a campaign id' }
+      }
+      filter.campaign.campaign_id = campaign.campaign_id
+    }
+    if (campaign.within_days !== undefined && campaign.within_days !== null && campaign.within_days !== '') {
+      const days = parseDays(campaign.within_days)
+      if (days === null) return { error: `campaign.within_days must be between 1 and ${MAX_DAYS}` }
+      filter.campaign.within_days = days
+    }
+  }
+
+  if (Object.keys(filter).length === 0) {
+    return { error: 'Add at least one condition to the segment' }
+  }
+  return { filter }
+}
+
+function parseDays(value: unknown): number | null {
+  const days = Number(value)
+  return Number.isInteger(days) && days >= 1 && days <= MAX_DAYS ? days : null
+}
+
+/** One line per condition, for group lists and the segment preview */
+export function describeSegment(filter: SegmentFilter): string[] {
+  const lines: string[] = []
+  if (filter.tags_any?.length) lines.push(`Tagged with any of ${filter.tags_any.join(', ')}`)
+  if (filter.tags_all?.length) lines.push(`Tagged with all of ${filter.tags_all.join(', ')}`)
+  for (const c of filter.custom_fields ?? []) {
+    lines.push(`${c.key} ${CUSTOM_FIELD_OPERATORS[c.op]}${c.value !== undefined ? ` "${c.value}"` : ''}`)
+  }
+  if (filter.last_conversation_within_days) {
+    lines.push(`Talked to us in the last ${filter.last_conversation_within_days} days`)
+  }
+  if (filter.no_conversation_in_days) {
+    lines.push(`No conversation in the last ${filter.no_conversation_in_days} days`)
+  }
+  if (filter.classifications?.length) {
+    lines.push(`Had a conversation classified ${filter.classifications.join(' or ')}`)
+  }
+  if (filter.campaign) {
+    const { event, campaign_id, within_days } = filter.campaign
+    lines.push(
+      `${CAMPAIGN_ENGAGEMENT_EVENTS[event]} ${campaign_id ? 'a specific campaign' : 'any campaign'}` +
+        (within_days ? ` in the last ${within_days} days` : '')
+    )
+  }
+  return lines
+}
+
+// -----------------------------------------------------------------------------
+// Evaluation
+// -----------------------------------------------------------------------------
+
+/**
+ * The contacts matching a segment, as a query that can be filtered, sorted,
+ * counted and paged like `from('crm_contacts')`.
+ */
+export function segmentContacts(
+  supabase: SupabaseClient,
+  orgId: string,
+  filter: SegmentFilter,
+  options: { count?: 'exact'; head?: boolean } = {}
+) {
+  return supabase.rpc(
+    'crm_segment_contacts',
+    { p_org_id: orgId, p_filter: filter },
+    { count: options.count, head: options.head }
+  )
+}
+
+export async function countSegment(
+  supabase: SupabaseClient,
+  orgId: string,
+  filter: SegmentFilter
+): Promise<number> {
+  const { count, error } = await segmentContacts(supabase, orgId, filter, {
+    count: 'exact',
+    head: true,
+  })
+  if (error) throw new Error(`Failed to evaluate segment: ${error.message}`)
+  return count ?? 0
+}
+
+/** The saved filter of a dynamic group, or null for static or unknown groups */
+export async function loadGroupSegment(
+  supabase: SupabaseClient,
+  orgId: string,
+  groupId: string
+): Promise<SegmentFilter | null> {
+  const { data } = await supabase
+    .from('crm_contact_groups')
+    .select('type, filter')
+    .eq('id', groupId)
+    .eq('org_id', orgId)
+    .maybeSingle()
+
+  return data?.type === 'dynamic' ? (data.filter as SegmentFilter) : null
+}
@@ -0,0 +1,138 @@
+// =============================================================================
+// Conversation Filters
+// ConversationFilters <-> query string, and the filtered crm_conversations
+// query shared by the conversations list and the conversations export.
+// =============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { dateToBound } from '@/lib/dates'
+import type { ConversationFilters, ConversationStatus } from '@/types/database'
+
+/**
+ * Query params: status (comma-separated), assigned_to (agent id, 'me' or
+ * 'unassigned'), queue, tags (comma-separated), classification, search,
+ * date_from, date_to
+ */
+export function parseConversationFilters(
+  params: URLSearchParams,
+  currentUserId: string
+): ConversationFilters {
+  const filters: ConversationFilters = {}
+
+  const status = params
+    .get('status')
+    ?.split(',')
+    .map((s) => s.trim())
+    .filter(Boolean) as ConversationStatus[] | undefined
+  if (status?.length) filters.status = status.length === 1 ? status[0] : status
+
+  const assignedTo = params.get('assigned_to')
+  if (assignedTo === 'me') filters.assigned_agent_id = currentUserId
+  else if (assignedTo === 'unassigned') filters.assigned_agent_id = null
+  else if (assignedTo) filters.assigned_agent_id = assignedTo
+
+  const queue = params.get('queue')
+  if (queue) filters.queue = queue
+
+  const tags = params
+    .get('tags')
+    ?.split(',')
+    .map((t) => t.trim())
+    .filter(Boolean)
+  if (tags?.length) filters.tags = tags
+
+  const classification = params.get('classification')
+  if (classification) filters.classification = classification
+
+  const search = params.get('search')?.trim()
+  if (search) filters.search = search
+
+  const dateFrom = params.get('date_from')
+  if (dateFrom) filters.date_from = dateFrom
+  const dateTo = params.get('date_to')
+  if (dateTo) filters.date_to = dateTo
+
+  return filters
+}
+
+export function conversationFiltersToParams(filters: ConversationFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.status) {
+    params.set('status', Array.isArray(filters.status) ? filters.status.join(',') : filters.status)
+  }
+  if (filters.assigned_agent_id === null) params.set('assigned_to', 'unassigned')
+  else if (filters.assigned_agent_id) params.set('assigned_to', filters.assigned_agent_id)
+  if (filters.queue) params.set('queue', filters.queue)
+  if (filters.tags?.length) params.set('tags', filters.tags.join(','))
+  if (filters.classification) params.set('classification', filters.classification)
+  if (filters.search) params.set('search', filters.search)
+  if (filters.date_from) params.set('date_from', filters.date_from)
+  if (filters.date_to) params.set('date_to', filters.date_to)
+  return params
+}
+
+/**
+ * The org's conversations matching the filters with the contact and the
+ * assigned agent joined, most recent activity first.
+ */
+export function queryConversations(
+  supabase: SupabaseClient,
+  orgId: string,
+  filters: ConversationFilters,
+  options: { count?: 'exact' } = {}
+) {
+  // The contact join is inner so the search can filter on it
+  let query = supabase
+    .from('crm_conversations')
+    .select('*, contact:crm_contacts!inner(*), assigned_agent:crm_users(*)', {
+      count: options.count,
+    })
+    .eq('org_id', orgId)
+    .order('last_message_at', { ascending: false, nullsFirst: false })
+    .order('id', { ascending: true })
+
+  // Filter by status
+  if (Array.isArray(filters.status)) {
+    query = query.in('status', filters.status)
+  } else if (filters.status) {
+    query = query.eq('status', filters.status)
+  }
+
+  // Filter by assigned agent (null = unassigned)
+  if (filters.assigned_agent_id === null) {
+    query = query.is('assigned_agent_id', null)
+  } else if (filters.assigned_agent_id) {
+    query = query.eq('assigned_agent_id', filters.assigned_agent_id)
+  }
+
+  if (filters.queue) {
+    query = query.eq('queue', filters.queue)
+  }
+
+  // Conversations must carry all specified tags
+  if (filters.tags?.length) {
+    query = query.contains('tags', filters.tags)
+  }
+
+  if (filters.classification) {
+    query = query.eq('classification', filters.classification)
+  }
+
+  // Search by contact name or phone
+  if (filters.search) {
+    const search = filters.search.replace(/[,()]/g, ' ')
+    query = query.or(`name.ilike.%${search}%,phone.ilike.%${search}%`, {
+      referencedTable: 'contact',
+    })
+  }
+
+  // Filter by creation date; a bare date_to includes that whole day
+  if (filters.date_from) {
+    query = query.gte('created_at', filters.date_from)
+  }
+  if (filters.date_to) {
+    query = query.lt('created_at', dateToBound(filters.date_to))
+  }
+
+  return query
+}
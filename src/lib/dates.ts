@@ -0,0 +1,10 @@
+/**
+ * Exclusive upper bound for a date_to filter: a bare YYYY-MM-DD means
+ * "through that day", so the bound is the next day. Timestamps pass through.
+ */
+export function dateToBound(date: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return date
+  const next = new Date(`${date}T00:00:00Z`)
+  next.setUTCDate(next.getUTCDate() + 1)
+  return next.toISOString().slice(0, 10)
+}
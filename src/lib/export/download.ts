@@ -0,0 +1,25 @@
+// =============================================================================
+// Export Download
+// Fetches an export endpoint and saves the response as a file, so API errors
+// (e.g. an XLSX that is too large) can be shown instead of downloaded.
+// =============================================================================
+
+export async function downloadExport(url: string): Promise<void> {
+  const res = await fetch(url)
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}))
+    throw new Error(body.error || 'Export failed')
+  }
+
+  const disposition = res.headers.get('Content-Disposition') ?? ''
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? 'export'
+
+  const objectUrl = URL.createObjectURL(await res.blob())
+  const link = document.createElement('a')
+  link.href = objectUrl
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(objectUrl)
+}
@@ -0,0 +1,149 @@
+// =============================================================================
+// Spreadsheet Export
+// Exports read the database one page at a time. CSV is streamed to the client
+// as pages arrive, so it has no size limit. XLSX is a zip archive that can
+// only be written once complete; it is built page by page from plain cell
+// rows and capped at MAX_XLSX_ROWS. Larger exports should use CSV.
+// =============================================================================
+
+import * as XLSX from 'xlsx'
+import { format } from 'date-fns'
+
+export type ExportFormat = 'xlsx' | 'csv'
+
+export type ExportCell = string | number | null | undefined
+
+export interface ExportColumn<T> {
+  header: string
+  value: (row: T) => ExportCell
+}
+
+/** Yields one page of rows at a time until the source is exhausted */
+export type ExportPages<T> = AsyncIterable<T[]>
+
+export const EXPORT_PAGE_SIZE = 1000
+export const MAX_XLSX_ROWS = 100_000
+
+export function isExportFormat(value: string | null): value is ExportFormat {
+  return value === 'xlsx' || value === 'csv'
+}
+
+// -----------------------------------------------------------------------------
+// Paging
+// -----------------------------------------------------------------------------
+
+/**
+ * Pages through a range-able query. `fetchPage` receives the inclusive
+ * [from, to] range and returns the rows (fewer than a page means the end).
+ */
+export async function* pageThrough<T>(
+  fetchPage: (from: number, to: number) => Promise<T[]>,
+  pageSize: number = EXPORT_PAGE_SIZE
+): AsyncGenerator<T[]> {
+  for (let from = 0; ; from += pageSize) {
+    const rows = await fetchPage(from, from + pageSize - 1)
+    if (rows.length > 0) yield rows
+    if (rows.length < pageSize) return
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Writers
+// -----------------------------------------------------------------------------
+
+/** Streams the rows as UTF-8 CSV, with a BOM so Excel detects the encoding */
+export function csvStream<T>(pages: ExportPages<T>, columns: ExportColumn<T>[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const iterator = pages[Symbol.asyncIterator]()
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode('\uFEFF' + csvLine(columns.map((c) => c.header))))
+    },
+    async pull(controller) {
+      try {
+        const { value: rows, done } = await iterator.next()
+        if (done) {
+          controller.close()
+          return
+        }
+        const chunk = rows.map((row) => csvLine(columns.map((c) => c.value(row)))).join('')
+        controller.enqueue(encoder.encode(chunk))
+      } catch (error) {
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await iterator.return?.()
+    },
+  })
+}
+
+/** Builds an XLSX workbook; throws ExportTooLargeError past MAX_XLSX_ROWS */
+export async function buildXlsx<T>(
+  pages: ExportPages<T>,
+  columns: ExportColumn<T>[],
+  sheetName: string
+): Promise<ArrayBuffer> {
+  const sheet = XLSX.utils.aoa_to_sheet([columns.map((c) => c.header)])
+  let rowCount = 0
+
+  for await (const rows of pages) {
+    rowCount += rows.length
+    if (rowCount > MAX_XLSX_ROWS) throw new ExportTooLargeError()
+
+    XLSX.utils.sheet_add_aoa(
+      sheet,
+      rows.map((row) => columns.map((c) => c.value(row) ?? '')),
+      { origin: -1 }
+    )
+  }
+
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, sheet, sheetName)
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx', compression: true }) as ArrayBuffer
+}
+
+export class ExportTooLargeError extends Error {
+  constructor() {
+    super(`XLSX exports are limited to ${MAX_XLSX_ROWS.toLocaleString()} rows. Export as CSV instead.`)
+    this.name = 'ExportTooLargeError'
+  }
+}
+
+/** Download headers for an export file named `<name>-<YYYY-MM-DD>.<format>` */
+export function exportHeaders(name: string, format: ExportFormat): HeadersInit {
+  const filename = `${name}-${new Date().toISOString().slice(0, 10)}.${format}`
+  return {
+    'Content-Type':
+      format === 'xlsx'
+        ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        : 'text/csv; charset=utf-8',
+    'Content-Disposition': `attachment; filename="${filename}"`,
+    'Cache-Control': 'no-store',
+  }
+}
+
+/** Timestamps are written as text so both formats show the same value */
+export function formatExportTimestamp(value: string | null): string {
+  return value ? format(new Date(value), 'yyyy-MM-dd HH:mm') : ''
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function csvLine(cells: ExportCell[]): string {
+  return cells.map(csvCell).join(',') + '\r\n'
+}
+
+/**
+ * Text starting with a formula trigger is prefixed with ' so spreadsheet apps
+ * don't evaluate it: contact names come from WhatsApp profiles, which the
+ * contact controls.
+ */
+function csvCell(cell: ExportCell): string {
+  if (cell === null || cell === undefined) return ''
+  const text = typeof cell === 'string' && /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : String(cell)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
@@ -0,0 +1,564 @@
+// =============================================================================
+// Flow Engine
+// Interprets the FlowNode/FlowEdge graph stored in crm_flows.flow_data.
+// Side effects (sending messages, tagging, handoff) are delegated to a
+// FlowRuntime so the same interpreter can run against WhatsApp or in memory.
+// =============================================================================
+
+import type {
+  Flow,
+  FlowCondition,
+  FlowEdge,
+  FlowNode,
+} from '@/types/database'
+
+// Safety net against graphs that loop without ever waiting for input
+const MAX_STEPS_PER_RUN = 50
+
+// Reserved key inside flow_variables holding the engine position
+export const FLOW_STATE_KEY = '__flow'
+
+// -----------------------------------------------------------------------------
+// Interfaces
+// -----------------------------------------------------------------------------
+
+export interface FlowState {
+  node_id: string | null
+  waiting: boolean
+}
+
+export interface FlowInput {
+  text: string | null
+  replyId?: string | null // id of an interactive button/list reply, if any
+}
+
+export interface FlowMenuOption {
+  id: string
+  title: string
+  description?: string
+}
+
+export interface FlowHttpRequest {
+  url: string
+  method: string
+  headers: Record<string, string>
+  body: string | null
+}
+
+export interface FlowRuntime {
+  sendText(text: string): Promise<void>
+  sendMedia(media: {
+    type: 'image' | 'audio' | 'video' | 'document'
+    url: string
+    caption?: string
+    filename?: string
+  }): Promise<void>
+  sendMenu(menu: {
+    text: string
+    options: FlowMenuOption[]
+    display: 'buttons' | 'list'
+    buttonText?: string
+  }): Promise<void>
+  tagConversation(tags: string[]): Promise<void>
+  assignQueue(queue: string): Promise<void>
+  handoff(queue: string | null): Promise<void>
+  httpRequest(request: FlowHttpRequest): Promise<unknown>
+  /** Called before each node executes (used by the simulator for tracing) */
+  enterNode?(node: FlowNode): void
+}
+
+export interface FlowStep {
+  node_id: string
+  node_type: string
+  edge_id: string | null
+  condition: FlowCondition | null
+  variables: Record<string, unknown>
+}
+
+export interface FlowRunResult {
+  status: 'waiting' | 'completed' | 'handoff'
+  variables: Record<string, unknown>
+  steps: FlowStep[]
+}
+
+// -----------------------------------------------------------------------------
+// Run Flow
+// Advances the flow from its persisted position until it needs user input,
+// reaches an end node, or hands the conversation off to a human.
+// -----------------------------------------------------------------------------
+
+export async function runFlow(params: {
+  flow: Pick<Flow, 'id' | 'flow_data'>
+  variables: Record<string, unknown>
+  input: FlowInput | null
+  runtime: FlowRuntime
+  context?: Record<string, unknown>
+}): Promise<FlowRunResult> {
+  const { flow, input, runtime, context = {} } = params
+  const nodes = flow.flow_data?.nodes ?? []
+  const edges = flow.flow_data?.edges ?? []
+
+  const variables: Record<string, unknown> = { ...params.variables }
+  const state = readFlowState(variables)
+  const steps: FlowStep[] = []
+
+  let current: FlowNode | null = null
+  let pendingHandle: string | null = null
+
+  // 1. Resume a node that was waiting for a reply
+  if (state.waiting && state.node_id) {
+    const waitingNode = nodes.find((n) => n.id === state.node_id) ?? null
+
+    if (waitingNode && input) {
+      const accepted = acceptInput(waitingNode, input, variables)
+
+      if (!accepted.ok) {
+        // Reply didn't match any option and there is no fallback edge: ask again
+        if (!hasFallbackEdge(waitingNode, edges)) {
+          await executeNode(waitingNode, variables, context, runtime)
+          steps.push(buildStep(waitingNode, null, variables))
+          return finish('waiting', waitingNode.id, variables, steps)
+        }
+      }
+
+      pendingHandle = accepted.handle
+      const next = selectNextEdge(waitingNode, edges, scopeOf(variables, context), pendingHandle)
+      steps.push(buildStep(waitingNode, next, variables))
+
+      if (!next) {
+        return finish('completed', null, variables, steps)
+      }
+      current = nodes.find((n) => n.id === next.edge.target) ?? null
+    } else {
+      current = waitingNode
+    }
+  }
+
+  // 2. Fresh start: begin at the start node (or the first node with no inbound edge)
+  if (!current && !state.waiting) {
+    current = findStartNode(nodes, edges)
+  }
+
+  if (!current) {
+    return finish('completed', null, variables, steps)
+  }
+
+  // 3. Walk the graph
+  for (let i = 0; i < MAX_STEPS_PER_RUN && current; i++) {
+    const node: FlowNode = current
+    const outcome = await executeNode(node, variables, context, runtime)
+
+    if (outcome === 'wait') {
+      steps.push(buildStep(node, null, variables))
+      return finish('waiting', node.id, variables, steps)
+    }
+
+    if (outcome === 'end') {
+      steps.push(buildStep(node, null, variables))
+      return finish('completed', null, variables, steps)
+    }
+
+    if (outcome === 'handoff') {
+      steps.push(buildStep(node, null, variables))
+      return finish('handoff', null, variables, steps)
+    }
+
+    const next = selectNextEdge(node, edges, scopeOf(variables, context), null)
+    steps.push(buildStep(node, next, variables))
+
+    if (!next) {
+      return finish('completed', null, variables, steps)
+    }
+
+    current = nodes.find((n) => n.id === next.edge.target) ?? null
+  }
+
+  if (current) {
+    console.error(
+      `Flow ${flow.id} exceeded ${MAX_STEPS_PER_RUN} steps without waiting; stopping`
+    )
+  }
+
+  return finish('completed', null, variables, steps)
+}
+
+// -----------------------------------------------------------------------------
+// Execute a single node
+// -----------------------------------------------------------------------------
+
+type NodeOutcome = 'continue' | 'wait' | 'end' | 'handoff'
+
+async function executeNode(
+  node: FlowNode,
+  variables: Record<string, unknown>,
+  context: Record<string, unknown>,
+  runtime: FlowRuntime
+): Promise<NodeOutcome> {
+  const data = node.data || {}
+  const scope = scopeOf(variables, context)
+
+  runtime.enterNode?.(node)
+
+  switch (node.type) {
+    case 'start':
+    case 'condition':
+      return 'continue'
+
+    case 'send_text': {
+      const text = interpolate(readString(data, 'text'), scope)
+      if (text) await runtime.sendText(text)
+      return 'continue'
+    }
+
+    case 'send_media': {
+      const url = interpolate(readString(data, 'url'), scope)
+      const type = readString(data, 'media_type') as
+        | 'image'
+        | 'audio'
+        | 'video'
+        | 'document'
+      if (url && ['image', 'audio', 'video', 'document'].includes(type)) {
+        await runtime.sendMedia({
+          type,
+          url,
+          caption: interpolate(readString(data, 'caption'), scope) || undefined,
+          filename: readString(data, 'filename') || undefined,
+        })
+      }
+      return 'continue'
+    }
+
+    case 'ask_question': {
+      const text = interpolate(readString(data, 'text'), scope)
+      if (text) await runtime.sendText(text)
+      return 'wait'
+    }
+
+    case 'buttons': {
+      const text = interpolate(readString(data, 'text'), scope)
+      await runtime.sendMenu({
+        text,
+        options: readOptions(data),
+        display: data.display === 'list' ? 'list' : 'buttons',
+        buttonText: readString(data, 'button_text') || undefined,
+      })
+      return 'wait'
+    }
+
+    case 'set_variable': {
+      const name = readString(data, 'variable')
+      if (name) {
+        variables[name] = interpolate(readString(data, 'value'), scope)
+      }
+      return 'continue'
+    }
+
+    case 'tag_conversation': {
+      const tags = Array.isArray(data.tags)
+        ? (data.tags as unknown[]).map(String).filter(Boolean)
+        : []
+      if (tags.length > 0) await runtime.tagConversation(tags)
+      return 'continue'
+    }
+
+    case 'assign_queue': {
+      const queue = readString(data, 'queue')
+      if (queue) await runtime.assignQueue(queue)
+      return 'continue'
+    }
+
+    case 'http_request': {
+      const url = interpolate(readString(data, 'url'), scope)
+      if (!url) return 'continue'
+
+      const headers: Record<string, string> = {}
+      if (data.headers && typeof data.headers === 'object') {
+        for (const [key, value] of Object.entries(data.headers as Record<string, unknown>)) {
+          headers[key] = interpolate(String(value ?? ''), scope)
+        }
+      }
+      const rawBody = readString(data, 'body')
+
+      const responseVariable = readString(data, 'response_variable')
+      try {
+        const response = await runtime.httpRequest({
+          url,
+          method: (readString(data, 'method') || 'GET').toUpperCase(),
+          headers,
+          body: rawBody ? interpolate(rawBody, scope) : null,
+        })
+        if (responseVariable) variables[responseVariable] = response
+      } catch (error) {
+        console.error(`Flow HTTP request failed (node ${node.id}):`, error)
+        if (responseVariable) variables[responseVariable] = null
+      }
+      return 'continue'
+    }
+
+    case 'transfer': {
+      const text = interpolate(readString(data, 'text'), scope)
+      if (text) await runtime.sendText(text)
+      await runtime.handoff(readString(data, 'queue') || null)
+      return 'handoff'
+    }
+
+    case 'end': {
+      const text = interpolate(readString(data, 'text'), scope)
+      if (text) await runtime.sendText(text)
+      return 'end'
+    }
+
+    default:
+      console.warn(`Unknown flow node type "${node.type}" (node ${node.id}); skipping`)
+      return 'continue'
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Accept the user's reply on a waiting node
+// Stores the answer in the node's variable and resolves the option handle
+// -----------------------------------------------------------------------------
+
+function acceptInput(
+  node: FlowNode,
+  input: FlowInput,
+  variables: Record<string, unknown>
+): { ok: boolean; handle: string | null } {
+  const data = node.data || {}
+  const text = (input.text ?? '').trim()
+  const variable = readString(data, 'variable')
+
+  variables.last_input = text
+
+  if (node.type !== 'buttons') {
+    if (variable) variables[variable] = text
+    return { ok: true, handle: null }
+  }
+
+  // Match by reply id first, then by option number or title
+  const options = readOptions(data)
+  const normalized = text.toLowerCase()
+  const option =
+    options.find((o) => input.replyId && o.id === input.replyId) ??
+    options.find((_, index) => normalized === String(index + 1)) ??
+    options.find((o) => o.title.trim().toLowerCase() === normalized) ??
+    null
+
+  if (variable) variables[variable] = option ? option.title : text
+  return { ok: option !== null, handle: option ? option.id : null }
+}
+
+// -----------------------------------------------------------------------------
+// Edge selection
+// Priority: matching option handle -> first edge whose condition holds ->
+// unconditional (fallback) edge
+// -----------------------------------------------------------------------------
+
+export function selectNextEdge(
+  node: FlowNode,
+  edges: FlowEdge[],
+  scope: Record<string, unknown>,
+  handle: string | null
+): { edge: FlowEdge; condition: FlowCondition | null } | null {
+  const outgoing = edges.filter((e) => e.source === node.id)
+
+  if (handle) {
+    const byHandle = outgoing.find((e) => e.sourceHandle === handle)
+    if (byHandle) return { edge: byHandle, condition: null }
+  }
+
+  for (const edge of outgoing) {
+    const condition = parseCondition(edge.condition)
+    if (condition && evaluateCondition(condition, scope)) {
+      return { edge, condition }
+    }
+  }
+
+  const fallback = outgoing.find((e) => isFallbackEdge(e, node))
+  return fallback ? { edge: fallback, condition: null } : null
+}
+
+function isFallbackEdge(edge: FlowEdge, node: FlowNode): boolean {
+  if (parseCondition(edge.condition)) return false
+  if (!edge.sourceHandle || edge.sourceHandle === 'default') return true
+  // Handles that don't belong to a menu option are treated as plain outputs
+  if (node.type !== 'buttons') return true
+  return !readOptions(node.data || {}).some((o) => o.id === edge.sourceHandle)
+}
+
+function hasFallbackEdge(node: FlowNode, edges: FlowEdge[]): boolean {
+  return edges.some((e) => e.source === node.id && isFallbackEdge(e, node))
+}
+
+// -----------------------------------------------------------------------------
+// Condition evaluation
+// -----------------------------------------------------------------------------
+
+export function parseCondition(raw: unknown): FlowCondition | null {
+  if (!raw || typeof raw !== 'object') return null
+  const candidate = raw as Record<string, unknown>
+  if (typeof candidate.variable !== 'string' || !candidate.variable) return null
+  if (typeof candidate.operator !== 'string') return null
+  return candidate as unknown as FlowCondition
+}
+
+export function evaluateCondition(
+  condition: FlowCondition,
+  scope: Record<string, unknown>
+): boolean {
+  const actual = resolvePath(scope, condition.variable)
+  const actualText = actual === null || actual === undefined ? '' : String(actual)
+  const expectedText =
+    condition.value === null || condition.value === undefined
+      ? ''
+      : String(condition.value)
+
+  switch (condition.operator) {
+    case 'equals':
+      return actualText.trim().toLowerCase() === expectedText.trim().toLowerCase()
+    case 'not_equals':
+      return actualText.trim().toLowerCase() !== expectedText.trim().toLowerCase()
+    case 'contains':
+      return actualText.toLowerCase().includes(expectedText.toLowerCase())
+    case 'starts_with':
+      return actualText.toLowerCase().startsWith(expectedText.toLowerCase())
+    case 'matches':
+      try {
+        return new RegExp(expectedText, 'i').test(actualText)
+      } catch {
+        return false
+      }
+    case 'greater_than':
+      return toNumber(actual) > toNumber(condition.value)
+    case 'less_than':
+      return toNumber(actual) < toNumber(condition.value)
+    case 'is_set':
+      return actualText.trim() !== ''
+    case 'is_empty':
+      return actualText.trim() === ''
+    default:
+      return false
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+export function readFlowState(variables: Record<string, unknown>): FlowState {
+  const raw = variables[FLOW_STATE_KEY] as Partial<FlowState> | undefined
+  return {
+    node_id: typeof raw?.node_id === 'string' ? raw.node_id : null,
+    waiting: raw?.waiting === true,
+  }
+}
+
+function finish(
+  status: FlowRunResult['status'],
+  nodeId: string | null,
+  variables: Record<string, unknown>,
+  steps: FlowStep[]
+): FlowRunResult {
+  if (status === 'waiting') {
+    variables[FLOW_STATE_KEY] = { node_id: nodeId, waiting: true }
+  } else {
+    delete variables[FLOW_STATE_KEY]
+  }
+  return { status, variables, steps }
+}
+
+function buildStep(
+  node: FlowNode,
+  next: { edge: FlowEdge; condition: FlowCondition | null } | null,
+  variables: Record<string, unknown>
+): FlowStep {
+  const snapshot = { ...variables }
+  delete snapshot[FLOW_STATE_KEY]
+  return {
+    node_id: node.id,
+    node_type: node.type,
+    edge_id: next?.edge.id ?? null,
+    condition: next?.condition ?? null,
+    variables: snapshot,
+  }
+}
+
+function findStartNode(nodes: FlowNode[], edges: FlowEdge[]): FlowNode | null {
+  const explicit = nodes.find((n) => n.type === 'start')
+  if (explicit) return explicit
+  const targets = new Set(edges.map((e) => e.target))
+  return nodes.find((n) => !targets.has(n.id)) ?? nodes[0] ?? null
+}
+
+function scopeOf(
+  variables: Record<string, unknown>,
+  context: Record<string, unknown>
+): Record<string, unknown> {
+  return { ...context, ...variables }
+}
+
+function readString(data: Record<string, unknown>, key: string): string {
+  const value = data[key]
+  return typeof value === 'string' ? value : ''
+}
+
+function readOptions(data: Record<string, unknown>): FlowMenuOption[] {
+  if (!Array.isArray(data.options)) return []
+  return (data.options as Array<Record<string, unknown>>)
+    .filter((o) => o && typeof o.id === 'string' && typeof o.title === 'string')
+    .map((o) => ({
+      id: o.id as string,
+      title: o.title as string,
+      description: typeof o.description === 'string' ? o.description : undefined,
+    }))
+}
+
+function resolvePath(scope: Record<string, unknown>, path: string): unknown {
+  if (path in scope) return scope[path]
+  let value: unknown = scope
+  for (const part of path.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined
+    value = (value as Record<string, unknown>)[part]
+  }
+  return value
+}
+
+function toNumber(value: unknown): number {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''))
+  return Number.isNaN(n) ? 0 : n
+}
+
+/** Replaces {{variable}} / {{contact.name}} placeholders with scope values */
+export function interpolate(
+  template: string,
+  scope: Record<string, unknown>
+): string {
+  if (!template) return ''
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+    const value = resolvePath(scope, path)
+    if (value === null || value === undefined) return ''
+    return typeof value === 'object' ? JSON.stringify(value) : String(value)
+  })
+}
+
+/** Default HTTP implementation for http_request nodes */
+export async function performHttpRequest(
+  request: FlowHttpRequest
+): Promise<unknown> {
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...request.headers,
+    },
+    body: request.method === 'GET' || request.method === 'HEAD' ? undefined : request.body ?? undefined,
+    signal: AbortSignal.timeout(10_000),
+  })
+
+  const text = await response.text()
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
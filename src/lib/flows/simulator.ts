@@ -0,0 +1,162 @@
+// =============================================================================
+// Flow Simulator
+// Runs a flow turn with the same engine the webhook uses, against an in-memory
+// conversation. Outbound messages and side effects are recorded as events
+// instead of being sent to the Graph API or written to the database.
+// =============================================================================
+
+import type { Flow } from '@/types/database'
+import {
+  runFlow,
+  readFlowState,
+  performHttpRequest,
+  type FlowHttpRequest,
+  type FlowMenuOption,
+  type FlowRunResult,
+  type FlowRuntime,
+} from './engine'
+import { matchFlowTrigger } from './triggers'
+
+// -----------------------------------------------------------------------------
+// Interfaces
+// -----------------------------------------------------------------------------
+
+export type SimulatorEvent =
+  | { kind: 'text'; node_id: string | null; text: string }
+  | {
+      kind: 'media'
+      node_id: string | null
+      type: 'image' | 'audio' | 'video' | 'document'
+      url: string
+      caption?: string
+      filename?: string
+    }
+  | {
+      kind: 'menu'
+      node_id: string | null
+      text: string
+      options: FlowMenuOption[]
+      display: 'buttons' | 'list'
+      buttonText?: string
+    }
+  | { kind: 'tag'; node_id: string | null; tags: string[] }
+  | { kind: 'queue'; node_id: string | null; queue: string }
+  | { kind: 'handoff'; node_id: string | null; queue: string | null }
+  | {
+      kind: 'http'
+      node_id: string | null
+      request: FlowHttpRequest
+      response: unknown
+      error?: string
+    }
+
+export interface SimulationTurn extends FlowRunResult {
+  events: SimulatorEvent[]
+  current_node_id: string | null
+  /** Set on the turn that started the flow */
+  trigger: { matched: boolean; keyword: string | null } | null
+}
+
+// -----------------------------------------------------------------------------
+// Simulate Flow Turn
+// With no waiting position in `variables`, the message starts the flow the way
+// a trigger would; otherwise it is delivered as the reply to the waiting node.
+// -----------------------------------------------------------------------------
+
+export async function simulateFlowTurn(params: {
+  flow: Pick<Flow, 'id' | 'flow_data' | 'trigger_type' | 'trigger_keywords' | 'priority' | 'updated_at'>
+  variables: Record<string, unknown>
+  text: string | null
+  replyId?: string | null
+  context?: Record<string, unknown>
+}): Promise<SimulationTurn> {
+  const { flow, text, replyId = null, context = {} } = params
+  const isFresh = !readFlowState(params.variables).waiting
+
+  let variables = params.variables
+  let trigger: SimulationTurn['trigger'] = null
+
+  if (isFresh) {
+    const match = matchFlowTrigger([flow], {
+      text,
+      isNewConversation: true,
+      isFirstContact: true,
+    })
+    trigger = { matched: !!match, keyword: match?.keyword ?? null }
+
+    // Mirror the variables the webhook seeds when a trigger fires
+    variables = { last_input: text ?? '' }
+    if (match?.keyword) variables.trigger_keyword = match.keyword
+  }
+
+  const events: SimulatorEvent[] = []
+  const runtime = createSimulatorRuntime(events)
+
+  const result = await runFlow({
+    flow,
+    variables,
+    input: isFresh ? null : { text, replyId },
+    runtime,
+    context,
+  })
+
+  return {
+    ...result,
+    events,
+    current_node_id: readFlowState(result.variables).node_id,
+    trigger,
+  }
+}
+
+// -----------------------------------------------------------------------------
+// In-memory Runtime
+// -----------------------------------------------------------------------------
+
+function createSimulatorRuntime(events: SimulatorEvent[]): FlowRuntime {
+  // Node currently executing, so every event can point back at its node
+  let nodeId: string | null = null
+
+  return {
+    enterNode(node) {
+      nodeId = node.id
+    },
+
+    async sendText(text) {
+      events.push({ kind: 'text', node_id: nodeId, text })
+    },
+
+    async sendMedia(media) {
+      events.push({ kind: 'media', node_id: nodeId, ...media })
+    },
+
+    async sendMenu(menu) {
+      events.push({ kind: 'menu', node_id: nodeId, ...menu })
+    },
+
+    async tagConversation(tags) {
+      events.push({ kind: 'tag', node_id: nodeId, tags })
+    },
+
+    async assignQueue(queue) {
+      events.push({ kind: 'queue', node_id: nodeId, queue })
+    },
+
+    async handoff(queue) {
+      events.push({ kind: 'handoff', node_id: nodeId, queue })
+    },
+
+    // HTTP nodes call their real endpoint so conditions on the response can
+    // be exercised; only the WhatsApp side is simulated
+    async httpRequest(request) {
+      try {
+        const response = await performHttpRequest(request)
+        events.push({ kind: 'http', node_id: nodeId, request, response })
+        return response
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        events.push({ kind: 'http', node_id: nodeId, request, response: null, error: message })
+        throw error
+      }
+    },
+  }
+}
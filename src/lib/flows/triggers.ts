@@ -0,0 +1,115 @@
+// =============================================================================
+// Flow Trigger Matching
+// Decides which published flow (if any) an inbound message should start.
+// Pure so the webhook and the simulator resolve triggers the same way.
+// =============================================================================
+
+import type { Flow, FlowTriggerType } from '@/types/database'
+
+export type TriggerCandidate = Pick<
+  Flow,
+  'id' | 'trigger_type' | 'trigger_keywords' | 'priority' | 'updated_at'
+>
+
+export interface TriggerContext {
+  text: string | null
+  /** The conversation was opened by this message */
+  isNewConversation: boolean
+  /** The contact has never had a conversation before */
+  isFirstContact: boolean
+}
+
+export interface TriggerMatch<T extends TriggerCandidate> {
+  flow: T
+  keyword: string | null
+}
+
+// Breaks ties between flows of equal priority: the more specific rule wins
+const TRIGGER_SPECIFICITY: Partial<Record<FlowTriggerType, number>> = {
+  keyword: 3,
+  welcome: 2,
+  first_message: 1,
+}
+
+// -----------------------------------------------------------------------------
+// Match Flow Trigger
+// Returns the matching flow with the highest priority, then the most specific
+// trigger type, then the most recently updated flow.
+// -----------------------------------------------------------------------------
+
+export function matchFlowTrigger<T extends TriggerCandidate>(
+  flows: T[],
+  context: TriggerContext
+): TriggerMatch<T> | null {
+  const matches: TriggerMatch<T>[] = []
+
+  for (const flow of flows) {
+    switch (flow.trigger_type) {
+      case 'keyword': {
+        const keyword = findKeyword(context.text, flow.trigger_keywords ?? [])
+        if (keyword) matches.push({ flow, keyword })
+        break
+      }
+      case 'welcome':
+        if (context.isNewConversation && context.isFirstContact) {
+          matches.push({ flow, keyword: null })
+        }
+        break
+      case 'first_message':
+        if (context.isNewConversation) matches.push({ flow, keyword: null })
+        break
+      default:
+        // manual and bulk flows are started explicitly, never by inbound text
+        break
+    }
+  }
+
+  if (matches.length === 0) return null
+
+  matches.sort(
+    (a, b) =>
+      (b.flow.priority ?? 0) - (a.flow.priority ?? 0) ||
+      (TRIGGER_SPECIFICITY[b.flow.trigger_type] ?? 0) -
+        (TRIGGER_SPECIFICITY[a.flow.trigger_type] ?? 0) ||
+      b.flow.updated_at.localeCompare(a.flow.updated_at)
+  )
+
+  return matches[0]
+}
+
+// -----------------------------------------------------------------------------
+// Keyword Matching
+// Keywords match whole words or phrases, ignoring case and accents
+// -----------------------------------------------------------------------------
+
+export function findKeyword(text: string | null, keywords: string[]): string | null {
+  if (!text) return null
+  const normalizedText = normalizeForMatch(text)
+  if (!normalizedText) return null
+
+  for (const keyword of keywords) {
+    const normalizedKeyword = normalizeForMatch(keyword)
+    if (!normalizedKeyword) continue
+
+    const pattern = new RegExp(
+      `(^|[^\\p{L}\\p{N}])${escapeRegExp(normalizedKeyword)}($|[^\\p{L}\\p{N}])`,
+      'u'
+    )
+    if (pattern.test(normalizedText)) return keyword
+  }
+
+  return null
+}
+
+function normalizeForMatch(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
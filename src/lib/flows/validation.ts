@@ -0,0 +1,106 @@
+// =============================================================================
+// Flow Validation
+// Shared by the flows API and the builder to decide whether a flow can be
+// published and which status transitions are allowed.
+// =============================================================================
+
+import type { Flow, FlowStatus } from '@/types/database'
+
+export const FLOW_STATUS_TRANSITIONS: Record<FlowStatus, FlowStatus[]> = {
+  draft: ['published', 'archived'],
+  published: ['draft', 'archived'],
+  archived: ['draft'],
+}
+
+export function canTransitionFlow(from: FlowStatus, to: FlowStatus): boolean {
+  return from === to || FLOW_STATUS_TRANSITIONS[from].includes(to)
+}
+
+// -----------------------------------------------------------------------------
+// Validate flow graph
+// Returns a list of human-readable problems (empty when publishable)
+// -----------------------------------------------------------------------------
+
+export function validateFlowData(flowData: Flow['flow_data']): string[] {
+  const problems: string[] = []
+  const nodes = flowData?.nodes ?? []
+  const edges = flowData?.edges ?? []
+
+  if (nodes.length === 0) {
+    return ['The flow has no nodes']
+  }
+
+  const nodeIds = new Set(nodes.map((n) => n.id))
+  const startNodes = nodes.filter((n) => n.type === 'start')
+
+  if (startNodes.length === 0) {
+    problems.push('Add a Start node')
+  } else if (startNodes.length > 1) {
+    problems.push('Only one Start node is allowed')
+  }
+
+  for (const edge of edges) {
+    if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) {
+      problems.push(`Connection ${edge.id} points to a missing node`)
+    }
+    const condition = edge.condition as Record<string, unknown> | undefined
+    if (condition && !condition.variable) {
+      problems.push(`Connection ${edge.label || edge.id} has a condition without a variable`)
+    }
+  }
+
+  for (const node of nodes) {
+    const data = node.data || {}
+    const label = (data.label as string) || node.id
+
+    switch (node.type) {
+      case 'send_text':
+      case 'ask_question':
+        if (!data.text) problems.push(`"${label}" needs a message`)
+        break
+      case 'send_media':
+        if (!data.url) problems.push(`"${label}" needs a media URL`)
+        break
+      case 'buttons': {
+        const options = Array.isArray(data.options) ? data.options : []
+        if (!data.text) problems.push(`"${label}" needs a message`)
+        if (options.length === 0) problems.push(`"${label}" needs at least one option`)
+        if (data.display !== 'list' && options.length > 3) {
+          problems.push(`"${label}" can have at most 3 buttons (use a list instead)`)
+        }
+        break
+      }
+      case 'set_variable':
+        if (!data.variable) problems.push(`"${label}" needs a variable name`)
+        break
+      case 'assign_queue':
+        if (!data.queue) problems.push(`"${label}" needs a queue`)
+        break
+      case 'http_request':
+        if (!data.url) problems.push(`"${label}" needs a URL`)
+        break
+    }
+
+    const isTerminal = node.type === 'end' || node.type === 'transfer'
+    if (!isTerminal && !edges.some((e) => e.source === node.id)) {
+      problems.push(`"${label}" has no outgoing connection`)
+    }
+  }
+
+  return problems
+}
+
+// -----------------------------------------------------------------------------
+// Normalize trigger keywords (trimmed, lowercase, de-duplicated)
+// -----------------------------------------------------------------------------
+
+export function normalizeKeywords(keywords: unknown): string[] {
+  if (!Array.isArray(keywords)) return []
+  return Array.from(
+    new Set(
+      keywords
+        .map((k) => String(k).trim().toLowerCase())
+        .filter(Boolean)
+    )
+  )
+}
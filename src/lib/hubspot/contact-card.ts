@@ -0,0 +1,375 @@
+// =============================================================================
+// HubSpot Contact Card
+// What the desk shows about a linked contact: lifecycle stage, owner, open
+// deals and recent activities, read live from HubSpot and cached briefly per
+// server instance. Also the desk's quick actions (create a deal or a task).
+// =============================================================================
+
+import type { Client } from '@hubspot/api-client'
+import { AssociationSpecAssociationCategoryEnum } from '@hubspot/api-client/lib/codegen/crm/objects/tasks'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { getHubSpotClient } from '@/lib/hubspot/oauth'
+import {
+  DEAL_TO_CONTACT,
+  findHubSpotDealStage,
+  loadHubSpotDealPipelines,
+  type HubSpotPipeline,
+} from '@/lib/hubspot/engagements'
+
+const CARD_TTL_MS = 2 * 60 * 1000
+
+// HubSpot-defined association type id
+const TASK_TO_CONTACT = 204
+
+/** Activities read per type; the card keeps the most recent across types */
+const ACTIVITIES_PER_TYPE = 5
+const RECENT_ACTIVITIES = 8
+
+export type HubSpotActivityType = 'note' | 'task' | 'call' | 'email' | 'meeting'
+
+const ACTIVITY_OBJECTS: Record<
+  HubSpotActivityType,
+  { objectType: string; titleProperty: string; statusProperty?: string }
+> = {
+  note: { objectType: 'notes', titleProperty: 'hs_note_body' },
+  task: { objectType: 'tasks', titleProperty: 'hs_task_subject', statusProperty: 'hs_task_status' },
+  call: { objectType: 'calls', titleProperty: 'hs_call_title', statusProperty: 'hs_call_status' },
+  email: { objectType: 'emails', titleProperty: 'hs_email_subject' },
+  meeting: { objectType: 'meetings', titleProperty: 'hs_meeting_title' },
+}
+
+/** Labels of HubSpot's default lifecycle stages; custom stages show their id */
+const LIFECYCLE_STAGES: Record<string, string> = {
+  subscriber: 'Subscriber',
+  lead: 'Lead',
+  marketingqualifiedlead: 'Marketing qualified lead',
+  salesqualifiedlead: 'Sales qualified lead',
+  opportunity: 'Opportunity',
+  customer: 'Customer',
+  evangelist: 'Evangelist',
+  other: 'Other',
+}
+
+export interface HubSpotCardDeal {
+  id: string
+  name: string
+  amount: number | null
+  currency: string | null
+  pipeline_label: string
+  stage_label: string
+  close_date: string | null
+  url: string | null
+}
+
+export interface HubSpotCardActivity {
+  id: string
+  type: HubSpotActivityType
+  title: string
+  status: string | null
+  timestamp: string | null
+}
+
+export interface HubSpotContactCard {
+  hubspot_contact_id: string
+  url: string | null
+  lifecycle_stage: string | null
+  owner: { name: string; email: string | null } | null
+  deals: HubSpotCardDeal[]
+  activities: HubSpotCardActivity[]
+  /** For the create-deal quick action */
+  pipelines: HubSpotPipeline[]
+  fetched_at: string
+}
+
+const cardCache = new Map<string, { card: HubSpotContactCard; expires: number }>()
+
+// -----------------------------------------------------------------------------
+// Card
+// -----------------------------------------------------------------------------
+
+/**
+ * The contact's card, from the cache unless it's older than CARD_TTL_MS or
+ * `refresh` is set. Null when the contact no longer exists in HubSpot.
+ */
+export async function loadHubSpotContactCard(
+  supabase: SupabaseClient,
+  orgId: string,
+  hubspotContactId: string,
+  refresh = false
+): Promise<HubSpotContactCard | null> {
+  const key = cacheKey(orgId, hubspotContactId)
+  const cached = cardCache.get(key)
+  if (cached && !refresh && cached.expires > Date.now()) return cached.card
+
+  const [client, { data: org }] = await Promise.all([
+    getHubSpotClient(supabase, orgId),
+    supabase
+      .from('crm_organizations')
+      .select('hubspot_portal_id')
+      .eq('org_id', orgId)
+      .single<{ hubspot_portal_id: string | null }>(),
+  ])
+  const portalId = org?.hubspot_portal_id ?? null
+
+  let contact
+  try {
+    contact = await client.crm.contacts.basicApi.getById(
+      hubspotContactId,
+      ['lifecyclestage', 'hubspot_owner_id'],
+      undefined,
+      ['deals', ...Object.values(ACTIVITY_OBJECTS).map((o) => o.objectType)]
+    )
+  } catch (error) {
+    if ((error as { code?: number }).code === 404) {
+      cardCache.delete(key)
+      return null
+    }
+    throw error
+  }
+
+  const associatedIds = (objectType: string) => [
+    ...new Set((contact.associations?.[objectType]?.results ?? []).map((a) => a.id)),
+  ]
+
+  const [owner, deals, activities] = await Promise.all([
+    loadOwner(client, contact.properties.hubspot_owner_id),
+    loadOpenDeals(client, associatedIds('deals'), portalId),
+    Promise.all(
+      (Object.keys(ACTIVITY_OBJECTS) as HubSpotActivityType[]).map((type) =>
+        loadActivities(client, type, associatedIds(ACTIVITY_OBJECTS[type].objectType))
+      )
+    ),
+  ])
+
+  const lifecycleStage = contact.properties.lifecyclestage || null
+  const card: HubSpotContactCard = {
+    hubspot_contact_id: hubspotContactId,
+    url: portalId ? recordUrl(portalId, '0-1', hubspotContactId) : null,
+    lifecycle_stage: lifecycleStage && (LIFECYCLE_STAGES[lifecycleStage] ?? lifecycleStage),
+    owner,
+    deals: deals.deals,
+    activities: activities
+      .flat()
+      .sort((a, b) => (b.timestamp ?? '').localeCompare(a.timestamp ?? ''))
+      .slice(0, RECENT_ACTIVITIES),
+    pipelines: deals.pipelines,
+    fetched_at: new Date().toISOString(),
+  }
+
+  // Drop expired entries so the cache doesn't grow with every contact opened
+  for (const [k, entry] of cardCache) {
+    if (entry.expires <= Date.now()) cardCache.delete(k)
+  }
+  cardCache.set(key, { card, expires: Date.now() + CARD_TTL_MS })
+  return card
+}
+
+/** Owners need the crm.objects.owners.read scope, which older connections lack */
+async function loadOwner(
+  client: Client,
+  ownerId: string | null | undefined
+): Promise<HubSpotContactCard['owner']> {
+  if (!ownerId) return null
+  try {
+    const owner = await client.crm.owners.ownersApi.getById(Number(ownerId))
+    const name = [owner.firstName, owner.lastName].filter(Boolean).join(' ')
+    return { name: name || owner.email || ownerId, email: owner.email ?? null }
+  } catch (error) {
+    console.error(`Failed to load HubSpot owner ${ownerId}:`, (error as Error).message)
+    return null
+  }
+}
+
+async function loadOpenDeals(
+  client: Client,
+  dealIds: string[],
+  portalId: string | null
+): Promise<{ deals: HubSpotCardDeal[]; pipelines: HubSpotPipeline[] }> {
+  const [pipelines, { results }] = await Promise.all([
+    loadHubSpotDealPipelines(client),
+    dealIds.length > 0
+      ? client.crm.deals.batchApi.read({
+          inputs: dealIds.map((id) => ({ id })),
+          properties: ['dealname', 'amount', 'deal_currency_code', 'pipeline', 'dealstage', 'closedate'],
+          propertiesWithHistory: [],
+        })
+      : Promise.resolve({ results: [] }),
+  ])
+
+  const deals: HubSpotCardDeal[] = []
+  for (const deal of results) {
+    const pipeline = pipelines.find((p) => p.id === deal.properties.pipeline)
+    const stage = pipeline?.stages.find((s) => s.id === deal.properties.dealstage)
+    if (stage?.isClosed) continue
+
+    const amount = deal.properties.amount ? Number(deal.properties.amount) : null
+    deals.push({
+      id: deal.id,
+      name: deal.properties.dealname || 'Untitled deal',
+      amount: amount !== null && !isNaN(amount) ? amount : null,
+      currency: deal.properties.deal_currency_code || null,
+      pipeline_label: pipeline?.label ?? deal.properties.pipeline ?? '',
+      stage_label: stage?.label ?? deal.properties.dealstage ?? '',
+      close_date: deal.properties.closedate || null,
+      url: portalId ? recordUrl(portalId, '0-3', deal.id) : null,
+    })
+  }
+
+  deals.sort((a, b) => (b.close_date ?? '').localeCompare(a.close_date ?? ''))
+  return { deals, pipelines }
+}
+
+async function loadActivities(
+  client: Client,
+  type: HubSpotActivityType,
+  ids: string[]
+): Promise<HubSpotCardActivity[]> {
+  if (ids.length === 0) return []
+  const { objectType, titleProperty, statusProperty } = ACTIVITY_OBJECTS[type]
+
+  // HubSpot ids grow over time, so the highest are the most recent
+  const recent = ids
+    .sort((a, b) => b.length - a.length || b.localeCompare(a))
+    .slice(0, ACTIVITIES_PER_TYPE)
+
+  // One type failing (e.g. emails without sales-email-read on an older
+  // connection) only leaves that type out of the card
+  try {
+    const { results } = await client.crm.objects.batchApi.read(objectType, {
+      inputs: recent.map((id) => ({ id })),
+      properties: ['hs_timestamp', titleProperty, ...(statusProperty ? [statusProperty] : [])],
+      propertiesWithHistory: [],
+    })
+
+    return results.map((activity) => {
+      const title = stripHtml(activity.properties[titleProperty] ?? '')
+      return {
+        id: activity.id,
+        type,
+        title: title.length > 140 ? `${title.slice(0, 140)}…` : title,
+        status: (statusProperty && activity.properties[statusProperty]) || null,
+        timestamp: activity.properties.hs_timestamp || null,
+      }
+    })
+  } catch (error) {
+    console.error(`Failed to load HubSpot ${objectType}:`, (error as Error).message)
+    return []
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Quick actions
+// -----------------------------------------------------------------------------
+
+/** Body of POST /api/contacts/[id]/hubspot/deals */
+export const hubspotQuickDealSchema = z.object({
+  dealname: z.string().trim().min(1, 'Enter a deal name').max(200),
+  amount: z.number().nonnegative('The amount cannot be negative').nullable().default(null),
+  pipeline_id: z.string().min(1, 'Choose a pipeline'),
+  stage_id: z.string().min(1, 'Choose a deal stage'),
+  close_date: z.iso.date('The close date must be YYYY-MM-DD').nullable().default(null),
+})
+
+/** Body of POST /api/contacts/[id]/hubspot/tasks */
+export const hubspotQuickTaskSchema = z.object({
+  subject: z.string().trim().min(1, 'Enter a subject').max(200),
+  body: z.string().trim().max(5000).default(''),
+  due_at: z.iso.datetime('Choose when the task is due'),
+})
+
+export class HubSpotStageNotFoundError extends Error {
+  constructor() {
+    super('The deal stage no longer exists in HubSpot')
+    this.name = 'HubSpotStageNotFoundError'
+  }
+}
+
+/** Creates a deal associated to the contact and drops its cached card */
+export async function createHubSpotContactDeal(
+  supabase: SupabaseClient,
+  orgId: string,
+  hubspotContactId: string,
+  input: z.infer<typeof hubspotQuickDealSchema>
+): Promise<{ id: string }> {
+  const client = await getHubSpotClient(supabase, orgId)
+  if (!(await findHubSpotDealStage(client, input.pipeline_id, input.stage_id))) {
+    throw new HubSpotStageNotFoundError()
+  }
+
+  const deal = await client.crm.deals.basicApi.create({
+    properties: {
+      dealname: input.dealname,
+      pipeline: input.pipeline_id,
+      dealstage: input.stage_id,
+      ...(input.amount !== null && { amount: String(input.amount) }),
+      ...(input.close_date && { closedate: input.close_date }),
+    },
+    associations: [associateContact(hubspotContactId, DEAL_TO_CONTACT)],
+  })
+
+  cardCache.delete(cacheKey(orgId, hubspotContactId))
+  return { id: deal.id }
+}
+
+/** Creates a to-do task associated to the contact and drops its cached card */
+export async function createHubSpotContactTask(
+  supabase: SupabaseClient,
+  orgId: string,
+  hubspotContactId: string,
+  input: z.infer<typeof hubspotQuickTaskSchema>
+): Promise<{ id: string }> {
+  const client = await getHubSpotClient(supabase, orgId)
+
+  const task = await client.crm.objects.tasks.basicApi.create({
+    properties: {
+      hs_task_subject: input.subject,
+      hs_task_body: input.body,
+      hs_timestamp: input.due_at,
+      hs_task_status: 'NOT_STARTED',
+      hs_task_type: 'TODO',
+    },
+    associations: [associateContact(hubspotContactId, TASK_TO_CONTACT)],
+  })
+
+  cardCache.delete(cacheKey(orgId, hubspotContactId))
+  return { id: task.id }
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function cacheKey(orgId: string, hubspotContactId: string): string {
+  return `${orgId}:${hubspotContactId}`
+}
+
+function associateContact(hubspotContactId: string, associationTypeId: number) {
+  return {
+    to: { id: hubspotContactId },
+    types: [
+      {
+        associationCategory: AssociationSpecAssociationCategoryEnum.HubspotDefined,
+        associationTypeId,
+      },
+    ],
+  }
+}
+
+/** Record page in the HubSpot app; 0-1 is contacts, 0-3 deals */
+function recordUrl(portalId: string, objectTypeId: string, id: string): string {
+  return `https://app.hubspot.com/contacts/${portalId}/record/${objectTypeId}/${id}`
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<br\s*\/?>|<\/p>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
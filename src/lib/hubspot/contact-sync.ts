@@ -0,0 +1,556 @@
+// =============================================================================
+// HubSpot Contact Sync
+// Links CRM contacts to HubSpot contacts (matched by phone or email, created
+// otherwise) and keeps mapped fields in sync: CRM edits are pushed as they
+// happen, HubSpot edits are pulled by polling from the cron.
+// =============================================================================
+
+import type { Client } from '@hubspot/api-client'
+import {
+  FilterOperatorEnum,
+  type FilterGroup,
+  type SimplePublicObject,
+} from '@hubspot/api-client/lib/codegen/crm/contacts'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { loadCustomFieldDefinitions } from '@/lib/contacts/custom-fields'
+import { phoneVariants } from '@/lib/contacts/phone'
+import { HubSpotNotConnectedError, getHubSpotClient } from '@/lib/hubspot/oauth'
+import {
+  changedCrmFields,
+  contactUpdatesFromHubSpot,
+  crmFieldValue,
+  isSameHubSpotValue,
+} from '@/lib/hubspot/mapping'
+import type {
+  Contact,
+  CustomFieldDefinition,
+  HubSpotFieldMapping,
+  Organization,
+} from '@/types/database'
+
+/** Phone properties compared with the contact's phone; new contacts get `phone` */
+const PHONE_PROPERTIES = ['phone', 'mobilephone']
+
+/**
+ * HubSpot's digits-only copies of phone and mobilephone. The originals keep
+ * whatever format was typed ("(11) 99999-9999"), so candidates are searched
+ * here and then compared with the contact's phone locally.
+ */
+const SEARCHABLE_PHONE_PROPERTIES = [
+  'hs_searchable_calculated_phone_number',
+  'hs_searchable_calculated_mobile_number',
+]
+
+/** Candidates read per phone search before comparing numbers locally */
+const PHONE_CANDIDATES = 20
+
+/** Contacts linked per organization and cron run */
+const LINK_BATCH_SIZE = 25
+
+const POLL_PAGE_SIZE = 100
+
+/** Temporary failures are retried this many times, 5, 10, 20... minutes apart */
+const MAX_SYNC_ATTEMPTS = 6
+const RETRY_BASE_MS = 5 * 60 * 1000
+
+export interface HubSpotSyncContext {
+  supabase: SupabaseClient
+  client: Client
+  org: Pick<
+    Organization,
+    'org_id' | 'hubspot_conflict_rule' | 'hubspot_synced_until' | 'hubspot_connected_at'
+  >
+  mappings: HubSpotFieldMapping[]
+  customFields: CustomFieldDefinition[]
+}
+
+export interface HubSpotSyncSummary {
+  organizations: number
+  linked: number
+  pulled: number
+  pushed: number
+  failed: number
+}
+
+// -----------------------------------------------------------------------------
+// Context
+// -----------------------------------------------------------------------------
+
+/** Everything a sync needs for one org, or null when HubSpot isn't connected */
+export async function loadHubSpotSyncContext(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<HubSpotSyncContext | null> {
+  const { data: org } = await supabase
+    .from('crm_organizations')
+    .select(
+      'org_id, hubspot_refresh_token, hubspot_conflict_rule, hubspot_synced_until, hubspot_connected_at'
+    )
+    .eq('org_id', orgId)
+    .single()
+
+  if (!org?.hubspot_refresh_token) return null
+
+  try {
+    const [client, mappings, customFields] = await Promise.all([
+      getHubSpotClient(supabase, orgId),
+      loadHubSpotMappings(supabase, orgId),
+      loadCustomFieldDefinitions(supabase, orgId),
+    ])
+    return { supabase, client, org, mappings, customFields }
+  } catch (error) {
+    if (error instanceof HubSpotNotConnectedError) return null
+    throw error
+  }
+}
+
+export async function loadHubSpotMappings(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<HubSpotFieldMapping[]> {
+  const { data, error } = await supabase
+    .from('crm_hubspot_field_mappings')
+    .select('*')
+    .eq('org_id', orgId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw new Error(`Failed to load HubSpot field mappings: ${error.message}`)
+  return (data ?? []) as HubSpotFieldMapping[]
+}
+
+// -----------------------------------------------------------------------------
+// CRM -> HubSpot
+// -----------------------------------------------------------------------------
+
+/**
+ * Links a contact to the HubSpot contact with the same phone or email, or
+ * creates one. A matched contact only has its empty fields filled, on both
+ * sides: neither system's data is overwritten when they first meet.
+ */
+export async function linkHubSpotContact(
+  ctx: HubSpotSyncContext,
+  contact: Contact
+): Promise<Contact> {
+  const remote = await findHubSpotContact(ctx, contact)
+
+  if (!remote) {
+    const created = await ctx.client.crm.contacts.basicApi.create({
+      properties: {
+        ...outgoingProperties(ctx, contact),
+        phone: contact.phone,
+      },
+      associations: [],
+    })
+    return saveSyncState(ctx, contact, created.id, {})
+  }
+
+  const incoming: Record<string, string> = {}
+  const outgoing: Record<string, string> = {}
+  for (const mapping of ctx.mappings) {
+    const crm = crmFieldValue(contact, mapping.crm_field)
+    const hubspot = remote.properties[mapping.hubspot_property] ?? ''
+    if (mapping.direction !== 'to_hubspot' && !crm && hubspot) {
+      incoming[mapping.crm_field] = hubspot
+    }
+    if (mapping.direction !== 'from_hubspot' && crm && !hubspot) {
+      outgoing[mapping.hubspot_property] = crm
+    }
+  }
+
+  if (Object.keys(outgoing).length > 0) {
+    await ctx.client.crm.contacts.basicApi.update(remote.id, { properties: outgoing })
+  }
+
+  return saveSyncState(
+    ctx,
+    contact,
+    remote.id,
+    contactUpdatesFromHubSpot(contact, incoming, ctx.customFields)
+  )
+}
+
+/**
+ * Pushes CRM values to the linked HubSpot contact: the given CRM fields, or
+ * every mapped one. Unlinked contacts, and contacts whose HubSpot record was
+ * deleted, are linked instead.
+ */
+export async function pushHubSpotContact(
+  ctx: HubSpotSyncContext,
+  contact: Contact,
+  crmFields?: string[]
+): Promise<Contact> {
+  if (!contact.hubspot_contact_id) return linkHubSpotContact(ctx, contact)
+
+  const properties = outgoingProperties(ctx, contact, crmFields, { includeEmpty: true })
+  if (Object.keys(properties).length === 0) return contact
+
+  try {
+    await ctx.client.crm.contacts.basicApi.update(contact.hubspot_contact_id, { properties })
+  } catch (error) {
+    if ((error as { code?: number }).code === 404) {
+      return linkHubSpotContact(ctx, { ...contact, hubspot_contact_id: null })
+    }
+    throw error
+  }
+
+  return saveSyncState(ctx, contact, contact.hubspot_contact_id, {})
+}
+
+/** False while an unlinked contact's last failure is final or not yet due for a retry */
+export function isHubSpotLinkDue(
+  contact: Pick<Contact, 'hubspot_sync_error' | 'hubspot_sync_retry_at'>
+): boolean {
+  if (!contact.hubspot_sync_error) return true
+  return (
+    !!contact.hubspot_sync_retry_at && new Date(contact.hubspot_sync_retry_at).getTime() <= Date.now()
+  )
+}
+
+/**
+ * Links a new contact, or pushes the fields that changed since `previous`.
+ * Does nothing when the organization hasn't connected HubSpot; failures are
+ * recorded on the contact rather than thrown, so callers can run it after
+ * responding.
+ */
+export async function syncContactToHubSpot(
+  supabase: SupabaseClient,
+  contact: Contact,
+  previous?: Contact
+): Promise<void> {
+  try {
+    const ctx = await loadHubSpotSyncContext(supabase, contact.org_id)
+    if (!ctx) return
+
+    const crmFields = previous ? changedCrmFields(previous, contact, ctx.mappings) : undefined
+    if (contact.hubspot_contact_id && crmFields?.length === 0) return
+
+    await withSyncErrors(ctx, contact, () => pushHubSpotContact(ctx, contact, crmFields))
+  } catch (error) {
+    console.error('HubSpot contact sync failed:', error)
+  }
+}
+
+// -----------------------------------------------------------------------------
+// HubSpot -> CRM
+// -----------------------------------------------------------------------------
+
+/**
+ * Applies HubSpot contacts modified since the last poll to their linked CRM
+ * contacts, following each mapping's direction and the org's conflict rule.
+ * Fields the CRM wins are pushed back so both sides agree again.
+ */
+async function pullHubSpotChanges(
+  ctx: HubSpotSyncContext,
+  deadline: number
+): Promise<{ pulled: number; pushed: number }> {
+  const counts = { pulled: 0, pushed: 0 }
+  const properties = [...new Set(ctx.mappings.map((m) => m.hubspot_property))]
+  const since =
+    ctx.org.hubspot_synced_until ?? ctx.org.hubspot_connected_at ?? new Date().toISOString()
+  if (properties.length === 0) return counts
+
+  let cursor = since
+  let after: string | undefined
+
+  do {
+    const page = await ctx.client.crm.contacts.searchApi.doSearch({
+      filterGroups: [
+        {
+          filters: [
+            {
+              propertyName: 'lastmodifieddate',
+              operator: FilterOperatorEnum.Gt,
+              value: String(new Date(since).getTime()),
+            },
+          ],
+        },
+      ],
+      sorts: ['lastmodifieddate'],
+      properties,
+      limit: POLL_PAGE_SIZE,
+      after,
+    })
+
+    if (page.results.length > 0) {
+      const { data: contacts } = await ctx.supabase
+        .from('crm_contacts')
+        .select('*')
+        .eq('org_id', ctx.org.org_id)
+        .in(
+          'hubspot_contact_id',
+          page.results.map((r) => r.id)
+        )
+      const byHubSpotId = new Map(
+        ((contacts ?? []) as Contact[]).map((c) => [c.hubspot_contact_id, c])
+      )
+
+      for (const remote of page.results) {
+        const contact = byHubSpotId.get(remote.id)
+        if (contact) {
+          await withSyncErrors(ctx, contact, async () => {
+            const result = await reconcileContact(ctx, contact, remote)
+            if (result.pulled) counts.pulled++
+            if (result.pushed) counts.pushed++
+            return result.contact
+          })
+        }
+        cursor = remote.updatedAt.toISOString()
+      }
+    }
+
+    after = page.paging?.next?.after
+  } while (after && Date.now() < deadline)
+
+  await ctx.supabase
+    .from('crm_organizations')
+    .update({ hubspot_synced_until: cursor })
+    .eq('org_id', ctx.org.org_id)
+
+  return counts
+}
+
+async function reconcileContact(
+  ctx: HubSpotSyncContext,
+  contact: Contact,
+  remote: SimplePublicObject
+): Promise<{ contact: Contact; pulled: boolean; pushed: boolean }> {
+  const hubspotIsNewer = remote.updatedAt.getTime() > new Date(contact.updated_at).getTime()
+  const incoming: Record<string, string> = {}
+  const outgoing: Record<string, string> = {}
+
+  for (const mapping of ctx.mappings) {
+    if (mapping.direction === 'to_hubspot') continue
+
+    const crm = crmFieldValue(contact, mapping.crm_field)
+    const hubspot = remote.properties[mapping.hubspot_property] ?? ''
+    if (isSameHubSpotValue(crm, hubspot)) continue
+
+    const hubspotWins =
+      mapping.direction === 'from_hubspot' ||
+      (ctx.org.hubspot_conflict_rule === 'crm_wins' ? !crm : hubspotIsNewer)
+
+    if (hubspotWins) incoming[mapping.crm_field] = hubspot
+    else outgoing[mapping.hubspot_property] = crm
+  }
+
+  const pushed = Object.keys(outgoing).length > 0
+  if (pushed) {
+    await ctx.client.crm.contacts.basicApi.update(remote.id, { properties: outgoing })
+  }
+
+  const updates = contactUpdatesFromHubSpot(contact, incoming, ctx.customFields)
+  const pulled = Object.keys(updates).length > 0
+  if (!pulled && !pushed) return { contact, pulled, pushed }
+
+  return {
+    contact: await saveSyncState(ctx, contact, remote.id, updates),
+    pulled,
+    pushed,
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Cron
+// -----------------------------------------------------------------------------
+
+/**
+ * For every connected organization: links contacts created since it
+ * connected, then pulls HubSpot changes. Stops starting new work once
+ * `maxDurationMs` has passed.
+ */
+export async function runHubSpotSync(
+  supabase: SupabaseClient,
+  options: { maxDurationMs: number }
+): Promise<HubSpotSyncSummary> {
+  const deadline = Date.now() + options.maxDurationMs
+  const summary: HubSpotSyncSummary = {
+    organizations: 0,
+    linked: 0,
+    pulled: 0,
+    pushed: 0,
+    failed: 0,
+  }
+
+  const { data: orgs, error } = await supabase
+    .from('crm_organizations')
+    .select('org_id')
+    .not('hubspot_refresh_token', 'is', null)
+
+  if (error) throw new Error(`Failed to load HubSpot organizations: ${error.message}`)
+
+  for (const { org_id } of orgs ?? []) {
+    if (Date.now() >= deadline) break
+    try {
+      const ctx = await loadHubSpotSyncContext(supabase, org_id)
+      if (!ctx) continue
+      summary.organizations++
+
+      summary.linked += await linkPendingContacts(ctx, deadline)
+      const { pulled, pushed } = await pullHubSpotChanges(ctx, deadline)
+      summary.pulled += pulled
+      summary.pushed += pushed
+    } catch (error) {
+      summary.failed++
+      console.error(`HubSpot sync failed for org ${org_id}:`, error)
+    }
+  }
+
+  return summary
+}
+
+/** Contacts added since the org connected that haven't been linked yet */
+async function linkPendingContacts(ctx: HubSpotSyncContext, deadline: number): Promise<number> {
+  let query = ctx.supabase
+    .from('crm_contacts')
+    .select('*')
+    .eq('org_id', ctx.org.org_id)
+    .is('hubspot_contact_id', null)
+    .or(`hubspot_sync_error.is.null,hubspot_sync_retry_at.lte.${new Date().toISOString()}`)
+    .order('created_at', { ascending: true })
+    .limit(LINK_BATCH_SIZE)
+
+  if (ctx.org.hubspot_connected_at) {
+    query = query.gte('created_at', ctx.org.hubspot_connected_at)
+  }
+
+  const { data: contacts } = await query
+  let linked = 0
+
+  for (const contact of (contacts ?? []) as Contact[]) {
+    if (Date.now() >= deadline) break
+    const result = await withSyncErrors(ctx, contact, () => linkHubSpotContact(ctx, contact))
+    if (result?.hubspot_contact_id) linked++
+  }
+
+  return linked
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+async function findHubSpotContact(
+  ctx: HubSpotSyncContext,
+  contact: Contact
+): Promise<SimplePublicObject | null> {
+  // The last 8 digits are shared by every way the number may have been typed,
+  // with or without country code, trunk prefix or the BR 9th digit
+  const suffix = contact.phone.replace(/\D/g, '').slice(-8)
+  const filterGroups: FilterGroup[] = SEARCHABLE_PHONE_PROPERTIES.map((propertyName) => ({
+    filters: [{ propertyName, operator: FilterOperatorEnum.ContainsToken, value: `*${suffix}` }],
+  }))
+  if (contact.email) {
+    filterGroups.push({
+      filters: [
+        { propertyName: 'email', operator: FilterOperatorEnum.Eq, value: contact.email },
+      ],
+    })
+  }
+
+  const { results } = await ctx.client.crm.contacts.searchApi.doSearch({
+    filterGroups,
+    properties: [
+      ...new Set([...PHONE_PROPERTIES, 'email', ...ctx.mappings.map((m) => m.hubspot_property)]),
+    ],
+    sorts: ['createdate'],
+    limit: PHONE_CANDIDATES,
+  })
+
+  const variants = phoneVariants(contact.phone).map((v) => v.replace(/\D/g, ''))
+  const byPhone = results.find((remote) =>
+    PHONE_PROPERTIES.some((property) => isSameHubSpotPhone(remote.properties[property], variants))
+  )
+  if (byPhone) return byPhone
+
+  const email = contact.email?.toLowerCase()
+  return (email && results.find((remote) => remote.properties.email?.toLowerCase() === email)) || null
+}
+
+/**
+ * True when a phone as typed in HubSpot is one of the contact's phone
+ * variants (digits only): in full, or as the national number without the
+ * country code, ignoring an international (00) or trunk (0) prefix.
+ */
+function isSameHubSpotPhone(typed: string | null | undefined, variants: string[]): boolean {
+  const digits = (typed ?? '').replace(/\D/g, '').replace(/^0+/, '')
+  if (digits.length < 10) return false
+  return variants.some((variant) => variant.endsWith(digits))
+}
+
+/** HubSpot properties for the contact's pushable fields, optionally restricted */
+function outgoingProperties(
+  ctx: HubSpotSyncContext,
+  contact: Contact,
+  crmFields?: string[],
+  options: { includeEmpty?: boolean } = {}
+): Record<string, string> {
+  const properties: Record<string, string> = {}
+  for (const mapping of ctx.mappings) {
+    if (mapping.direction === 'from_hubspot') continue
+    if (crmFields && !crmFields.includes(mapping.crm_field)) continue
+    const value = crmFieldValue(contact, mapping.crm_field)
+    // An empty string clears the property in HubSpot
+    if (value || options.includeEmpty) properties[mapping.hubspot_property] = value
+  }
+  return properties
+}
+
+async function saveSyncState(
+  ctx: HubSpotSyncContext,
+  contact: Contact,
+  hubspotContactId: string,
+  updates: Partial<Contact>
+): Promise<Contact> {
+  const { data, error } = await ctx.supabase
+    .from('crm_contacts')
+    .update({
+      ...updates,
+      hubspot_contact_id: hubspotContactId,
+      hubspot_synced_at: new Date().toISOString(),
+      hubspot_sync_error: null,
+      hubspot_sync_attempts: 0,
+      hubspot_sync_retry_at: null,
+    })
+    .eq('id', contact.id)
+    .select()
+    .single<Contact>()
+
+  if (error || !data) throw new Error(`Failed to save HubSpot sync state: ${error?.message}`)
+  return data
+}
+
+/**
+ * Runs a sync step for one contact, recording a failure on it instead of
+ * throwing. HubSpot rejecting the data (a 4xx other than 408 or 429) is
+ * final; anything else is retried later with a growing delay.
+ */
+async function withSyncErrors(
+  ctx: HubSpotSyncContext,
+  contact: Contact,
+  step: () => Promise<Contact>
+): Promise<Contact | null> {
+  try {
+    return await step()
+  } catch (error) {
+    const { body, code } = error as { body?: { message?: string }; code?: number }
+    const message = body?.message ?? (error instanceof Error ? error.message : String(error))
+    console.error(`HubSpot sync failed for contact ${contact.id}:`, message)
+
+    const permanent = !!code && code >= 400 && code < 500 && code !== 408 && code !== 429
+    const attempts = (contact.hubspot_sync_attempts ?? 0) + 1
+    const retryAt =
+      permanent || attempts >= MAX_SYNC_ATTEMPTS
+        ? null
+        : new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString()
+
+    await ctx.supabase
+      .from('crm_contacts')
+      .update({
+        hubspot_sync_error: message.slice(0, 500),
+        hubspot_sync_attempts: attempts,
+        hubspot_sync_retry_at: retryAt,
+      })
+      .eq('id', contact.id)
+    return null
+  }
+}
@@ -0,0 +1,361 @@
+// =============================================================================
+// HubSpot Engagements
+// Logs resolved conversations as notes on the HubSpot contact and creates or
+// advances deals for classifications the organization configured.
+// =============================================================================
+
+import type { Client } from '@hubspot/api-client'
+import { FilterOperatorEnum } from '@hubspot/api-client/lib/codegen/crm/deals'
+import { AssociationSpecAssociationCategoryEnum } from '@hubspot/api-client/lib/codegen/crm/objects/notes'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { linkHubSpotContact, loadHubSpotSyncContext } from '@/lib/hubspot/contact-sync'
+import type {
+  BusinessHours,
+  Contact,
+  Conversation,
+  CrmUser,
+  HubSpotDealRule,
+  Message,
+} from '@/types/database'
+
+// HubSpot-defined association type ids
+const NOTE_TO_CONTACT = 202
+const NOTE_TO_DEAL = 214
+export const DEAL_TO_CONTACT = 3
+
+/** hs_note_body is limited to 65,536 characters; keep room for the header */
+const MAX_TRANSCRIPT_LENGTH = 60_000
+
+export interface HubSpotPipeline {
+  id: string
+  label: string
+  stages: Array<{ id: string; label: string; displayOrder: number; isClosed: boolean }>
+}
+
+type LoggedConversation = Conversation & {
+  contact: Contact
+  assigned_agent: Pick<CrmUser, 'id' | 'display_name'> | null
+}
+
+type TranscriptMessage = Pick<
+  Message,
+  'sender_type' | 'message_type' | 'content' | 'media_filename' | 'created_at'
+> & { sender: Pick<CrmUser, 'display_name'> | null }
+
+// -----------------------------------------------------------------------------
+// Deal rules
+// -----------------------------------------------------------------------------
+
+/** Body of POST /api/hubspot/deal-rules; PATCH takes any subset */
+export const hubspotDealRuleSchema = z.object({
+  classification: z.string().trim().min(1, 'Enter a classification').max(100),
+  pipeline_id: z.string().min(1, 'Choose a pipeline'),
+  stage_id: z.string().min(1, 'Choose a deal stage'),
+})
+
+export async function loadHubSpotDealRules(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<HubSpotDealRule[]> {
+  const { data, error } = await supabase
+    .from('crm_hubspot_deal_rules')
+    .select('*')
+    .eq('org_id', orgId)
+    .order('classification', { ascending: true })
+
+  if (error) throw new Error(`Failed to load HubSpot deal rules: ${error.message}`)
+  return (data ?? []) as HubSpotDealRule[]
+}
+
+/** Deal pipelines of the portal, with stages in board order */
+export async function loadHubSpotDealPipelines(client: Client): Promise<HubSpotPipeline[]> {
+  const { results } = await client.crm.pipelines.pipelinesApi.getAll('deals')
+  return results
+    .sort((a, b) => a.displayOrder - b.displayOrder)
+    .map((pipeline) => ({
+      id: pipeline.id,
+      label: pipeline.label,
+      stages: pipeline.stages
+        .sort((a, b) => a.displayOrder - b.displayOrder)
+        .map((stage) => ({
+          id: stage.id,
+          label: stage.label,
+          displayOrder: stage.displayOrder,
+          isClosed: stage.metadata?.isClosed === 'true',
+        })),
+    }))
+}
+
+/** Labels of a pipeline stage, or null when either no longer exists */
+export async function findHubSpotDealStage(
+  client: Client,
+  pipelineId: string,
+  stageId: string
+): Promise<{ pipeline_label: string; stage_label: string } | null> {
+  const pipeline = (await loadHubSpotDealPipelines(client)).find((p) => p.id === pipelineId)
+  const stage = pipeline?.stages.find((s) => s.id === stageId)
+  return pipeline && stage ? { pipeline_label: pipeline.label, stage_label: stage.label } : null
+}
+
+/**
+ * Moves the contact's most recent open deal in the rule's pipeline to the
+ * rule's stage, or creates a deal there when it has none. Deals are never
+ * moved back to an earlier stage.
+ */
+async function createOrAdvanceDeal(
+  client: Client,
+  hubspotContactId: string,
+  conversation: LoggedConversation,
+  rule: HubSpotDealRule
+): Promise<string> {
+  const pipeline = (await loadHubSpotDealPipelines(client)).find((p) => p.id === rule.pipeline_id)
+  const target = pipeline?.stages.find((s) => s.id === rule.stage_id)
+  if (!pipeline || !target) {
+    throw new Error(
+      `The deal stage for "${rule.classification}" no longer exists in HubSpot (${rule.pipeline_label} / ${rule.stage_label})`
+    )
+  }
+
+  const { results: deals } = await client.crm.deals.searchApi.doSearch({
+    filterGroups: [
+      {
+        filters: [
+          {
+            propertyName: 'associations.contact',
+            operator: FilterOperatorEnum.Eq,
+            value: hubspotContactId,
+          },
+          { propertyName: 'pipeline', operator: FilterOperatorEnum.Eq, value: pipeline.id },
+        ],
+      },
+    ],
+    properties: ['dealstage'],
+    limit: 100,
+  })
+
+  const stageOf = (deal: (typeof deals)[number]) =>
+    pipeline.stages.find((s) => s.id === deal.properties.dealstage)
+  const openDeal = deals
+    .filter((deal) => !stageOf(deal)?.isClosed)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0]
+
+  if (openDeal) {
+    const current = stageOf(openDeal)
+    if (!current || current.displayOrder < target.displayOrder) {
+      await client.crm.deals.basicApi.update(openDeal.id, {
+        properties: { dealstage: target.id },
+      })
+    }
+    return openDeal.id
+  }
+
+  const contact = conversation.contact
+  const deal = await client.crm.deals.basicApi.create({
+    properties: {
+      dealname: `${contact.name || contact.phone} - ${rule.classification}`,
+      pipeline: pipeline.id,
+      dealstage: target.id,
+    },
+    associations: [
+      {
+        to: { id: hubspotContactId },
+        types: [
+          {
+            associationCategory: AssociationSpecAssociationCategoryEnum.HubspotDefined,
+            associationTypeId: DEAL_TO_CONTACT,
+          },
+        ],
+      },
+    ],
+  })
+  return deal.id
+}
+
+// -----------------------------------------------------------------------------
+// Conversation log
+// -----------------------------------------------------------------------------
+
+/**
+ * Posts the conversation's transcript to HubSpot as a note on the contact,
+ * linking the contact first if needed, and applies the matching deal rule.
+ * Does nothing when the org hasn't connected HubSpot; failures are recorded
+ * on the conversation rather than thrown, so callers can run it after
+ * responding.
+ */
+export async function logConversationToHubSpot(
+  supabase: SupabaseClient,
+  conversationId: string
+): Promise<void> {
+  const { data: conversation } = await supabase
+    .from('crm_conversations')
+    .select('*, contact:crm_contacts(*), assigned_agent:crm_users(id, display_name)')
+    .eq('id', conversationId)
+    .single<LoggedConversation>()
+
+  if (!conversation) return
+
+  try {
+    const ctx = await loadHubSpotSyncContext(supabase, conversation.org_id)
+    if (!ctx) return
+
+    // 1. The contact must exist in HubSpot to hold the note
+    let contact = conversation.contact
+    if (!contact.hubspot_contact_id) contact = await linkHubSpotContact(ctx, contact)
+    const hubspotContactId = contact.hubspot_contact_id!
+
+    // 2. Deal for the classification, if a rule matches
+    let dealId = conversation.hubspot_deal_id
+    const classification = conversation.classification?.trim().toLowerCase()
+    if (classification) {
+      const rules = await loadHubSpotDealRules(supabase, conversation.org_id)
+      const rule = rules.find((r) => r.classification.trim().toLowerCase() === classification)
+      if (rule) {
+        dealId = await createOrAdvanceDeal(ctx.client, hubspotContactId, conversation, rule)
+      }
+    }
+
+    // 3. The transcript note; resolving again rewrites the same note
+    const [{ data: messages }, { data: org }] = await Promise.all([
+      supabase
+        .from('crm_messages')
+        .select(
+          'sender_type, message_type, content, media_filename, created_at, sender:crm_users(display_name)'
+        )
+        .eq('conversation_id', conversation.id)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('crm_organizations')
+        .select('business_hours')
+        .eq('org_id', conversation.org_id)
+        .single<{ business_hours: BusinessHours | null }>(),
+    ])
+
+    const properties = {
+      hs_timestamp: new Date().toISOString(),
+      hs_note_body: buildTranscriptNote(
+        { ...conversation, contact },
+        (messages ?? []) as unknown as TranscriptMessage[],
+        org?.business_hours?.timezone
+      ),
+    }
+
+    let noteId = conversation.hubspot_note_id
+    if (noteId) {
+      await ctx.client.crm.objects.notes.basicApi.update(noteId, { properties })
+    } else {
+      const associate = (id: string, associationTypeId: number) => ({
+        to: { id },
+        types: [
+          {
+            associationCategory: AssociationSpecAssociationCategoryEnum.HubspotDefined,
+            associationTypeId,
+          },
+        ],
+      })
+      const note = await ctx.client.crm.objects.notes.basicApi.create({
+        properties,
+        associations: [
+          associate(hubspotContactId, NOTE_TO_CONTACT),
+          ...(dealId ? [associate(dealId, NOTE_TO_DEAL)] : []),
+        ],
+      })
+      noteId = note.id
+    }
+
+    await supabase
+      .from('crm_conversations')
+      .update({ hubspot_note_id: noteId, hubspot_deal_id: dealId, hubspot_log_error: null })
+      .eq('id', conversation.id)
+  } catch (error) {
+    const body = (error as { body?: { message?: string } }).body
+    const message = body?.message ?? (error instanceof Error ? error.message : String(error))
+    console.error(`Logging conversation ${conversation.id} to HubSpot failed:`, message)
+    await supabase
+      .from('crm_conversations')
+      .update({ hubspot_log_error: message.slice(0, 500) })
+      .eq('id', conversation.id)
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Transcript
+// -----------------------------------------------------------------------------
+
+const MEDIA_LABELS: Partial<Record<Message['message_type'], string>> = {
+  image: 'Image',
+  audio: 'Audio',
+  video: 'Video',
+  document: 'Document',
+  sticker: 'Sticker',
+  location: 'Location',
+  contacts: 'Contact card',
+  order: 'Order',
+}
+
+/** HTML note body: a summary of the conversation followed by every message */
+function buildTranscriptNote(
+  conversation: LoggedConversation,
+  messages: TranscriptMessage[],
+  timeZone = 'America/Sao_Paulo'
+): string {
+  const format = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    dateStyle: 'short',
+    timeStyle: 'short',
+  })
+  const contactName = conversation.contact.name || conversation.contact.phone
+
+  const summary = [
+    ['Protocol', conversation.protocol_number],
+    ['Agent', conversation.assigned_agent?.display_name],
+    ['Classification', conversation.classification],
+    ['Tags', conversation.tags.join(', ')],
+    ['Opened', format.format(new Date(conversation.created_at))],
+    ['Resolved', format.format(new Date())],
+  ]
+    .map(([label, value]) => `<strong>${label}:</strong> ${escapeHtml(value || '—')}`)
+    .join('<br>')
+
+  let transcript = ''
+  for (const message of messages) {
+    if (message.message_type === 'reaction') continue
+
+    const sender =
+      message.sender_type === 'contact'
+        ? contactName
+        : message.sender_type === 'agent'
+          ? (message.sender?.display_name ?? 'Agent')
+          : message.sender_type === 'bot'
+            ? 'Bot'
+            : 'System'
+    const media = MEDIA_LABELS[message.message_type]
+    const text = [
+      media && `[${media}${message.media_filename ? `: ${message.media_filename}` : ''}]`,
+      message.content,
+    ]
+      .filter(Boolean)
+      .join(' ')
+    const note = message.message_type === 'internal_note' ? ' <em>(internal note)</em>' : ''
+
+    const line =
+      `<p>[${format.format(new Date(message.created_at))}] <strong>${escapeHtml(sender)}</strong>${note}: ` +
+      `${escapeHtml(text).replace(/\n/g, '<br>')}</p>`
+
+    if (transcript.length + line.length > MAX_TRANSCRIPT_LENGTH) {
+      transcript += '<p><em>Transcript truncated. See the full conversation in the CRM.</em></p>'
+      break
+    }
+    transcript += line
+  }
+
+  return `<p><strong>WhatsApp conversation with ${escapeHtml(contactName)}</strong></p><p>${summary}</p>${transcript}`
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
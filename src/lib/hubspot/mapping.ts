@@ -0,0 +1,215 @@
+// =============================================================================
+// HubSpot Field Mapping
+// Which CRM contact fields sync with which HubSpot properties, and how values
+// convert between the two. Shared by the settings page and the sync.
+// =============================================================================
+
+import { z } from 'zod'
+import { mergeCustomFields, parseCustomFields } from '@/lib/contacts/custom-fields'
+import type {
+  Contact,
+  CustomFieldDefinition,
+  HubSpotConflictRule,
+  HubSpotFieldMapping,
+  HubSpotSyncDirection,
+} from '@/types/database'
+
+export const HUBSPOT_DIRECTIONS: Record<HubSpotSyncDirection, string> = {
+  both: 'Both ways',
+  to_hubspot: 'CRM → HubSpot',
+  from_hubspot: 'HubSpot → CRM',
+}
+
+export const HUBSPOT_CONFLICT_RULES: Record<
+  HubSpotConflictRule,
+  { label: string; description: string }
+> = {
+  last_write_wins: {
+    label: 'Last write wins',
+    description: 'The most recent edit wins, whichever side it was made on.',
+  },
+  crm_wins: {
+    label: 'CRM wins',
+    description: 'HubSpot only fills fields that are empty in the CRM.',
+  },
+}
+
+const STANDARD_FIELDS: Record<string, string> = {
+  name: 'Full name',
+  first_name: 'First name',
+  last_name: 'Last name',
+  email: 'Email',
+}
+
+const CRM_FIELD_PATTERN = /^(name|first_name|last_name|email|custom:[a-z][a-z0-9_]*)$/
+
+/** Properties every HubSpot portal has, suggested when adding a mapping */
+export const COMMON_HUBSPOT_PROPERTIES = [
+  'firstname',
+  'lastname',
+  'email',
+  'company',
+  'jobtitle',
+  'website',
+  'address',
+  'city',
+  'state',
+  'zip',
+  'country',
+  'date_of_birth',
+  'lifecyclestage',
+]
+
+/** Seeded the first time an organization connects */
+export const DEFAULT_HUBSPOT_MAPPINGS: Array<
+  Pick<HubSpotFieldMapping, 'crm_field' | 'hubspot_property' | 'direction'>
+> = [
+  { crm_field: 'first_name', hubspot_property: 'firstname', direction: 'both' },
+  { crm_field: 'last_name', hubspot_property: 'lastname', direction: 'both' },
+  { crm_field: 'email', hubspot_property: 'email', direction: 'both' },
+]
+
+// -----------------------------------------------------------------------------
+// CRM fields
+// -----------------------------------------------------------------------------
+
+/** Every CRM field a mapping can use: the standard ones, then custom fields */
+export function crmFieldOptions(
+  customFields: CustomFieldDefinition[]
+): Array<{ value: string; label: string }> {
+  return [
+    ...Object.entries(STANDARD_FIELDS).map(([value, label]) => ({ value, label })),
+    ...customFields.map((f) => ({ value: `custom:${f.key}`, label: f.label })),
+  ]
+}
+
+export function crmFieldLabel(crmField: string, customFields: CustomFieldDefinition[]): string {
+  if (STANDARD_FIELDS[crmField]) return STANDARD_FIELDS[crmField]
+  const key = crmField.replace(/^custom:/, '')
+  return customFields.find((f) => f.key === key)?.label ?? key.replace(/_/g, ' ')
+}
+
+// -----------------------------------------------------------------------------
+// Validation
+// -----------------------------------------------------------------------------
+
+const hubspotPropertySchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9_]+$/, 'Use the internal name of the HubSpot property, e.g. firstname')
+
+const directionSchema = z.enum(['both', 'to_hubspot', 'from_hubspot'])
+
+export const hubspotMappingSchema = z.object({
+  crm_field: z.string().regex(CRM_FIELD_PATTERN, 'Choose a CRM field'),
+  hubspot_property: hubspotPropertySchema,
+  direction: directionSchema.default('both'),
+})
+
+export const hubspotMappingUpdateSchema = z.object({
+  hubspot_property: hubspotPropertySchema.optional(),
+  direction: directionSchema.optional(),
+})
+
+// -----------------------------------------------------------------------------
+// Values
+// -----------------------------------------------------------------------------
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/** A CRM field's value in HubSpot's string form; '' when empty */
+export function crmFieldValue(
+  contact: Pick<Contact, 'name' | 'email' | 'custom_fields'>,
+  crmField: string
+): string {
+  const [first, ...rest] = (contact.name ?? '').trim().split(/\s+/)
+  switch (crmField) {
+    case 'name':
+      return contact.name?.trim() ?? ''
+    case 'first_name':
+      return first ?? ''
+    case 'last_name':
+      return rest.join(' ')
+    case 'email':
+      return contact.email ?? ''
+  }
+
+  const value = contact.custom_fields?.[crmField.replace(/^custom:/, '')]
+  if (value === null || value === undefined) return ''
+  // HubSpot multiple checkboxes take ';'-separated values
+  if (Array.isArray(value)) return value.join(';')
+  return String(value)
+}
+
+/**
+ * True when a CRM and a HubSpot value are the same once HubSpot's storage
+ * quirks are ignored: it lowercases emails, may reorder multiple checkboxes
+ * and formats numbers its own way.
+ */
+export function isSameHubSpotValue(a: string, b: string): boolean {
+  if (a.trim() !== '' && b.trim() !== '' && !isNaN(Number(a)) && !isNaN(Number(b))) {
+    return Number(a) === Number(b)
+  }
+  const normalize = (v: string) =>
+    v
+      .split(';')
+      .map((part) => part.trim().toLowerCase())
+      .sort()
+      .join(';')
+  return normalize(a) === normalize(b)
+}
+
+/** The mapped CRM fields whose value differs between two versions of a contact */
+export function changedCrmFields(
+  before: Pick<Contact, 'name' | 'email' | 'custom_fields'>,
+  after: Pick<Contact, 'name' | 'email' | 'custom_fields'>,
+  mappings: Pick<HubSpotFieldMapping, 'crm_field'>[]
+): string[] {
+  return mappings
+    .map((m) => m.crm_field)
+    .filter((field) => crmFieldValue(before, field) !== crmFieldValue(after, field))
+}
+
+/**
+ * Contact updates for values received from HubSpot, keyed by CRM field.
+ * First and last name are recombined into the name; values that don't pass
+ * the field's validation are left out.
+ */
+export function contactUpdatesFromHubSpot(
+  contact: Pick<Contact, 'name' | 'email' | 'custom_fields'>,
+  incoming: Record<string, string>,
+  customFields: CustomFieldDefinition[]
+): Partial<Pick<Contact, 'name' | 'email' | 'custom_fields'>> {
+  const updates: Partial<Pick<Contact, 'name' | 'email' | 'custom_fields'>> = {}
+
+  if (incoming.name !== undefined) {
+    updates.name = incoming.name.trim() || null
+  } else if (incoming.first_name !== undefined || incoming.last_name !== undefined) {
+    const first = incoming.first_name ?? crmFieldValue(contact, 'first_name')
+    const last = incoming.last_name ?? crmFieldValue(contact, 'last_name')
+    updates.name = [first.trim(), last.trim()].filter(Boolean).join(' ') || null
+  }
+
+  if (incoming.email !== undefined) {
+    const email = incoming.email.trim()
+    if (!email) updates.email = null
+    else if (EMAIL_PATTERN.test(email)) updates.email = email
+  }
+
+  // Custom fields one by one, so an invalid value only skips its own field
+  const values: Record<string, unknown> = {}
+  for (const [crmField, value] of Object.entries(incoming)) {
+    if (!crmField.startsWith('custom:')) continue
+    const key = crmField.slice('custom:'.length)
+    const parsed = parseCustomFields(customFields, { [key]: value === '' ? null : value }, {
+      partial: true,
+    })
+    if (parsed.error === undefined) Object.assign(values, parsed.values)
+  }
+  if (Object.keys(values).length > 0) {
+    updates.custom_fields = mergeCustomFields(contact.custom_fields ?? {}, values)
+  }
+
+  return updates
+}
@@ -0,0 +1,208 @@
+// =============================================================================
+// HubSpot OAuth
+// Authorize URL, code exchange, automatic token refresh and revocation.
+// Tokens are stored per organization on crm_organizations.
+// =============================================================================
+
+import { Client } from '@hubspot/api-client'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Organization } from '@/types/database'
+
+// Notes, tasks, calls and meetings are covered by the contacts scopes; email
+// engagements need sales-email-read on top
+export const HUBSPOT_SCOPES = [
+  'oauth',
+  'crm.objects.contacts.read',
+  'crm.objects.contacts.write',
+  'crm.objects.deals.read',
+  'crm.objects.deals.write',
+  'crm.objects.owners.read',
+  'sales-email-read',
+]
+
+/** Name of the cookie carrying the OAuth state between authorize and callback */
+export const HUBSPOT_STATE_COOKIE = 'hubspot_oauth_state'
+
+// Refresh this long before the access token expires, so a token handed out
+// is still valid for the API calls that follow
+const REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+type HubSpotCredentials = Pick<
+  Organization,
+  'org_id' | 'hubspot_access_token' | 'hubspot_refresh_token' | 'hubspot_token_expires_at'
+>
+
+export interface HubSpotTokens {
+  hubspot_access_token: string
+  hubspot_refresh_token: string
+  hubspot_token_expires_at: string
+}
+
+/** Column values that mark an organization as not connected */
+export const DISCONNECTED = {
+  hubspot_access_token: null,
+  hubspot_refresh_token: null,
+  hubspot_portal_id: null,
+  hubspot_token_expires_at: null,
+  hubspot_connected_at: null,
+  hubspot_connected_by: null,
+  hubspot_synced_until: null,
+}
+
+export class HubSpotNotConnectedError extends Error {
+  constructor() {
+    super('HubSpot is not connected for this organization')
+    this.name = 'HubSpotNotConnectedError'
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Configuration
+// -----------------------------------------------------------------------------
+
+export function isHubSpotConfigured(): boolean {
+  return !!process.env.HUBSPOT_CLIENT_ID && !!process.env.HUBSPOT_CLIENT_SECRET
+}
+
+/** The callback URL registered on the HubSpot app, defaulting to this host */
+export function hubspotRedirectUri(origin: string): string {
+  return process.env.HUBSPOT_REDIRECT_URI || `${origin}/api/hubspot/callback`
+}
+
+export function hubspotAuthorizeUrl(state: string, redirectUri: string): string {
+  return new Client().oauth.getAuthorizationUrl(
+    process.env.HUBSPOT_CLIENT_ID!,
+    redirectUri,
+    HUBSPOT_SCOPES.join(' '),
+    undefined,
+    state
+  )
+}
+
+// -----------------------------------------------------------------------------
+// Token exchange
+// -----------------------------------------------------------------------------
+
+/**
+ * Exchanges an authorization code for tokens and looks up the portal they
+ * belong to.
+ */
+export async function exchangeHubSpotCode(
+  code: string,
+  redirectUri: string
+): Promise<HubSpotTokens & { hubspot_portal_id: string }> {
+  const client = new Client()
+  const response = await client.oauth.tokensApi.create(
+    'authorization_code',
+    code,
+    redirectUri,
+    process.env.HUBSPOT_CLIENT_ID,
+    process.env.HUBSPOT_CLIENT_SECRET
+  )
+  const info = await client.oauth.accessTokensApi.get(response.accessToken)
+
+  return {
+    hubspot_access_token: response.accessToken,
+    hubspot_refresh_token: response.refreshToken,
+    hubspot_token_expires_at: expiresAt(response.expiresIn),
+    hubspot_portal_id: String(info.hubId),
+  }
+}
+
+async function refreshHubSpotTokens(refreshToken: string): Promise<HubSpotTokens> {
+  const response = await new Client().oauth.tokensApi.create(
+    'refresh_token',
+    undefined,
+    undefined,
+    process.env.HUBSPOT_CLIENT_ID,
+    process.env.HUBSPOT_CLIENT_SECRET,
+    refreshToken
+  )
+
+  return {
+    hubspot_access_token: response.accessToken,
+    hubspot_refresh_token: response.refreshToken || refreshToken,
+    hubspot_token_expires_at: expiresAt(response.expiresIn),
+  }
+}
+
+/** Revokes the refresh token, which also invalidates its access tokens */
+export async function revokeHubSpotToken(refreshToken: string): Promise<void> {
+  await new Client().oauth.refreshTokensApi.archive(refreshToken)
+}
+
+// -----------------------------------------------------------------------------
+// Authenticated client
+// -----------------------------------------------------------------------------
+
+/**
+ * Returns a valid access token for the organization, refreshing and storing
+ * a new one when the current token is about to expire. A refresh token that
+ * HubSpot no longer accepts (the app was uninstalled) disconnects the org.
+ */
+export async function getHubSpotAccessToken(
+  supabase: SupabaseClient,
+  org: HubSpotCredentials
+): Promise<string> {
+  if (!org.hubspot_access_token || !org.hubspot_refresh_token) {
+    throw new HubSpotNotConnectedError()
+  }
+
+  const expires = org.hubspot_token_expires_at
+    ? new Date(org.hubspot_token_expires_at).getTime()
+    : 0
+  if (expires - Date.now() > REFRESH_MARGIN_MS) {
+    return org.hubspot_access_token
+  }
+
+  let tokens: HubSpotTokens
+  try {
+    tokens = await refreshHubSpotTokens(org.hubspot_refresh_token)
+  } catch (error) {
+    const status = (error as { code?: number }).code
+    if (status === 400 || status === 401) {
+      await supabase
+        .from('crm_organizations')
+        .update(DISCONNECTED)
+        .eq('org_id', org.org_id)
+      throw new HubSpotNotConnectedError()
+    }
+    throw error
+  }
+
+  const { error: updateError } = await supabase
+    .from('crm_organizations')
+    .update(tokens)
+    .eq('org_id', org.org_id)
+
+  if (updateError) {
+    console.error('Failed to store refreshed HubSpot tokens:', updateError)
+  }
+
+  return tokens.hubspot_access_token
+}
+
+/** Loads the organization's credentials and returns an authenticated client */
+export async function getHubSpotClient(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<Client> {
+  const { data: org } = await supabase
+    .from('crm_organizations')
+    .select('org_id, hubspot_access_token, hubspot_refresh_token, hubspot_token_expires_at')
+    .eq('org_id', orgId)
+    .single<HubSpotCredentials>()
+
+  if (!org) throw new HubSpotNotConnectedError()
+
+  const accessToken = await getHubSpotAccessToken(supabase, org)
+  return new Client({ accessToken, numberOfApiCallRetries: 2 })
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function expiresAt(expiresInSeconds: number): string {
+  return new Date(Date.now() + expiresInSeconds * 1000).toISOString()
+}
@@ -9,6 +9,7 @@ const PERMISSIONS = {
     'manage_campaigns',
     'manage_contacts',
     'manage_tags',
+    'manage_quick_replies',
     'view_analytics',
     'use_desk',
     'use_team_chat',
@@ -0,0 +1,55 @@
+// =============================================================================
+// Quick Replies
+// Shortcut normalization and placeholder filling shared by the quick replies
+// API and the composer picker.
+// =============================================================================
+
+import { interpolate } from '@/lib/flows/engine'
+import type { Contact, Conversation, CrmUser } from '@/types/database'
+
+/** Placeholders agents can use in quick reply content */
+export const QUICK_REPLY_PLACEHOLDERS = [
+  { token: '{{contact.name}}', description: 'Contact name' },
+  { token: '{{contact.phone}}', description: 'Contact phone' },
+  { token: '{{contact.email}}', description: 'Contact email' },
+  { token: '{{agent.name}}', description: 'Your display name' },
+  { token: '{{protocol_number}}', description: 'Conversation protocol' },
+] as const
+
+/**
+ * Normalizes a shortcut to `/lowercase-word` form.
+ * Returns null when nothing usable is left.
+ */
+export function normalizeShortcut(shortcut: string): string | null {
+  const cleaned = shortcut
+    .trim()
+    .replace(/^\/+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^\p{L}\p{N}_-]/gu, '')
+  return cleaned ? `/${cleaned}` : null
+}
+
+/** Fills `{{...}}` placeholders from the conversation being answered */
+export function fillQuickReply(
+  content: string,
+  params: {
+    conversation?: Pick<Conversation, 'protocol_number'> | null
+    contact?: Pick<Contact, 'name' | 'phone' | 'email'> | null
+    agent?: Pick<CrmUser, 'display_name' | 'email'> | null
+  }
+): string {
+  const { conversation, contact, agent } = params
+  return interpolate(content, {
+    contact: {
+      name: contact?.name ?? '',
+      phone: contact?.phone ?? '',
+      email: contact?.email ?? '',
+    },
+    agent: {
+      name: agent?.display_name ?? '',
+      email: agent?.email ?? '',
+    },
+    protocol_number: conversation?.protocol_number ?? '',
+  })
+}
@@ -4,6 +4,13 @@
 // =============================================================================
 
 import { createAdminClient } from '@/lib/supabase/admin'
+import { extensionForMimeType } from '@/lib/whatsapp/media'
+import type {
+  InteractiveButton,
+  InteractiveList,
+  WhatsAppTemplateData,
+  WhatsAppTemplateListResponse,
+} from '@/types/whatsapp'
 
 const WHATSAPP_API_URL = 'https://graph.facebook.com/v21.0'
 
@@ -39,6 +46,13 @@ interface SendMediaMessageParams {
   accessToken: string
 }
 
+interface SendInteractiveMessageParams {
+  to: string
+  interactive: InteractiveButton | InteractiveList
+  phoneNumberId: string
+  accessToken: string
+}
+
 interface WhatsAppApiResponse {
   messaging_product: string
   contacts: Array<{ input: string; wa_id: string }>
@@ -131,6 +145,41 @@ export async function sendTemplateMessage(
   return response.json()
 }
 
+// -----------------------------------------------------------------------------
+// Send Interactive Message (reply buttons / list)
+// -----------------------------------------------------------------------------
+
+export async function sendInteractiveMessage(
+  params: SendInteractiveMessageParams
+): Promise<WhatsAppApiResponse> {
+  const { to, interactive, phoneNumberId, accessToken } = params
+
+  const response = await fetch(
+    `${WHATSAPP_API_URL}/${phoneNumberId}/messages`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to,
+        type: 'interactive',
+        interactive,
+      }),
+    }
+  )
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(`WhatsApp API error: ${JSON.stringify(error)}`)
+  }
+
+  return response.json()
+}
+
 // -----------------------------------------------------------------------------
 // Send Media Message (image, audio, video, document)
 // -----------------------------------------------------------------------------
@@ -285,6 +334,40 @@ export async function downloadMedia(
   return { buffer, mimeType }
 }
 
+// -----------------------------------------------------------------------------
+// Fetch Message Templates (all pages for a WhatsApp Business Account)
+// -----------------------------------------------------------------------------
+
+export async function fetchMessageTemplates(
+  businessAccountId: string,
+  accessToken: string
+): Promise<WhatsAppTemplateData[]> {
+  const templates: WhatsAppTemplateData[] = []
+  let url: string | undefined =
+    `${WHATSAPP_API_URL}/${businessAccountId}/message_templates` +
+    '?fields=id,name,language,status,category,components&limit=100'
+
+  while (url) {
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(`WhatsApp fetchMessageTemplates error: ${JSON.stringify(error)}`)
+    }
+
+    const page: WhatsAppTemplateListResponse = await response.json()
+    templates.push(...page.data)
+    url = page.paging?.next
+  }
+
+  return templates
+}
+
 // -----------------------------------------------------------------------------
 // Upload Media to Supabase Storage
 // Downloads from WhatsApp, then uploads to Supabase "whatsapp-media" bucket.
@@ -299,37 +382,51 @@ export async function uploadMediaToSupabase(
   // Download from WhatsApp
   const { buffer, mimeType } = await downloadMedia(mediaId, accessToken)
 
-  // Determine file extension from MIME type
-  const extensionMap: Record<string, string> = {
-    'image/jpeg': 'jpg',
-    'image/png': 'png',
-    'image/webp': 'webp',
-    'image/gif': 'gif',
-    'audio/ogg': 'ogg',
-    'audio/mpeg': 'mp3',
-    'audio/amr': 'amr',
-    'audio/aac': 'aac',
-    'video/mp4': 'mp4',
-    'video/3gpp': '3gp',
-    'application/pdf': 'pdf',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
-    'application/msword': 'doc',
-    'application/vnd.ms-excel': 'xls',
-    'text/plain': 'txt',
-  }
-  const ext = extensionMap[mimeType] || 'bin'
-
   // Build the storage path: conversations/{conversationId}/{timestamp}-{mediaId}.{ext}
-  const timestamp = Date.now()
-  const storagePath = `conversations/${conversationId}/${timestamp}-${mediaId}.${ext}`
+  const ext = extensionForMimeType(mimeType)
+  const storagePath = `conversations/${conversationId}/${Date.now()}-${mediaId}.${ext}`
+
+  const publicUrl = await storeMediaFile(storagePath, buffer, mimeType)
+
+  return { publicUrl, mimeType }
+}
+
+// -----------------------------------------------------------------------------
+// Upload Agent Attachment to Supabase Storage
+// Stores a file picked in the composer so WhatsApp can fetch it by link.
+// -----------------------------------------------------------------------------
 
-  // Upload to Supabase Storage
+export async function uploadAttachmentToSupabase(
+  file: ArrayBuffer,
+  mimeType: string,
+  filename: string,
+  conversationId: string
+): Promise<{ publicUrl: string; storagePath: string }> {
+  // Keep the original name readable but safe for storage keys
+  const baseName =
+    filename
+      .replace(/\.[^.]+$/, '')
+      .normalize('NFD')
+      .replace(/[^\w-]+/g, '_')
+      .slice(0, 80) || 'file'
+  const ext = extensionForMimeType(mimeType)
+  const storagePath = `conversations/${conversationId}/outbound/${Date.now()}-${baseName}.${ext}`
+
+  const publicUrl = await storeMediaFile(storagePath, file, mimeType)
+
+  return { publicUrl, storagePath }
+}
+
+async function storeMediaFile(
+  storagePath: string,
+  body: ArrayBuffer | Buffer,
+  contentType: string
+): Promise<string> {
   const supabase = createAdminClient()
   const { error: uploadError } = await supabase.storage
     .from('whatsapp-media')
-    .upload(storagePath, buffer, {
-      contentType: mimeType,
+    .upload(storagePath, body, {
+      contentType,
       upsert: false,
     })
 
@@ -342,8 +439,5 @@ export async function uploadMediaToSupabase(
     .from('whatsapp-media')
     .getPublicUrl(storagePath)
 
-  return {
-    publicUrl: urlData.publicUrl,
-    mimeType,
-  }
+  return urlData.publicUrl
 }
@@ -0,0 +1,199 @@
+// =============================================================================
+// WhatsApp Interactive Messages
+// Cloud API limits and validation for reply-button and list messages.
+// Client-safe: shared by the composer builder, the send route and flows.
+// =============================================================================
+
+import type { InteractiveButton, InteractiveList } from '@/types/whatsapp'
+
+export type InteractiveMessage = InteractiveButton | InteractiveList
+
+export const INTERACTIVE_LIMITS = {
+  body: 1024,
+  headerText: 60,
+  footer: 60,
+  buttons: 3,
+  buttonTitle: 20,
+  listButton: 20,
+  sections: 10,
+  sectionTitle: 24,
+  rows: 10, // across all sections
+  rowTitle: 24,
+  rowDescription: 72,
+} as const
+
+export interface InteractiveOption {
+  id: string
+  title: string
+  description?: string
+}
+
+/** Every selectable option of a button or list message */
+export function getInteractiveOptions(interactive: InteractiveMessage): InteractiveOption[] {
+  if (interactive.type === 'button') {
+    return interactive.action.buttons.map((b) => ({ id: b.reply.id, title: b.reply.title }))
+  }
+  return interactive.action.sections.flatMap((section) =>
+    section.rows.map((row) => ({ id: row.id, title: row.title, description: row.description }))
+  )
+}
+
+/**
+ * Returns a human readable problem, or null when the message can be sent.
+ * The payload may come straight from a request body, so every level is
+ * checked for its shape before its limits.
+ */
+export function validateInteractive(interactive: InteractiveMessage): string | null {
+  const L = INTERACTIVE_LIMITS
+  const message: unknown = interactive
+
+  if (!isRecord(message)) return 'Interactive message must be an object'
+
+  const { body, header, footer, action } = message
+  if (!isRecord(body) || typeof body.text !== 'string' || !body.text.trim()) {
+    return 'Body text is required'
+  }
+  if (body.text.length > L.body) return `Body text is limited to ${L.body} characters`
+
+  if (header !== undefined) {
+    if (!isRecord(header)) return 'Header must be an object'
+    if (header.type === 'text') {
+      if (typeof header.text !== 'string') return 'Header text must be a string'
+      if (header.text.length > L.headerText) {
+        return `Header is limited to ${L.headerText} characters`
+      }
+    } else if (header.type === 'image' || header.type === 'video' || header.type === 'document') {
+      const media = header[header.type]
+      if (!isRecord(media) || (typeof media.link !== 'string' && typeof media.id !== 'string')) {
+        return `Header ${header.type} needs a link or an id`
+      }
+    } else {
+      return 'Header type must be text, image, video or document'
+    }
+  }
+
+  if (footer !== undefined) {
+    if (!isRecord(footer) || typeof footer.text !== 'string') return 'Footer text must be a string'
+    if (footer.text.length > L.footer) return `Footer is limited to ${L.footer} characters`
+  }
+
+  if (!isRecord(action)) return 'Interactive action is required'
+
+  if (message.type === 'button') {
+    const { buttons } = action
+    if (!Array.isArray(buttons)) return 'Buttons must be an array'
+    if (buttons.length === 0) return 'Add at least one button'
+    if (buttons.length > L.buttons) return `At most ${L.buttons} buttons are allowed`
+    for (const button of buttons) {
+      const reply = isRecord(button) ? button.reply : undefined
+      if (!isRecord(reply)) return 'Every button needs a reply'
+      if (typeof reply.id !== 'string' || !reply.id) return 'Button ids must be non-empty strings'
+      if (typeof reply.title !== 'string') return 'Button titles must be strings'
+      if (!reply.title.trim()) return 'Button titles cannot be empty'
+      if (reply.title.length > L.buttonTitle) {
+        return `Button titles are limited to ${L.buttonTitle} characters`
+      }
+    }
+  } else if (message.type === 'list') {
+    const { button, sections } = action
+    if (typeof button !== 'string' || !button.trim()) return 'List button text is required'
+    if (button.length > L.listButton) {
+      return `List button text is limited to ${L.listButton} characters`
+    }
+    if (!Array.isArray(sections)) return 'Sections must be an array'
+    if (sections.length === 0) return 'Add at least one section'
+    if (sections.length > L.sections) return `At most ${L.sections} sections are allowed`
+
+    let rowCount = 0
+    for (const section of sections) {
+      if (!isRecord(section)) return 'Every section must be an object'
+      const { title, rows } = section
+      if (title !== undefined && typeof title !== 'string') return 'Section titles must be strings'
+      if (sections.length > 1 && !title?.trim()) {
+        return 'Sections need a title when there is more than one'
+      }
+      if (title && title.length > L.sectionTitle) {
+        return `Section titles are limited to ${L.sectionTitle} characters`
+      }
+      if (!Array.isArray(rows)) return 'Section rows must be an array'
+      if (rows.length === 0) return 'Every section needs at least one row'
+      rowCount += rows.length
+
+      for (const row of rows) {
+        if (!isRecord(row)) return 'Every row must be an object'
+        if (typeof row.id !== 'string' || !row.id) return 'Row ids must be non-empty strings'
+        if (typeof row.title !== 'string') return 'Row titles must be strings'
+        if (!row.title.trim()) return 'Row titles cannot be empty'
+        if (row.title.length > L.rowTitle) return `Row titles are limited to ${L.rowTitle} characters`
+        if (row.description !== undefined && typeof row.description !== 'string') {
+          return 'Row descriptions must be strings'
+        }
+        if (row.description && row.description.length > L.rowDescription) {
+          return `Row descriptions are limited to ${L.rowDescription} characters`
+        }
+      }
+    }
+    if (rowCount > L.rows) return `At most ${L.rows} rows are allowed in total`
+  } else {
+    return 'Interactive type must be button or list'
+  }
+
+  const ids = getInteractiveOptions(interactive).map((o) => o.id)
+  if (new Set(ids).size !== ids.length) return 'Option ids must be unique'
+
+  return null
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Turns a flow menu into reply buttons (up to 3 options) or a single-section
+ * list (up to 10). Returns null when the menu cannot be sent interactively.
+ */
+export function buildMenuInteractive(menu: {
+  text: string
+  options: InteractiveOption[]
+  display: 'buttons' | 'list'
+  buttonText?: string
+}): InteractiveMessage | null {
+  const L = INTERACTIVE_LIMITS
+  const { options } = menu
+
+  if (!menu.text.trim() || options.length === 0 || options.length > L.rows) return null
+
+  const body = { text: menu.text.slice(0, L.body) }
+
+  if (menu.display === 'buttons' && options.length <= L.buttons) {
+    return {
+      type: 'button',
+      body,
+      action: {
+        buttons: options.map((o) => ({
+          type: 'reply',
+          reply: { id: o.id, title: o.title.slice(0, L.buttonTitle) },
+        })),
+      },
+    }
+  }
+
+  const buttonText = menu.buttonText || 'Options'
+  return {
+    type: 'list',
+    body,
+    action: {
+      button: buttonText.slice(0, L.listButton),
+      sections: [
+        {
+          title: buttonText.slice(0, L.sectionTitle),
+          rows: options.map((o) => ({
+            id: o.id,
+            title: o.title.slice(0, L.rowTitle),
+            description: o.description?.slice(0, L.rowDescription),
+          })),
+        },
+      ],
+    },
+  }
+}
@@ -0,0 +1,71 @@
+// =============================================================================
+// WhatsApp Media Helpers
+// MIME handling shared by the composer (client) and the upload route (server).
+// Limits follow the Cloud API supported media types.
+// =============================================================================
+
+export type WhatsAppMediaType = 'image' | 'audio' | 'video' | 'document'
+
+// MIME types WhatsApp accepts for each media message type. Anything else is
+// sent as a document.
+const SUPPORTED_MIME_TYPES: Record<Exclude<WhatsAppMediaType, 'document'>, string[]> = {
+  image: ['image/jpeg', 'image/png'],
+  audio: ['audio/aac', 'audio/amr', 'audio/mpeg', 'audio/mp4', 'audio/ogg'],
+  video: ['video/mp4', 'video/3gpp'],
+}
+
+// Maximum file size per media type, in bytes
+export const MEDIA_SIZE_LIMITS: Record<WhatsAppMediaType, number> = {
+  image: 5 * 1024 * 1024,
+  audio: 16 * 1024 * 1024,
+  video: 16 * 1024 * 1024,
+  document: 100 * 1024 * 1024,
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/amr': 'amr',
+  'audio/aac': 'aac',
+  'audio/mp4': 'm4a',
+  'video/mp4': 'mp4',
+  'video/3gpp': '3gp',
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'application/msword': 'doc',
+  'application/vnd.ms-excel': 'xls',
+  'application/vnd.ms-powerpoint': 'ppt',
+  'text/plain': 'txt',
+}
+
+/** Picks the WhatsApp message type for a file based on its MIME type */
+export function inferMediaType(mimeType: string): WhatsAppMediaType {
+  const mime = normalizeMimeType(mimeType)
+  for (const [type, mimes] of Object.entries(SUPPORTED_MIME_TYPES)) {
+    if (mimes.includes(mime)) return type as WhatsAppMediaType
+  }
+  return 'document'
+}
+
+/** File extension for a MIME type, `bin` when unknown */
+export function extensionForMimeType(mimeType: string): string {
+  return MIME_EXTENSIONS[normalizeMimeType(mimeType)] || 'bin'
+}
+
+/** Returns an error message when the file is too large for its media type */
+export function validateMediaSize(type: WhatsAppMediaType, size: number): string | null {
+  const limit = MEDIA_SIZE_LIMITS[type]
+  if (size <= limit) return null
+  return `File is too large for a ${type} message (max ${Math.round(limit / 1024 / 1024)} MB)`
+}
+
+// Strips parameters such as `; codecs=opus` from a MIME type
+function normalizeMimeType(mimeType: string): string {
+  return (mimeType || '').split(';')[0].trim().toLowerCase()
+}
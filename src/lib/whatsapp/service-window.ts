@@ -0,0 +1,52 @@
+// =============================================================================
+// WhatsApp Customer Service Window
+// Free-form messages are only delivered within 24h of the contact's last
+// inbound message; outside it Meta only accepts approved templates.
+// Client-safe: shared by the send route and the desk composer.
+// =============================================================================
+
+import type { MessageType } from '@/types/database'
+
+export const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000
+
+export const SERVICE_WINDOW_CLOSED = 'SERVICE_WINDOW_CLOSED'
+
+export interface ServiceWindow {
+  isOpen: boolean
+  /** When the window closes (or closed); null if the contact never wrote in */
+  expiresAt: string | null
+  remainingMs: number
+}
+
+export function getServiceWindow(
+  lastInboundAt: string | null | undefined,
+  now: number = Date.now()
+): ServiceWindow {
+  if (!lastInboundAt) {
+    return { isOpen: false, expiresAt: null, remainingMs: 0 }
+  }
+
+  const expires = new Date(lastInboundAt).getTime() + SERVICE_WINDOW_MS
+  const remainingMs = Math.max(0, expires - now)
+
+  return {
+    isOpen: remainingMs > 0,
+    expiresAt: new Date(expires).toISOString(),
+    remainingMs,
+  }
+}
+
+/** Message types that reach the contact as free-form (non-template) messages */
+export function requiresServiceWindow(type: MessageType): boolean {
+  return type !== 'template' && type !== 'internal_note'
+}
+
+/** "23h 05m", "42m", "<1m" */
+export function formatWindowRemaining(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60000)
+  if (totalMinutes < 1) return '<1m'
+
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  return hours > 0 ? `${hours}h ${String(minutes).padStart(2, '0')}m` : `${minutes}m`
+}
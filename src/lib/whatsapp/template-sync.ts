@@ -0,0 +1,134 @@
+// =============================================================================
+// WhatsApp Template Sync
+// Mirrors the WABA's message templates into crm_whatsapp_templates
+// =============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { fetchMessageTemplates } from '@/lib/whatsapp/api'
+import type { Organization, WhatsAppTemplate } from '@/types/database'
+
+export interface TemplateSyncResult {
+  synced: number
+  removed: number
+}
+
+const TEMPLATE_STATUSES: WhatsAppTemplate['status'][] = [
+  'APPROVED',
+  'PENDING',
+  'REJECTED',
+  'PAUSED',
+  'DISABLED',
+  'IN_APPEAL',
+]
+
+/**
+ * Meta also reports statuses the table doesn't know (LIMIT_EXCEEDED,
+ * ARCHIVED, ...). None of them can be sent, so they are stored as DISABLED
+ * rather than failing the whole upsert on the CHECK constraint.
+ */
+function localTemplateStatus(status: string): WhatsAppTemplate['status'] {
+  return TEMPLATE_STATUSES.includes(status as WhatsAppTemplate['status'])
+    ? (status as WhatsAppTemplate['status'])
+    : 'DISABLED'
+}
+
+// -----------------------------------------------------------------------------
+// Full Sync (manual route)
+// -----------------------------------------------------------------------------
+
+/**
+ * Pulls every template of the org's WhatsApp Business Account and upserts it
+ * by (org_id, name, language). Templates deleted on Meta are removed locally.
+ */
+export async function syncWhatsAppTemplates(
+  supabase: SupabaseClient,
+  org: Organization
+): Promise<TemplateSyncResult> {
+  // Use env vars as fallback if org doesn't have them stored
+  const businessAccountId =
+    org.whatsapp_business_account_id || process.env.WHATSAPP_BUSINESS_ACCOUNT_ID
+  const accessToken = org.whatsapp_access_token || process.env.WHATSAPP_ACCESS_TOKEN
+
+  if (!businessAccountId || !accessToken) {
+    throw new Error('WhatsApp Business Account not configured for this organization')
+  }
+
+  // Templates on their way out are skipped, so the cleanup below removes them
+  const templates = (await fetchMessageTemplates(businessAccountId, accessToken)).filter(
+    (t) => t.status !== 'DELETED' && t.status !== 'PENDING_DELETION'
+  )
+  const syncedAt = new Date().toISOString()
+
+  if (templates.length > 0) {
+    const { error: upsertError } = await supabase
+      .from('crm_whatsapp_templates')
+      .upsert(
+        templates.map((t) => ({
+          org_id: org.org_id,
+          whatsapp_template_id: t.id,
+          name: t.name,
+          language: t.language,
+          category: t.category,
+          status: localTemplateStatus(t.status),
+          components: t.components,
+          last_synced_at: syncedAt,
+          updated_at: syncedAt,
+        })),
+        { onConflict: 'org_id,name,language' }
+      )
+
+    if (upsertError) {
+      throw new Error(`Failed to upsert templates: ${upsertError.message}`)
+    }
+  }
+
+  // Anything not touched by this run no longer exists on Meta
+  const { data: removed, error: deleteError } = await supabase
+    .from('crm_whatsapp_templates')
+    .delete()
+    .eq('org_id', org.org_id)
+    .or(`last_synced_at.is.null,last_synced_at.lt.${syncedAt}`)
+    .select('id')
+
+  if (deleteError) {
+    throw new Error(`Failed to remove stale templates: ${deleteError.message}`)
+  }
+
+  return { synced: templates.length, removed: removed?.length ?? 0 }
+}
+
+// -----------------------------------------------------------------------------
+// Status Update (message_template_status_update webhook)
+// -----------------------------------------------------------------------------
+
+export async function applyTemplateStatusUpdate(
+  supabase: SupabaseClient,
+  orgId: string,
+  update: { event?: string; message_template_id?: number | string }
+): Promise<void> {
+  if (!update.event || !update.message_template_id) return
+
+  const templateId = String(update.message_template_id)
+
+  if (update.event === 'DELETED' || update.event === 'PENDING_DELETION') {
+    await supabase
+      .from('crm_whatsapp_templates')
+      .delete()
+      .eq('org_id', orgId)
+      .eq('whatsapp_template_id', templateId)
+    return
+  }
+
+  const status = update.event === 'REINSTATED' ? 'APPROVED' : update.event
+  if (!TEMPLATE_STATUSES.includes(status as WhatsAppTemplate['status'])) return
+
+  const { error } = await supabase
+    .from('crm_whatsapp_templates')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('org_id', orgId)
+    .eq('whatsapp_template_id', templateId)
+
+  if (error) {
+    console.error('Error applying template status update:', error)
+  }
+}
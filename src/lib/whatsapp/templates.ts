@@ -0,0 +1,250 @@
+// =============================================================================
+// WhatsApp Template Helpers
+// Variable extraction, preview rendering and send-time component building.
+// Client-safe: used by the composer's template picker.
+// =============================================================================
+
+import type { WhatsAppTemplate, WhatsAppTemplateComponent } from '@/types/database'
+import type { TemplateComponent, TemplateParameter } from '@/types/whatsapp'
+
+type MediaFormat = 'IMAGE' | 'VIDEO' | 'DOCUMENT'
+
+/** One input the agent must fill before the template can be sent */
+export interface TemplateField {
+  /** Key into the values record: header.1, header.media, body.2, button.0.1 */
+  key: string
+  component: 'header' | 'body' | 'button'
+  label: string
+  kind: 'text' | 'media'
+  example?: string
+}
+
+/** Field key -> value typed by the agent */
+export type TemplateValues = Record<string, string>
+
+export interface TemplatePreview {
+  header: { format: string; text?: string; mediaUrl?: string } | null
+  body: string
+  footer: string | null
+  buttons: Array<{ type: string; text: string; url?: string }>
+}
+
+const VARIABLE_PATTERN = /\{\{\s*(\d+)\s*\}\}/g
+const MEDIA_FORMATS: MediaFormat[] = ['IMAGE', 'VIDEO', 'DOCUMENT']
+
+// -----------------------------------------------------------------------------
+// Variables
+// -----------------------------------------------------------------------------
+
+/** Distinct positional variables ({{1}}, {{2}}...) in ascending order */
+export function extractTemplateVariables(text: string | undefined): number[] {
+  if (!text) return []
+  const found = new Set<number>()
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    found.add(Number(match[1]))
+  }
+  return Array.from(found).sort((a, b) => a - b)
+}
+
+/** Replaces {{n}} with the value for n, leaving unfilled variables visible */
+export function fillTemplateText(
+  text: string,
+  valueFor: (index: number) => string | undefined
+): string {
+  return text.replace(VARIABLE_PATTERN, (token, n: string) => valueFor(Number(n)) || token)
+}
+
+export function getTemplateFields(template: Pick<WhatsAppTemplate, 'components'>): TemplateField[] {
+  const fields: TemplateField[] = []
+
+  for (const component of template.components) {
+    switch (component.type) {
+      case 'HEADER': {
+        if (component.format && isMediaFormat(component.format)) {
+          fields.push({
+            key: 'header.media',
+            component: 'header',
+            label: `Header ${component.format.toLowerCase()} URL`,
+            kind: 'media',
+          })
+          break
+        }
+        for (const n of extractTemplateVariables(component.text)) {
+          fields.push({
+            key: `header.${n}`,
+            component: 'header',
+            label: `Header {{${n}}}`,
+            kind: 'text',
+            example: component.example?.header_text?.[n - 1],
+          })
+        }
+        break
+      }
+
+      case 'BODY': {
+        for (const n of extractTemplateVariables(component.text)) {
+          fields.push({
+            key: `body.${n}`,
+            component: 'body',
+            label: `Body {{${n}}}`,
+            kind: 'text',
+            example: component.example?.body_text?.[0]?.[n - 1],
+          })
+        }
+        break
+      }
+
+      case 'BUTTONS': {
+        component.buttons?.forEach((button, index) => {
+          if (button.type !== 'URL') return
+          for (const n of extractTemplateVariables(button.url)) {
+            fields.push({
+              key: `button.${index}.${n}`,
+              component: 'button',
+              label: `"${button.text}" link {{${n}}}`,
+              kind: 'text',
+              example: button.example?.[0],
+            })
+          }
+        })
+        break
+      }
+    }
+  }
+
+  return fields
+}
+
+export function isTemplateComplete(fields: TemplateField[], values: TemplateValues): boolean {
+  return fields.every((field) => !!values[field.key]?.trim())
+}
+
+// -----------------------------------------------------------------------------
+// Preview
+// -----------------------------------------------------------------------------
+
+export function renderTemplatePreview(
+  template: Pick<WhatsAppTemplate, 'components'>,
+  values: TemplateValues
+): TemplatePreview {
+  const preview: TemplatePreview = { header: null, body: '', footer: null, buttons: [] }
+
+  for (const component of template.components) {
+    switch (component.type) {
+      case 'HEADER':
+        preview.header =
+          component.format && isMediaFormat(component.format)
+            ? {
+                format: component.format,
+                mediaUrl: values['header.media'] || component.example?.header_handle?.[0],
+              }
+            : {
+                format: 'TEXT',
+                text: fillTemplateText(component.text ?? '', (n) => values[`header.${n}`]),
+              }
+        break
+      case 'BODY':
+        preview.body = fillTemplateText(component.text ?? '', (n) => values[`body.${n}`])
+        break
+      case 'FOOTER':
+        preview.footer = component.text ?? null
+        break
+      case 'BUTTONS':
+        preview.buttons = (component.buttons ?? []).map((button, index) => ({
+          type: button.type,
+          text: button.text,
+          url: button.url
+            ? fillTemplateText(button.url, (n) => values[`button.${index}.${n}`])
+            : undefined,
+        }))
+        break
+    }
+  }
+
+  return preview
+}
+
+// -----------------------------------------------------------------------------
+// Send Components
+// -----------------------------------------------------------------------------
+
+/**
+ * Builds the `components` array for sendTemplateMessage. Components without
+ * variables are omitted, as the Cloud API expects.
+ */
+export function buildTemplateComponents(
+  template: Pick<WhatsAppTemplate, 'components'>,
+  values: TemplateValues
+): TemplateComponent[] {
+  const components: TemplateComponent[] = []
+
+  for (const component of template.components) {
+    switch (component.type) {
+      case 'HEADER': {
+        if (component.format && isMediaFormat(component.format)) {
+          const link = values['header.media']?.trim()
+          if (link) {
+            components.push({
+              type: 'header',
+              parameters: [mediaParameter(component.format, link)],
+            })
+          }
+          break
+        }
+        const parameters = textParameters(component, (n) => values[`header.${n}`])
+        if (parameters.length > 0) components.push({ type: 'header', parameters })
+        break
+      }
+
+      case 'BODY': {
+        const parameters = textParameters(component, (n) => values[`body.${n}`])
+        if (parameters.length > 0) components.push({ type: 'body', parameters })
+        break
+      }
+
+      case 'BUTTONS': {
+        component.buttons?.forEach((button, index) => {
+          if (button.type !== 'URL') return
+          const parameters: TemplateParameter[] = extractTemplateVariables(button.url).map(
+            (n) => ({ type: 'text', text: values[`button.${index}.${n}`] ?? '' })
+          )
+          if (parameters.length > 0) {
+            components.push({ type: 'button', sub_type: 'url', index, parameters })
+          }
+        })
+        break
+      }
+    }
+  }
+
+  return components
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function isMediaFormat(format: string): format is MediaFormat {
+  return (MEDIA_FORMATS as string[]).includes(format)
+}
+
+function textParameters(
+  component: WhatsAppTemplateComponent,
+  valueFor: (index: number) => string | undefined
+): TemplateParameter[] {
+  return extractTemplateVariables(component.text).map((n) => ({
+    type: 'text',
+    text: valueFor(n) ?? '',
+  }))
+}
+
+function mediaParameter(format: MediaFormat, link: string): TemplateParameter {
+  switch (format) {
+    case 'IMAGE':
+      return { type: 'image', image: { link } }
+    case 'VIDEO':
+      return { type: 'video', video: { link } }
+    case 'DOCUMENT':
+      return { type: 'document', document: { link } }
+  }
+}
@@ -3,18 +3,39 @@
 // Processes incoming webhook payloads from Meta Cloud API
 // =============================================================================
 
+import { after } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createAdminClient } from '@/lib/supabase/admin'
 import {
   sendTextMessage,
+  sendMediaMessage,
   markAsRead,
+  sendInteractiveMessage,
   uploadMediaToSupabase,
 } from '@/lib/whatsapp/api'
+import { buildMenuInteractive } from '@/lib/whatsapp/interactive'
+import {
+  runFlow,
+  performHttpRequest,
+  type FlowInput,
+  type FlowRuntime,
+} from '@/lib/flows/engine'
+import { matchFlowTrigger, type TriggerCandidate } from '@/lib/flows/triggers'
+import { applyTemplateStatusUpdate } from '@/lib/whatsapp/template-sync'
+import { detectConsentKeyword, recordConsentChange } from '@/lib/contacts/consent'
+import { phoneVariants, waIdToE164, whatsAppRecipient } from '@/lib/contacts/phone'
+import { isHubSpotLinkDue, syncContactToHubSpot } from '@/lib/hubspot/contact-sync'
 import type {
   Contact,
   Conversation,
+  Flow,
+  MessageMetadata,
   MessageType,
   MessageStatus,
+  Organization,
+  SharedContactCard,
 } from '@/types/database'
+import type { WhatsAppSharedContact } from '@/types/whatsapp'
 
 // -----------------------------------------------------------------------------
 // Main Webhook Processor
@@ -31,6 +52,20 @@ export async function processWebhookPayload(payload: any): Promise<void> {
 
     for (const entry of payload.entry || []) {
       for (const change of entry.changes || []) {
+        // Template review results arrive per WABA (entry.id)
+        if (change.field === 'message_template_status_update') {
+          const { data: wabaOrg } = await supabase
+            .from('crm_organizations')
+            .select('org_id')
+            .eq('whatsapp_business_account_id', entry.id)
+            .maybeSingle()
+
+          if (wabaOrg && change.value) {
+            await applyTemplateStatusUpdate(supabase, wabaOrg.org_id, change.value)
+          }
+          continue
+        }
+
         if (change.field !== 'messages') {
           continue
         }
@@ -94,13 +129,13 @@ async function processIncomingMessage(
   phoneNumberId: string
 ): Promise<void> {
   try {
-    const senderPhone = message.from // E.164 format
+    const senderWaId = message.from // wa_id: international digits, no '+'
     const waMessageId = message.id
     const timestamp = message.timestamp
 
     // Extract sender profile info from the contacts array
     const contactProfile = contacts?.find(
-      (c: any) => c.wa_id === senderPhone
+      (c: any) => c.wa_id === senderWaId
     )
     const senderName = contactProfile?.profile?.name || null
 
@@ -108,21 +143,73 @@ async function processIncomingMessage(
     const contact = await upsertContact(
       supabase,
       org.org_id,
-      senderPhone,
+      senderWaId,
       senderName
     )
 
+    // 1b. Match or create new contacts in HubSpot without delaying the reply
+    if (org.hubspot_refresh_token && !contact.hubspot_contact_id && isHubSpotLinkDue(contact)) {
+      after(() => syncContactToHubSpot(supabase, contact))
+    }
+
     // 2. Find or create conversation
-    const conversation = await findOrCreateConversation(
-      supabase,
-      org.org_id,
-      contact.id
-    )
+    const { conversation, created: isNewConversation } =
+      await findOrCreateConversation(supabase, org.org_id, contact.id)
 
     // 3. Determine message type and extract content
-    const { messageType, content, mediaId, mimeType, filename } =
+    const { messageType, content, mediaId, mimeType, filename, metadata, replyId } =
       extractMessageContent(message)
 
+    // Click-to-WhatsApp ads attach a referral to the first message
+    if (message.referral) {
+      metadata.referral = {
+        source_type: message.referral.source_type,
+        source_id: message.referral.source_id,
+        source_url: message.referral.source_url,
+        headline: message.referral.headline,
+        body: message.referral.body,
+        media_type: message.referral.media_type,
+        image_url: message.referral.image_url,
+        video_url: message.referral.video_url,
+        thumbnail_url: message.referral.thumbnail_url,
+        ctwa_clid: message.referral.ctwa_clid,
+      }
+    }
+
+    // 3b. Replies quote the message they answer; interactive replies also
+    //     record the chosen option on that message
+    let replyToMessageId: string | null = null
+    if (message.context?.id) {
+      const { data: original } = await supabase
+        .from('crm_messages')
+        .select('id, metadata')
+        .eq('whatsapp_message_id', message.context.id)
+        .maybeSingle()
+
+      if (original) {
+        replyToMessageId = original.id
+        const choice = metadata.interactive
+          ? { id: metadata.interactive.id, title: metadata.interactive.title }
+          : metadata.button
+            ? { id: metadata.button.payload, title: metadata.button.text }
+            : null
+        if (choice) {
+          await supabase
+            .from('crm_messages')
+            .update({
+              metadata: {
+                ...(original.metadata || {}),
+                selection: {
+                  ...choice,
+                  selected_at: new Date(parseInt(timestamp) * 1000).toISOString(),
+                },
+              },
+            })
+            .eq('id', original.id)
+        }
+      }
+    }
+
     // 4. If media message, download and upload to Supabase Storage
     let mediaUrl: string | null = null
     let mediaMimeType: string | null = mimeType || null
@@ -158,7 +245,8 @@ async function processIncomingMessage(
         media_filename: mediaFilename,
         whatsapp_message_id: waMessageId,
         status: 'delivered',
-        reply_to_message_id: null,
+        reply_to_message_id: replyToMessageId,
+        metadata,
       })
       .select()
       .single()
@@ -168,6 +256,34 @@ async function processIncomingMessage(
       return
     }
 
+    // 5b. Count it as a reply to the contact's latest campaign send, if recent
+    const { error: replyError } = await supabase.rpc('crm_attribute_campaign_reply', {
+      p_contact_id: contact.id,
+      p_at: new Date(parseInt(timestamp) * 1000).toISOString(),
+    })
+
+    if (replyError) {
+      console.error('Error attributing campaign reply:', replyError)
+    }
+
+    // 5c. Honor opt-out / opt-in keywords such as PARAR or STOP
+    const consentKeyword = detectConsentKeyword(content)
+    if (consentKeyword) {
+      try {
+        await recordConsentChange(supabase, {
+          orgId: org.org_id,
+          contact,
+          categories: consentKeyword.categories,
+          action: consentKeyword.action,
+          source: 'keyword',
+          detail: consentKeyword.keyword,
+          messageId: savedMessage.id,
+        })
+      } catch (consentError) {
+        console.error('Error recording consent change:', consentError)
+      }
+    }
+
     // 6. Update conversation: last_message_at, last_message_preview, unread_count
     const { error: convUpdateError } = await supabase
       .from('crm_conversations')
@@ -183,11 +299,30 @@ async function processIncomingMessage(
       console.error('Error updating conversation:', convUpdateError)
     }
 
-    // 7. If conversation has a bot active, skip agent assignment
-    //    (the flow engine would handle this separately)
+    // 7. If conversation has a bot active, let the flow engine respond
+    //    and skip agent assignment (unless the flow could not run)
     if (conversation.is_bot_active) {
-      // Bot flow will handle the response
-      return
+      const handled = await runConversationFlow(
+        supabase,
+        org,
+        conversation,
+        contact,
+        { text: content, replyId },
+        phoneNumberId
+      )
+      if (handled) return
+    } else {
+      // 7b. Otherwise, start a published flow whose trigger matches
+      const started = await startTriggeredFlow(
+        supabase,
+        org,
+        conversation,
+        contact,
+        content,
+        isNewConversation,
+        phoneNumberId
+      )
+      if (started) return
     }
 
     // 8. If no bot and conversation is pending, assign agent via round-robin
@@ -206,7 +341,7 @@ async function processIncomingMessage(
     ) {
       try {
         await sendTextMessage({
-          to: senderPhone,
+          to: senderWaId,
           text: org.auto_reply_message,
           phoneNumberId,
           accessToken: (org.whatsapp_access_token || process.env.WHATSAPP_ACCESS_TOKEN),
@@ -229,6 +364,323 @@ async function processIncomingMessage(
   }
 }
 
+// -----------------------------------------------------------------------------
+// Run Conversation Flow
+// Advances the conversation's active chatbot flow with the inbound message and
+// persists the new position. Returns false when no flow could be run, so the
+// caller falls back to human assignment.
+// -----------------------------------------------------------------------------
+
+async function runConversationFlow(
+  supabase: SupabaseClient,
+  org: Organization,
+  conversation: Conversation,
+  contact: Contact,
+  input: FlowInput | null,
+  phoneNumberId: string
+): Promise<boolean> {
+  const accessToken =
+    org.whatsapp_access_token || process.env.WHATSAPP_ACCESS_TOKEN
+
+  if (!conversation.current_flow_id || !accessToken) {
+    await supabase
+      .from('crm_conversations')
+      .update({ is_bot_active: false, current_flow_id: null })
+      .eq('id', conversation.id)
+    return false
+  }
+
+  const { data: flow, error: flowError } = await supabase
+    .from('crm_flows')
+    .select('*')
+    .eq('id', conversation.current_flow_id)
+    .eq('org_id', org.org_id)
+    .maybeSingle<Flow>()
+
+  if (flowError || !flow) {
+    console.error(
+      `Flow ${conversation.current_flow_id} not found for conversation ${conversation.id}`,
+      flowError
+    )
+    await supabase
+      .from('crm_conversations')
+      .update({ is_bot_active: false, current_flow_id: null })
+      .eq('id', conversation.id)
+    return false
+  }
+
+  // A flow archived or unpublished mid-conversation stops; agents take over
+  if (flow.status !== 'published') {
+    await supabase
+      .from('crm_conversations')
+      .update({ is_bot_active: false, current_flow_id: null })
+      .eq('id', conversation.id)
+    return false
+  }
+
+  try {
+    const runtime = createWhatsAppFlowRuntime(
+      supabase,
+      org.org_id,
+      conversation,
+      whatsAppRecipient(contact),
+      phoneNumberId,
+      accessToken
+    )
+
+    const result = await runFlow({
+      flow,
+      variables: conversation.flow_variables || {},
+      input,
+      runtime,
+      context: {
+        contact: { name: contact.name, phone: contact.phone, email: contact.email },
+        protocol_number: conversation.protocol_number,
+      },
+    })
+
+    const finished = result.status !== 'waiting'
+
+    const { error: updateError } = await supabase
+      .from('crm_conversations')
+      .update({
+        flow_variables: result.variables,
+        current_flow_id: finished ? null : flow.id,
+        is_bot_active: !finished,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', conversation.id)
+
+    if (updateError) {
+      console.error('Error persisting flow state:', updateError)
+    }
+
+    // A flow that ends without a handoff leaves the conversation in the
+    // pending queue so agents still see it
+    if (result.status === 'completed' && !conversation.assigned_agent_id) {
+      await assignAgent(supabase, org.org_id, conversation.id, conversation.queue)
+    }
+
+    return true
+  } catch (error) {
+    console.error(`Error running flow ${flow.id}:`, error)
+    return false
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Start Triggered Flow
+// Matches the inbound message against the org's published flows and, when one
+// matches, activates it on the conversation and runs it. Conversations already
+// handled by an agent are never taken over by a flow.
+// -----------------------------------------------------------------------------
+
+async function startTriggeredFlow(
+  supabase: SupabaseClient,
+  org: Organization,
+  conversation: Conversation,
+  contact: Contact,
+  text: string | null,
+  isNewConversation: boolean,
+  phoneNumberId: string
+): Promise<boolean> {
+  if (conversation.assigned_agent_id) return false
+
+  const { data: flows, error: flowsError } = await supabase
+    .from('crm_flows')
+    .select('id, trigger_type, trigger_keywords, priority, updated_at')
+    .eq('org_id', org.org_id)
+    .eq('status', 'published')
+    .in('trigger_type', ['keyword', 'first_message', 'welcome'])
+
+  if (flowsError) {
+    console.error('Error loading published flows:', flowsError)
+    return false
+  }
+  if (!flows || flows.length === 0) return false
+
+  // Welcome flows only apply to contacts without any earlier conversation
+  let isFirstContact = false
+  if (isNewConversation) {
+    const { count } = await supabase
+      .from('crm_conversations')
+      .select('id', { count: 'exact', head: true })
+      .eq('org_id', org.org_id)
+      .eq('contact_id', contact.id)
+      .neq('id', conversation.id)
+    isFirstContact = (count ?? 0) === 0
+  }
+
+  const match = matchFlowTrigger(flows as TriggerCandidate[], {
+    text,
+    isNewConversation,
+    isFirstContact,
+  })
+  if (!match) return false
+
+  const variables: Record<string, unknown> = { last_input: text ?? '' }
+  if (match.keyword) variables.trigger_keyword = match.keyword
+
+  return runConversationFlow(
+    supabase,
+    org,
+    {
+      ...conversation,
+      current_flow_id: match.flow.id,
+      is_bot_active: true,
+      flow_variables: variables,
+    },
+    contact,
+    null,
+    phoneNumberId
+  )
+}
+
+// -----------------------------------------------------------------------------
+// WhatsApp Flow Runtime
+// Sends flow output through the Cloud API and records it as bot messages
+// -----------------------------------------------------------------------------
+
+function createWhatsAppFlowRuntime(
+  supabase: SupabaseClient,
+  orgId: string,
+  conversation: Conversation,
+  to: string,
+  phoneNumberId: string,
+  accessToken: string
+): FlowRuntime {
+  let tags = [...(conversation.tags || [])]
+
+  async function saveBotMessage(
+    waMessageId: string | null,
+    messageType: MessageType,
+    content: string | null,
+    media?: { url: string; filename?: string },
+    metadata: MessageMetadata = {}
+  ) {
+    await supabase.from('crm_messages').insert({
+      conversation_id: conversation.id,
+      sender_type: 'bot',
+      sender_id: null,
+      message_type: messageType,
+      content,
+      media_url: media?.url ?? null,
+      media_filename: media?.filename ?? null,
+      whatsapp_message_id: waMessageId,
+      status: 'sent',
+      metadata,
+    })
+
+    await supabase
+      .from('crm_conversations')
+      .update({
+        last_message_at: new Date().toISOString(),
+        last_message_preview: buildMessagePreview(messageType, content),
+      })
+      .eq('id', conversation.id)
+  }
+
+  return {
+    async sendText(text) {
+      const response = await sendTextMessage({ to, text, phoneNumberId, accessToken })
+      await saveBotMessage(response.messages?.[0]?.id ?? null, 'text', text)
+    },
+
+    async sendMedia(media) {
+      const response = await sendMediaMessage({
+        to,
+        type: media.type,
+        mediaUrl: media.url,
+        caption: media.caption,
+        filename: media.filename,
+        phoneNumberId,
+        accessToken,
+      })
+      await saveBotMessage(
+        response.messages?.[0]?.id ?? null,
+        media.type,
+        media.caption ?? null,
+        { url: media.url, filename: media.filename }
+      )
+    },
+
+    async sendMenu(menu) {
+      const interactive = buildMenuInteractive(menu)
+      if (interactive) {
+        const response = await sendInteractiveMessage({
+          to,
+          interactive,
+          phoneNumberId,
+          accessToken,
+        })
+        await saveBotMessage(
+          response.messages?.[0]?.id ?? null,
+          'interactive',
+          menu.text,
+          undefined,
+          { interactive_message: interactive }
+        )
+        return
+      }
+
+      // Too many options for WhatsApp: fall back to a numbered text menu,
+      // replies then match by number or title
+      const text = [
+        menu.text,
+        '',
+        ...menu.options.map((option, index) => `${index + 1}. ${option.title}`),
+      ].join('\n')
+      await this.sendText(text)
+    },
+
+    async tagConversation(newTags) {
+      tags = Array.from(new Set([...tags, ...newTags]))
+      await supabase
+        .from('crm_conversations')
+        .update({ tags })
+        .eq('id', conversation.id)
+    },
+
+    async assignQueue(queue) {
+      conversation.queue = queue
+      await supabase
+        .from('crm_conversations')
+        .update({ queue })
+        .eq('id', conversation.id)
+    },
+
+    async handoff(queue) {
+      const targetQueue = queue || conversation.queue
+
+      await supabase
+        .from('crm_conversations')
+        .update({
+          is_bot_active: false,
+          current_flow_id: null,
+          queue: targetQueue,
+        })
+        .eq('id', conversation.id)
+
+      if (conversation.protocol_number) {
+        await supabase.from('crm_protocol_log').insert({
+          org_id: orgId,
+          conversation_id: conversation.id,
+          protocol_number: conversation.protocol_number,
+          action: 'bot_handoff',
+          agent_id: null,
+          details: { flow_id: conversation.current_flow_id, queue: targetQueue },
+        })
+      }
+
+      if (!conversation.assigned_agent_id) {
+        await assignAgent(supabase, orgId, conversation.id, targetQueue)
+      }
+    },
+
+    httpRequest: performHttpRequest,
+  }
+}
+
 // -----------------------------------------------------------------------------
 // Process Status Update
 // -----------------------------------------------------------------------------
@@ -272,6 +724,18 @@ async function processStatusUpdate(
     if (error) {
       console.error('Error updating message status:', error)
     }
+
+    // Campaign sends are tracked on crm_campaign_recipients instead
+    const { error: campaignError } = await supabase.rpc('crm_apply_campaign_status', {
+      p_whatsapp_message_id: waMessageId,
+      p_status: mappedStatus,
+      p_at: new Date(parseInt(timestamp) * 1000).toISOString(),
+      p_error: updateData.error_message ?? null,
+    })
+
+    if (campaignError) {
+      console.error('Error updating campaign recipient status:', campaignError)
+    }
   } catch (error) {
     console.error('Error processing status update:', error)
   }
@@ -293,23 +757,30 @@ function generateProtocolNumber(): string {
 
 // -----------------------------------------------------------------------------
 // Upsert Contact
-// Creates a new contact or updates existing one by (org_id, phone)
+// Finds the contact by wa_id, then by phone in any equivalent form (contacts
+// added by hand or imported have no wa_id yet), and creates it otherwise.
 // -----------------------------------------------------------------------------
 
 async function upsertContact(
   supabase: any,
   orgId: string,
-  phone: string,
+  waId: string,
   name?: string | null,
   profilePicture?: string | null
 ): Promise<Contact> {
+  const phone = waIdToE164(waId) ?? `+${waId}`
+
   // Try to find existing contact first
-  const { data: existing, error: findError } = await supabase
+  const { data: matches, error: findError } = await supabase
     .from('crm_contacts')
     .select('*')
     .eq('org_id', orgId)
-    .eq('phone', phone)
-    .single()
+    .or(`wa_id.eq.${waId},phone.in.(${phoneVariants(phone).map((p) => `"${p}"`).join(',')})`)
+    .order('created_at', { ascending: true })
+
+  const existing: Contact | undefined = (matches ?? []).find(
+    (c: Contact) => c.wa_id === waId
+  ) ?? matches?.[0]
 
   if (existing && !findError) {
     // Update the contact if we have new information
@@ -317,6 +788,9 @@ async function upsertContact(
       updated_at: new Date().toISOString(),
     }
 
+    if (existing.wa_id !== waId) {
+      updates.wa_id = waId
+    }
     if (name && !existing.name) {
       updates.name = name
     }
@@ -349,6 +823,7 @@ async function upsertContact(
     .insert({
       org_id: orgId,
       phone,
+      wa_id: waId,
       name: name || null,
       profile_picture_url: profilePicture || null,
       custom_fields: {},
@@ -366,14 +841,15 @@ async function upsertContact(
 
 // -----------------------------------------------------------------------------
 // Find or Create Conversation
-// Looks for an open/pending conversation for this contact, or creates a new one
+// Looks for an open/pending conversation for this contact, or creates a new one.
+// `created` tells the caller whether this message opened the conversation.
 // -----------------------------------------------------------------------------
 
 async function findOrCreateConversation(
   supabase: any,
   orgId: string,
   contactId: string
-): Promise<Conversation> {
+): Promise<{ conversation: Conversation; created: boolean }> {
   // Find an existing open or pending conversation for this contact
   const { data: existing, error: findError } = await supabase
     .from('crm_conversations')
@@ -386,7 +862,7 @@ async function findOrCreateConversation(
     .maybeSingle()
 
   if (existing && !findError) {
-    return existing
+    return { conversation: existing, created: false }
   }
 
   // Create a new conversation
@@ -425,7 +901,7 @@ async function findOrCreateConversation(
     details: { source: 'whatsapp_incoming' },
   })
 
-  return created
+  return { conversation: created, created: true }
 }
 
 // -----------------------------------------------------------------------------
@@ -561,13 +1037,19 @@ async function assignAgent(
 // Extract Message Content from WhatsApp Webhook Message
 // -----------------------------------------------------------------------------
 
-function extractMessageContent(message: any): {
+interface ExtractedMessageContent {
   messageType: MessageType
   content: string | null
   mediaId: string | null
   mimeType: string | null
   filename: string | null
-} {
+  metadata: MessageMetadata
+  /** Id of the chosen option for button/list replies, fed to the flow engine */
+  replyId: string | null
+}
+
+function extractMessageContent(message: any): ExtractedMessageContent {
+  const base = { mediaId: null, mimeType: null, filename: null, metadata: {}, replyId: null }
   const type = message.type as string
 
   switch (type) {
@@ -578,6 +1060,8 @@ function extractMessageContent(message: any): {
         mediaId: null,
         mimeType: null,
         filename: null,
+        metadata: {},
+        replyId: null,
       }
 
     case 'image':
@@ -587,6 +1071,8 @@ function extractMessageContent(message: any): {
         mediaId: message.image?.id || null,
         mimeType: message.image?.mime_type || null,
         filename: null,
+        metadata: {},
+        replyId: null,
       }
 
     case 'audio':
@@ -596,6 +1082,8 @@ function extractMessageContent(message: any): {
         mediaId: message.audio?.id || null,
         mimeType: message.audio?.mime_type || null,
         filename: null,
+        metadata: {},
+        replyId: null,
       }
 
     case 'video':
@@ -605,6 +1093,8 @@ function extractMessageContent(message: any): {
         mediaId: message.video?.id || null,
         mimeType: message.video?.mime_type || null,
         filename: null,
+        metadata: {},
+        replyId: null,
       }
 
     case 'document':
@@ -614,6 +1104,8 @@ function extractMessageContent(message: any): {
         mediaId: message.document?.id || null,
         mimeType: message.document?.mime_type || null,
         filename: message.document?.filename || null,
+        metadata: {},
+        replyId: null,
       }
 
     case 'sticker':
@@ -623,6 +1115,8 @@ function extractMessageContent(message: any): {
         mediaId: message.sticker?.id || null,
         mimeType: message.sticker?.mime_type || null,
         filename: null,
+        metadata: {},
+        replyId: null,
       }
 
     case 'location':
@@ -637,6 +1131,8 @@ function extractMessageContent(message: any): {
         mediaId: null,
         mimeType: null,
         filename: null,
+        metadata: {},
+        replyId: null,
       }
 
     case 'reaction':
@@ -646,16 +1142,92 @@ function extractMessageContent(message: any): {
         mediaId: null,
         mimeType: null,
         filename: null,
+        metadata: {},
+        replyId: null,
       }
 
-    default:
+    case 'interactive': {
+      const reply =
+        message.interactive?.button_reply || message.interactive?.list_reply
+      if (!reply) break
       return {
-        messageType: 'text',
-        content: `[Unsupported message type: ${type}]`,
-        mediaId: null,
-        mimeType: null,
-        filename: null,
+        ...base,
+        messageType: 'interactive',
+        content: reply.title || null,
+        metadata: {
+          interactive: {
+            type: message.interactive.type,
+            id: reply.id,
+            title: reply.title,
+            description: reply.description,
+          },
+        },
+        replyId: reply.id,
       }
+    }
+
+    case 'button':
+      return {
+        ...base,
+        messageType: 'button',
+        content: message.button?.text || null,
+        metadata: {
+          button: { text: message.button?.text, payload: message.button?.payload },
+        },
+        replyId: message.button?.payload || null,
+      }
+
+    case 'contacts': {
+      const cards = (message.contacts || []).map(
+        (c: WhatsAppSharedContact): SharedContactCard => ({
+          name: c.name?.formatted_name || c.phones?.[0]?.phone || 'Contact',
+          phones: (c.phones || []).map((p) => ({
+            phone: p.phone,
+            type: p.type,
+            wa_id: p.wa_id,
+          })),
+          emails: (c.emails || []).map((e) => e.email),
+          organization: c.org?.company,
+        })
+      )
+      return {
+        ...base,
+        messageType: 'contacts',
+        content: cards.map((c: SharedContactCard) => c.name).join(', ') || null,
+        metadata: { contacts: cards },
+      }
+    }
+
+    case 'order': {
+      const items = message.order?.product_items || []
+      return {
+        ...base,
+        messageType: 'order',
+        content: message.order?.text || null,
+        metadata: {
+          order: {
+            catalog_id: message.order?.catalog_id,
+            text: message.order?.text,
+            items,
+            total: items.reduce(
+              (sum: number, item: { item_price: number; quantity: number }) =>
+                sum + item.item_price * item.quantity,
+              0
+            ),
+            currency: items[0]?.currency ?? null,
+          },
+        },
+      }
+    }
+
+    default:
+      break
+  }
+
+  return {
+    ...base,
+    messageType: 'text',
+    content: `[Unsupported message type: ${type}]`,
   }
 }
 
@@ -688,6 +1260,13 @@ function buildMessagePreview(
       return '[Localiza\u00e7\u00e3o]'
     case 'reaction':
       return content || '[Rea\u00e7\u00e3o]'
+    case 'interactive':
+    case 'button':
+      return content || ''
+    case 'contacts':
+      return content ? `[Contato] ${content}` : '[Contato]'
+    case 'order':
+      return content ? `[Pedido] ${content}` : '[Pedido]'
     default:
       return content || ''
   }
@@ -3,6 +3,7 @@ import { updateSession } from '@/lib/supabase/middleware'
 
 const PUBLIC_PATHS = ['/login', '/auth/callback']
 const WEBHOOK_PREFIX = '/api/webhooks'
+const CRON_PREFIX = '/api/cron'
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl
@@ -12,6 +13,11 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next()
   }
 
+  // Cron endpoints authenticate with CRON_SECRET instead of a session
+  if (pathname.startsWith(CRON_PREFIX)) {
+    return NextResponse.next()
+  }
+
   const { user, supabaseResponse } = await updateSession(request)
 
   // Allow public paths
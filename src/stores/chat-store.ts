@@ -33,6 +33,7 @@ interface ChatState {
   setMessages: (messages: Message[]) => void
   addMessage: (message: Message) => void
   updateMessageStatus: (messageId: string, status: MessageStatus) => void
+  updateMessage: (messageId: string, updates: Partial<Message>) => void
 
   setRightPanelOpen: (open: boolean) => void
 }
@@ -116,6 +117,13 @@ export const useChatStore = create<ChatState>((set, get) => ({
       ),
     })),
 
+  updateMessage: (messageId, updates) =>
+    set((state) => ({
+      messages: state.messages.map((m) =>
+        m.id === messageId ? { ...m, ...updates } : m
+      ),
+    })),
+
   // ---------------------------------------------------------------------------
   // UI actions
   // ---------------------------------------------------------------------------
@@ -3,6 +3,8 @@
 // Matches Supabase/PostgreSQL schema
 // =============================================================================
 
+import type { InteractiveButton, InteractiveList } from './whatsapp'
+
 // -----------------------------------------------------------------------------
 // Enums / Constant Objects
 // -----------------------------------------------------------------------------
@@ -45,6 +47,10 @@ export const MESSAGE_TYPES = {
   STICKER: 'sticker',
   REACTION: 'reaction',
   INTERNAL_NOTE: 'internal_note',
+  INTERACTIVE: 'interactive',
+  BUTTON: 'button',
+  CONTACTS: 'contacts',
+  ORDER: 'order',
 } as const
 
 export const SENDER_TYPES = {
@@ -74,6 +80,7 @@ export const CAMPAIGN_STATUSES = {
 
 export const CAMPAIGN_RECIPIENT_STATUSES = {
   PENDING: 'pending',
+  SENDING: 'sending',
   SENT: 'sent',
   DELIVERED: 'delivered',
   READ: 'read',
@@ -86,6 +93,29 @@ export const FLOW_STATUSES = {
   ARCHIVED: 'archived',
 } as const
 
+export const FLOW_TRIGGER_TYPES = {
+  KEYWORD: 'keyword',
+  FIRST_MESSAGE: 'first_message',
+  WELCOME: 'welcome',
+  MANUAL: 'manual',
+  BULK: 'bulk',
+} as const
+
+export const FLOW_NODE_TYPES = {
+  START: 'start',
+  SEND_TEXT: 'send_text',
+  SEND_MEDIA: 'send_media',
+  ASK_QUESTION: 'ask_question',
+  BUTTONS: 'buttons',
+  CONDITION: 'condition',
+  SET_VARIABLE: 'set_variable',
+  TAG_CONVERSATION: 'tag_conversation',
+  ASSIGN_QUEUE: 'assign_queue',
+  HTTP_REQUEST: 'http_request',
+  TRANSFER: 'transfer',
+  END: 'end',
+} as const
+
 export const AGENT_ACTIVITY_TYPES = {
   LOGIN: 'login',
   LOGOUT: 'logout',
@@ -108,6 +138,8 @@ export type MessageStatus = (typeof MESSAGE_STATUSES)[keyof typeof MESSAGE_STATU
 export type CampaignStatus = (typeof CAMPAIGN_STATUSES)[keyof typeof CAMPAIGN_STATUSES]
 export type CampaignRecipientStatus = (typeof CAMPAIGN_RECIPIENT_STATUSES)[keyof typeof CAMPAIGN_RECIPIENT_STATUSES]
 export type FlowStatus = (typeof FLOW_STATUSES)[keyof typeof FLOW_STATUSES]
+export type FlowTriggerType = (typeof FLOW_TRIGGER_TYPES)[keyof typeof FLOW_TRIGGER_TYPES]
+export type FlowNodeType = (typeof FLOW_NODE_TYPES)[keyof typeof FLOW_NODE_TYPES]
 export type AgentActivityType = (typeof AGENT_ACTIVITY_TYPES)[keyof typeof AGENT_ACTIVITY_TYPES]
 
 // -----------------------------------------------------------------------------
@@ -129,6 +161,12 @@ export interface Organization {
   hubspot_access_token: string | null
   hubspot_refresh_token: string | null
   hubspot_portal_id: string | null
+  hubspot_token_expires_at: string | null
+  hubspot_connected_at: string | null
+  hubspot_connected_by: string | null
+  hubspot_conflict_rule: HubSpotConflictRule
+  /** HubSpot changes up to this time have been pulled */
+  hubspot_synced_until: string | null
   business_hours: BusinessHours
   auto_reply_message: string | null
   sla_first_response_minutes: number
@@ -136,6 +174,33 @@ export interface Organization {
   updated_at: string
 }
 
+export type HubSpotConflictRule = 'last_write_wins' | 'crm_wins'
+export type HubSpotSyncDirection = 'both' | 'to_hubspot' | 'from_hubspot'
+
+export interface HubSpotFieldMapping {
+  id: string
+  org_id: string
+  /** name, first_name, last_name, email or custom:<key> */
+  crm_field: string
+  hubspot_property: string
+  direction: HubSpotSyncDirection
+  created_at: string
+  updated_at: string
+}
+
+/** Resolving a conversation with this classification creates or advances a deal */
+export interface HubSpotDealRule {
+  id: string
+  org_id: string
+  classification: string
+  pipeline_id: string
+  pipeline_label: string
+  stage_id: string
+  stage_label: string
+  created_at: string
+  updated_at: string
+}
+
 // -----------------------------------------------------------------------------
 // CRM User (Agent)
 // -----------------------------------------------------------------------------
@@ -161,14 +226,89 @@ export interface CrmUser {
 export interface Contact {
   id: string
   org_id: string
+  /** Canonical E.164, with the 9th digit for Brazilian mobiles */
   phone: string
+  /** WhatsApp id the contact messages from; may differ from phone */
+  wa_id: string | null
   name: string | null
   email: string | null
   profile_picture_url: string | null
   custom_fields: Record<string, unknown>
   hubspot_contact_id: string | null
+  hubspot_synced_at: string | null
+  /** Last HubSpot sync failure, cleared by the next successful sync */
+  hubspot_sync_error: string | null
+  hubspot_sync_attempts: number
+  /** When a temporarily failed sync is retried; null when it won't be */
+  hubspot_sync_retry_at: string | null
   existing_client_id: string | null
   tags: string[]
+  /** Set while the contact refuses marketing / utility templates */
+  marketing_opted_out_at: string | null
+  utility_opted_out_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type ConsentCategory = 'marketing' | 'utility'
+export type ConsentAction = 'opt_out' | 'opt_in'
+export type ConsentSource = 'keyword' | 'agent' | 'import' | 'api'
+
+export interface ContactConsentEvent {
+  id: string
+  org_id: string
+  contact_id: string
+  category: ConsentCategory
+  action: ConsentAction
+  source: ConsentSource
+  detail: string | null
+  message_id: string | null
+  created_by: string | null
+  creator?: Pick<CrmUser, 'id' | 'display_name'> // joined
+  created_at: string
+}
+
+export interface ContactMerge {
+  id: string
+  org_id: string
+  survivor_id: string | null
+  merged_contact_ids: string[]
+  /** Survivor row before the merge and the rows that were deleted */
+  survivor_before: Contact
+  merged_contacts: Contact[]
+  /** Rows repointed to the survivor, per table */
+  moved: Record<string, number>
+  merged_by: string | null
+  created_at: string
+}
+
+// -----------------------------------------------------------------------------
+// Custom Field Definitions
+// -----------------------------------------------------------------------------
+
+export type CustomFieldType =
+  | 'text'
+  | 'number'
+  | 'date'
+  | 'select'
+  | 'multi_select'
+  | 'boolean'
+  | 'url'
+
+/**
+ * A typed entry of Contact.custom_fields. Values are stored as JSON: numbers,
+ * booleans, 'YYYY-MM-DD' dates, and string arrays for multi_select.
+ */
+export interface CustomFieldDefinition {
+  id: string
+  org_id: string
+  key: string
+  label: string
+  type: CustomFieldType
+  /** Choices for select and multi_select */
+  options: string[]
+  required: boolean
+  position: number
   created_at: string
   updated_at: string
 }
@@ -177,11 +317,16 @@ export interface Contact {
 // Contact Groups
 // -----------------------------------------------------------------------------
 
+export type ContactGroupType = 'static' | 'dynamic'
+
 export interface ContactGroup {
   id: string
   org_id: string
   name: string
   description: string | null
+  /** static: listed members; dynamic: contacts matching `filter` */
+  type: ContactGroupType
+  filter: SegmentFilter | null
   color: string | null
   member_count: number
   created_by: string | null
@@ -189,6 +334,35 @@ export interface ContactGroup {
   updated_at: string
 }
 
+export type CustomFieldOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'exists'
+  | 'not_exists'
+export type CampaignEngagementEvent = 'received' | 'read' | 'replied' | 'not_replied'
+
+/** Saved filter of a dynamic group; every condition present must hold */
+export interface SegmentFilter {
+  tags_any?: string[]
+  tags_all?: string[]
+  custom_fields?: Array<{ key: string; op: CustomFieldOperator; value?: string }>
+  /** Last conversation activity within the last N days */
+  last_conversation_within_days?: number
+  /** No conversation activity in the last N days, including never */
+  no_conversation_in_days?: number
+  /** Any conversation classified as one of these */
+  classifications?: string[]
+  campaign?: {
+    /** Any campaign when omitted */
+    campaign_id?: string
+    event: CampaignEngagementEvent
+    within_days?: number
+  }
+}
+
 export interface ContactGroupMember {
   id: string
   group_id: string
@@ -216,6 +390,11 @@ export interface Conversation {
   tags: string[]
   classification: string | null
   protocol_number: string | null
+  /** HubSpot note holding the transcript, once resolved */
+  hubspot_note_id: string | null
+  hubspot_deal_id: string | null
+  /** Last failure logging to HubSpot, cleared by the next successful log */
+  hubspot_log_error: string | null
   last_message_at: string | null
   last_message_preview: string | null
   unread_count: number
@@ -245,18 +424,75 @@ export interface Message {
   error_message: string | null
   reply_to_message_id: string | null
   reply_to_message?: Message | null // joined (self-reference)
-  metadata: Record<string, unknown> | null
+  metadata: MessageMetadata | null
   created_at: string
   updated_at: string
 }
 
+/** Structured payload of non-plain messages, keyed by kind */
+export interface MessageMetadata {
+  /** Outbound reply-button or list message as sent */
+  interactive_message?: InteractiveButton | InteractiveList
+  /** Option the contact picked on an outbound interactive message */
+  selection?: {
+    id: string
+    title: string
+    selected_at: string
+  }
+  /** Reply to an interactive button or list message */
+  interactive?: {
+    type: 'button_reply' | 'list_reply'
+    id: string
+    title: string
+    description?: string
+  }
+  /** Quick reply button tapped on a template */
+  button?: {
+    text: string
+    payload: string
+  }
+  contacts?: SharedContactCard[]
+  order?: {
+    catalog_id: string
+    text?: string
+    items: Array<{
+      product_retailer_id: string
+      quantity: number
+      item_price: number
+      currency: string
+    }>
+    total: number
+    currency: string | null
+  }
+  /** Click-to-WhatsApp ad or post the contact came from */
+  referral?: {
+    source_type: string
+    source_id: string
+    source_url: string
+    headline?: string
+    body?: string
+    media_type?: string
+    image_url?: string
+    video_url?: string
+    thumbnail_url?: string
+    ctwa_clid?: string
+  }
+}
+
+export interface SharedContactCard {
+  name: string
+  phones: Array<{ phone: string; type?: string; wa_id?: string }>
+  emails: string[]
+  organization?: string
+}
+
 // -----------------------------------------------------------------------------
 // Flow (Chatbot)
 // -----------------------------------------------------------------------------
 
 export interface FlowNode {
   id: string
-  type: string
+  type: FlowNodeType | string
   data: Record<string, unknown>
   position: { x: number; y: number }
 }
@@ -270,14 +506,31 @@ export interface FlowEdge {
   condition?: Record<string, unknown>
 }
 
+/** Comparison stored in FlowEdge.condition, evaluated against flow_variables */
+export interface FlowCondition {
+  variable: string
+  operator:
+    | 'equals'
+    | 'not_equals'
+    | 'contains'
+    | 'starts_with'
+    | 'matches'
+    | 'greater_than'
+    | 'less_than'
+    | 'is_set'
+    | 'is_empty'
+  value?: string | number | boolean | null
+}
+
 export interface Flow {
   id: string
   org_id: string
   name: string
   description: string | null
   status: FlowStatus
-  trigger_type: string
-  trigger_value: string | null
+  trigger_type: FlowTriggerType
+  trigger_keywords: string[]
+  priority: number
   flow_data: { nodes: FlowNode[]; edges: FlowEdge[] } | null
   created_at: string
   updated_at: string
@@ -293,11 +546,24 @@ export interface Campaign {
   name: string
   description: string | null
   template_name: string
-  template_params: Record<string, unknown>
+  template_language: string
+  template_params: CampaignTemplateParams
+  flow_id: string | null
+  target_group_id: string | null
+  target_contacts: string[]
+  /** Contacts having any of these tags are included */
+  target_tags: string[]
+  batch_size: number
+  batch_interval_seconds: number
+  /** Inbound messages this long after a send count as replies */
+  reply_window_hours: number
   status: CampaignStatus
   scheduled_at: string | null
   started_at: string | null
   completed_at: string | null
+  next_batch_at: string | null
+  locked_until: string | null
+  last_error: string | null
   total_recipients: number
   sent_count: number
   delivered_count: number
@@ -309,6 +575,16 @@ export interface Campaign {
   updated_at: string
 }
 
+/**
+ * Template variable values keyed like the template picker's fields
+ * (body.1, header.media...). Values may reference the recipient with
+ * {{contact.name}} / {{contact.phone}} / {{contact.email}} or
+ * {{contact.custom_fields.<key>}}.
+ */
+export interface CampaignTemplateParams {
+  values?: Record<string, string>
+}
+
 export interface CampaignRecipient {
   id: string
   campaign_id: string
@@ -322,6 +598,7 @@ export interface CampaignRecipient {
   read_at: string | null
   replied_at: string | null
   error_message: string | null
+  claimed_at: string | null
   created_at: string
 }
 
@@ -401,8 +678,13 @@ export interface WhatsAppTemplateComponent {
     text: string
     url?: string
     phone_number?: string
+    example?: string[]
   }>
-  example?: Record<string, unknown>
+  example?: {
+    header_text?: string[]
+    header_handle?: string[]
+    body_text?: string[][]
+  }
 }
 
 export interface WhatsAppTemplate {
@@ -412,8 +694,9 @@ export interface WhatsAppTemplate {
   name: string
   language: string
   category: 'MARKETING' | 'UTILITY' | 'AUTHENTICATION'
-  status: 'APPROVED' | 'PENDING' | 'REJECTED' | 'DISABLED'
+  status: 'APPROVED' | 'PENDING' | 'REJECTED' | 'PAUSED' | 'DISABLED' | 'IN_APPEAL'
   components: WhatsAppTemplateComponent[]
+  last_synced_at: string | null
   updated_at: string
   created_at: string
 }
@@ -593,7 +593,17 @@ export interface WhatsAppTemplateData {
     }
   }>
   language: string
-  status: 'APPROVED' | 'PENDING' | 'REJECTED' | 'DISABLED' | 'PAUSED'
+  status:
+    | 'APPROVED'
+    | 'PENDING'
+    | 'REJECTED'
+    | 'DISABLED'
+    | 'PAUSED'
+    | 'IN_APPEAL'
+    | 'PENDING_DELETION'
+    | 'DELETED'
+    | 'LIMIT_EXCEEDED'
+    | 'ARCHIVED'
   category: 'MARKETING' | 'UTILITY' | 'AUTHENTICATION'
   id: string
 }
@@ -619,6 +629,10 @@ export function getMessageText(message: WhatsAppMessage): string | null {
         ?? null
     case 'button':
       return message.button.text
+    case 'contacts':
+      return message.contacts.map((c) => c.name.formatted_name).join(', ') || null
+    case 'order':
+      return message.order.text ?? null
     case 'location':
       return message.location.name ?? message.location.address ?? null
     case 'reaction':
@@ -0,0 +1,14 @@
+-- ============================================================================
+-- Flow Trigger Priority
+-- Date: 2026-10-19
+--
+-- Published flows are matched against inbound messages by trigger_type and
+-- trigger_keywords. When several flows match the same message, the one with
+-- the highest priority is started.
+-- ============================================================================
+
+ALTER TABLE public.crm_flows
+  ADD COLUMN priority integer NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_crm_flows_org_status_priority
+  ON public.crm_flows (org_id, status, priority DESC);
@@ -0,0 +1,18 @@
+-- ============================================================================
+-- Quick Replies: categories, media and authorship
+-- Date: 2026-10-19
+--
+-- Brings crm_quick_replies in line with the QuickReply type used by the app.
+-- ============================================================================
+
+ALTER TABLE public.crm_quick_replies
+  ADD COLUMN category   text,
+  ADD COLUMN media_url  text,
+  ADD COLUMN media_type text
+    CHECK (media_type IS NULL OR media_type IN ('image', 'audio', 'video', 'document')),
+  ADD COLUMN created_by uuid REFERENCES public.crm_users(id) ON DELETE SET NULL,
+  ADD COLUMN updated_at timestamptz NOT NULL DEFAULT now();
+
+CREATE TRIGGER crm_quick_replies_updated_at
+  BEFORE UPDATE ON public.crm_quick_replies
+  FOR EACH ROW EXECUTE FUNCTION public.crm_set_updated_at();
@@ -0,0 +1,20 @@
+-- ============================================================================
+-- WhatsApp Template Sync
+-- Date: 2026-10-19
+--
+-- Templates are pulled from the WABA and upserted by (org_id, name, language).
+-- Meta reports more statuses than the original CHECK allowed.
+-- ============================================================================
+
+ALTER TABLE public.crm_whatsapp_templates
+  DROP CONSTRAINT IF EXISTS crm_whatsapp_templates_status_check;
+
+ALTER TABLE public.crm_whatsapp_templates
+  ADD CONSTRAINT crm_whatsapp_templates_status_check
+  CHECK (status IN ('APPROVED', 'PENDING', 'REJECTED', 'PAUSED', 'DISABLED', 'IN_APPEAL'));
+
+ALTER TABLE public.crm_whatsapp_templates
+  ADD COLUMN last_synced_at timestamptz;
+
+CREATE UNIQUE INDEX idx_crm_whatsapp_templates_org_name_language
+  ON public.crm_whatsapp_templates (org_id, name, language);
@@ -0,0 +1,22 @@
+-- ============================================================================
+-- Structured Inbound Messages
+-- Date: 2026-10-19
+--
+-- Interactive replies, template button callbacks, shared contacts and orders
+-- get their own message types. Their structured payload (and ad referrals
+-- on any message) is kept in crm_messages.metadata.
+-- ============================================================================
+
+ALTER TABLE public.crm_messages
+  ADD COLUMN metadata jsonb NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.crm_messages
+  DROP CONSTRAINT IF EXISTS crm_messages_message_type_check;
+
+ALTER TABLE public.crm_messages
+  ADD CONSTRAINT crm_messages_message_type_check
+  CHECK (message_type IN (
+    'text', 'image', 'audio', 'video', 'document',
+    'template', 'location', 'sticker', 'reaction', 'internal_note',
+    'interactive', 'button', 'contacts', 'order'
+  ));
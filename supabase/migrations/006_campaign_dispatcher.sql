@@ -0,0 +1,53 @@
+-- ============================================================================
+-- Campaign Dispatcher
+-- Date: 2026-10-19
+--
+-- Campaigns are sent in throttled batches by a background dispatcher
+-- (/api/cron/campaigns). next_batch_at schedules the following batch and
+-- locked_until keeps overlapping dispatcher runs off the same campaign.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- crm_campaigns
+-- ----------------------------------------------------------------------------
+ALTER TABLE public.crm_campaigns
+  DROP CONSTRAINT IF EXISTS crm_campaigns_status_check;
+
+ALTER TABLE public.crm_campaigns
+  ADD CONSTRAINT crm_campaigns_status_check
+  CHECK (status IN ('draft', 'scheduled', 'running', 'paused', 'completed', 'cancelled', 'failed'));
+
+ALTER TABLE public.crm_campaigns
+  ADD COLUMN description       text,
+  ADD COLUMN template_language text NOT NULL DEFAULT 'pt_BR',
+  ADD COLUMN replied_count     int NOT NULL DEFAULT 0,
+  ADD COLUMN next_batch_at     timestamptz,
+  ADD COLUMN locked_until      timestamptz,
+  ADD COLUMN last_error        text,
+  ADD COLUMN created_by        uuid REFERENCES public.crm_users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.crm_campaigns
+  ADD CONSTRAINT crm_campaigns_batch_check
+  CHECK (batch_size > 0 AND batch_interval_seconds >= 0);
+
+CREATE INDEX idx_crm_campaigns_dispatch
+  ON public.crm_campaigns (status, next_batch_at);
+
+-- ----------------------------------------------------------------------------
+-- crm_campaign_recipients
+-- ----------------------------------------------------------------------------
+ALTER TABLE public.crm_campaign_recipients
+  ADD COLUMN phone        text,
+  ADD COLUMN delivered_at timestamptz,
+  ADD COLUMN read_at      timestamptz,
+  ADD COLUMN replied_at   timestamptz;
+
+ALTER TABLE public.crm_campaign_recipients
+  ADD CONSTRAINT crm_campaign_recipients_campaign_contact_key
+  UNIQUE (campaign_id, contact_id);
+
+CREATE INDEX idx_crm_campaign_recipients_campaign_status
+  ON public.crm_campaign_recipients (campaign_id, status);
+
+CREATE INDEX idx_crm_campaign_recipients_whatsapp_id
+  ON public.crm_campaign_recipients (whatsapp_message_id);
@@ -0,0 +1,14 @@
+-- ============================================================================
+-- Campaign Audience & Realtime
+-- Date: 2026-10-19
+--
+-- Campaigns can target contacts by tag in addition to a group and an explicit
+-- contact list. Campaigns and their recipients are published to realtime so
+-- the Bulk Sending page can show live progress.
+-- ============================================================================
+
+ALTER TABLE public.crm_campaigns
+  ADD COLUMN target_tags text[] NOT NULL DEFAULT '{}';
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.crm_campaigns;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.crm_campaign_recipients;
@@ -0,0 +1,138 @@
+-- ============================================================================
+-- Campaign Delivery & Reply Attribution
+-- Date: 2026-10-19
+--
+-- WhatsApp status webhooks are reconciled against campaign recipients and an
+-- inbound message from a recipient within the campaign's reply window counts
+-- as a reply. Counters are changed with single UPDATE ... SET x = x + n
+-- statements so concurrent webhooks and dispatcher batches never lose counts.
+-- ============================================================================
+
+ALTER TABLE public.crm_campaigns
+  ADD COLUMN reply_window_hours int NOT NULL DEFAULT 72
+    CHECK (reply_window_hours BETWEEN 1 AND 720);
+
+CREATE INDEX idx_crm_campaign_recipients_contact_sent
+  ON public.crm_campaign_recipients (contact_id, sent_at DESC);
+
+-- ----------------------------------------------------------------------------
+-- Dispatcher: add the outcome of a batch to the campaign counters
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.crm_increment_campaign_counters(
+  p_campaign_id uuid,
+  p_sent int,
+  p_failed int
+)
+RETURNS void AS $$
+  UPDATE public.crm_campaigns
+  SET sent_count   = sent_count + p_sent,
+      failed_count = failed_count + p_failed
+  WHERE id = p_campaign_id;
+$$ LANGUAGE sql;
+
+-- ----------------------------------------------------------------------------
+-- Status webhook: move a recipient forward and bump the matching counters.
+-- Statuses can arrive out of order (read before delivered), so timestamps are
+-- only ever filled in and each counter is bumped once per recipient.
+-- Returns the campaign id, or NULL when the message is not a campaign send.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.crm_apply_campaign_status(
+  p_whatsapp_message_id text,
+  p_status text,
+  p_at timestamptz,
+  p_error text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  rec public.crm_campaign_recipients%ROWTYPE;
+BEGIN
+  SELECT * INTO rec
+  FROM public.crm_campaign_recipients
+  WHERE whatsapp_message_id = p_whatsapp_message_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_status = 'failed' THEN
+    -- Only a message that never reached the phone can still fail
+    IF rec.status = 'sent' THEN
+      UPDATE public.crm_campaign_recipients
+      SET status = 'failed',
+          error_message = COALESCE(p_error, 'Delivery failed')
+      WHERE id = rec.id;
+
+      UPDATE public.crm_campaigns
+      SET sent_count   = GREATEST(sent_count - 1, 0),
+          failed_count = failed_count + 1
+      WHERE id = rec.campaign_id;
+    END IF;
+
+  ELSIF p_status IN ('delivered', 'read') AND rec.status <> 'failed' THEN
+    UPDATE public.crm_campaign_recipients
+    SET delivered_at = COALESCE(delivered_at, p_at),
+        read_at      = CASE WHEN p_status = 'read' THEN COALESCE(read_at, p_at) ELSE read_at END,
+        status       = CASE WHEN p_status = 'read' OR rec.status = 'read' THEN 'read' ELSE 'delivered' END
+    WHERE id = rec.id;
+
+    UPDATE public.crm_campaigns
+    SET delivered_count = delivered_count + CASE WHEN rec.delivered_at IS NULL THEN 1 ELSE 0 END,
+        read_count      = read_count
+                          + CASE WHEN p_status = 'read' AND rec.read_at IS NULL THEN 1 ELSE 0 END
+    WHERE id = rec.campaign_id;
+  END IF;
+
+  -- 'sent' adds nothing: the dispatcher recorded it when the API accepted it
+  RETURN rec.campaign_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ----------------------------------------------------------------------------
+-- Inbound message: credit the contact's most recent campaign send when it
+-- falls within that campaign's reply window. Only the first reply counts.
+-- Returns the campaign id, or NULL when nothing was attributed.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.crm_attribute_campaign_reply(
+  p_contact_id uuid,
+  p_at timestamptz
+)
+RETURNS uuid AS $$
+DECLARE
+  rec public.crm_campaign_recipients%ROWTYPE;
+BEGIN
+  SELECT r.* INTO rec
+  FROM public.crm_campaign_recipients r
+  JOIN public.crm_campaigns c ON c.id = r.campaign_id
+  WHERE r.contact_id = p_contact_id
+    AND r.status <> 'failed'
+    AND r.sent_at IS NOT NULL
+    AND r.sent_at <= p_at
+    AND r.sent_at >= p_at - make_interval(hours => c.reply_window_hours)
+  ORDER BY r.sent_at DESC
+  LIMIT 1
+  FOR UPDATE OF r;
+
+  IF NOT FOUND OR rec.replied_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.crm_campaign_recipients
+  SET replied_at = p_at
+  WHERE id = rec.id;
+
+  UPDATE public.crm_campaigns
+  SET replied_count = replied_count + 1
+  WHERE id = rec.campaign_id;
+
+  RETURN rec.campaign_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Counters are written by the service role only
+REVOKE EXECUTE ON FUNCTION public.crm_increment_campaign_counters(uuid, int, int)
+  FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.crm_apply_campaign_status(text, text, timestamptz, text)
+  FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.crm_attribute_campaign_reply(uuid, timestamptz)
+  FROM PUBLIC, anon, authenticated;
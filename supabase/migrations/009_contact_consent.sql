@@ -0,0 +1,42 @@
+-- ============================================================================
+-- Contact Consent
+-- Date: 2026-10-19
+--
+-- Contacts can opt out of marketing and utility messages separately, by
+-- replying a keyword such as PARAR/STOP or through an agent. The current
+-- state lives on crm_contacts (NULL = may receive) and every change is kept
+-- in crm_contact_consent_events for the consent history.
+-- ============================================================================
+
+ALTER TABLE public.crm_contacts
+  ADD COLUMN marketing_opted_out_at timestamptz,
+  ADD COLUMN utility_opted_out_at   timestamptz;
+
+CREATE TABLE public.crm_contact_consent_events (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id      uuid NOT NULL REFERENCES public.crm_organizations(org_id) ON DELETE CASCADE,
+  contact_id  uuid NOT NULL REFERENCES public.crm_contacts(id) ON DELETE CASCADE,
+  category    text NOT NULL CHECK (category IN ('marketing', 'utility')),
+  action      text NOT NULL CHECK (action IN ('opt_out', 'opt_in')),
+  source      text NOT NULL CHECK (source IN ('keyword', 'agent', 'import', 'api')),
+  detail      text,                 -- keyword received or agent note
+  message_id  uuid REFERENCES public.crm_messages(id) ON DELETE SET NULL,
+  created_by  uuid REFERENCES public.crm_users(id) ON DELETE SET NULL,
+
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_crm_contact_consent_events_contact
+  ON public.crm_contact_consent_events (contact_id, created_at DESC);
+
+ALTER TABLE public.crm_contact_consent_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "crm_contact_consent_events_select"
+  ON public.crm_contact_consent_events FOR SELECT
+  USING (org_id = public.crm_current_user_org_id());
+
+CREATE POLICY "crm_contact_consent_events_insert"
+  ON public.crm_contact_consent_events FOR INSERT
+  WITH CHECK (org_id = public.crm_current_user_org_id());
+
+COMMENT ON TABLE public.crm_contact_consent_events IS 'History of contact opt-outs and opt-ins per message category.';
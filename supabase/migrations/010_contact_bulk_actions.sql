@@ -0,0 +1,60 @@
+-- ============================================================================
+-- Contact Bulk Actions
+-- Date: 2026-10-19
+--
+-- Tagging and untagging many contacts from the Contacts page. Tags are merged
+-- inside a single UPDATE so a concurrent edit of the same contact's tags
+-- (webhook, flow, another agent) is never overwritten with a stale array.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Add tags, keeping the existing order and skipping duplicates.
+-- Returns the number of contacts that changed.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.crm_add_contact_tags(
+  p_org_id uuid,
+  p_contact_ids uuid[],
+  p_tags text[]
+)
+RETURNS int AS $$
+  WITH updated AS (
+    UPDATE public.crm_contacts c
+    SET tags = ARRAY(
+      SELECT t
+      FROM unnest(c.tags || p_tags) WITH ORDINALITY AS u(t, i)
+      GROUP BY t
+      ORDER BY min(i)
+    )
+    WHERE c.org_id = p_org_id
+      AND c.id = ANY(p_contact_ids)
+      AND NOT c.tags @> p_tags
+    RETURNING 1
+  )
+  SELECT count(*)::int FROM updated;
+$$ LANGUAGE sql;
+
+-- ----------------------------------------------------------------------------
+-- Remove tags. Returns the number of contacts that changed.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.crm_remove_contact_tags(
+  p_org_id uuid,
+  p_contact_ids uuid[],
+  p_tags text[]
+)
+RETURNS int AS $$
+  WITH updated AS (
+    UPDATE public.crm_contacts c
+    SET tags = ARRAY(SELECT t FROM unnest(c.tags) AS t WHERE t <> ALL(p_tags))
+    WHERE c.org_id = p_org_id
+      AND c.id = ANY(p_contact_ids)
+      AND c.tags && p_tags
+    RETURNING 1
+  )
+  SELECT count(*)::int FROM updated;
+$$ LANGUAGE sql;
+
+-- Called with the service role after the API has checked permissions
+REVOKE EXECUTE ON FUNCTION public.crm_add_contact_tags(uuid, uuid[], text[])
+  FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.crm_remove_contact_tags(uuid, uuid[], text[])
+  FROM PUBLIC, anon, authenticated;
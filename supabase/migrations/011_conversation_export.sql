@@ -0,0 +1,45 @@
+-- ============================================================================
+-- Conversation Export Timings
+-- Date: 2026-10-19
+--
+-- Timing columns for the conversations export, computed from crm_messages
+-- for one page of conversations at a time.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- For each conversation: message count (internal notes excluded), the first
+-- message from the contact and the first agent reply after it.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.crm_conversation_timings(
+  p_conversation_ids uuid[]
+)
+RETURNS TABLE (
+  conversation_id          uuid,
+  message_count            int,
+  first_contact_message_at timestamptz,
+  first_agent_reply_at     timestamptz
+) AS $$
+  WITH stats AS (
+    SELECT m.conversation_id,
+           count(*) FILTER (WHERE m.message_type <> 'internal_note')::int AS message_count,
+           min(m.created_at) FILTER (WHERE m.sender_type = 'contact') AS first_contact_message_at
+    FROM public.crm_messages m
+    WHERE m.conversation_id = ANY(p_conversation_ids)
+    GROUP BY m.conversation_id
+  )
+  SELECT s.conversation_id,
+         s.message_count,
+         s.first_contact_message_at,
+         (
+           SELECT min(r.created_at)
+           FROM public.crm_messages r
+           WHERE r.conversation_id = s.conversation_id
+             AND r.sender_type = 'agent'
+             AND r.message_type <> 'internal_note'
+             AND r.created_at >= s.first_contact_message_at
+         ) AS first_agent_reply_at
+  FROM stats s;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION public.crm_conversation_timings(uuid[])
+  FROM PUBLIC, anon, authenticated;
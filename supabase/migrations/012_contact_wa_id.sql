@@ -0,0 +1,56 @@
+-- ============================================================================
+-- Contact wa_id & Canonical Phones
+-- Date: 2026-10-19
+--
+-- crm_contacts.phone is the canonical E.164 display phone (with the 9th digit
+-- for Brazilian mobiles) and wa_id is the WhatsApp id the contact writes from,
+-- which for Brazilian mobiles often lacks that digit. Inbound messages match
+-- on wa_id first and fall back to the phone in either form.
+-- ============================================================================
+
+ALTER TABLE public.crm_contacts
+  ADD COLUMN wa_id text;
+
+CREATE UNIQUE INDEX idx_crm_contacts_org_wa_id
+  ON public.crm_contacts (org_id, wa_id)
+  WHERE wa_id IS NOT NULL;
+
+-- ----------------------------------------------------------------------------
+-- Backfill
+-- Contacts created by the webhook stored the wa_id (digits only) as phone.
+-- ----------------------------------------------------------------------------
+UPDATE public.crm_contacts
+SET wa_id = phone
+WHERE phone ~ '^[0-9]+$';
+
+-- Canonicalize phones. Where two contacts end up with the same phone, only
+-- the oldest is rewritten; the other is left for the duplicate finder.
+WITH canonical AS (
+  SELECT id,
+         org_id,
+         '+' || regexp_replace(
+           regexp_replace(phone, '\D', '', 'g'),
+           '^(55[1-9][1-9])([6-9][0-9]{7})$',
+           '\19\2'
+         ) AS phone,
+         created_at
+  FROM public.crm_contacts
+),
+ranked AS (
+  SELECT k.*,
+         row_number() OVER (PARTITION BY k.org_id, k.phone ORDER BY k.created_at, k.id) AS rn
+  FROM canonical k
+  WHERE k.phone ~ '^\+[1-9][0-9]{7,14}$'
+)
+UPDATE public.crm_contacts c
+SET phone = r.phone
+FROM ranked r
+WHERE c.id = r.id
+  AND r.rn = 1
+  AND c.phone <> r.phone
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.crm_contacts o
+    WHERE o.org_id = c.org_id
+      AND o.phone = r.phone
+  );
@@ -0,0 +1,206 @@
+-- ============================================================================
+-- Contact Merge
+-- Date: 2026-10-19
+--
+-- Duplicate contacts (same phone in another format, same email, similar
+-- name) are merged into a surviving contact. Everything that points at the
+-- merged contacts moves to the survivor inside one transaction, and each
+-- merge is kept in crm_contact_merges with a snapshot of the removed rows.
+-- ============================================================================
+
+CREATE TABLE public.crm_contact_merges (
+  id                  uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id              uuid NOT NULL REFERENCES public.crm_organizations(org_id) ON DELETE CASCADE,
+  survivor_id         uuid REFERENCES public.crm_contacts(id) ON DELETE SET NULL,
+  merged_contact_ids  uuid[] NOT NULL,
+  survivor_before     jsonb NOT NULL,       -- survivor row before the merge
+  merged_contacts     jsonb NOT NULL,       -- rows of the deleted contacts
+  moved               jsonb NOT NULL DEFAULT '{}',  -- rows repointed per table
+  merged_by           uuid REFERENCES public.crm_users(id) ON DELETE SET NULL,
+
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_crm_contact_merges_org_created
+  ON public.crm_contact_merges (org_id, created_at DESC);
+
+CREATE INDEX idx_crm_contact_merges_survivor
+  ON public.crm_contact_merges (survivor_id);
+
+ALTER TABLE public.crm_contact_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "crm_contact_merges_select"
+  ON public.crm_contact_merges FOR SELECT
+  USING (org_id = public.crm_current_user_org_id());
+
+COMMENT ON TABLE public.crm_contact_merges IS 'Audit trail of duplicate contacts merged into a survivor.';
+
+-- ----------------------------------------------------------------------------
+-- Merge p_merged_ids into p_survivor_id.
+-- p_values holds the surviving scalar fields chosen by the agent (name,
+-- phone, wa_id, email, profile_picture_url, hubspot_contact_id,
+-- existing_client_id). Tags and custom fields are unioned, the survivor's
+-- custom field values winning; an opt-out on any contact is kept.
+-- Returns the crm_contact_merges id.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.crm_merge_contacts(
+  p_org_id uuid,
+  p_survivor_id uuid,
+  p_merged_ids uuid[],
+  p_values jsonb,
+  p_merged_by uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  survivor        public.crm_contacts%ROWTYPE;
+  v_locked        int;
+  v_merged        jsonb;
+  v_tags          text[];
+  v_custom        jsonb := '{}';
+  v_fields        jsonb;
+  v_marketing_out timestamptz;
+  v_utility_out   timestamptz;
+  v_conversations int;
+  v_recipients    int;
+  v_dropped       int;
+  v_memberships   int;
+  v_merge_id      uuid;
+BEGIN
+  IF p_survivor_id = ANY(p_merged_ids) OR cardinality(p_merged_ids) = 0 THEN
+    RAISE EXCEPTION 'Invalid merge: survivor must not be merged into itself'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock every contact in the merge so concurrent edits wait for it
+  SELECT count(*) INTO v_locked
+  FROM (
+    SELECT id
+    FROM public.crm_contacts
+    WHERE org_id = p_org_id
+      AND (id = p_survivor_id OR id = ANY(p_merged_ids))
+    FOR UPDATE
+  ) locked;
+
+  IF v_locked <> cardinality(p_merged_ids) + 1 THEN
+    RAISE EXCEPTION 'Contacts not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO survivor FROM public.crm_contacts WHERE id = p_survivor_id;
+
+  SELECT jsonb_agg(to_jsonb(c) ORDER BY c.created_at),
+         min(c.marketing_opted_out_at),
+         min(c.utility_opted_out_at)
+  INTO v_merged, v_marketing_out, v_utility_out
+  FROM public.crm_contacts c
+  WHERE c.id = ANY(p_merged_ids);
+
+  -- Survivor's tags first, then the merged contacts' from oldest to newest
+  SELECT COALESCE(array_agg(t ORDER BY pos), '{}') INTO v_tags
+  FROM (
+    SELECT t, min(rn) AS pos
+    FROM (
+      SELECT u.t,
+             row_number() OVER (ORDER BY c.id <> p_survivor_id, c.created_at, u.i) AS rn
+      FROM public.crm_contacts c
+      CROSS JOIN LATERAL unnest(c.tags) WITH ORDINALITY AS u(t, i)
+      WHERE c.id = p_survivor_id OR c.id = ANY(p_merged_ids)
+    ) ordered
+    GROUP BY t
+  ) tags;
+
+  FOR v_fields IN
+    SELECT custom_fields
+    FROM public.crm_contacts
+    WHERE id = ANY(p_merged_ids)
+    ORDER BY created_at
+  LOOP
+    v_custom := v_custom || v_fields;
+  END LOOP;
+  v_custom := v_custom || survivor.custom_fields;
+
+  -- Repoint everything that references the merged contacts
+  UPDATE public.crm_conversations
+  SET contact_id = p_survivor_id
+  WHERE contact_id = ANY(p_merged_ids);
+  GET DIAGNOSTICS v_conversations = ROW_COUNT;
+
+  -- A campaign keeps one recipient per contact: the survivor's, or else the
+  -- oldest of the merged contacts'
+  DELETE FROM public.crm_campaign_recipients r
+  WHERE r.contact_id = ANY(p_merged_ids)
+    AND EXISTS (
+      SELECT 1
+      FROM public.crm_campaign_recipients o
+      WHERE o.campaign_id = r.campaign_id
+        AND o.id <> r.id
+        AND (
+          o.contact_id = p_survivor_id
+          OR (o.contact_id = ANY(p_merged_ids) AND (o.created_at, o.id) < (r.created_at, r.id))
+        )
+    );
+  GET DIAGNOSTICS v_dropped = ROW_COUNT;
+
+  UPDATE public.crm_campaign_recipients
+  SET contact_id = p_survivor_id
+  WHERE contact_id = ANY(p_merged_ids);
+  GET DIAGNOSTICS v_recipients = ROW_COUNT;
+
+  INSERT INTO public.crm_contact_group_members (group_id, contact_id)
+  SELECT DISTINCT group_id, p_survivor_id
+  FROM public.crm_contact_group_members
+  WHERE contact_id = ANY(p_merged_ids)
+  ON CONFLICT DO NOTHING;
+  GET DIAGNOSTICS v_memberships = ROW_COUNT;
+
+  UPDATE public.crm_contact_consent_events
+  SET contact_id = p_survivor_id
+  WHERE contact_id = ANY(p_merged_ids);
+
+  UPDATE public.crm_protocol_log
+  SET contact_id = p_survivor_id
+  WHERE contact_id = ANY(p_merged_ids);
+
+  -- Delete before updating the survivor: phone and wa_id are unique per org
+  -- and the survivor may take them over
+  DELETE FROM public.crm_contacts WHERE id = ANY(p_merged_ids);
+
+  UPDATE public.crm_contacts
+  SET name                   = p_values->>'name',
+      phone                  = COALESCE(p_values->>'phone', survivor.phone),
+      wa_id                  = p_values->>'wa_id',
+      email                  = p_values->>'email',
+      profile_picture_url    = p_values->>'profile_picture_url',
+      hubspot_contact_id     = p_values->>'hubspot_contact_id',
+      existing_client_id     = (p_values->>'existing_client_id')::uuid,
+      tags                   = v_tags,
+      custom_fields          = v_custom,
+      marketing_opted_out_at = LEAST(survivor.marketing_opted_out_at, v_marketing_out),
+      utility_opted_out_at   = LEAST(survivor.utility_opted_out_at, v_utility_out)
+  WHERE id = p_survivor_id;
+
+  INSERT INTO public.crm_contact_merges (
+    org_id, survivor_id, merged_contact_ids, survivor_before, merged_contacts, moved, merged_by
+  )
+  VALUES (
+    p_org_id,
+    p_survivor_id,
+    p_merged_ids,
+    to_jsonb(survivor),
+    v_merged,
+    jsonb_build_object(
+      'conversations', v_conversations,
+      'campaign_recipients', v_recipients,
+      'campaign_recipients_dropped', v_dropped,
+      'group_memberships', v_memberships
+    ),
+    p_merged_by
+  )
+  RETURNING id INTO v_merge_id;
+
+  RETURN v_merge_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Called with the service role after the API has checked permissions
+REVOKE EXECUTE ON FUNCTION public.crm_merge_contacts(uuid, uuid, uuid[], jsonb, uuid)
+  FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,125 @@
+-- ============================================================================
+-- Contact Groups & Dynamic Segments
+-- Date: 2026-10-19
+--
+-- A contact group is either static (members listed in
+-- crm_contact_group_members) or dynamic: a segment whose members are the
+-- contacts matching a saved filter, evaluated every time it is used. The
+-- filter is a JSON document; see SegmentFilter in src/types/database.ts.
+-- ============================================================================
+
+ALTER TABLE public.crm_contact_groups
+  ADD COLUMN type       text NOT NULL DEFAULT 'static' CHECK (type IN ('static', 'dynamic')),
+  ADD COLUMN filter     jsonb,
+  ADD COLUMN color      text,
+  ADD COLUMN created_by uuid REFERENCES public.crm_users(id) ON DELETE SET NULL,
+  ADD COLUMN updated_at timestamptz NOT NULL DEFAULT now();
+
+ALTER TABLE public.crm_contact_groups
+  ADD CONSTRAINT crm_contact_groups_filter_check
+  CHECK ((type = 'dynamic') = (filter IS NOT NULL));
+
+CREATE INDEX idx_crm_contact_groups_org
+  ON public.crm_contact_groups (org_id);
+
+CREATE TRIGGER crm_contact_groups_updated_at
+  BEFORE UPDATE ON public.crm_contact_groups
+  FOR EACH ROW EXECUTE FUNCTION public.crm_set_updated_at();
+
+-- ----------------------------------------------------------------------------
+-- Evaluate a segment filter. Every condition present must hold:
+--   tags_any / tags_all         text[] of tag names
+--   custom_fields               [{ key, op, value? }], op in equals,
+--                               not_equals, contains, exists, not_exists
+--   last_conversation_within_days   last conversation activity in the window
+--   no_conversation_in_days         none in the window (or never)
+--   classifications             any conversation classified as one of these
+--   campaign                    { campaign_id?, event, within_days? }, event
+--                               in received, read, replied, not_replied
+-- Returns contacts so callers can filter, sort, count and page the result.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.crm_segment_contacts(
+  p_org_id uuid,
+  p_filter jsonb
+)
+RETURNS SETOF public.crm_contacts AS $$
+  SELECT c.*
+  FROM public.crm_contacts c
+  LEFT JOIN LATERAL (
+    SELECT max(COALESCE(v.last_message_at, v.created_at)) AS last_at
+    FROM public.crm_conversations v
+    WHERE v.contact_id = c.id
+  ) activity ON true
+  WHERE c.org_id = p_org_id
+    AND (
+      COALESCE(jsonb_array_length(p_filter->'tags_any'), 0) = 0
+      OR c.tags && ARRAY(SELECT jsonb_array_elements_text(p_filter->'tags_any'))
+    )
+    AND (
+      COALESCE(jsonb_array_length(p_filter->'tags_all'), 0) = 0
+      OR c.tags @> ARRAY(SELECT jsonb_array_elements_text(p_filter->'tags_all'))
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(COALESCE(p_filter->'custom_fields', '[]')) AS f
+      WHERE NOT COALESCE(
+        CASE f->>'op'
+          WHEN 'equals'     THEN lower(c.custom_fields->>(f->>'key')) = lower(f->>'value')
+          WHEN 'not_equals' THEN lower(COALESCE(c.custom_fields->>(f->>'key'), ''))
+                                 <> lower(COALESCE(f->>'value', ''))
+          WHEN 'contains'   THEN c.custom_fields->>(f->>'key') ILIKE '%' || (f->>'value') || '%'
+          WHEN 'exists'     THEN COALESCE(c.custom_fields->>(f->>'key'), '') <> ''
+          WHEN 'not_exists' THEN COALESCE(c.custom_fields->>(f->>'key'), '') = ''
+        END,
+        false
+      )
+    )
+    AND (
+      p_filter->'last_conversation_within_days' IS NULL
+      OR activity.last_at >= now() - make_interval(days => (p_filter->>'last_conversation_within_days')::int)
+    )
+    AND (
+      p_filter->'no_conversation_in_days' IS NULL
+      OR activity.last_at IS NULL
+      OR activity.last_at < now() - make_interval(days => (p_filter->>'no_conversation_in_days')::int)
+    )
+    AND (
+      COALESCE(jsonb_array_length(p_filter->'classifications'), 0) = 0
+      OR EXISTS (
+        SELECT 1
+        FROM public.crm_conversations v
+        WHERE v.contact_id = c.id
+          AND v.classification IN (SELECT jsonb_array_elements_text(p_filter->'classifications'))
+      )
+    )
+    AND (
+      p_filter->'campaign' IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM public.crm_campaign_recipients r
+        JOIN public.crm_campaigns k ON k.id = r.campaign_id
+        WHERE r.contact_id = c.id
+          AND k.org_id = p_org_id
+          AND r.status <> 'failed'
+          AND r.sent_at IS NOT NULL
+          AND (
+            p_filter->'campaign'->>'campaign_id' IS NULL
+            OR r.campaign_id = (p_filter->'campaign'->>'campaign_id')::uuid
+          )
+          AND (
+            p_filter->'campaign'->'within_days' IS NULL
+            OR r.sent_at >= now() - make_interval(days => (p_filter->'campaign'->>'within_days')::int)
+          )
+          AND CASE p_filter->'campaign'->>'event'
+                WHEN 'read'        THEN r.read_at IS NOT NULL
+                WHEN 'replied'     THEN r.replied_at IS NOT NULL
+                WHEN 'not_replied' THEN r.replied_at IS NULL
+                ELSE true
+              END
+      )
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Called with the service role after the API has checked permissions
+REVOKE EXECUTE ON FUNCTION public.crm_segment_contacts(uuid, jsonb)
+  FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,145 @@
+-- ============================================================================
+-- Custom Field Definitions
+-- Date: 2026-10-19
+--
+-- Each organization declares the custom fields its contacts carry: a key
+-- (the property name in crm_contacts.custom_fields), a label, a type and
+-- display order. Values are validated against these definitions by the API;
+-- keys without a definition are kept as free-form text.
+-- ============================================================================
+
+CREATE TABLE public.crm_custom_field_definitions (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id      uuid NOT NULL REFERENCES public.crm_organizations(org_id) ON DELETE CASCADE,
+  key         text NOT NULL CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  label       text NOT NULL,
+  type        text NOT NULL CHECK (type IN (
+                'text', 'number', 'date', 'select', 'multi_select', 'boolean', 'url'
+              )),
+  options     text[] NOT NULL DEFAULT '{}',  -- choices for select and multi_select
+  required    boolean NOT NULL DEFAULT false,
+  position    integer NOT NULL DEFAULT 0,
+
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  updated_at  timestamptz NOT NULL DEFAULT now(),
+
+  UNIQUE (org_id, key)
+);
+
+CREATE INDEX idx_crm_custom_field_definitions_org
+  ON public.crm_custom_field_definitions (org_id, position);
+
+CREATE TRIGGER crm_custom_field_definitions_updated_at
+  BEFORE UPDATE ON public.crm_custom_field_definitions
+  FOR EACH ROW EXECUTE FUNCTION public.crm_set_updated_at();
+
+ALTER TABLE public.crm_custom_field_definitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "crm_custom_field_definitions_select"
+  ON public.crm_custom_field_definitions FOR SELECT
+  USING (org_id = public.crm_current_user_org_id());
+
+COMMENT ON TABLE public.crm_custom_field_definitions IS 'Typed custom contact fields declared per organization.';
+
+-- ----------------------------------------------------------------------------
+-- Segments: typed custom field conditions
+-- Adds greater_than / less_than (numbers compare numerically, dates as
+-- YYYY-MM-DD text) and lets contains match an element of a multi-select.
+-- Otherwise unchanged from 014_contact_segments.sql.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.crm_segment_contacts(
+  p_org_id uuid,
+  p_filter jsonb
+)
+RETURNS SETOF public.crm_contacts AS $$
+  SELECT c.*
+  FROM public.crm_contacts c
+  LEFT JOIN LATERAL (
+    SELECT max(COALESCE(v.last_message_at, v.created_at)) AS last_at
+    FROM public.crm_conversations v
+    WHERE v.contact_id = c.id
+  ) activity ON true
+  WHERE c.org_id = p_org_id
+    AND (
+      COALESCE(jsonb_array_length(p_filter->'tags_any'), 0) = 0
+      OR c.tags && ARRAY(SELECT jsonb_array_elements_text(p_filter->'tags_any'))
+    )
+    AND (
+      COALESCE(jsonb_array_length(p_filter->'tags_all'), 0) = 0
+      OR c.tags @> ARRAY(SELECT jsonb_array_elements_text(p_filter->'tags_all'))
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(COALESCE(p_filter->'custom_fields', '[]')) AS f
+      WHERE NOT COALESCE(
+        CASE f->>'op'
+          WHEN 'equals'     THEN lower(c.custom_fields->>(f->>'key')) = lower(f->>'value')
+          WHEN 'not_equals' THEN lower(COALESCE(c.custom_fields->>(f->>'key'), ''))
+                                 <> lower(COALESCE(f->>'value', ''))
+          WHEN 'contains'   THEN CASE jsonb_typeof(c.custom_fields->(f->>'key'))
+                                   WHEN 'array' THEN c.custom_fields->(f->>'key') ? (f->>'value')
+                                   ELSE c.custom_fields->>(f->>'key') ILIKE '%' || (f->>'value') || '%'
+                                 END
+          WHEN 'greater_than' THEN CASE
+                                   WHEN jsonb_typeof(c.custom_fields->(f->>'key')) = 'number'
+                                        AND f->>'value' ~ '^-?[0-9]+(\.[0-9]+)?$'
+                                     THEN (c.custom_fields->>(f->>'key'))::numeric > (f->>'value')::numeric
+                                   ELSE c.custom_fields->>(f->>'key') > f->>'value'
+                                 END
+          WHEN 'less_than'  THEN CASE
+                                   WHEN jsonb_typeof(c.custom_fields->(f->>'key')) = 'number'
+                                        AND f->>'value' ~ '^-?[0-9]+(\.[0-9]+)?$'
+                                     THEN (c.custom_fields->>(f->>'key'))::numeric < (f->>'value')::numeric
+                                   ELSE c.custom_fields->>(f->>'key') < f->>'value'
+                                 END
+          WHEN 'exists'     THEN COALESCE(c.custom_fields->>(f->>'key'), '') NOT IN ('', '[]')
+          WHEN 'not_exists' THEN COALESCE(c.custom_fields->>(f->>'key'), '') IN ('', '[]')
+        END,
+        false
+      )
+    )
+    AND (
+      p_filter->'last_conversation_within_days' IS NULL
+      OR activity.last_at >= now() - make_interval(days => (p_filter->>'last_conversation_within_days')::int)
+    )
+    AND (
+      p_filter->'no_conversation_in_days' IS NULL
+      OR activity.last_at IS NULL
+      OR activity.last_at < now() - make_interval(days => (p_filter->>'no_conversation_in_days')::int)
+    )
+    AND (
+      COALESCE(jsonb_array_length(p_filter->'classifications'), 0) = 0
+      OR EXISTS (
+        SELECT 1
+        FROM public.crm_conversations v
+        WHERE v.contact_id = c.id
+          AND v.classification IN (SELECT jsonb_array_elements_text(p_filter->'classifications'))
+      )
+    )
+    AND (
+      p_filter->'campaign' IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM public.crm_campaign_recipients r
+        JOIN public.crm_campaigns k ON k.id = r.campaign_id
+        WHERE r.contact_id = c.id
+          AND k.org_id = p_org_id
+          AND r.status <> 'failed'
+          AND r.sent_at IS NOT NULL
+          AND (
+            p_filter->'campaign'->>'campaign_id' IS NULL
+            OR r.campaign_id = (p_filter->'campaign'->>'campaign_id')::uuid
+          )
+          AND (
+            p_filter->'campaign'->'within_days' IS NULL
+            OR r.sent_at >= now() - make_interval(days => (p_filter->'campaign'->>'within_days')::int)
+          )
+          AND CASE p_filter->'campaign'->>'event'
+                WHEN 'read'        THEN r.read_at IS NOT NULL
+                WHEN 'replied'     THEN r.replied_at IS NOT NULL
+                WHEN 'not_replied' THEN r.replied_at IS NULL
+                ELSE true
+              END
+      )
+    );
+$$ LANGUAGE sql STABLE;
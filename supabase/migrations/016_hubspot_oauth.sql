@@ -0,0 +1,13 @@
+-- ============================================================================
+-- HubSpot OAuth
+-- Date: 2026-10-19
+--
+-- Organizations connect their HubSpot portal through OAuth from Settings.
+-- Access tokens are short-lived: the expiry is stored next to them so the
+-- app can refresh them shortly before they run out.
+-- ============================================================================
+
+ALTER TABLE public.crm_organizations
+  ADD COLUMN hubspot_token_expires_at  timestamptz,
+  ADD COLUMN hubspot_connected_at      timestamptz,
+  ADD COLUMN hubspot_connected_by      uuid REFERENCES public.crm_users(id) ON DELETE SET NULL;
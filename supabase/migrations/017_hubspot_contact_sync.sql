@@ -0,0 +1,58 @@
+-- ============================================================================
+-- HubSpot Contact Sync
+-- Date: 2026-10-19
+--
+-- Contacts are linked to HubSpot contacts (matched by phone or email, or
+-- created) and kept in sync both ways. Each organization maps CRM fields to
+-- HubSpot properties and picks how conflicting edits are resolved:
+--   last_write_wins  the most recently modified side wins
+--   crm_wins         HubSpot only fills fields that are empty in the CRM
+-- HubSpot changes are polled; hubspot_synced_until is the poll cursor.
+-- ============================================================================
+
+ALTER TABLE public.crm_organizations
+  ADD COLUMN hubspot_conflict_rule  text NOT NULL DEFAULT 'last_write_wins'
+                                    CHECK (hubspot_conflict_rule IN ('last_write_wins', 'crm_wins')),
+  ADD COLUMN hubspot_synced_until   timestamptz;
+
+ALTER TABLE public.crm_contacts
+  ADD COLUMN hubspot_synced_at   timestamptz,
+  ADD COLUMN hubspot_sync_error  text;  -- last failure; cleared by the next successful sync
+
+CREATE INDEX idx_crm_contacts_hubspot
+  ON public.crm_contacts (org_id, hubspot_contact_id)
+  WHERE hubspot_contact_id IS NOT NULL;
+
+-- ----------------------------------------------------------------------------
+-- Field mappings
+-- crm_field is name, first_name, last_name, email or custom:<key>.
+-- ----------------------------------------------------------------------------
+CREATE TABLE public.crm_hubspot_field_mappings (
+  id                uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id            uuid NOT NULL REFERENCES public.crm_organizations(org_id) ON DELETE CASCADE,
+  crm_field         text NOT NULL CHECK (
+                      crm_field IN ('name', 'first_name', 'last_name', 'email')
+                      OR crm_field ~ '^custom:[a-z][a-z0-9_]*$'
+                    ),
+  hubspot_property  text NOT NULL CHECK (hubspot_property ~ '^[a-z0-9_]+$'),
+  direction         text NOT NULL DEFAULT 'both'
+                    CHECK (direction IN ('both', 'to_hubspot', 'from_hubspot')),
+
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  updated_at  timestamptz NOT NULL DEFAULT now(),
+
+  UNIQUE (org_id, crm_field),
+  UNIQUE (org_id, hubspot_property)
+);
+
+CREATE TRIGGER crm_hubspot_field_mappings_updated_at
+  BEFORE UPDATE ON public.crm_hubspot_field_mappings
+  FOR EACH ROW EXECUTE FUNCTION public.crm_set_updated_at();
+
+ALTER TABLE public.crm_hubspot_field_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "crm_hubspot_field_mappings_select"
+  ON public.crm_hubspot_field_mappings FOR SELECT
+  USING (org_id = public.crm_current_user_org_id());
+
+COMMENT ON TABLE public.crm_hubspot_field_mappings IS 'CRM contact fields synced with HubSpot contact properties, per organization.';
@@ -0,0 +1,46 @@
+-- ============================================================================
+-- HubSpot Conversation Logging and Deals
+-- Date: 2026-10-19
+--
+-- When a conversation is resolved its transcript is posted to HubSpot as a
+-- note on the linked contact; resolving it again updates the same note.
+-- Deal rules create a deal, or advance the contact's open deal, when the
+-- conversation's classification matches (case-insensitively).
+-- ============================================================================
+
+ALTER TABLE public.crm_conversations
+  ADD COLUMN hubspot_note_id    text,
+  ADD COLUMN hubspot_deal_id    text,
+  ADD COLUMN hubspot_log_error  text;  -- last failure; cleared by the next successful log
+
+-- ----------------------------------------------------------------------------
+-- Deal rules
+-- Pipeline and stage labels are copied from HubSpot for display.
+-- ----------------------------------------------------------------------------
+CREATE TABLE public.crm_hubspot_deal_rules (
+  id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id          uuid NOT NULL REFERENCES public.crm_organizations(org_id) ON DELETE CASCADE,
+  classification  text NOT NULL CHECK (length(trim(classification)) > 0),
+  pipeline_id     text NOT NULL,
+  pipeline_label  text NOT NULL,
+  stage_id        text NOT NULL,
+  stage_label     text NOT NULL,
+
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  updated_at  timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_crm_hubspot_deal_rules_classification
+  ON public.crm_hubspot_deal_rules (org_id, lower(classification));
+
+CREATE TRIGGER crm_hubspot_deal_rules_updated_at
+  BEFORE UPDATE ON public.crm_hubspot_deal_rules
+  FOR EACH ROW EXECUTE FUNCTION public.crm_set_updated_at();
+
+ALTER TABLE public.crm_hubspot_deal_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "crm_hubspot_deal_rules_select"
+  ON public.crm_hubspot_deal_rules FOR SELECT
+  USING (org_id = public.crm_current_user_org_id());
+
+COMMENT ON TABLE public.crm_hubspot_deal_rules IS 'Conversation classifications that create or advance a HubSpot deal.';
@@ -0,0 +1,68 @@
+-- ============================================================================
+-- Campaign Recipient Claims
+-- Date: 2026-10-19
+--
+-- The dispatcher claims recipients in small chunks by moving them from
+-- pending to sending in one statement, so a run that outlives its campaign
+-- lock or is killed mid-batch never hands the same recipients to the next
+-- run. A recipient left in sending by a killed run may or may not have been
+-- sent; it is failed rather than retried, so nobody gets the template twice.
+-- ============================================================================
+
+ALTER TABLE public.crm_campaign_recipients
+  DROP CONSTRAINT IF EXISTS crm_campaign_recipients_status_check;
+
+ALTER TABLE public.crm_campaign_recipients
+  ADD CONSTRAINT crm_campaign_recipients_status_check
+  CHECK (status IN ('pending', 'sending', 'sent', 'delivered', 'read', 'failed'));
+
+ALTER TABLE public.crm_campaign_recipients
+  ADD COLUMN claimed_at timestamptz;
+
+-- ----------------------------------------------------------------------------
+-- Dispatcher: claim the next pending recipients of a campaign.
+-- Recipients claimed more than p_stale_after ago belong to a run that died;
+-- they are failed and counted before new ones are claimed.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.crm_claim_campaign_recipients(
+  p_campaign_id uuid,
+  p_limit int,
+  p_stale_after interval DEFAULT interval '10 minutes'
+)
+RETURNS SETOF public.crm_campaign_recipients AS $$
+DECLARE
+  abandoned int;
+BEGIN
+  UPDATE public.crm_campaign_recipients
+  SET status = 'failed',
+      error_message = 'Sending was interrupted; not retried to avoid a duplicate message'
+  WHERE campaign_id = p_campaign_id
+    AND status = 'sending'
+    AND claimed_at < now() - p_stale_after;
+  GET DIAGNOSTICS abandoned = ROW_COUNT;
+
+  IF abandoned > 0 THEN
+    UPDATE public.crm_campaigns
+    SET failed_count = failed_count + abandoned
+    WHERE id = p_campaign_id;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.crm_campaign_recipients r
+  SET status = 'sending',
+      claimed_at = now()
+  WHERE r.id IN (
+    SELECT id
+    FROM public.crm_campaign_recipients
+    WHERE campaign_id = p_campaign_id
+      AND status = 'pending'
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING r.*;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.crm_claim_campaign_recipients(uuid, int, interval)
+  FROM PUBLIC, anon, authenticated;
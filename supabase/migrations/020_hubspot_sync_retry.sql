@@ -0,0 +1,17 @@
+-- ============================================================================
+-- HubSpot Sync Retry
+-- Date: 2026-10-19
+--
+-- A failed contact sync used to stay failed until an edit happened to sync it
+-- again. Temporary failures (rate limits, HubSpot errors, timeouts) are now
+-- retried with a growing delay; hubspot_sync_retry_at is when the contact is
+-- due again, NULL once HubSpot rejected it for good or after the last attempt.
+-- ============================================================================
+
+ALTER TABLE public.crm_contacts
+  ADD COLUMN hubspot_sync_attempts  int NOT NULL DEFAULT 0,
+  ADD COLUMN hubspot_sync_retry_at  timestamptz;
+
+CREATE INDEX idx_crm_contacts_hubspot_retry
+  ON public.crm_contacts (org_id, hubspot_sync_retry_at)
+  WHERE hubspot_contact_id IS NULL AND hubspot_sync_retry_at IS NOT NULL;
@@ -0,0 +1,45 @@
+-- ============================================================================
+-- Campaign Stale Claims
+-- Date: 2026-10-19
+--
+-- Recipients left in sending by a killed dispatcher run go back to pending
+-- instead of failing. A run is usually killed before it reaches most of its
+-- chunk, so failing the whole chunk kept those contacts from ever getting
+-- the campaign.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Dispatcher: claim the next pending recipients of a campaign.
+-- Recipients claimed more than p_stale_after ago belong to a run that died;
+-- they are returned to pending before new ones are claimed.
+-- ----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.crm_claim_campaign_recipients(
+  p_campaign_id uuid,
+  p_limit int,
+  p_stale_after interval DEFAULT interval '10 minutes'
+)
+RETURNS SETOF public.crm_campaign_recipients AS $$
+BEGIN
+  UPDATE public.crm_campaign_recipients
+  SET status = 'pending',
+      claimed_at = NULL
+  WHERE campaign_id = p_campaign_id
+    AND status = 'sending'
+    AND claimed_at < now() - p_stale_after;
+
+  RETURN QUERY
+  UPDATE public.crm_campaign_recipients r
+  SET status = 'sending',
+      claimed_at = now()
+  WHERE r.id IN (
+    SELECT id
+    FROM public.crm_campaign_recipients
+    WHERE campaign_id = p_campaign_id
+      AND status = 'pending'
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING r.*;
+END;
+$$ LANGUAGE plpgsql;